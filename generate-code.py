@@ -64,6 +64,7 @@ def generate_webhook():
                     org.openapitools.codegen.OpenAPIGenerator \\
                     generate \\
                     --global-property apiTest=false,modelDocs=false,apiDocs=false \\
+                    --additional-properties generateSchemas=true \\
                     -e pebble \\
                     --enable-post-process-file \\
                     -g line-bot-sdk-nodejs-generator \\
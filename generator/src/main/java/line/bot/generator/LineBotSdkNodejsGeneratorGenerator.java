@@ -26,6 +26,7 @@ public class LineBotSdkNodejsGeneratorGenerator extends TypeScriptNodeClientCode
     protected String outputTestFolder = "";
     public static final String TEST_OUTPUT = "testOutput";
     public static final String DEFAULT_TEST_FOLDER = "${project.build.directory}/generated-test-sources/openapi";
+    public static final String GENERATE_SCHEMAS = "generateSchemas";
     protected String testFolder = "tests";
 
     /**
@@ -60,6 +61,7 @@ public class LineBotSdkNodejsGeneratorGenerator extends TypeScriptNodeClientCode
         languageSpecificPrimitives.add("Blob");
         apiTestTemplateFiles.put("line-bot-sdk-nodejs-generator/api_test.pebble", ".spec.ts");
         cliOptions.add(CliOption.newString(TEST_OUTPUT, "Set output folder for models and APIs tests").defaultValue(DEFAULT_TEST_FOLDER));
+        cliOptions.add(CliOption.newBoolean(GENERATE_SCHEMAS, "Generate runtime schemas of the models").defaultValue("false"));
         modelTemplateFiles.remove("model.mustache");
         modelTemplateFiles.put("line-bot-sdk-nodejs-generator/model.pebble", ".ts");
         apiTemplateFiles.remove("api-single.mustache");
@@ -78,6 +80,9 @@ public class LineBotSdkNodejsGeneratorGenerator extends TypeScriptNodeClientCode
         supportingFiles.add(new SupportingFile("line-bot-sdk-nodejs-generator/models.pebble", modelPackage().replace('.', File.separatorChar), "models.ts"));
         supportingFiles.add(new SupportingFile("line-bot-sdk-nodejs-generator/api-all.pebble", apiPackage().replace('.', File.separatorChar), "apis.ts"));
         supportingFiles.add(new SupportingFile("line-bot-sdk-nodejs-generator/api.pebble", getIndexDirectory(), "api.ts"));
+        if (Boolean.parseBoolean(String.valueOf(additionalProperties.getOrDefault(GENERATE_SCHEMAS, "false")))) {
+            supportingFiles.add(new SupportingFile("line-bot-sdk-nodejs-generator/schemas.pebble", modelPackage().replace('.', File.separatorChar), "schemas.ts"));
+        }
     }
 
 
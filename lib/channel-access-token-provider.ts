@@ -0,0 +1,156 @@
+import { ChannelAccessTokenClient } from "./channel-access-token/api.js";
+
+/**
+ * Gives channel access tokens to the clients, in place of a fixed token.
+ */
+export interface ChannelAccessTokenProvider {
+  /**
+   * Resolves with a valid token. Called before every attempt of a request.
+   */
+  getToken(): Promise<string>;
+  /**
+   * Called with a token rejected with 401, before the request is retried
+   * once with the token given by `getToken()` again.
+   */
+  invalidate?(token: string): void;
+}
+
+/**
+ * A token issued by `ChannelAccessTokenClient`.
+ */
+export interface IssuedChannelAccessToken {
+  access_token: string;
+  /**
+   * Seconds until the token expires.
+   */
+  expires_in: number;
+}
+
+export interface RefreshingChannelAccessTokenProviderConfig {
+  issue: () => Promise<IssuedChannelAccessToken>;
+  /**
+   * Milliseconds before the expiry when a token is issued again. Defaults
+   * to a minute.
+   */
+  refreshMargin?: number;
+}
+
+/**
+ * Issues tokens on demand, and uses a token until shortly before it expires.
+ * Concurrent requests wait for the same issuance.
+ */
+export class RefreshingChannelAccessTokenProvider
+  implements ChannelAccessTokenProvider
+{
+  private readonly issue: () => Promise<IssuedChannelAccessToken>;
+  private readonly refreshMargin: number;
+
+  private token: { value: string; refreshAt: number } | undefined;
+  private issuing: Promise<string> | undefined;
+
+  constructor(config: RefreshingChannelAccessTokenProviderConfig) {
+    this.issue = config.issue;
+    this.refreshMargin = config.refreshMargin ?? 60 * 1000;
+  }
+
+  public getToken(): Promise<string> {
+    if (this.token && Date.now() < this.token.refreshAt) {
+      return Promise.resolve(this.token.value);
+    }
+    if (!this.issuing) {
+      const issuedAt = Date.now();
+      this.issuing = this.issue().then(
+        issued => {
+          this.issuing = undefined;
+          this.token = {
+            value: issued.access_token,
+            refreshAt: issuedAt + issued.expires_in * 1000 - this.refreshMargin,
+          };
+          return issued.access_token;
+        },
+        err => {
+          this.issuing = undefined;
+          throw err;
+        },
+      );
+    }
+    return this.issuing;
+  }
+
+  public invalidate(token: string): void {
+    // the token may have been refreshed by another request already
+    if (this.token?.value === token) {
+      this.token = undefined;
+    }
+  }
+}
+
+export type ChannelCredentials =
+  | { channelId: string; channelSecret: string }
+  | {
+      /**
+       * Returns a JWT signed with the private key of an assertion signing
+       * key, e.g. of `createClientAssertion()`.
+       */
+      clientAssertion: () => string | Promise<string>;
+    };
+
+export interface ChannelAccessTokenProviderOptions {
+  /**
+   * Client to issue tokens with. Defaults to a new one.
+   */
+  client?: ChannelAccessTokenClient;
+  refreshMargin?: number;
+}
+
+const CLIENT_ASSERTION_TYPE =
+  "urn:ietf:params:oauth:client-assertion-type:jwt-bearer";
+
+/**
+ * Provides stateless channel access tokens, which are valid for 15 minutes,
+ * issued with the channel secret or a client assertion.
+ */
+export function statelessChannelAccessTokenProvider(
+  credentials: ChannelCredentials,
+  options: ChannelAccessTokenProviderOptions = {},
+): RefreshingChannelAccessTokenProvider {
+  const client = options.client ?? new ChannelAccessTokenClient({});
+  return new RefreshingChannelAccessTokenProvider({
+    issue: async () =>
+      "clientAssertion" in credentials
+        ? client.issueStatelessChannelToken(
+            "client_credentials",
+            CLIENT_ASSERTION_TYPE,
+            await credentials.clientAssertion(),
+          )
+        : client.issueStatelessChannelToken(
+            "client_credentials",
+            undefined,
+            undefined,
+            credentials.channelId,
+            credentials.channelSecret,
+          ),
+    refreshMargin: options.refreshMargin,
+  });
+}
+
+/**
+ * Provides channel access tokens v2.1 issued with client assertions. A
+ * channel can have up to 30 valid tokens of v2.1, so share the provider
+ * rather than creating one per process where possible.
+ */
+export function jwtChannelAccessTokenProvider(
+  clientAssertion: () => string | Promise<string>,
+  options: ChannelAccessTokenProviderOptions = {},
+): RefreshingChannelAccessTokenProvider {
+  const client = options.client ?? new ChannelAccessTokenClient({});
+  return new RefreshingChannelAccessTokenProvider({
+    issue: async () =>
+      client.issueChannelTokenByJWT(
+        "client_credentials",
+        CLIENT_ASSERTION_TYPE,
+        await clientAssertion(),
+      ),
+    refreshMargin: options.refreshMargin,
+  });
+}
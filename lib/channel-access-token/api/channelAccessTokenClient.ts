@@ -24,15 +24,16 @@ import { Readable } from "node:stream";
 
 import HTTPFetchClient, {
   convertResponseToReadable,
+  FetchRequestConfig,
+  HTTPClientOptions,
 } from "../../http-fetch.js";
 
 // ===============================================
 // This file is autogenerated - Please do not edit
 // ===============================================
 
-interface httpClientConfig {
+interface httpClientConfig extends HTTPClientOptions {
   baseURL?: string;
-  // TODO support defaultHeaders?
 }
 
 export class ChannelAccessTokenClient {
@@ -41,7 +42,10 @@ export class ChannelAccessTokenClient {
   constructor(config: httpClientConfig) {
     const baseURL = config.baseURL || "https://api.line.me";
     this.httpClient = new HTTPFetchClient({
-      defaultHeaders: {},
+      ...config,
+      defaultHeaders: {
+        ...config.defaultHeaders,
+      },
       baseURL: baseURL,
     });
   }
@@ -63,17 +67,20 @@ export class ChannelAccessTokenClient {
    * Gets all valid channel access token key IDs.
    * @param clientAssertionType `urn:ietf:params:oauth:client-assertion-type:jwt-bearer`
    * @param clientAssertion A JSON Web Token (JWT) (opens new window)the client needs to create and sign with the private key.
+   * @param requestOptions Options of the request, e.g. a signal to abort it, a timeout and extra headers.
    *
    * @see <a href="https://developers.line.biz/en/reference/messaging-api/#get-all-valid-channel-access-token-key-ids-v2-1"> Documentation</a>
    */
   public async getsAllValidChannelAccessTokenKeyIds(
     clientAssertionType: string,
     clientAssertion: string,
+    requestOptions?: FetchRequestConfig,
   ): Promise<ChannelAccessTokenKeyIdsResponse> {
     return (
       await this.getsAllValidChannelAccessTokenKeyIdsWithHttpInfo(
         clientAssertionType,
         clientAssertion,
+        requestOptions,
       )
     ).body;
   }
@@ -83,12 +90,14 @@ export class ChannelAccessTokenClient {
    * This method includes HttpInfo object to return additional information.
    * @param clientAssertionType `urn:ietf:params:oauth:client-assertion-type:jwt-bearer`
    * @param clientAssertion A JSON Web Token (JWT) (opens new window)the client needs to create and sign with the private key.
+   * @param requestOptions Options of the request, e.g. a signal to abort it, a timeout and extra headers.
    *
    * @see <a href="https://developers.line.biz/en/reference/messaging-api/#get-all-valid-channel-access-token-key-ids-v2-1"> Documentation</a>
    */
   public async getsAllValidChannelAccessTokenKeyIdsWithHttpInfo(
     clientAssertionType: string,
     clientAssertion: string,
+    requestOptions?: FetchRequestConfig,
   ): Promise<Types.ApiResponseType<ChannelAccessTokenKeyIdsResponse>> {
     const queryParams = {
       clientAssertionType: clientAssertionType,
@@ -103,6 +112,7 @@ export class ChannelAccessTokenClient {
     const res = await this.httpClient.get(
       "/oauth2/v2.1/tokens/kid",
       queryParams,
+      requestOptions,
     );
     const text = await res.text();
     const parsedBody = text ? JSON.parse(text) : null;
@@ -113,6 +123,7 @@ export class ChannelAccessTokenClient {
    * @param grantType `client_credentials`
    * @param clientId Channel ID.
    * @param clientSecret Channel secret.
+   * @param requestOptions Options of the request, e.g. a signal to abort it, a timeout and extra headers.
    *
    * @see <a href="https://developers.line.biz/en/reference/messaging-api/#issue-shortlived-channel-access-token"> Documentation</a>
    */
@@ -120,12 +131,14 @@ export class ChannelAccessTokenClient {
     grantType: string,
     clientId: string,
     clientSecret: string,
+    requestOptions?: FetchRequestConfig,
   ): Promise<IssueShortLivedChannelAccessTokenResponse> {
     return (
       await this.issueChannelTokenWithHttpInfo(
         grantType,
         clientId,
         clientSecret,
+        requestOptions,
       )
     ).body;
   }
@@ -136,6 +149,7 @@ export class ChannelAccessTokenClient {
    * @param grantType `client_credentials`
    * @param clientId Channel ID.
    * @param clientSecret Channel secret.
+   * @param requestOptions Options of the request, e.g. a signal to abort it, a timeout and extra headers.
    *
    * @see <a href="https://developers.line.biz/en/reference/messaging-api/#issue-shortlived-channel-access-token"> Documentation</a>
    */
@@ -143,6 +157,7 @@ export class ChannelAccessTokenClient {
     grantType: string,
     clientId: string,
     clientSecret: string,
+    requestOptions?: FetchRequestConfig,
   ): Promise<Types.ApiResponseType<IssueShortLivedChannelAccessTokenResponse>> {
     const formParams = {
       grant_type: grantType,
@@ -158,6 +173,7 @@ export class ChannelAccessTokenClient {
     const res = await this.httpClient.postForm(
       "/v2/oauth/accessToken",
       formParams,
+      requestOptions,
     );
     const text = await res.text();
     const parsedBody = text ? JSON.parse(text) : null;
@@ -168,6 +184,7 @@ export class ChannelAccessTokenClient {
    * @param grantType client_credentials
    * @param clientAssertionType urn:ietf:params:oauth:client-assertion-type:jwt-bearer
    * @param clientAssertion A JSON Web Token the client needs to create and sign with the private key of the Assertion Signing Key.
+   * @param requestOptions Options of the request, e.g. a signal to abort it, a timeout and extra headers.
    *
    * @see <a href="https://developers.line.biz/en/reference/messaging-api/#issue-channel-access-token-v2-1"> Documentation</a>
    */
@@ -175,12 +192,14 @@ export class ChannelAccessTokenClient {
     grantType: string,
     clientAssertionType: string,
     clientAssertion: string,
+    requestOptions?: FetchRequestConfig,
   ): Promise<IssueChannelAccessTokenResponse> {
     return (
       await this.issueChannelTokenByJWTWithHttpInfo(
         grantType,
         clientAssertionType,
         clientAssertion,
+        requestOptions,
       )
     ).body;
   }
@@ -191,6 +210,7 @@ export class ChannelAccessTokenClient {
    * @param grantType client_credentials
    * @param clientAssertionType urn:ietf:params:oauth:client-assertion-type:jwt-bearer
    * @param clientAssertion A JSON Web Token the client needs to create and sign with the private key of the Assertion Signing Key.
+   * @param requestOptions Options of the request, e.g. a signal to abort it, a timeout and extra headers.
    *
    * @see <a href="https://developers.line.biz/en/reference/messaging-api/#issue-channel-access-token-v2-1"> Documentation</a>
    */
@@ -198,6 +218,7 @@ export class ChannelAccessTokenClient {
     grantType: string,
     clientAssertionType: string,
     clientAssertion: string,
+    requestOptions?: FetchRequestConfig,
   ): Promise<Types.ApiResponseType<IssueChannelAccessTokenResponse>> {
     const formParams = {
       grant_type: grantType,
@@ -213,6 +234,7 @@ export class ChannelAccessTokenClient {
     const res = await this.httpClient.postForm(
       "/oauth2/v2.1/token",
       formParams,
+      requestOptions,
     );
     const text = await res.text();
     const parsedBody = text ? JSON.parse(text) : null;
@@ -225,6 +247,7 @@ export class ChannelAccessTokenClient {
    * @param clientAssertion A JSON Web Token the client needs to create and sign with the private key of the Assertion Signing Key.
    * @param clientId Channel ID.
    * @param clientSecret Channel secret.
+   * @param requestOptions Options of the request, e.g. a signal to abort it, a timeout and extra headers.
    *
    * @see <a href="https://developers.line.biz/en/reference/messaging-api/#issue-stateless-channel-access-token"> Documentation</a>
    */
@@ -234,6 +257,7 @@ export class ChannelAccessTokenClient {
     clientAssertion?: string,
     clientId?: string,
     clientSecret?: string,
+    requestOptions?: FetchRequestConfig,
   ): Promise<IssueStatelessChannelAccessTokenResponse> {
     return (
       await this.issueStatelessChannelTokenWithHttpInfo(
@@ -242,6 +266,7 @@ export class ChannelAccessTokenClient {
         clientAssertion,
         clientId,
         clientSecret,
+        requestOptions,
       )
     ).body;
   }
@@ -254,6 +279,7 @@ export class ChannelAccessTokenClient {
    * @param clientAssertion A JSON Web Token the client needs to create and sign with the private key of the Assertion Signing Key.
    * @param clientId Channel ID.
    * @param clientSecret Channel secret.
+   * @param requestOptions Options of the request, e.g. a signal to abort it, a timeout and extra headers.
    *
    * @see <a href="https://developers.line.biz/en/reference/messaging-api/#issue-stateless-channel-access-token"> Documentation</a>
    */
@@ -263,6 +289,7 @@ export class ChannelAccessTokenClient {
     clientAssertion?: string,
     clientId?: string,
     clientSecret?: string,
+    requestOptions?: FetchRequestConfig,
   ): Promise<Types.ApiResponseType<IssueStatelessChannelAccessTokenResponse>> {
     const formParams = {
       grant_type: grantType,
@@ -277,7 +304,11 @@ export class ChannelAccessTokenClient {
       }
     });
 
-    const res = await this.httpClient.postForm("/oauth2/v3/token", formParams);
+    const res = await this.httpClient.postForm(
+      "/oauth2/v3/token",
+      formParams,
+      requestOptions,
+    );
     const text = await res.text();
     const parsedBody = text ? JSON.parse(text) : null;
     return { httpResponse: res, body: parsedBody };
@@ -285,24 +316,30 @@ export class ChannelAccessTokenClient {
   /**
    * Revoke short-lived or long-lived channel access token
    * @param accessToken Channel access token
+   * @param requestOptions Options of the request, e.g. a signal to abort it, a timeout and extra headers.
    *
    * @see <a href="https://developers.line.biz/en/reference/messaging-api/#revoke-longlived-or-shortlived-channel-access-token"> Documentation</a>
    */
   public async revokeChannelToken(
     accessToken: string,
+    requestOptions?: FetchRequestConfig,
   ): Promise<Types.MessageAPIResponseBase> {
-    return (await this.revokeChannelTokenWithHttpInfo(accessToken)).body;
+    return (
+      await this.revokeChannelTokenWithHttpInfo(accessToken, requestOptions)
+    ).body;
   }
 
   /**
    * Revoke short-lived or long-lived channel access token.
    * This method includes HttpInfo object to return additional information.
    * @param accessToken Channel access token
+   * @param requestOptions Options of the request, e.g. a signal to abort it, a timeout and extra headers.
    *
    * @see <a href="https://developers.line.biz/en/reference/messaging-api/#revoke-longlived-or-shortlived-channel-access-token"> Documentation</a>
    */
   public async revokeChannelTokenWithHttpInfo(
     accessToken: string,
+    requestOptions?: FetchRequestConfig,
   ): Promise<Types.ApiResponseType<Types.MessageAPIResponseBase>> {
     const formParams = {
       access_token: accessToken,
@@ -313,7 +350,11 @@ export class ChannelAccessTokenClient {
       }
     });
 
-    const res = await this.httpClient.postForm("/v2/oauth/revoke", formParams);
+    const res = await this.httpClient.postForm(
+      "/v2/oauth/revoke",
+      formParams,
+      requestOptions,
+    );
     const text = await res.text();
     const parsedBody = text ? JSON.parse(text) : null;
     return { httpResponse: res, body: parsedBody };
@@ -323,6 +364,7 @@ export class ChannelAccessTokenClient {
    * @param clientId Channel ID
    * @param clientSecret Channel Secret
    * @param accessToken Channel access token
+   * @param requestOptions Options of the request, e.g. a signal to abort it, a timeout and extra headers.
    *
    * @see <a href="https://developers.line.biz/en/reference/messaging-api/#revoke-channel-access-token-v2-1"> Documentation</a>
    */
@@ -330,12 +372,14 @@ export class ChannelAccessTokenClient {
     clientId: string,
     clientSecret: string,
     accessToken: string,
+    requestOptions?: FetchRequestConfig,
   ): Promise<Types.MessageAPIResponseBase> {
     return (
       await this.revokeChannelTokenByJWTWithHttpInfo(
         clientId,
         clientSecret,
         accessToken,
+        requestOptions,
       )
     ).body;
   }
@@ -346,6 +390,7 @@ export class ChannelAccessTokenClient {
    * @param clientId Channel ID
    * @param clientSecret Channel Secret
    * @param accessToken Channel access token
+   * @param requestOptions Options of the request, e.g. a signal to abort it, a timeout and extra headers.
    *
    * @see <a href="https://developers.line.biz/en/reference/messaging-api/#revoke-channel-access-token-v2-1"> Documentation</a>
    */
@@ -353,6 +398,7 @@ export class ChannelAccessTokenClient {
     clientId: string,
     clientSecret: string,
     accessToken: string,
+    requestOptions?: FetchRequestConfig,
   ): Promise<Types.ApiResponseType<Types.MessageAPIResponseBase>> {
     const formParams = {
       client_id: clientId,
@@ -368,6 +414,7 @@ export class ChannelAccessTokenClient {
     const res = await this.httpClient.postForm(
       "/oauth2/v2.1/revoke",
       formParams,
+      requestOptions,
     );
     const text = await res.text();
     const parsedBody = text ? JSON.parse(text) : null;
@@ -376,24 +423,30 @@ export class ChannelAccessTokenClient {
   /**
    * Verify the validity of short-lived and long-lived channel access tokens
    * @param accessToken A short-lived or long-lived channel access token.
+   * @param requestOptions Options of the request, e.g. a signal to abort it, a timeout and extra headers.
    *
    * @see <a href="https://developers.line.biz/en/reference/messaging-api/#verify-channel-access-token"> Documentation</a>
    */
   public async verifyChannelToken(
     accessToken: string,
+    requestOptions?: FetchRequestConfig,
   ): Promise<VerifyChannelAccessTokenResponse> {
-    return (await this.verifyChannelTokenWithHttpInfo(accessToken)).body;
+    return (
+      await this.verifyChannelTokenWithHttpInfo(accessToken, requestOptions)
+    ).body;
   }
 
   /**
    * Verify the validity of short-lived and long-lived channel access tokens.
    * This method includes HttpInfo object to return additional information.
    * @param accessToken A short-lived or long-lived channel access token.
+   * @param requestOptions Options of the request, e.g. a signal to abort it, a timeout and extra headers.
    *
    * @see <a href="https://developers.line.biz/en/reference/messaging-api/#verify-channel-access-token"> Documentation</a>
    */
   public async verifyChannelTokenWithHttpInfo(
     accessToken: string,
+    requestOptions?: FetchRequestConfig,
   ): Promise<Types.ApiResponseType<VerifyChannelAccessTokenResponse>> {
     const formParams = {
       access_token: accessToken,
@@ -404,7 +457,11 @@ export class ChannelAccessTokenClient {
       }
     });
 
-    const res = await this.httpClient.postForm("/v2/oauth/verify", formParams);
+    const res = await this.httpClient.postForm(
+      "/v2/oauth/verify",
+      formParams,
+      requestOptions,
+    );
     const text = await res.text();
     const parsedBody = text ? JSON.parse(text) : null;
     return { httpResponse: res, body: parsedBody };
@@ -412,24 +469,33 @@ export class ChannelAccessTokenClient {
   /**
    * You can verify whether a Channel access token with a user-specified expiration (Channel Access Token v2.1) is valid.
    * @param accessToken Channel access token with a user-specified expiration (Channel Access Token v2.1).
+   * @param requestOptions Options of the request, e.g. a signal to abort it, a timeout and extra headers.
    *
    * @see <a href="https://developers.line.biz/en/reference/messaging-api/#verify-channel-access-token-v2-1"> Documentation</a>
    */
   public async verifyChannelTokenByJWT(
     accessToken: string,
+    requestOptions?: FetchRequestConfig,
   ): Promise<VerifyChannelAccessTokenResponse> {
-    return (await this.verifyChannelTokenByJWTWithHttpInfo(accessToken)).body;
+    return (
+      await this.verifyChannelTokenByJWTWithHttpInfo(
+        accessToken,
+        requestOptions,
+      )
+    ).body;
   }
 
   /**
    * You can verify whether a Channel access token with a user-specified expiration (Channel Access Token v2.1) is valid..
    * This method includes HttpInfo object to return additional information.
    * @param accessToken Channel access token with a user-specified expiration (Channel Access Token v2.1).
+   * @param requestOptions Options of the request, e.g. a signal to abort it, a timeout and extra headers.
    *
    * @see <a href="https://developers.line.biz/en/reference/messaging-api/#verify-channel-access-token-v2-1"> Documentation</a>
    */
   public async verifyChannelTokenByJWTWithHttpInfo(
     accessToken: string,
+    requestOptions?: FetchRequestConfig,
   ): Promise<Types.ApiResponseType<VerifyChannelAccessTokenResponse>> {
     const queryParams = {
       accessToken: accessToken,
@@ -440,7 +506,11 @@ export class ChannelAccessTokenClient {
       }
     });
 
-    const res = await this.httpClient.get("/oauth2/v2.1/verify", queryParams);
+    const res = await this.httpClient.get(
+      "/oauth2/v2.1/verify",
+      queryParams,
+      requestOptions,
+    );
     const text = await res.text();
     const parsedBody = text ? JSON.parse(text) : null;
     return { httpResponse: res, body: parsedBody };
@@ -0,0 +1,124 @@
+import { Buffer } from "node:buffer";
+import type { JsonWebKey } from "node:crypto";
+import {
+  createPrivateKey,
+  generateKeyPair,
+  KeyObject,
+  sign,
+} from "node:crypto";
+import { promisify } from "node:util";
+
+const AUDIENCE = "https://api.line.me/";
+
+const MAX_EXPIRES_IN = 30 * 60;
+const MAX_TOKEN_EXPIRES_IN = 30 * 24 * 60 * 60;
+
+export interface ClientAssertionConfig {
+  channelId: string;
+  /**
+   * `kid` of the assertion signing key, given when the public key is
+   * registered in the LINE Developers Console.
+   */
+  kid: string;
+  /**
+   * Private key of the assertion signing key, as a JWK or a PEM.
+   */
+  privateKey: JsonWebKey | string | KeyObject;
+  /**
+   * Seconds until the assertion expires, up to 30 minutes. Defaults to 30
+   * minutes.
+   */
+  expiresIn?: number;
+  /**
+   * Seconds until the channel access token issued with the assertion
+   * expires, up to 30 days. Defaults to 30 days.
+   */
+  tokenExpiresIn?: number;
+}
+
+export interface AssertionSigningKeyPair {
+  /**
+   * Registered in the LINE Developers Console.
+   */
+  publicKey: JsonWebKey;
+  /**
+   * Kept secret, to sign assertions with.
+   */
+  privateKey: JsonWebKey;
+}
+
+function encode(value: object): string {
+  return Buffer.from(JSON.stringify(value)).toString("base64url");
+}
+
+function toKeyObject(key: ClientAssertionConfig["privateKey"]): KeyObject {
+  if (key instanceof KeyObject) {
+    return key;
+  }
+  return typeof key === "string"
+    ? createPrivateKey(key)
+    : createPrivateKey({ key, format: "jwk" });
+}
+
+function checkSeconds(name: string, value: number, max: number): void {
+  if (!Number.isInteger(value) || value <= 0 || value > max) {
+    throw new RangeError(`${name} must be an integer of 1 to ${max} seconds`);
+  }
+}
+
+/**
+ * Creates a JWT assertion, signed with RS256, to issue channel access tokens
+ * v2.1 and stateless tokens, and to get or revoke tokens v2.1, e.g.
+ *
+ * ```
+ * jwtChannelAccessTokenProvider(() =>
+ *   createClientAssertion({ channelId, kid, privateKey }),
+ * );
+ * ```
+ */
+export function createClientAssertion(config: ClientAssertionConfig): string {
+  const expiresIn = config.expiresIn ?? MAX_EXPIRES_IN;
+  const tokenExpiresIn = config.tokenExpiresIn ?? MAX_TOKEN_EXPIRES_IN;
+  checkSeconds("expiresIn", expiresIn, MAX_EXPIRES_IN);
+  checkSeconds("tokenExpiresIn", tokenExpiresIn, MAX_TOKEN_EXPIRES_IN);
+
+  const key = toKeyObject(config.privateKey);
+  if (key.asymmetricKeyType !== "rsa") {
+    throw new TypeError("the assertion signing key must be an RSA key");
+  }
+
+  const input = [
+    encode({ alg: "RS256", typ: "JWT", kid: config.kid }),
+    encode({
+      iss: config.channelId,
+      sub: config.channelId,
+      aud: AUDIENCE,
+      exp: Math.floor(Date.now() / 1000) + expiresIn,
+      token_exp: tokenExpiresIn,
+    }),
+  ].join(".");
+  const signature = sign("sha256", Buffer.from(input), key);
+  return `${input}.${signature.toString("base64url")}`;
+}
+
+/**
+ * Generates a 2048-bit RSA key pair for an assertion signing key. Register
+ * `publicKey` in the LINE Developers Console to get its `kid`.
+ */
+export async function generateAssertionSigningKeyPair(): Promise<AssertionSigningKeyPair> {
+  const { publicKey, privateKey } = await promisify(generateKeyPair)("rsa", {
+    modulusLength: 2048,
+  });
+  return {
+    publicKey: {
+      ...publicKey.export({ format: "jwk" }),
+      alg: "RS256",
+      use: "sig",
+    },
+    privateKey: {
+      ...privateKey.export({ format: "jwk" }),
+      alg: "RS256",
+      use: "sig",
+    },
+  };
+}
@@ -1,3 +1,10 @@
+import type {
+  ErrorDetail,
+  ErrorResponse,
+} from "./messaging-api/model/models.js";
+import type { SendResult } from "./reply-context.js";
+import type { WebhookValidationDiagnostic } from "./webhook-validation.js";
+
 type Message = string;
 
 interface Status {
@@ -10,6 +17,30 @@ interface ErrorDetails {
   raw?: any;
 }
 
+interface ValidationErrorDetails {
+  diagnostics: WebhookValidationDiagnostic[];
+}
+
+interface PostbackDataErrorDetails {
+  data: string;
+}
+
+interface TextMessageV2ErrorDetails {
+  text: string;
+}
+
+interface CassetteErrorDetails {
+  method: string;
+  url: string;
+}
+
+interface ReplyBatchErrorDetails {
+  results: SendResult[];
+  retryKey: string;
+  deliveryUnknown?: boolean;
+  originalError: unknown;
+}
+
 interface FetchErrorDetails extends Status {
   headers: Headers;
   body: string;
@@ -45,6 +76,89 @@ export class JSONParseError extends Error {
   }
 }
 
+export class WebhookValidationError extends Error {
+  public diagnostics: WebhookValidationDiagnostic[];
+
+  constructor(message: Message, { diagnostics }: ValidationErrorDetails) {
+    super(message);
+    this.name = this.constructor.name;
+
+    Object.assign(this, { diagnostics });
+  }
+}
+
+export class PostbackDataError extends Error {
+  public data: string;
+
+  constructor(message: Message, { data }: PostbackDataErrorDetails) {
+    super(message);
+    this.name = this.constructor.name;
+
+    Object.assign(this, { data });
+  }
+}
+
+export class TextMessageV2Error extends Error {
+  public text: string;
+
+  constructor(message: Message, { text }: TextMessageV2ErrorDetails) {
+    super(message);
+    this.name = this.constructor.name;
+
+    Object.assign(this, { text });
+  }
+}
+
+export class CassetteError extends Error {
+  public method: string;
+
+  public url: string;
+
+  constructor(message: Message, { method, url }: CassetteErrorDetails) {
+    super(message);
+    this.name = this.constructor.name;
+
+    Object.assign(this, { method, url });
+  }
+}
+
+export class ReplyBatchError extends Error {
+  /**
+   * Results of the messages sent before the failure.
+   */
+  public results: SendResult[];
+
+  /**
+   * Retry key of the messages not sent: the failed push used it, and the
+   * next `flush()` uses it again for them.
+   */
+  public retryKey: string;
+
+  /**
+   * Whether the failed request was a reply that may have been delivered,
+   * e.g. it timed out. Its messages were removed from the batch rather than
+   * pushed on the next `flush()`.
+   */
+  public deliveryUnknown: boolean;
+
+  public originalError: unknown;
+
+  constructor(
+    message: Message,
+    {
+      results,
+      retryKey,
+      deliveryUnknown = false,
+      originalError,
+    }: ReplyBatchErrorDetails,
+  ) {
+    super(message);
+    this.name = this.constructor.name;
+
+    Object.assign(this, { results, retryKey, deliveryUnknown, originalError });
+  }
+}
+
 /* Deprecated */
 export class RequestError extends Error {
   public code: string;
@@ -88,6 +202,31 @@ export class HTTPError extends Error {
   }
 }
 
+export interface HTTPFetchErrorDetail extends ErrorDetail {
+  /**
+   * Index of the message the detail is about, e.g. 2 for the property
+   * `messages[2].text` of a request sending messages.
+   */
+  messageIndex?: number;
+}
+
+function parseErrorResponse(body: string): ErrorResponse | undefined {
+  try {
+    const parsed = JSON.parse(body);
+    if (parsed && typeof parsed.message === "string") {
+      return parsed;
+    }
+  } catch {
+    // not a JSON error response, e.g. of a proxy
+  }
+  return undefined;
+}
+
+function toDetail(detail: ErrorDetail): HTTPFetchErrorDetail {
+  const match = /^messages\[(\d+)\]/.exec(detail.property ?? "");
+  return match ? { ...detail, messageIndex: Number(match[1]) } : detail;
+}
+
 export class HTTPFetchError extends Error {
   public status: number;
 
@@ -97,6 +236,22 @@ export class HTTPFetchError extends Error {
 
   public body: string;
 
+  /**
+   * `x-line-request-id` of the response.
+   */
+  public requestId?: string;
+
+  /**
+   * The body parsed as an error response, if it is one.
+   */
+  public error?: ErrorResponse;
+
+  /**
+   * `details` of the error response, with the indexes of the messages they
+   * are about.
+   */
+  public details: HTTPFetchErrorDetail[];
+
   constructor(
     message: Message,
     { status, statusText, headers, body }: FetchErrorDetails,
@@ -104,6 +259,49 @@ export class HTTPFetchError extends Error {
     super(message);
     this.name = this.constructor.name;
 
-    Object.assign(this, { status, statusText, headers, body });
+    const error = parseErrorResponse(body);
+    Object.assign(this, {
+      status,
+      statusText,
+      headers,
+      body,
+      requestId: headers?.get("x-line-request-id") ?? undefined,
+      error,
+      details: (error?.details ?? []).map(toDetail),
+    });
+  }
+
+  /**
+   * Indexes of the messages the details are about, without duplicates.
+   */
+  public get messageIndexes(): number[] {
+    return [
+      ...new Set(
+        this.details
+          .map(detail => detail.messageIndex)
+          .filter((index): index is number => index !== undefined),
+      ),
+    ];
   }
 }
+
+/** 400 Bad Request */
+export class BadRequestError extends HTTPFetchError {}
+
+/** 401 Unauthorized */
+export class UnauthorizedError extends HTTPFetchError {}
+
+/** 403 Forbidden */
+export class ForbiddenError extends HTTPFetchError {}
+
+/** 404 Not Found */
+export class NotFoundError extends HTTPFetchError {}
+
+/** 409 Conflict */
+export class ConflictError extends HTTPFetchError {}
+
+/** 429 Too Many Requests */
+export class RateLimitError extends HTTPFetchError {}
+
+/** 5xx */
+export class ServerError extends HTTPFetchError {}
@@ -0,0 +1,93 @@
+import { JSONParseError, SignatureValidationFailed } from "./exceptions.js";
+import * as Types from "./types.js";
+import validateSignatureWeb from "./validate-signature-web.js";
+import * as webhook from "./webhook/api.js";
+
+export type FetchHandler = (request: Request) => Promise<Response>;
+
+/**
+ * Called with the parsed webhook request body. When it returns nothing, the
+ * handler responds with `200 OK`.
+ */
+export type FetchWebhookCallback = (
+  body: webhook.CallbackRequest,
+  request: Request,
+) => Response | void | Promise<Response | void>;
+
+export interface FetchHandlerConfig extends Types.MiddlewareConfig {
+  /**
+   * Turns an error raised while validating and parsing the request into a
+   * response. By default, `SignatureValidationFailed` results in `401` and
+   * `JSONParseError` in `400`.
+   */
+  onError?: (err: Error, request: Request) => Response | Promise<Response>;
+}
+
+function defaultErrorResponse(err: Error): Response {
+  if (err instanceof SignatureValidationFailed) {
+    return new Response(err.message, { status: 401 });
+  } else if (err instanceof JSONParseError) {
+    return new Response(err.message, { status: 400 });
+  }
+  throw err;
+}
+
+/**
+ * Creates a webhook handler for runtimes built on the Fetch API, such as
+ * Cloudflare Workers, Deno, Bun and Next.js route handlers. It validates the
+ * signature like `middleware()` does, but with WebCrypto.
+ *
+ * ```ts
+ * const handle = fetchHandler({ channelSecret }, async body => {
+ *   await webhookHandler.handle(body);
+ * });
+ *
+ * export default { fetch: handle };
+ * ```
+ */
+export default function fetchHandler(
+  config: FetchHandlerConfig,
+  callback: FetchWebhookCallback,
+): FetchHandler {
+  if (!config.channelSecret) {
+    throw new Error("no channel secret");
+  }
+
+  const secret = config.channelSecret;
+  const onError = config.onError || defaultErrorResponse;
+
+  const parse = async (request: Request): Promise<webhook.CallbackRequest> => {
+    const signature = request.headers.get(
+      Types.LINE_SIGNATURE_HTTP_HEADER_NAME,
+    );
+    if (!signature) {
+      throw new SignatureValidationFailed("no signature");
+    }
+
+    const body = new Uint8Array(await request.arrayBuffer());
+    if (!(await validateSignatureWeb(body, secret, signature))) {
+      throw new SignatureValidationFailed("signature validation failed", {
+        signature,
+      });
+    }
+
+    const strBody = new TextDecoder().decode(body);
+    try {
+      return JSON.parse(strBody);
+    } catch (err) {
+      throw new JSONParseError(err.message, { raw: strBody });
+    }
+  };
+
+  return async request => {
+    let body: webhook.CallbackRequest;
+    try {
+      body = await parse(request);
+    } catch (err) {
+      return onError(err, request);
+    }
+
+    const response = await callback(body, request);
+    return response || new Response(null, { status: 200 });
+  };
+}
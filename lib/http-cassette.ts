@@ -0,0 +1,323 @@
+import { Buffer } from "node:buffer";
+import { readFile, writeFile } from "node:fs/promises";
+import { CassetteError } from "./exceptions.js";
+import {
+  fieldSet,
+  matchesField,
+  redactFields,
+  redactHeaders,
+  SECRET_FIELDS,
+} from "./request-logging.js";
+
+export interface CassetteBody {
+  /**
+   * `utf8` for texts such as JSON and forms, `base64` for binaries.
+   */
+  encoding: "utf8" | "base64";
+  data: string;
+}
+
+export interface CassetteRequest {
+  method: string;
+  url: string;
+  headers: Record<string, string>;
+  body?: CassetteBody;
+}
+
+export interface CassetteResponse {
+  status: number;
+  statusText: string;
+  headers: Record<string, string>;
+  body?: CassetteBody;
+}
+
+export interface CassetteInteraction {
+  request: CassetteRequest;
+  response: CassetteResponse;
+}
+
+export interface Cassette {
+  interactions: CassetteInteraction[];
+}
+
+/**
+ * - `record`: requests are sent with `fetch`, and the interactions are
+ *   written to the cassette by `save()`.
+ * - `replay`: responses are served from the cassette, without network.
+ */
+export type CassetteMode = "record" | "replay";
+
+/**
+ * - `strict`: the method, the URL with its query and the body must match.
+ * - `loose`: the method and the path must match.
+ */
+export type CassetteMatching = "strict" | "loose";
+
+export interface HTTPCassetteOptions {
+  /**
+   * Path of the cassette, a JSON file.
+   */
+  path: string;
+  mode: CassetteMode;
+  /**
+   * Defaults to `strict`.
+   */
+  matching?: CassetteMatching;
+  /**
+   * `fetch` to send requests with in `record` mode. Defaults to the global
+   * `fetch`.
+   */
+  fetch?: typeof fetch;
+  /**
+   * Called with every request before it is recorded or matched, to scrub
+   * more than tokens and channel secrets, e.g. user IDs.
+   */
+  scrubRequest?: (request: CassetteRequest) => CassetteRequest;
+  /**
+   * Called with every response before it is recorded.
+   */
+  scrubResponse?: (response: CassetteResponse) => CassetteResponse;
+}
+
+const SECRET_FIELD_SET = fieldSet(SECRET_FIELDS);
+
+const TEXT_CONTENT_TYPE = /^(text\/|application\/(json|x-www-form-urlencoded))/;
+
+function headersToRecord(headers: Headers): Record<string, string> {
+  const record: Record<string, string> = {};
+  headers.forEach((value, name) => {
+    record[name] = value;
+  });
+  return record;
+}
+
+function scrubURL(url: string): string {
+  const parsed = new URL(url);
+  for (const key of parsed.searchParams.keys()) {
+    if (matchesField(SECRET_FIELD_SET, key)) {
+      parsed.searchParams.set(key, "***");
+    }
+  }
+  return parsed.toString();
+}
+
+function scrubText(text: string, contentType: string): string {
+  if (contentType.startsWith("application/x-www-form-urlencoded")) {
+    const params = new URLSearchParams(text);
+    for (const key of params.keys()) {
+      if (matchesField(SECRET_FIELD_SET, key)) {
+        params.set(key, "***");
+      }
+    }
+    return params.toString();
+  }
+  if (contentType.includes("json")) {
+    try {
+      return JSON.stringify(redactFields(JSON.parse(text), SECRET_FIELD_SET));
+    } catch {
+      // not JSON after all
+    }
+  }
+  return text;
+}
+
+/**
+ * Reads a body to record it. The random boundary of multipart bodies is
+ * replaced, so that they match across runs.
+ */
+async function readBody(
+  message: Request | Response,
+  headers: Record<string, string>,
+): Promise<CassetteBody | undefined> {
+  const bytes = Buffer.from(await message.arrayBuffer());
+  if (bytes.length === 0) {
+    return undefined;
+  }
+  const contentType = headers["content-type"] ?? "";
+  const boundary = /boundary=([^;]+)/.exec(contentType)?.[1];
+  if (boundary) {
+    headers["content-type"] = contentType.replace(boundary, "BOUNDARY");
+    return {
+      encoding: "base64",
+      data: Buffer.from(
+        bytes.toString("latin1").split(boundary).join("BOUNDARY"),
+        "latin1",
+      ).toString("base64"),
+    };
+  }
+  if (TEXT_CONTENT_TYPE.test(contentType)) {
+    return {
+      encoding: "utf8",
+      data: scrubText(bytes.toString("utf8"), contentType),
+    };
+  }
+  return { encoding: "base64", data: bytes.toString("base64") };
+}
+
+async function toCassetteRequest(request: Request): Promise<CassetteRequest> {
+  const headers = redactHeaders(headersToRecord(request.headers));
+  const body = await readBody(request.clone(), headers);
+  return {
+    method: request.method,
+    url: scrubURL(request.url),
+    headers,
+    ...(body ? { body } : {}),
+  };
+}
+
+function describeRequest(request: CassetteRequest): string {
+  return `${request.method} ${request.url}`;
+}
+
+/**
+ * Records the interactions of the clients with the API to a cassette, and
+ * replays them, e.g. in tests without network. Give `fetch` to the clients.
+ *
+ * Tokens and secrets in the `Authorization` header, queries and bodies are
+ * scrubbed before recording.
+ */
+export class HTTPCassette {
+  private readonly options: HTTPCassetteOptions;
+  private interactions: Promise<CassetteInteraction[]> | undefined;
+  private readonly recorded: CassetteInteraction[] = [];
+  private readonly used = new Set<CassetteInteraction>();
+
+  constructor(options: HTTPCassetteOptions) {
+    if (!options.path) {
+      throw new Error("no path");
+    }
+    this.options = options;
+  }
+
+  public readonly fetch: typeof fetch = async (input, init) => {
+    const request = new Request(input, init);
+    return this.options.mode === "record"
+      ? this.record(request)
+      : this.replay(request);
+  };
+
+  /**
+   * Writes the recorded interactions to the cassette, replacing it.
+   */
+  public async save(): Promise<void> {
+    if (this.options.mode !== "record") {
+      throw new Error("cassettes are saved only in record mode");
+    }
+    const cassette: Cassette = { interactions: this.recorded };
+    await writeFile(
+      this.options.path,
+      JSON.stringify(cassette, null, 2) + "\n",
+    );
+  }
+
+  /**
+   * Interactions of the cassette not replayed yet.
+   */
+  public async unusedInteractions(): Promise<CassetteInteraction[]> {
+    return (await this.load()).filter(
+      interaction => !this.used.has(interaction),
+    );
+  }
+
+  private async record(request: Request): Promise<Response> {
+    const recordedRequest = await this.toCassetteRequest(request);
+    const response = await (this.options.fetch ?? fetch)(request);
+
+    const headers = headersToRecord(response.headers);
+    const recordedHeaders = { ...headers };
+    // fetch has decoded the body already
+    delete recordedHeaders["content-encoding"];
+    delete recordedHeaders["content-length"];
+    const bytes = await response.arrayBuffer();
+    const body = await readBody(
+      new Response(bytes, { headers: response.headers }),
+      recordedHeaders,
+    );
+    const recordedResponse: CassetteResponse = {
+      status: response.status,
+      statusText: response.statusText,
+      headers: recordedHeaders,
+      ...(body ? { body } : {}),
+    };
+    this.recorded.push({
+      request: recordedRequest,
+      response: this.options.scrubResponse
+        ? this.options.scrubResponse(recordedResponse)
+        : recordedResponse,
+    });
+
+    // the body is read; the caller gets the original one
+    return new Response(bytes.byteLength > 0 ? bytes : null, {
+      status: response.status,
+      statusText: response.statusText,
+      headers,
+    });
+  }
+
+  private async replay(request: Request): Promise<Response> {
+    const interactions = await this.load();
+    const actual = await this.toCassetteRequest(request);
+    const strict = (this.options.matching ?? "strict") === "strict";
+
+    const interaction = interactions.find(
+      interaction =>
+        !this.used.has(interaction) &&
+        this.matches(interaction.request, actual, strict),
+    );
+    if (!interaction) {
+      const unused = interactions
+        .filter(interaction => !this.used.has(interaction))
+        .map(interaction => `  ${describeRequest(interaction.request)}`);
+      throw new CassetteError(
+        `no interaction in ${this.options.path} matches ${describeRequest(actual)}` +
+          (unused.length > 0
+            ? `; unused interactions:\n${unused.join("\n")}`
+            : "; all interactions are used"),
+        { method: actual.method, url: actual.url },
+      );
+    }
+    this.used.add(interaction);
+
+    const { status, statusText, headers, body } = interaction.response;
+    return new Response(body ? Buffer.from(body.data, body.encoding) : null, {
+      status,
+      statusText,
+      headers,
+    });
+  }
+
+  private async toCassetteRequest(request: Request): Promise<CassetteRequest> {
+    const recorded = await toCassetteRequest(request);
+    return this.options.scrubRequest
+      ? this.options.scrubRequest(recorded)
+      : recorded;
+  }
+
+  private matches(
+    recorded: CassetteRequest,
+    actual: CassetteRequest,
+    strict: boolean,
+  ): boolean {
+    if (recorded.method !== actual.method) {
+      return false;
+    }
+    if (!strict) {
+      return new URL(recorded.url).pathname === new URL(actual.url).pathname;
+    }
+    return (
+      recorded.url === actual.url && recorded.body?.data === actual.body?.data
+    );
+  }
+
+  private load(): Promise<CassetteInteraction[]> {
+    if (this.options.mode === "record") {
+      return Promise.resolve(this.recorded);
+    }
+    if (!this.interactions) {
+      this.interactions = readFile(this.options.path, "utf8").then(
+        text => (JSON.parse(text) as Cassette).interactions,
+      );
+    }
+    return this.interactions;
+  }
+}
@@ -1,26 +1,336 @@
 import { Buffer } from "node:buffer";
+import { randomUUID } from "node:crypto";
 import { Readable } from "node:stream";
-import { HTTPFetchError } from "./exceptions.js";
+import type { ChannelAccessTokenProvider } from "./channel-access-token-provider.js";
+import {
+  BadRequestError,
+  ConflictError,
+  ForbiddenError,
+  HTTPFetchError,
+  NotFoundError,
+  RateLimitError,
+  ServerError,
+  UnauthorizedError,
+} from "./exceptions.js";
+import type { Instrumentation } from "./instrumentation.js";
+import { startSpan } from "./instrumentation.js";
+import type { RateLimiter } from "./rate-limiter.js";
+import type { RequestLoggingOptions } from "./request-logging.js";
+import { RequestLogger } from "./request-logging.js";
+import { sleep } from "./utils.js";
 import { USER_AGENT } from "./version.js";
 
+/**
+ * Options of a request, given as the last argument of every method of the
+ * generated clients.
+ */
 export interface FetchRequestConfig {
   headers?: Record<string, string>;
+  /**
+   * Aborts the request.
+   */
+  signal?: AbortSignal;
+  /**
+   * Aborts the request with a `TimeoutError` after the time in milliseconds,
+   * including retries and reading the response body.
+   */
+  timeoutMs?: number;
 }
 
-interface httpFetchClientConfig {
+/**
+ * Options of a request given by the generated clients.
+ */
+interface HTTPFetchRequestConfig extends FetchRequestConfig {
+  /**
+   * Path template of the endpoint, when the path has parameters.
+   */
+  pathTemplate?: string;
+}
+
+export interface RetryPolicy {
+  /**
+   * Maximum number of attempts, including the first one. Defaults to 3.
+   */
+  maxAttempts?: number;
+  /**
+   * Base of the exponential backoff in milliseconds. Defaults to 1000.
+   */
+  baseDelay?: number;
+  /**
+   * Longest delay in milliseconds. A request isn't retried when
+   * `Retry-After` asks for longer. Defaults to 30 seconds.
+   */
+  maxDelay?: number;
+  /**
+   * Whether a response of `status` is retried. Defaults to 429 and 5xx.
+   */
+  retryOn?: (status: number) => boolean;
+}
+
+/**
+ * A request about to be sent. Request interceptors may change it.
+ */
+export interface FetchRequest {
+  url: URL;
+  method: string;
+  headers: Record<string, string>;
+  body?: BodyInit;
+  signal?: AbortSignal;
+}
+
+/**
+ * Called before every attempt of a request. Return a request to send it
+ * instead, or change the given one.
+ */
+export type RequestInterceptor = (
+  request: FetchRequest,
+) => FetchRequest | void | Promise<FetchRequest | void>;
+
+/**
+ * Called with the response of every attempt, before its status is checked.
+ * Return a response to use it instead.
+ */
+export type ResponseInterceptor = (
+  response: Response,
+  request: FetchRequest,
+) => Response | void | Promise<Response | void>;
+
+/**
+ * Options of the HTTP layer, accepted by every generated API client.
+ */
+export interface HTTPClientOptions {
+  /**
+   * `fetch` to send requests with, e.g. to go through a proxy. Defaults to
+   * the global `fetch`.
+   */
+  fetch?: typeof fetch;
+  /**
+   * Headers sent with every request.
+   */
+  defaultHeaders?: Record<string, string>;
+  /**
+   * Run in order before every attempt of a request.
+   */
+  requestInterceptors?: RequestInterceptor[];
+  /**
+   * Run in order with the response of every attempt.
+   */
+  responseInterceptors?: ResponseInterceptor[];
+  /**
+   * Retries failed requests. GET, PUT and DELETE requests, and POST requests
+   * with `X-Line-Retry-Key` are retried; the key is set to push, multicast,
+   * narrowcast and broadcast requests when not given.
+   */
+  retry?: RetryPolicy;
+  /**
+   * Queues every attempt of a request until it is within the rate limits.
+   * Share an instance between the clients of a channel.
+   */
+  rateLimiter?: RateLimiter;
+  /**
+   * Hooks called for every call, e.g. to trace it.
+   */
+  instrumentation?: Instrumentation;
+  /**
+   * Logs every attempt of a request and its response, with credentials and
+   * personal data redacted.
+   */
+  logging?: RequestLoggingOptions;
+}
+
+/**
+ * State of a call, over its attempts.
+ */
+interface ApiCall {
+  path: string;
+  attempts: number;
+  /**
+   * Response of the last attempt, if it got one.
+   */
+  response?: Response;
+  /**
+   * Whether the request was retried with another token after 401.
+   */
+  tokenRefreshed?: boolean;
+  /**
+   * Whether the last attempt failed in `fetch`, e.g. on a network error,
+   * rather than while getting the token or running the interceptors.
+   */
+  fetchFailed?: boolean;
+}
+
+interface httpFetchClientConfig extends HTTPClientOptions {
   baseURL: string;
   defaultHeaders: Record<string, string>;
+  /**
+   * Sent as `Authorization: Bearer`. A provider is asked for the token
+   * before every attempt.
+   */
+  channelAccessToken?: string | ChannelAccessTokenProvider;
+}
+
+const RETRY_KEY_HTTP_HEADER_NAME = "X-Line-Retry-Key";
+const ACCEPTED_REQUEST_ID_HTTP_HEADER_NAME = "x-line-accepted-request-id";
+
+// requests which accept a retry key
+const RETRY_KEY_PATHS = [
+  "/v2/bot/message/push",
+  "/v2/bot/message/multicast",
+  "/v2/bot/message/narrowcast",
+  "/v2/bot/message/broadcast",
+];
+
+/**
+ * The signal of a request, aborted by the signal of the caller or after the
+ * timeout. `release` stops the timer and the listener on the caller's
+ * signal, which may live much longer than the request.
+ */
+function requestSignal(
+  signal: AbortSignal | undefined,
+  timeoutMs: number | undefined,
+): { signal: AbortSignal | undefined; release?: () => void } {
+  if (timeoutMs === undefined) {
+    return { signal };
+  }
+  const controller = new AbortController();
+  const onAbort = () => controller.abort(signal!.reason);
+  const release = () => {
+    clearTimeout(timer);
+    signal?.removeEventListener("abort", onAbort);
+  };
+  const timer = setTimeout(() => {
+    release();
+    controller.abort(
+      new DOMException(
+        `request timed out after ${timeoutMs}ms`,
+        "TimeoutError",
+      ),
+    );
+  }, timeoutMs);
+  // the timer covers reading the body as well, but doesn't keep the process
+  timer.unref();
+  if (signal) {
+    if (signal.aborted) {
+      controller.abort(signal.reason);
+    } else {
+      signal.addEventListener("abort", onAbort, { once: true });
+    }
+  }
+  return { signal: controller.signal, release };
+}
+
+/**
+ * Calls `release` once the body of `response` is read, cancelled or fails,
+ * as the signal of the request covers reading the body.
+ */
+function releaseAfterBody(response: Response, release: () => void): Response {
+  if (!response.body) {
+    release();
+    return response;
+  }
+  const reader = response.body.getReader();
+  const body = new ReadableStream<Uint8Array>({
+    async pull(controller) {
+      try {
+        const { done, value } = await reader.read();
+        if (done) {
+          release();
+          controller.close();
+        } else {
+          controller.enqueue(value);
+        }
+      } catch (err) {
+        release();
+        controller.error(err);
+      }
+    },
+    cancel(reason) {
+      release();
+      return reader.cancel(reason);
+    },
+  });
+  const { status, statusText, headers } = response;
+  return new Response(body, { status, statusText, headers });
+}
+
+function findHeader(
+  headers: Record<string, string>,
+  name: string,
+): string | undefined {
+  const key = Object.keys(headers).find(
+    key => key.toLowerCase() === name.toLowerCase(),
+  );
+  return key && headers[key];
+}
+
+// seconds or an HTTP date, in milliseconds
+function parseRetryAfter(value: string | null): number | undefined {
+  if (!value) {
+    return undefined;
+  }
+  const seconds = Number(value);
+  if (!Number.isNaN(seconds)) {
+    return Math.max(seconds * 1000, 0);
+  }
+  const date = Date.parse(value);
+  return Number.isNaN(date) ? undefined : Math.max(date - Date.now(), 0);
+}
+
+const isRetryableStatus = (status: number) => status === 429 || status >= 500;
+
+/**
+ * A `409` response telling that a request with the same retry key was
+ * accepted, with the body replaced to match the response of the request.
+ * The IDs of the messages sent by the accepted request aren't returned, so
+ * `sentMessages` is empty. The status and `x-line-accepted-request-id` are
+ * kept.
+ */
+async function acceptedResponse(response: Response): Promise<Response> {
+  // read the short error body to release the connection
+  await response.arrayBuffer();
+  const headers = new Headers(response.headers);
+  headers.delete("content-length");
+  headers.set("content-type", "application/json");
+  return new Response(JSON.stringify({ sentMessages: [] }), {
+    status: response.status,
+    statusText: response.statusText,
+    headers,
+  });
+}
+
+function errorClassOf(status: number): typeof HTTPFetchError {
+  switch (status) {
+    case 400:
+      return BadRequestError;
+    case 401:
+      return UnauthorizedError;
+    case 403:
+      return ForbiddenError;
+    case 404:
+      return NotFoundError;
+    case 409:
+      return ConflictError;
+    case 429:
+      return RateLimitError;
+    default:
+      return status >= 500 ? ServerError : HTTPFetchError;
+  }
 }
 
 export function convertResponseToReadable(response: Response): Readable {
   const reader = response.body.getReader();
   return new Readable({
     async read() {
-      const { done, value } = await reader.read();
-      if (done) {
-        this.push(null);
-      } else {
-        this.push(Buffer.from(value));
+      try {
+        const { done, value } = await reader.read();
+        if (done) {
+          this.push(null);
+        } else {
+          this.push(Buffer.from(value));
+        }
+      } catch (err) {
+        // e.g. aborted by the signal or the timeout of the request
+        this.destroy(err);
       }
     },
   });
@@ -29,16 +339,41 @@ export function convertResponseToReadable(response: Response): Readable {
 export default class HTTPFetchClient {
   private readonly baseURL: string;
   private readonly defaultHeaders: Record<string, string>;
+  private readonly fetch: typeof fetch;
+  private readonly requestInterceptors: RequestInterceptor[];
+  private readonly responseInterceptors: ResponseInterceptor[];
+  private readonly retry: RetryPolicy | undefined;
+  private readonly rateLimiter: RateLimiter | undefined;
+  private readonly instrumentation: Instrumentation | undefined;
+  private readonly logger: RequestLogger | undefined;
+  private readonly tokenProvider: ChannelAccessTokenProvider | undefined;
 
   constructor(config: httpFetchClientConfig) {
     this.baseURL = config.baseURL;
+    const token = config.channelAccessToken;
     this.defaultHeaders = {
       "User-Agent": USER_AGENT,
       ...config.defaultHeaders,
+      ...(typeof token === "string"
+        ? { Authorization: "Bearer " + token }
+        : {}),
     };
+    this.tokenProvider = typeof token === "object" ? token : undefined;
+    // the global fetch is looked up on every call, as it may be replaced
+    this.fetch = config.fetch || ((input, init) => fetch(input, init));
+    this.requestInterceptors = config.requestInterceptors || [];
+    this.responseInterceptors = config.responseInterceptors || [];
+    this.retry = config.retry;
+    this.rateLimiter = config.rateLimiter;
+    this.instrumentation = config.instrumentation;
+    this.logger = config.logging && new RequestLogger(config.logging);
   }
 
-  public async get<T>(url: string, params?: any): Promise<Response> {
+  public async get<T>(
+    url: string,
+    params?: any,
+    config?: Partial<HTTPFetchRequestConfig>,
+  ): Promise<Response> {
     const requestUrl = new URL(url, this.baseURL);
     if (params) {
       const searchParams = new URLSearchParams();
@@ -49,52 +384,65 @@ export default class HTTPFetchClient {
       }
       requestUrl.search = searchParams.toString();
     }
-    const response = await fetch(requestUrl, {
-      headers: this.defaultHeaders,
-    });
-    await this.checkResponseStatus(response);
-    return response;
+    return this.send(
+      requestUrl,
+      {
+        headers: {
+          ...this.defaultHeaders,
+          ...(config && config.headers),
+        },
+      },
+      config,
+    );
   }
 
   public async post(
     url: string,
     body?: any,
-    config?: Partial<FetchRequestConfig>,
+    config?: Partial<HTTPFetchRequestConfig>,
   ): Promise<Response> {
     const requestUrl = new URL(url, this.baseURL);
-    const response = await fetch(requestUrl, {
-      method: "POST",
-      headers: {
-        "Content-Type": "application/json",
-        ...this.defaultHeaders,
-        ...(config && config.headers),
+    return this.send(
+      requestUrl,
+      {
+        method: "POST",
+        headers: {
+          "Content-Type": "application/json",
+          ...this.defaultHeaders,
+          ...(config && config.headers),
+        },
+        body: JSON.stringify(body),
       },
-      body: JSON.stringify(body),
-    });
-    await this.checkResponseStatus(response);
-    return response;
+      config,
+    );
   }
 
   public async put(
     url: string,
     body?: any,
-    config?: Partial<FetchRequestConfig>,
+    config?: Partial<HTTPFetchRequestConfig>,
   ): Promise<Response> {
     const requestUrl = new URL(url, this.baseURL);
-    const response = await fetch(requestUrl, {
-      method: "PUT",
-      headers: {
-        "Content-Type": "application/json",
-        ...this.defaultHeaders,
-        ...(config && config.headers),
+    return this.send(
+      requestUrl,
+      {
+        method: "PUT",
+        headers: {
+          "Content-Type": "application/json",
+          ...this.defaultHeaders,
+          ...(config && config.headers),
+        },
+        body: JSON.stringify(body),
       },
-      body: JSON.stringify(body),
-    });
-    await this.checkResponseStatus(response);
-    return response;
+      config,
+    );
   }
 
-  public async postForm(url: string, body?: any): Promise<Response> {
+  public async postForm(
+    url: string,
+    body?: any,
+    config?: Partial<HTTPFetchRequestConfig>,
+  ): Promise<Response> {
     const requestUrl = new URL(url, this.baseURL);
     const params = new URLSearchParams();
     for (const key in body) {
@@ -102,77 +450,291 @@ export default class HTTPFetchClient {
         params.append(key, body[key]);
       }
     }
-    const response = await fetch(requestUrl, {
-      method: "POST",
-      headers: {
-        "Content-Type": "application/x-www-form-urlencoded",
-        ...this.defaultHeaders,
+    return this.send(
+      requestUrl,
+      {
+        method: "POST",
+        headers: {
+          "Content-Type": "application/x-www-form-urlencoded",
+          ...this.defaultHeaders,
+          ...(config && config.headers),
+        },
+        body: params.toString(),
       },
-      body: params.toString(),
-    });
-    await this.checkResponseStatus(response);
-    return response;
+      config,
+    );
   }
 
   public async postFormMultipart(
     url: string,
     form: FormData,
+    config?: Partial<HTTPFetchRequestConfig>,
   ): Promise<Response> {
     const requestUrl = new URL(url, this.baseURL);
-    const response = await fetch(requestUrl, {
-      method: "POST",
-      headers: {
-        ...this.defaultHeaders,
+    return this.send(
+      requestUrl,
+      {
+        method: "POST",
+        headers: {
+          ...this.defaultHeaders,
+          ...(config && config.headers),
+        },
+        body: form,
       },
-      body: form,
-    });
-    await this.checkResponseStatus(response);
-    return response;
+      config,
+    );
   }
 
   public async putFormMultipart(
     url: string,
     form: FormData,
-    config?: Partial<FetchRequestConfig>,
+    config?: Partial<HTTPFetchRequestConfig>,
   ): Promise<Response> {
     const requestUrl = new URL(url, this.baseURL);
-    const response = await fetch(requestUrl, {
-      method: "PUT",
-      headers: {
-        ...this.defaultHeaders,
-        ...(config && (config.headers ? config.headers : {})),
+    return this.send(
+      requestUrl,
+      {
+        method: "PUT",
+        headers: {
+          ...this.defaultHeaders,
+          ...(config && config.headers),
+        },
+        body: form,
       },
-      body: form,
-    });
-    await this.checkResponseStatus(response);
-    return response;
+      config,
+    );
   }
-  public async postBinaryContent(url: string, body: Blob): Promise<Response> {
+  public async postBinaryContent(
+    url: string,
+    body: Blob,
+    config?: Partial<HTTPFetchRequestConfig>,
+  ): Promise<Response> {
     const requestUrl = new URL(url, this.baseURL);
-    const response = await fetch(requestUrl, {
-      method: "POST",
-      headers: {
-        "Content-Type": body.type,
-        ...this.defaultHeaders,
+    return this.send(
+      requestUrl,
+      {
+        method: "POST",
+        headers: {
+          "Content-Type": body.type,
+          ...this.defaultHeaders,
+          ...(config && config.headers),
+        },
+        body: body,
       },
-      body: body,
-    });
-    await this.checkResponseStatus(response);
-    return response;
+      config,
+    );
   }
 
-  public async delete(url: string, params?: any): Promise<Response> {
+  public async delete(
+    url: string,
+    params?: any,
+    config?: Partial<HTTPFetchRequestConfig>,
+  ): Promise<Response> {
     const requestUrl = new URL(url, this.baseURL);
     if (params) {
       requestUrl.search = new URLSearchParams(params).toString();
     }
-    const response = await fetch(requestUrl, {
-      method: "DELETE",
-      headers: {
-        ...this.defaultHeaders,
+    return this.send(
+      requestUrl,
+      {
+        method: "DELETE",
+        headers: {
+          ...this.defaultHeaders,
+          ...(config && config.headers),
+        },
       },
+      config,
+    );
+  }
+
+  private async send(
+    url: URL,
+    init: Omit<RequestInit, "headers"> & { headers: Record<string, string> },
+    config: Partial<HTTPFetchRequestConfig> = {},
+  ): Promise<Response> {
+    const { signal, release } = requestSignal(config.signal, config.timeoutMs);
+    const request: FetchRequest = {
+      url,
+      method: init.method || "GET",
+      headers: init.headers,
+      body: init.body,
+      signal,
+    };
+
+    const call: ApiCall = {
+      path: config.pathTemplate || url.pathname,
+      attempts: 0,
+    };
+    const startedAt = Date.now();
+    const end = startSpan(() =>
+      this.instrumentation?.startApiCall?.({
+        method: request.method,
+        path: call.path,
+        url,
+      }),
+    );
+    const result = (error?: unknown) => ({
+      // not the status of an error thrown by the token provider
+      status: call.response?.status,
+      requestId: call.response?.headers.get("x-line-request-id") ?? undefined,
+      retryCount: Math.max(call.attempts - 1, 0),
+      duration: Date.now() - startedAt,
+      error,
     });
-    await this.checkResponseStatus(response);
+
+    try {
+      const response = await this.sendWithRetry(request, call);
+      end(result());
+      return release ? releaseAfterBody(response, release) : response;
+    } catch (err) {
+      release?.();
+      end(result(err));
+      throw err;
+    }
+  }
+
+  /**
+   * Sends the request, retrying it with the retry policy.
+   */
+  private async sendWithRetry(
+    request: FetchRequest,
+    call: ApiCall,
+  ): Promise<Response> {
+    if (!this.retry) {
+      const response = await this.fetchOnce(request, call);
+      await this.checkResponseStatus(response);
+      return response;
+    }
+
+    const {
+      maxAttempts = 3,
+      baseDelay = 1000,
+      maxDelay = 30 * 1000,
+      retryOn = isRetryableStatus,
+    } = this.retry;
+    const { method, url } = request;
+    const backoff = (attempt: number) =>
+      Math.random() * Math.min(baseDelay * 2 ** (attempt - 1), maxDelay);
+
+    let retryKey = findHeader(request.headers, RETRY_KEY_HTTP_HEADER_NAME);
+    if (
+      !retryKey &&
+      method === "POST" &&
+      RETRY_KEY_PATHS.includes(url.pathname)
+    ) {
+      // the same key for every attempt, so that messages are sent only once
+      retryKey = randomUUID();
+      request = {
+        ...request,
+        headers: { ...request.headers, [RETRY_KEY_HTTP_HEADER_NAME]: retryKey },
+      };
+    }
+    const retryable = method !== "POST" || retryKey !== undefined;
+
+    for (let attempt = 1; ; attempt++) {
+      const lastAttempt = !retryable || attempt >= maxAttempts;
+
+      let response: Response;
+      try {
+        response = await this.fetchOnce(request, call);
+      } catch (err) {
+        // network errors, unless aborted
+        if (!call.fetchFailed || lastAttempt || request.signal?.aborted) {
+          throw err;
+        }
+        await sleep(backoff(attempt), request.signal);
+        continue;
+      }
+
+      if (
+        response.status === 409 &&
+        retryKey !== undefined &&
+        response.headers.has(ACCEPTED_REQUEST_ID_HTTP_HEADER_NAME)
+      ) {
+        // the request with the retry key has been accepted already
+        return acceptedResponse(response);
+      }
+
+      const retryAfter = parseRetryAfter(response.headers.get("retry-after"));
+      if (
+        response.ok ||
+        lastAttempt ||
+        !retryOn(response.status) ||
+        (retryAfter !== undefined && retryAfter > maxDelay)
+      ) {
+        await this.checkResponseStatus(response);
+        return response;
+      }
+
+      // discard the body to release the connection
+      await response.body?.cancel();
+      await sleep(retryAfter ?? backoff(attempt), request.signal);
+    }
+  }
+
+  private async fetchOnce(
+    request: FetchRequest,
+    call: ApiCall,
+  ): Promise<Response> {
+    const attempt = ++call.attempts;
+    call.response = undefined;
+    call.fetchFailed = false;
+
+    // interceptors get a copy, so every attempt starts from the original
+    let req: FetchRequest = { ...request, headers: { ...request.headers } };
+    const token = this.tokenProvider
+      ? await this.tokenProvider.getToken()
+      : undefined;
+    if (token !== undefined) {
+      req.headers.Authorization = "Bearer " + token;
+    }
+    for (const interceptor of this.requestInterceptors) {
+      req = (await interceptor(req)) || req;
+    }
+
+    if (this.rateLimiter) {
+      await this.rateLimiter.acquire(req.method, req.url.pathname, req.signal);
+    }
+
+    this.logger?.request(req, call.path, attempt);
+    const sentAt = Date.now();
+    let response: Response;
+    try {
+      response = await this.fetch(req.url, {
+        method: req.method,
+        headers: req.headers,
+        body: req.body,
+        signal: req.signal,
+      });
+    } catch (err) {
+      call.fetchFailed = true;
+      this.logger?.error(req, call.path, attempt, err, Date.now() - sentAt);
+      throw err;
+    }
+    await this.logger?.response(
+      req,
+      call.path,
+      attempt,
+      response,
+      Date.now() - sentAt,
+    );
+
+    for (const interceptor of this.responseInterceptors) {
+      response = (await interceptor(response, req)) || response;
+    }
+    call.response = response;
+
+    if (
+      response.status === 401 &&
+      token !== undefined &&
+      !call.tokenRefreshed
+    ) {
+      // the token may have expired or been revoked; retry once with another
+      call.tokenRefreshed = true;
+      this.tokenProvider!.invalidate?.(token);
+      await response.body?.cancel();
+      return this.fetchOnce(request, call);
+    }
     return response;
   }
 
@@ -183,7 +745,7 @@ export default class HTTPFetchClient {
     if (!ok) {
       const body = await response.text();
 
-      throw new HTTPFetchError(message, {
+      throw new (errorClassOf(status))(message, {
         status,
         statusText,
         headers,
@@ -1,12 +1,75 @@
 import Client, { OAuth } from "./client.js";
-import middleware from "./middleware.js";
+import middleware, { multiChannelMiddleware } from "./middleware.js";
+import fetchHandler from "./fetch-handler.js";
 import validateSignature from "./validate-signature.js";
+import validateSignatureWeb from "./validate-signature-web.js";
+import WebhookHandler from "./webhook-handler.js";
 
-export { Client, middleware, validateSignature, OAuth };
+export {
+  Client,
+  middleware,
+  multiChannelMiddleware,
+  fetchHandler,
+  validateSignature,
+  validateSignatureWeb,
+  OAuth,
+  WebhookHandler,
+};
 
 // re-export exceptions and types
 export * from "./exceptions.js";
 export * from "./types.js";
+export * from "./fetch-handler.js";
+export * from "./channel-access-token-provider.js";
+export * from "./client-assertion.js";
+export type {
+  FetchRequest,
+  FetchRequestConfig,
+  HTTPClientOptions,
+  RequestInterceptor,
+  ResponseInterceptor,
+  RetryPolicy,
+} from "./http-fetch.js";
+export type {
+  ApiCallAttributes,
+  ApiCallResult,
+  Instrumentation,
+  InstrumentationSpan,
+  WebhookAttributes,
+  WebhookResult,
+} from "./instrumentation.js";
+export * from "./http-cassette.js";
+export * from "./line-bot-client.js";
+export * from "./platform-emulator.js";
+export * from "./postback-codec.js";
+export * from "./rate-limiter.js";
+export * from "./reply-batch.js";
+export * from "./reply-context.js";
+export { PII_FIELDS, SECRET_FIELDS } from "./request-logging.js";
+export type {
+  HTTPLogEntry,
+  RequestErrorLogEntry,
+  RequestLogEntry,
+  RequestLoggingOptions,
+  ResponseLogEntry,
+} from "./request-logging.js";
+export * from "./text-message-v2.js";
+export * from "./text-segments.js";
+export type {
+  ChannelContext,
+  ChannelResolver,
+  ChannelResolverKey,
+  InstrumentationConfig,
+  MultiChannelMiddlewareConfig,
+  MultiChannelRequest,
+  RecordingConfig,
+} from "./middleware.js";
+export * from "./webhook-deduplication.js";
+export * from "./webhook-handler.js";
+export * from "./webhook-queue.js";
+export * from "./webhook-recorder.js";
+export * from "./webhook-test-kit.js";
+export * from "./webhook-validation.js";
 
 import * as channelAccessToken from "./channel-access-token/api.js";
 export { channelAccessToken };
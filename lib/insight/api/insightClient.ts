@@ -23,16 +23,18 @@ import { Readable } from "node:stream";
 
 import HTTPFetchClient, {
   convertResponseToReadable,
+  FetchRequestConfig,
+  HTTPClientOptions,
 } from "../../http-fetch.js";
+import type { ChannelAccessTokenProvider } from "../../channel-access-token-provider.js";
 
 // ===============================================
 // This file is autogenerated - Please do not edit
 // ===============================================
 
-interface httpClientConfig {
+interface httpClientConfig extends HTTPClientOptions {
   baseURL?: string;
-  channelAccessToken: string;
-  // TODO support defaultHeaders?
+  channelAccessToken: string | ChannelAccessTokenProvider;
 }
 
 export class InsightClient {
@@ -41,9 +43,11 @@ export class InsightClient {
   constructor(config: httpClientConfig) {
     const baseURL = config.baseURL || "https://api.line.me";
     this.httpClient = new HTTPFetchClient({
+      ...config,
       defaultHeaders: {
-        Authorization: "Bearer " + config.channelAccessToken,
+        ...config.defaultHeaders,
       },
+      channelAccessToken: config.channelAccessToken,
       baseURL: baseURL,
     });
   }
@@ -63,23 +67,31 @@ export class InsightClient {
 
   /**
    * Retrieves the demographic attributes for a LINE Official Account\'s friends.You can only retrieve information about friends for LINE Official Accounts created by users in Japan (JP), Thailand (TH), Taiwan (TW) and Indonesia (ID).
+   * @param requestOptions Options of the request, e.g. a signal to abort it, a timeout and extra headers.
    *
    * @see <a href="https://developers.line.biz/en/reference/messaging-api/#get-demographic"> Documentation</a>
    */
-  public async getFriendsDemographics(): Promise<GetFriendsDemographicsResponse> {
-    return (await this.getFriendsDemographicsWithHttpInfo()).body;
+  public async getFriendsDemographics(
+    requestOptions?: FetchRequestConfig,
+  ): Promise<GetFriendsDemographicsResponse> {
+    return (await this.getFriendsDemographicsWithHttpInfo(requestOptions)).body;
   }
 
   /**
    * Retrieves the demographic attributes for a LINE Official Account\'s friends.You can only retrieve information about friends for LINE Official Accounts created by users in Japan (JP), Thailand (TH), Taiwan (TW) and Indonesia (ID). .
    * This method includes HttpInfo object to return additional information.
+   * @param requestOptions Options of the request, e.g. a signal to abort it, a timeout and extra headers.
    *
    * @see <a href="https://developers.line.biz/en/reference/messaging-api/#get-demographic"> Documentation</a>
    */
-  public async getFriendsDemographicsWithHttpInfo(): Promise<
-    Types.ApiResponseType<GetFriendsDemographicsResponse>
-  > {
-    const res = await this.httpClient.get("/v2/bot/insight/demographic");
+  public async getFriendsDemographicsWithHttpInfo(
+    requestOptions?: FetchRequestConfig,
+  ): Promise<Types.ApiResponseType<GetFriendsDemographicsResponse>> {
+    const res = await this.httpClient.get(
+      "/v2/bot/insight/demographic",
+      undefined,
+      requestOptions,
+    );
     const text = await res.text();
     const parsedBody = text ? JSON.parse(text) : null;
     return { httpResponse: res, body: parsedBody };
@@ -88,13 +100,16 @@ export class InsightClient {
    * Returns statistics about how users interact with narrowcast messages or broadcast messages sent from your LINE Official Account.
    * @summary Get user interaction statistics
    * @param requestId Request ID of a narrowcast message or broadcast message. Each Messaging API request has a request ID.
+   * @param requestOptions Options of the request, e.g. a signal to abort it, a timeout and extra headers.
    *
    * @see <a href="https://developers.line.biz/en/reference/messaging-api/#get-message-event">Get user interaction statistics Documentation</a>
    */
   public async getMessageEvent(
     requestId: string,
+    requestOptions?: FetchRequestConfig,
   ): Promise<GetMessageEventResponse> {
-    return (await this.getMessageEventWithHttpInfo(requestId)).body;
+    return (await this.getMessageEventWithHttpInfo(requestId, requestOptions))
+      .body;
   }
 
   /**
@@ -102,11 +117,13 @@ export class InsightClient {
    * This method includes HttpInfo object to return additional information.
    * @summary Get user interaction statistics
    * @param requestId Request ID of a narrowcast message or broadcast message. Each Messaging API request has a request ID.
+   * @param requestOptions Options of the request, e.g. a signal to abort it, a timeout and extra headers.
    *
    * @see <a href="https://developers.line.biz/en/reference/messaging-api/#get-message-event">Get user interaction statistics Documentation</a>
    */
   public async getMessageEventWithHttpInfo(
     requestId: string,
+    requestOptions?: FetchRequestConfig,
   ): Promise<Types.ApiResponseType<GetMessageEventResponse>> {
     const queryParams = {
       requestId: requestId,
@@ -120,6 +137,7 @@ export class InsightClient {
     const res = await this.httpClient.get(
       "/v2/bot/insight/message/event",
       queryParams,
+      requestOptions,
     );
     const text = await res.text();
     const parsedBody = text ? JSON.parse(text) : null;
@@ -129,13 +147,16 @@ export class InsightClient {
    * Returns the number of users who have added the LINE Official Account on or before a specified date.
    * @summary Get number of followers
    * @param date Date for which to retrieve the number of followers.  Format: yyyyMMdd (e.g. 20191231) Timezone: UTC+9
+   * @param requestOptions Options of the request, e.g. a signal to abort it, a timeout and extra headers.
    *
    * @see <a href="https://developers.line.biz/en/reference/messaging-api/#get-number-of-followers">Get number of followers Documentation</a>
    */
   public async getNumberOfFollowers(
     date?: string,
+    requestOptions?: FetchRequestConfig,
   ): Promise<GetNumberOfFollowersResponse> {
-    return (await this.getNumberOfFollowersWithHttpInfo(date)).body;
+    return (await this.getNumberOfFollowersWithHttpInfo(date, requestOptions))
+      .body;
   }
 
   /**
@@ -143,11 +164,13 @@ export class InsightClient {
    * This method includes HttpInfo object to return additional information.
    * @summary Get number of followers
    * @param date Date for which to retrieve the number of followers.  Format: yyyyMMdd (e.g. 20191231) Timezone: UTC+9
+   * @param requestOptions Options of the request, e.g. a signal to abort it, a timeout and extra headers.
    *
    * @see <a href="https://developers.line.biz/en/reference/messaging-api/#get-number-of-followers">Get number of followers Documentation</a>
    */
   public async getNumberOfFollowersWithHttpInfo(
     date?: string,
+    requestOptions?: FetchRequestConfig,
   ): Promise<Types.ApiResponseType<GetNumberOfFollowersResponse>> {
     const queryParams = {
       date: date,
@@ -161,6 +184,7 @@ export class InsightClient {
     const res = await this.httpClient.get(
       "/v2/bot/insight/followers",
       queryParams,
+      requestOptions,
     );
     const text = await res.text();
     const parsedBody = text ? JSON.parse(text) : null;
@@ -170,13 +194,17 @@ export class InsightClient {
    * Returns the number of messages sent from LINE Official Account on a specified day.
    * @summary Get number of message deliveries
    * @param date Date for which to retrieve number of sent messages. - Format: yyyyMMdd (e.g. 20191231) - Timezone: UTC+9
+   * @param requestOptions Options of the request, e.g. a signal to abort it, a timeout and extra headers.
    *
    * @see <a href="https://developers.line.biz/en/reference/messaging-api/#get-number-of-delivery-messages">Get number of message deliveries Documentation</a>
    */
   public async getNumberOfMessageDeliveries(
     date: string,
+    requestOptions?: FetchRequestConfig,
   ): Promise<GetNumberOfMessageDeliveriesResponse> {
-    return (await this.getNumberOfMessageDeliveriesWithHttpInfo(date)).body;
+    return (
+      await this.getNumberOfMessageDeliveriesWithHttpInfo(date, requestOptions)
+    ).body;
   }
 
   /**
@@ -184,11 +212,13 @@ export class InsightClient {
    * This method includes HttpInfo object to return additional information.
    * @summary Get number of message deliveries
    * @param date Date for which to retrieve number of sent messages. - Format: yyyyMMdd (e.g. 20191231) - Timezone: UTC+9
+   * @param requestOptions Options of the request, e.g. a signal to abort it, a timeout and extra headers.
    *
    * @see <a href="https://developers.line.biz/en/reference/messaging-api/#get-number-of-delivery-messages">Get number of message deliveries Documentation</a>
    */
   public async getNumberOfMessageDeliveriesWithHttpInfo(
     date: string,
+    requestOptions?: FetchRequestConfig,
   ): Promise<Types.ApiResponseType<GetNumberOfMessageDeliveriesResponse>> {
     const queryParams = {
       date: date,
@@ -202,6 +232,7 @@ export class InsightClient {
     const res = await this.httpClient.get(
       "/v2/bot/insight/message/delivery",
       queryParams,
+      requestOptions,
     );
     const text = await res.text();
     const parsedBody = text ? JSON.parse(text) : null;
@@ -212,6 +243,7 @@ export class InsightClient {
    * @param customAggregationUnit Name of aggregation unit specified when sending the message. Case-sensitive. For example, `Promotion_a` and `Promotion_A` are regarded as different unit names.
    * @param from Start date of aggregation period.  Format: yyyyMMdd (e.g. 20210301) Time zone: UTC+9
    * @param to End date of aggregation period. The end date can be specified for up to 30 days later. For example, if the start date is 20210301, the latest end date is 20210331.  Format: yyyyMMdd (e.g. 20210301) Time zone: UTC+9
+   * @param requestOptions Options of the request, e.g. a signal to abort it, a timeout and extra headers.
    *
    * @see <a href="https://developers.line.biz/en/reference/messaging-api/#get-statistics-per-unit"> Documentation</a>
    */
@@ -219,12 +251,14 @@ export class InsightClient {
     customAggregationUnit: string,
     from: string,
     to: string,
+    requestOptions?: FetchRequestConfig,
   ): Promise<GetStatisticsPerUnitResponse> {
     return (
       await this.getStatisticsPerUnitWithHttpInfo(
         customAggregationUnit,
         from,
         to,
+        requestOptions,
       )
     ).body;
   }
@@ -235,6 +269,7 @@ export class InsightClient {
    * @param customAggregationUnit Name of aggregation unit specified when sending the message. Case-sensitive. For example, `Promotion_a` and `Promotion_A` are regarded as different unit names.
    * @param from Start date of aggregation period.  Format: yyyyMMdd (e.g. 20210301) Time zone: UTC+9
    * @param to End date of aggregation period. The end date can be specified for up to 30 days later. For example, if the start date is 20210301, the latest end date is 20210331.  Format: yyyyMMdd (e.g. 20210301) Time zone: UTC+9
+   * @param requestOptions Options of the request, e.g. a signal to abort it, a timeout and extra headers.
    *
    * @see <a href="https://developers.line.biz/en/reference/messaging-api/#get-statistics-per-unit"> Documentation</a>
    */
@@ -242,6 +277,7 @@ export class InsightClient {
     customAggregationUnit: string,
     from: string,
     to: string,
+    requestOptions?: FetchRequestConfig,
   ): Promise<Types.ApiResponseType<GetStatisticsPerUnitResponse>> {
     const queryParams = {
       customAggregationUnit: customAggregationUnit,
@@ -257,6 +293,7 @@ export class InsightClient {
     const res = await this.httpClient.get(
       "/v2/bot/insight/message/event/aggregation",
       queryParams,
+      requestOptions,
     );
     const text = await res.text();
     const parsedBody = text ? JSON.parse(text) : null;
@@ -0,0 +1,127 @@
+/**
+ * Started when an API call or a webhook request begins, and ended with its
+ * result, like a span of OpenTelemetry.
+ */
+export interface InstrumentationSpan<R> {
+  end(result: R): void;
+}
+
+export interface ApiCallAttributes {
+  /**
+   * HTTP method, e.g. `POST`.
+   */
+  method: string;
+  /**
+   * Path template of the endpoint, e.g. `/v2/bot/profile/{userId}`, to group
+   * calls by endpoint.
+   */
+  path: string;
+  url: URL;
+}
+
+export interface ApiCallResult {
+  /**
+   * Status of the last response, if any.
+   */
+  status?: number;
+  /**
+   * `x-line-request-id` of the last response.
+   */
+  requestId?: string;
+  /**
+   * Number of attempts after the first one.
+   */
+  retryCount: number;
+  /**
+   * Duration in milliseconds, including retries.
+   */
+  duration: number;
+  /**
+   * The error thrown by the call.
+   */
+  error?: unknown;
+}
+
+export interface WebhookAttributes {
+  /**
+   * Whether the signature is present; requests without it are rejected
+   * before the body is read.
+   */
+  signed: boolean;
+}
+
+export interface WebhookResult {
+  /**
+   * User ID of the bot the events are sent to.
+   */
+  destination?: string;
+  eventCount: number;
+  /**
+   * Number of events of each type, e.g. `{ message: 2, follow: 1 }`.
+   */
+  eventTypes: Record<string, number>;
+  /**
+   * Duration in milliseconds of validating and parsing the request.
+   */
+  duration: number;
+  /**
+   * The error passed to `next()`, e.g. `SignatureValidationFailed`.
+   */
+  error?: unknown;
+}
+
+/**
+ * Hooks called for every API call of the clients and every webhook request
+ * of the middlewares, to plug in tracing or metrics, e.g. of OpenTelemetry.
+ * Errors thrown by the hooks are ignored.
+ */
+export interface Instrumentation {
+  startApiCall?(
+    attributes: ApiCallAttributes,
+  ): InstrumentationSpan<ApiCallResult> | void;
+  startWebhook?(
+    attributes: WebhookAttributes,
+  ): InstrumentationSpan<WebhookResult> | void;
+}
+
+/**
+ * Starts a span with `start`, returning a function to end it. Errors of the
+ * hooks are ignored, not to break the instrumented call.
+ */
+export function startSpan<R>(
+  start: () => InstrumentationSpan<R> | void,
+): (result: R) => void {
+  let span: InstrumentationSpan<R> | undefined;
+  try {
+    span = start() || undefined;
+  } catch {
+    // ignored
+  }
+  return result => {
+    try {
+      span?.end(result);
+    } catch {
+      // ignored
+    }
+  };
+}
+
+/**
+ * Counts the events of a parsed webhook body by type.
+ */
+export function countEvents(
+  body: any,
+): Pick<WebhookResult, "destination" | "eventCount" | "eventTypes"> {
+  const events: any[] = Array.isArray(body?.events) ? body.events : [];
+  const eventTypes: Record<string, number> = {};
+  for (const event of events) {
+    const type = String(event?.type);
+    eventTypes[type] = (eventTypes[type] ?? 0) + 1;
+  }
+  return {
+    destination:
+      typeof body?.destination === "string" ? body.destination : undefined,
+    eventCount: events.length,
+    eventTypes,
+  };
+}
@@ -22,16 +22,18 @@ import { Readable } from "node:stream";
 
 import HTTPFetchClient, {
   convertResponseToReadable,
+  FetchRequestConfig,
+  HTTPClientOptions,
 } from "../../http-fetch.js";
+import type { ChannelAccessTokenProvider } from "../../channel-access-token-provider.js";
 
 // ===============================================
 // This file is autogenerated - Please do not edit
 // ===============================================
 
-interface httpClientConfig {
+interface httpClientConfig extends HTTPClientOptions {
   baseURL?: string;
-  channelAccessToken: string;
-  // TODO support defaultHeaders?
+  channelAccessToken: string | ChannelAccessTokenProvider;
 }
 
 export class LiffClient {
@@ -40,9 +42,11 @@ export class LiffClient {
   constructor(config: httpClientConfig) {
     const baseURL = config.baseURL || "https://api.line.me";
     this.httpClient = new HTTPFetchClient({
+      ...config,
       defaultHeaders: {
-        Authorization: "Bearer " + config.channelAccessToken,
+        ...config.defaultHeaders,
       },
+      channelAccessToken: config.channelAccessToken,
       baseURL: baseURL,
     });
   }
@@ -64,13 +68,17 @@ export class LiffClient {
    * Adding the LIFF app to a channel
    * @summary Create LIFF app
    * @param addLiffAppRequest
+   * @param requestOptions Options of the request, e.g. a signal to abort it, a timeout and extra headers.
    *
    * @see <a href="https://developers.line.biz/en/reference/liff-server/#add-liff-app">Create LIFF app Documentation</a>
    */
   public async addLIFFApp(
     addLiffAppRequest: AddLiffAppRequest,
+    requestOptions?: FetchRequestConfig,
   ): Promise<AddLiffAppResponse> {
-    return (await this.addLIFFAppWithHttpInfo(addLiffAppRequest)).body;
+    return (
+      await this.addLIFFAppWithHttpInfo(addLiffAppRequest, requestOptions)
+    ).body;
   }
 
   /**
@@ -78,15 +86,21 @@ export class LiffClient {
    * This method includes HttpInfo object to return additional information.
    * @summary Create LIFF app
    * @param addLiffAppRequest
+   * @param requestOptions Options of the request, e.g. a signal to abort it, a timeout and extra headers.
    *
    * @see <a href="https://developers.line.biz/en/reference/liff-server/#add-liff-app">Create LIFF app Documentation</a>
    */
   public async addLIFFAppWithHttpInfo(
     addLiffAppRequest: AddLiffAppRequest,
+    requestOptions?: FetchRequestConfig,
   ): Promise<Types.ApiResponseType<AddLiffAppResponse>> {
     const params = addLiffAppRequest;
 
-    const res = await this.httpClient.post("/liff/v1/apps", params);
+    const res = await this.httpClient.post(
+      "/liff/v1/apps",
+      params,
+      requestOptions,
+    );
     const text = await res.text();
     const parsedBody = text ? JSON.parse(text) : null;
     return { httpResponse: res, body: parsedBody };
@@ -95,13 +109,15 @@ export class LiffClient {
    * Deletes a LIFF app from a channel.
    * @summary Delete LIFF app from a channel
    * @param liffId ID of the LIFF app to be updated
+   * @param requestOptions Options of the request, e.g. a signal to abort it, a timeout and extra headers.
    *
    * @see <a href="https://developers.line.biz/en/reference/liff-server/#delete-liff-app">Delete LIFF app from a channel Documentation</a>
    */
   public async deleteLIFFApp(
     liffId: string,
+    requestOptions?: FetchRequestConfig,
   ): Promise<Types.MessageAPIResponseBase> {
-    return (await this.deleteLIFFAppWithHttpInfo(liffId)).body;
+    return (await this.deleteLIFFAppWithHttpInfo(liffId, requestOptions)).body;
   }
 
   /**
@@ -109,14 +125,18 @@ export class LiffClient {
    * This method includes HttpInfo object to return additional information.
    * @summary Delete LIFF app from a channel
    * @param liffId ID of the LIFF app to be updated
+   * @param requestOptions Options of the request, e.g. a signal to abort it, a timeout and extra headers.
    *
    * @see <a href="https://developers.line.biz/en/reference/liff-server/#delete-liff-app">Delete LIFF app from a channel Documentation</a>
    */
   public async deleteLIFFAppWithHttpInfo(
     liffId: string,
+    requestOptions?: FetchRequestConfig,
   ): Promise<Types.ApiResponseType<Types.MessageAPIResponseBase>> {
     const res = await this.httpClient.delete(
       "/liff/v1/apps/{liffId}".replace("{liffId}", String(liffId)),
+      undefined,
+      { ...requestOptions, pathTemplate: "/liff/v1/apps/{liffId}" },
     );
     const text = await res.text();
     const parsedBody = text ? JSON.parse(text) : null;
@@ -125,24 +145,32 @@ export class LiffClient {
   /**
    * Gets information on all the LIFF apps added to the channel.
    * @summary Get all LIFF apps
+   * @param requestOptions Options of the request, e.g. a signal to abort it, a timeout and extra headers.
    *
    * @see <a href="https://developers.line.biz/en/reference/liff-server/#get-all-liff-apps">Get all LIFF apps Documentation</a>
    */
-  public async getAllLIFFApps(): Promise<GetAllLiffAppsResponse> {
-    return (await this.getAllLIFFAppsWithHttpInfo()).body;
+  public async getAllLIFFApps(
+    requestOptions?: FetchRequestConfig,
+  ): Promise<GetAllLiffAppsResponse> {
+    return (await this.getAllLIFFAppsWithHttpInfo(requestOptions)).body;
   }
 
   /**
    * Gets information on all the LIFF apps added to the channel..
    * This method includes HttpInfo object to return additional information.
    * @summary Get all LIFF apps
+   * @param requestOptions Options of the request, e.g. a signal to abort it, a timeout and extra headers.
    *
    * @see <a href="https://developers.line.biz/en/reference/liff-server/#get-all-liff-apps">Get all LIFF apps Documentation</a>
    */
-  public async getAllLIFFAppsWithHttpInfo(): Promise<
-    Types.ApiResponseType<GetAllLiffAppsResponse>
-  > {
-    const res = await this.httpClient.get("/liff/v1/apps");
+  public async getAllLIFFAppsWithHttpInfo(
+    requestOptions?: FetchRequestConfig,
+  ): Promise<Types.ApiResponseType<GetAllLiffAppsResponse>> {
+    const res = await this.httpClient.get(
+      "/liff/v1/apps",
+      undefined,
+      requestOptions,
+    );
     const text = await res.text();
     const parsedBody = text ? JSON.parse(text) : null;
     return { httpResponse: res, body: parsedBody };
@@ -152,15 +180,22 @@ export class LiffClient {
    * @summary Update LIFF app from a channel
    * @param liffId ID of the LIFF app to be updated
    * @param updateLiffAppRequest
+   * @param requestOptions Options of the request, e.g. a signal to abort it, a timeout and extra headers.
    *
    * @see <a href="https://developers.line.biz/en/reference/liff-server/#update-liff-app">Update LIFF app from a channel Documentation</a>
    */
   public async updateLIFFApp(
     liffId: string,
     updateLiffAppRequest: UpdateLiffAppRequest,
+    requestOptions?: FetchRequestConfig,
   ): Promise<Types.MessageAPIResponseBase> {
-    return (await this.updateLIFFAppWithHttpInfo(liffId, updateLiffAppRequest))
-      .body;
+    return (
+      await this.updateLIFFAppWithHttpInfo(
+        liffId,
+        updateLiffAppRequest,
+        requestOptions,
+      )
+    ).body;
   }
 
   /**
@@ -169,18 +204,21 @@ export class LiffClient {
    * @summary Update LIFF app from a channel
    * @param liffId ID of the LIFF app to be updated
    * @param updateLiffAppRequest
+   * @param requestOptions Options of the request, e.g. a signal to abort it, a timeout and extra headers.
    *
    * @see <a href="https://developers.line.biz/en/reference/liff-server/#update-liff-app">Update LIFF app from a channel Documentation</a>
    */
   public async updateLIFFAppWithHttpInfo(
     liffId: string,
     updateLiffAppRequest: UpdateLiffAppRequest,
+    requestOptions?: FetchRequestConfig,
   ): Promise<Types.ApiResponseType<Types.MessageAPIResponseBase>> {
     const params = updateLiffAppRequest;
 
     const res = await this.httpClient.put(
       "/liff/v1/apps/{liffId}".replace("{liffId}", String(liffId)),
       params,
+      { ...requestOptions, pathTemplate: "/liff/v1/apps/{liffId}" },
     );
     const text = await res.text();
     const parsedBody = text ? JSON.parse(text) : null;
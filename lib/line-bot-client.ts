@@ -0,0 +1,162 @@
+import * as channelAccessToken from "./channel-access-token/api.js";
+import type { ChannelAccessTokenProvider } from "./channel-access-token-provider.js";
+import type { HTTPClientOptions } from "./http-fetch.js";
+import * as insight from "./insight/api.js";
+import * as liff from "./liff/api.js";
+import * as manageAudience from "./manage-audience/api.js";
+import * as messagingApi from "./messaging-api/api.js";
+import * as moduleOperation from "./module/api.js";
+import * as moduleAttach from "./module-attach/api.js";
+import { RateLimiter } from "./rate-limiter.js";
+import * as shop from "./shop/api.js";
+
+export interface LineBotBaseURLs {
+  /**
+   * Defaults to `https://api.line.me`.
+   */
+  api?: string;
+  /**
+   * Base URL of the blob clients, sending and receiving contents. Defaults
+   * to `https://api-data.line.me`.
+   */
+  data?: string;
+  /**
+   * Base URL of `moduleAttach`. Defaults to `https://manager.line.biz`.
+   */
+  manager?: string;
+}
+
+export interface LineBotClientConfig
+  extends Omit<HTTPClientOptions, "rateLimiter"> {
+  /**
+   * A token, or a provider issuing tokens, e.g. of
+   * `statelessChannelAccessTokenProvider()`.
+   */
+  channelAccessToken: string | ChannelAccessTokenProvider;
+  /**
+   * Base URLs of the APIs, e.g. of `LinePlatformEmulator`.
+   */
+  baseURLs?: LineBotBaseURLs;
+  /**
+   * A rate limiter shared by all the clients, or `true` to create one with
+   * the default limits. Requests aren't rate limited by default.
+   */
+  rateLimiter?: RateLimiter | true;
+}
+
+/**
+ * All the API clients of a channel, built from one configuration. Each API
+ * client is created when first used, with the same HTTP options, e.g. the
+ * same `fetch`, retry policy, rate limiter and hooks.
+ *
+ * ```
+ * const client = new LineBotClient({ channelAccessToken, retry: {} });
+ * await client.messaging.pushMessage({ to, messages });
+ * const content = await client.messagingBlob.getMessageContent(messageId);
+ * ```
+ */
+export class LineBotClient {
+  private readonly config: LineBotClientConfig;
+  private readonly clients = new Map<string, unknown>();
+
+  /**
+   * The rate limiter of all the clients, if any.
+   */
+  public readonly rateLimiter: RateLimiter | undefined;
+
+  constructor(config: LineBotClientConfig) {
+    if (!config.channelAccessToken) {
+      throw new Error("no channel access token");
+    }
+    this.config = config;
+    this.rateLimiter =
+      config.rateLimiter === true ? new RateLimiter() : config.rateLimiter;
+  }
+
+  public get messaging(): messagingApi.MessagingApiClient {
+    return this.client(
+      "messaging",
+      () => new messagingApi.MessagingApiClient(this.options("api")),
+    );
+  }
+
+  public get messagingBlob(): messagingApi.MessagingApiBlobClient {
+    return this.client(
+      "messagingBlob",
+      () => new messagingApi.MessagingApiBlobClient(this.options("data")),
+    );
+  }
+
+  public get insight(): insight.InsightClient {
+    return this.client(
+      "insight",
+      () => new insight.InsightClient(this.options("api")),
+    );
+  }
+
+  public get manageAudience(): manageAudience.ManageAudienceClient {
+    return this.client(
+      "manageAudience",
+      () => new manageAudience.ManageAudienceClient(this.options("api")),
+    );
+  }
+
+  public get manageAudienceBlob(): manageAudience.ManageAudienceBlobClient {
+    return this.client(
+      "manageAudienceBlob",
+      () => new manageAudience.ManageAudienceBlobClient(this.options("data")),
+    );
+  }
+
+  public get liff(): liff.LiffClient {
+    return this.client("liff", () => new liff.LiffClient(this.options("api")));
+  }
+
+  /**
+   * Issues and revokes channel access tokens. Requests are sent without the
+   * channel access token.
+   */
+  public get channelAccessToken(): channelAccessToken.ChannelAccessTokenClient {
+    return this.client("channelAccessToken", () => {
+      const { channelAccessToken: _, ...options } = this.options("api");
+      return new channelAccessToken.ChannelAccessTokenClient(options);
+    });
+  }
+
+  public get module(): moduleOperation.LineModuleClient {
+    return this.client(
+      "module",
+      () => new moduleOperation.LineModuleClient(this.options("api")),
+    );
+  }
+
+  public get moduleAttach(): moduleAttach.LineModuleAttachClient {
+    return this.client(
+      "moduleAttach",
+      () => new moduleAttach.LineModuleAttachClient(this.options("manager")),
+    );
+  }
+
+  public get shop(): shop.ShopClient {
+    return this.client("shop", () => new shop.ShopClient(this.options("api")));
+  }
+
+  private options(api: keyof LineBotBaseURLs): HTTPClientOptions & {
+    channelAccessToken: string | ChannelAccessTokenProvider;
+    baseURL?: string;
+  } {
+    const { baseURLs, ...options } = this.config;
+    return {
+      ...options,
+      rateLimiter: this.rateLimiter,
+      baseURL: baseURLs?.[api],
+    };
+  }
+
+  private client<T>(name: string, create: () => T): T {
+    if (!this.clients.has(name)) {
+      this.clients.set(name, create());
+    }
+    return this.clients.get(name) as T;
+  }
+}
@@ -19,16 +19,18 @@ import { Readable } from "node:stream";
 
 import HTTPFetchClient, {
   convertResponseToReadable,
+  FetchRequestConfig,
+  HTTPClientOptions,
 } from "../../http-fetch.js";
+import type { ChannelAccessTokenProvider } from "../../channel-access-token-provider.js";
 
 // ===============================================
 // This file is autogenerated - Please do not edit
 // ===============================================
 
-interface httpClientConfig {
+interface httpClientConfig extends HTTPClientOptions {
   baseURL?: string;
-  channelAccessToken: string;
-  // TODO support defaultHeaders?
+  channelAccessToken: string | ChannelAccessTokenProvider;
 }
 
 export class ManageAudienceBlobClient {
@@ -37,9 +39,11 @@ export class ManageAudienceBlobClient {
   constructor(config: httpClientConfig) {
     var baseURL = config.baseURL || "https://api-data.line.me";
     this.httpClient = new HTTPFetchClient({
+      ...config,
       defaultHeaders: {
-        Authorization: "Bearer " + config.channelAccessToken,
+        ...config.defaultHeaders,
       },
+      channelAccessToken: config.channelAccessToken,
       baseURL: baseURL,
     });
   }
@@ -62,6 +66,7 @@ export class ManageAudienceBlobClient {
    * @param file A text file with one user ID or IFA entered per line. Specify text/plain as Content-Type. Max file number: 1 Max number: 1,500,000
    * @param audienceGroupId The audience ID.
    * @param uploadDescription The description to register with the job
+   * @param requestOptions Options of the request, e.g. a signal to abort it, a timeout and extra headers.
    *
    * @see <a href="https://developers.line.biz/en/reference/messaging-api/#update-upload-audience-group-by-file"> Documentation</a>
    */
@@ -69,12 +74,14 @@ export class ManageAudienceBlobClient {
     file: Blob,
     audienceGroupId?: number,
     uploadDescription?: string,
+    requestOptions?: FetchRequestConfig,
   ): Promise<Types.MessageAPIResponseBase> {
     return (
       await this.addUserIdsToAudienceWithHttpInfo(
         file,
         audienceGroupId,
         uploadDescription,
+        requestOptions,
       )
     ).body;
   }
@@ -85,6 +92,7 @@ export class ManageAudienceBlobClient {
    * @param file A text file with one user ID or IFA entered per line. Specify text/plain as Content-Type. Max file number: 1 Max number: 1,500,000
    * @param audienceGroupId The audience ID.
    * @param uploadDescription The description to register with the job
+   * @param requestOptions Options of the request, e.g. a signal to abort it, a timeout and extra headers.
    *
    * @see <a href="https://developers.line.biz/en/reference/messaging-api/#update-upload-audience-group-by-file"> Documentation</a>
    */
@@ -92,6 +100,7 @@ export class ManageAudienceBlobClient {
     file: Blob,
     audienceGroupId?: number,
     uploadDescription?: string,
+    requestOptions?: FetchRequestConfig,
   ): Promise<Types.ApiResponseType<Types.MessageAPIResponseBase>> {
     var form = new FormData();
     form.append("audienceGroupId", String(audienceGroupId));
@@ -101,6 +110,7 @@ export class ManageAudienceBlobClient {
     var res = await this.httpClient.putFormMultipart(
       "/v2/bot/audienceGroup/upload/byFile",
       form,
+      requestOptions,
     );
     var text = await res.text();
     var parsedBody = text ? JSON.parse(text) : null;
@@ -112,6 +122,7 @@ export class ManageAudienceBlobClient {
    * @param description The audience\\\'s name. This is case-insensitive, meaning AUDIENCE and audience are considered identical. Max character limit: 120
    * @param isIfaAudience To specify recipients by IFAs: set `true`. To specify recipients by user IDs: set `false` or omit isIfaAudience property.
    * @param uploadDescription The description to register for the job (in `jobs[].description`).
+   * @param requestOptions Options of the request, e.g. a signal to abort it, a timeout and extra headers.
    *
    * @see <a href="https://developers.line.biz/en/reference/messaging-api/#create-upload-audience-group-by-file"> Documentation</a>
    */
@@ -120,6 +131,7 @@ export class ManageAudienceBlobClient {
     description?: string,
     isIfaAudience?: boolean,
     uploadDescription?: string,
+    requestOptions?: FetchRequestConfig,
   ): Promise<CreateAudienceGroupResponse> {
     return (
       await this.createAudienceForUploadingUserIdsWithHttpInfo(
@@ -127,6 +139,7 @@ export class ManageAudienceBlobClient {
         description,
         isIfaAudience,
         uploadDescription,
+        requestOptions,
       )
     ).body;
   }
@@ -138,6 +151,7 @@ export class ManageAudienceBlobClient {
    * @param description The audience\\\'s name. This is case-insensitive, meaning AUDIENCE and audience are considered identical. Max character limit: 120
    * @param isIfaAudience To specify recipients by IFAs: set `true`. To specify recipients by user IDs: set `false` or omit isIfaAudience property.
    * @param uploadDescription The description to register for the job (in `jobs[].description`).
+   * @param requestOptions Options of the request, e.g. a signal to abort it, a timeout and extra headers.
    *
    * @see <a href="https://developers.line.biz/en/reference/messaging-api/#create-upload-audience-group-by-file"> Documentation</a>
    */
@@ -146,6 +160,7 @@ export class ManageAudienceBlobClient {
     description?: string,
     isIfaAudience?: boolean,
     uploadDescription?: string,
+    requestOptions?: FetchRequestConfig,
   ): Promise<Types.ApiResponseType<CreateAudienceGroupResponse>> {
     var form = new FormData();
     form.append("description", String(description));
@@ -156,6 +171,7 @@ export class ManageAudienceBlobClient {
     var res = await this.httpClient.postFormMultipart(
       "/v2/bot/audienceGroup/upload/byFile",
       form,
+      requestOptions,
     );
     var text = await res.text();
     var parsedBody = text ? JSON.parse(text) : null;
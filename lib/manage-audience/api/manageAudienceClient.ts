@@ -35,16 +35,18 @@ import { Readable } from "node:stream";
 
 import HTTPFetchClient, {
   convertResponseToReadable,
+  FetchRequestConfig,
+  HTTPClientOptions,
 } from "../../http-fetch.js";
+import type { ChannelAccessTokenProvider } from "../../channel-access-token-provider.js";
 
 // ===============================================
 // This file is autogenerated - Please do not edit
 // ===============================================
 
-interface httpClientConfig {
+interface httpClientConfig extends HTTPClientOptions {
   baseURL?: string;
-  channelAccessToken: string;
-  // TODO support defaultHeaders?
+  channelAccessToken: string | ChannelAccessTokenProvider;
 }
 
 export class ManageAudienceClient {
@@ -53,9 +55,11 @@ export class ManageAudienceClient {
   constructor(config: httpClientConfig) {
     var baseURL = config.baseURL || "https://api.line.me";
     this.httpClient = new HTTPFetchClient({
+      ...config,
       defaultHeaders: {
-        Authorization: "Bearer " + config.channelAccessToken,
+        ...config.defaultHeaders,
       },
+      channelAccessToken: config.channelAccessToken,
       baseURL: baseURL,
     });
   }
@@ -76,30 +80,44 @@ export class ManageAudienceClient {
   /**
    * Activate audience
    * @param audienceGroupId The audience ID.
+   * @param requestOptions Options of the request, e.g. a signal to abort it, a timeout and extra headers.
    *
    * @see <a href="https://developers.line.biz/en/reference/messaging-api/#activate-audience-group"> Documentation</a>
    */
   public async activateAudienceGroup(
     audienceGroupId: number,
+    requestOptions?: FetchRequestConfig,
   ): Promise<Types.MessageAPIResponseBase> {
-    return (await this.activateAudienceGroupWithHttpInfo(audienceGroupId)).body;
+    return (
+      await this.activateAudienceGroupWithHttpInfo(
+        audienceGroupId,
+        requestOptions,
+      )
+    ).body;
   }
 
   /**
    * Activate audience.
    * This method includes HttpInfo object to return additional information.
    * @param audienceGroupId The audience ID.
+   * @param requestOptions Options of the request, e.g. a signal to abort it, a timeout and extra headers.
    *
    * @see <a href="https://developers.line.biz/en/reference/messaging-api/#activate-audience-group"> Documentation</a>
    */
   public async activateAudienceGroupWithHttpInfo(
     audienceGroupId: number,
+    requestOptions?: FetchRequestConfig,
   ): Promise<Types.ApiResponseType<Types.MessageAPIResponseBase>> {
     var res = await this.httpClient.put(
       "/v2/bot/audienceGroup/{audienceGroupId}/activate".replace(
         "{audienceGroupId}",
         String(audienceGroupId),
       ),
+      undefined,
+      {
+        ...requestOptions,
+        pathTemplate: "/v2/bot/audienceGroup/{audienceGroupId}/activate",
+      },
     );
     var text = await res.text();
     var parsedBody = text ? JSON.parse(text) : null;
@@ -108,15 +126,18 @@ export class ManageAudienceClient {
   /**
    * Add user IDs or Identifiers for Advertisers (IFAs) to an audience for uploading user IDs (by JSON)
    * @param addAudienceToAudienceGroupRequest
+   * @param requestOptions Options of the request, e.g. a signal to abort it, a timeout and extra headers.
    *
    * @see <a href="https://developers.line.biz/en/reference/messaging-api/#update-upload-audience-group"> Documentation</a>
    */
   public async addAudienceToAudienceGroup(
     addAudienceToAudienceGroupRequest: AddAudienceToAudienceGroupRequest,
+    requestOptions?: FetchRequestConfig,
   ): Promise<Types.MessageAPIResponseBase> {
     return (
       await this.addAudienceToAudienceGroupWithHttpInfo(
         addAudienceToAudienceGroupRequest,
+        requestOptions,
       )
     ).body;
   }
@@ -125,17 +146,20 @@ export class ManageAudienceClient {
    * Add user IDs or Identifiers for Advertisers (IFAs) to an audience for uploading user IDs (by JSON).
    * This method includes HttpInfo object to return additional information.
    * @param addAudienceToAudienceGroupRequest
+   * @param requestOptions Options of the request, e.g. a signal to abort it, a timeout and extra headers.
    *
    * @see <a href="https://developers.line.biz/en/reference/messaging-api/#update-upload-audience-group"> Documentation</a>
    */
   public async addAudienceToAudienceGroupWithHttpInfo(
     addAudienceToAudienceGroupRequest: AddAudienceToAudienceGroupRequest,
+    requestOptions?: FetchRequestConfig,
   ): Promise<Types.ApiResponseType<Types.MessageAPIResponseBase>> {
     var params = addAudienceToAudienceGroupRequest;
 
     var res = await this.httpClient.put(
       "/v2/bot/audienceGroup/upload",
       params,
+      requestOptions,
     );
     var text = await res.text();
     var parsedBody = text ? JSON.parse(text) : null;
@@ -144,14 +168,19 @@ export class ManageAudienceClient {
   /**
    * Create audience for uploading user IDs (by JSON)
    * @param createAudienceGroupRequest
+   * @param requestOptions Options of the request, e.g. a signal to abort it, a timeout and extra headers.
    *
    * @see <a href="https://developers.line.biz/en/reference/messaging-api/#create-upload-audience-group"> Documentation</a>
    */
   public async createAudienceGroup(
     createAudienceGroupRequest: CreateAudienceGroupRequest,
+    requestOptions?: FetchRequestConfig,
   ): Promise<CreateAudienceGroupResponse> {
     return (
-      await this.createAudienceGroupWithHttpInfo(createAudienceGroupRequest)
+      await this.createAudienceGroupWithHttpInfo(
+        createAudienceGroupRequest,
+        requestOptions,
+      )
     ).body;
   }
 
@@ -159,17 +188,20 @@ export class ManageAudienceClient {
    * Create audience for uploading user IDs (by JSON).
    * This method includes HttpInfo object to return additional information.
    * @param createAudienceGroupRequest
+   * @param requestOptions Options of the request, e.g. a signal to abort it, a timeout and extra headers.
    *
    * @see <a href="https://developers.line.biz/en/reference/messaging-api/#create-upload-audience-group"> Documentation</a>
    */
   public async createAudienceGroupWithHttpInfo(
     createAudienceGroupRequest: CreateAudienceGroupRequest,
+    requestOptions?: FetchRequestConfig,
   ): Promise<Types.ApiResponseType<CreateAudienceGroupResponse>> {
     var params = createAudienceGroupRequest;
 
     var res = await this.httpClient.post(
       "/v2/bot/audienceGroup/upload",
       params,
+      requestOptions,
     );
     var text = await res.text();
     var parsedBody = text ? JSON.parse(text) : null;
@@ -178,15 +210,18 @@ export class ManageAudienceClient {
   /**
    * Create audience for click-based retargeting
    * @param createClickBasedAudienceGroupRequest
+   * @param requestOptions Options of the request, e.g. a signal to abort it, a timeout and extra headers.
    *
    * @see <a href="https://developers.line.biz/en/reference/messaging-api/#create-click-audience-group"> Documentation</a>
    */
   public async createClickBasedAudienceGroup(
     createClickBasedAudienceGroupRequest: CreateClickBasedAudienceGroupRequest,
+    requestOptions?: FetchRequestConfig,
   ): Promise<CreateClickBasedAudienceGroupResponse> {
     return (
       await this.createClickBasedAudienceGroupWithHttpInfo(
         createClickBasedAudienceGroupRequest,
+        requestOptions,
       )
     ).body;
   }
@@ -195,17 +230,20 @@ export class ManageAudienceClient {
    * Create audience for click-based retargeting.
    * This method includes HttpInfo object to return additional information.
    * @param createClickBasedAudienceGroupRequest
+   * @param requestOptions Options of the request, e.g. a signal to abort it, a timeout and extra headers.
    *
    * @see <a href="https://developers.line.biz/en/reference/messaging-api/#create-click-audience-group"> Documentation</a>
    */
   public async createClickBasedAudienceGroupWithHttpInfo(
     createClickBasedAudienceGroupRequest: CreateClickBasedAudienceGroupRequest,
+    requestOptions?: FetchRequestConfig,
   ): Promise<Types.ApiResponseType<CreateClickBasedAudienceGroupResponse>> {
     var params = createClickBasedAudienceGroupRequest;
 
     var res = await this.httpClient.post(
       "/v2/bot/audienceGroup/click",
       params,
+      requestOptions,
     );
     var text = await res.text();
     var parsedBody = text ? JSON.parse(text) : null;
@@ -214,15 +252,18 @@ export class ManageAudienceClient {
   /**
    * Create audience for impression-based retargeting
    * @param createImpBasedAudienceGroupRequest
+   * @param requestOptions Options of the request, e.g. a signal to abort it, a timeout and extra headers.
    *
    * @see <a href="https://developers.line.biz/en/reference/messaging-api/#create-imp-audience-group"> Documentation</a>
    */
   public async createImpBasedAudienceGroup(
     createImpBasedAudienceGroupRequest: CreateImpBasedAudienceGroupRequest,
+    requestOptions?: FetchRequestConfig,
   ): Promise<CreateImpBasedAudienceGroupResponse> {
     return (
       await this.createImpBasedAudienceGroupWithHttpInfo(
         createImpBasedAudienceGroupRequest,
+        requestOptions,
       )
     ).body;
   }
@@ -231,15 +272,21 @@ export class ManageAudienceClient {
    * Create audience for impression-based retargeting.
    * This method includes HttpInfo object to return additional information.
    * @param createImpBasedAudienceGroupRequest
+   * @param requestOptions Options of the request, e.g. a signal to abort it, a timeout and extra headers.
    *
    * @see <a href="https://developers.line.biz/en/reference/messaging-api/#create-imp-audience-group"> Documentation</a>
    */
   public async createImpBasedAudienceGroupWithHttpInfo(
     createImpBasedAudienceGroupRequest: CreateImpBasedAudienceGroupRequest,
+    requestOptions?: FetchRequestConfig,
   ): Promise<Types.ApiResponseType<CreateImpBasedAudienceGroupResponse>> {
     var params = createImpBasedAudienceGroupRequest;
 
-    var res = await this.httpClient.post("/v2/bot/audienceGroup/imp", params);
+    var res = await this.httpClient.post(
+      "/v2/bot/audienceGroup/imp",
+      params,
+      requestOptions,
+    );
     var text = await res.text();
     var parsedBody = text ? JSON.parse(text) : null;
     return { httpResponse: res, body: parsedBody };
@@ -247,30 +294,44 @@ export class ManageAudienceClient {
   /**
    * Delete audience
    * @param audienceGroupId The audience ID.
+   * @param requestOptions Options of the request, e.g. a signal to abort it, a timeout and extra headers.
    *
    * @see <a href="https://developers.line.biz/en/reference/messaging-api/#delete-audience-group"> Documentation</a>
    */
   public async deleteAudienceGroup(
     audienceGroupId: number,
+    requestOptions?: FetchRequestConfig,
   ): Promise<Types.MessageAPIResponseBase> {
-    return (await this.deleteAudienceGroupWithHttpInfo(audienceGroupId)).body;
+    return (
+      await this.deleteAudienceGroupWithHttpInfo(
+        audienceGroupId,
+        requestOptions,
+      )
+    ).body;
   }
 
   /**
    * Delete audience.
    * This method includes HttpInfo object to return additional information.
    * @param audienceGroupId The audience ID.
+   * @param requestOptions Options of the request, e.g. a signal to abort it, a timeout and extra headers.
    *
    * @see <a href="https://developers.line.biz/en/reference/messaging-api/#delete-audience-group"> Documentation</a>
    */
   public async deleteAudienceGroupWithHttpInfo(
     audienceGroupId: number,
+    requestOptions?: FetchRequestConfig,
   ): Promise<Types.ApiResponseType<Types.MessageAPIResponseBase>> {
     var res = await this.httpClient.delete(
       "/v2/bot/audienceGroup/{audienceGroupId}".replace(
         "{audienceGroupId}",
         String(audienceGroupId),
       ),
+      undefined,
+      {
+        ...requestOptions,
+        pathTemplate: "/v2/bot/audienceGroup/{audienceGroupId}",
+      },
     );
     var text = await res.text();
     var parsedBody = text ? JSON.parse(text) : null;
@@ -279,30 +340,41 @@ export class ManageAudienceClient {
   /**
    * Gets audience data.
    * @param audienceGroupId The audience ID.
+   * @param requestOptions Options of the request, e.g. a signal to abort it, a timeout and extra headers.
    *
    * @see <a href="https://developers.line.biz/en/reference/messaging-api/#get-audience-group"> Documentation</a>
    */
   public async getAudienceData(
     audienceGroupId: number,
+    requestOptions?: FetchRequestConfig,
   ): Promise<GetAudienceDataResponse> {
-    return (await this.getAudienceDataWithHttpInfo(audienceGroupId)).body;
+    return (
+      await this.getAudienceDataWithHttpInfo(audienceGroupId, requestOptions)
+    ).body;
   }
 
   /**
    * Gets audience data..
    * This method includes HttpInfo object to return additional information.
    * @param audienceGroupId The audience ID.
+   * @param requestOptions Options of the request, e.g. a signal to abort it, a timeout and extra headers.
    *
    * @see <a href="https://developers.line.biz/en/reference/messaging-api/#get-audience-group"> Documentation</a>
    */
   public async getAudienceDataWithHttpInfo(
     audienceGroupId: number,
+    requestOptions?: FetchRequestConfig,
   ): Promise<Types.ApiResponseType<GetAudienceDataResponse>> {
     var res = await this.httpClient.get(
       "/v2/bot/audienceGroup/{audienceGroupId}".replace(
         "{audienceGroupId}",
         String(audienceGroupId),
       ),
+      undefined,
+      {
+        ...requestOptions,
+        pathTemplate: "/v2/bot/audienceGroup/{audienceGroupId}",
+      },
     );
     var text = await res.text();
     var parsedBody = text ? JSON.parse(text) : null;
@@ -310,24 +382,32 @@ export class ManageAudienceClient {
   }
   /**
    * Get the authority level of the audience
+   * @param requestOptions Options of the request, e.g. a signal to abort it, a timeout and extra headers.
    *
    * @see <a href="https://developers.line.biz/en/reference/messaging-api/#get-authority-level"> Documentation</a>
    */
-  public async getAudienceGroupAuthorityLevel(): Promise<GetAudienceGroupAuthorityLevelResponse> {
-    return (await this.getAudienceGroupAuthorityLevelWithHttpInfo()).body;
+  public async getAudienceGroupAuthorityLevel(
+    requestOptions?: FetchRequestConfig,
+  ): Promise<GetAudienceGroupAuthorityLevelResponse> {
+    return (
+      await this.getAudienceGroupAuthorityLevelWithHttpInfo(requestOptions)
+    ).body;
   }
 
   /**
    * Get the authority level of the audience.
    * This method includes HttpInfo object to return additional information.
+   * @param requestOptions Options of the request, e.g. a signal to abort it, a timeout and extra headers.
    *
    * @see <a href="https://developers.line.biz/en/reference/messaging-api/#get-authority-level"> Documentation</a>
    */
-  public async getAudienceGroupAuthorityLevelWithHttpInfo(): Promise<
-    Types.ApiResponseType<GetAudienceGroupAuthorityLevelResponse>
-  > {
+  public async getAudienceGroupAuthorityLevelWithHttpInfo(
+    requestOptions?: FetchRequestConfig,
+  ): Promise<Types.ApiResponseType<GetAudienceGroupAuthorityLevelResponse>> {
     var res = await this.httpClient.get(
       "/v2/bot/audienceGroup/authorityLevel",
+      undefined,
+      requestOptions,
     );
     var text = await res.text();
     var parsedBody = text ? JSON.parse(text) : null;
@@ -341,6 +421,7 @@ export class ManageAudienceClient {
    * @param size The number of audiences per page. Default: 20 Max: 40
    * @param includesExternalPublicGroups true (default): Get public audiences created in all channels linked to the same bot. false: Get audiences created in the same channel.
    * @param createRoute How the audience was created. If omitted, all audiences are included.  `OA_MANAGER`: Return only audiences created with LINE Official Account Manager (opens new window). `MESSAGING_API`: Return only audiences created with Messaging API.
+   * @param requestOptions Options of the request, e.g. a signal to abort it, a timeout and extra headers.
    *
    * @see <a href="https://developers.line.biz/en/reference/messaging-api/#get-audience-groups"> Documentation</a>
    */
@@ -351,6 +432,7 @@ export class ManageAudienceClient {
     size?: number,
     includesExternalPublicGroups?: boolean,
     createRoute?: AudienceGroupCreateRoute,
+    requestOptions?: FetchRequestConfig,
   ): Promise<GetAudienceGroupsResponse> {
     return (
       await this.getAudienceGroupsWithHttpInfo(
@@ -360,6 +442,7 @@ export class ManageAudienceClient {
         size,
         includesExternalPublicGroups,
         createRoute,
+        requestOptions,
       )
     ).body;
   }
@@ -373,6 +456,7 @@ export class ManageAudienceClient {
    * @param size The number of audiences per page. Default: 20 Max: 40
    * @param includesExternalPublicGroups true (default): Get public audiences created in all channels linked to the same bot. false: Get audiences created in the same channel.
    * @param createRoute How the audience was created. If omitted, all audiences are included.  `OA_MANAGER`: Return only audiences created with LINE Official Account Manager (opens new window). `MESSAGING_API`: Return only audiences created with Messaging API.
+   * @param requestOptions Options of the request, e.g. a signal to abort it, a timeout and extra headers.
    *
    * @see <a href="https://developers.line.biz/en/reference/messaging-api/#get-audience-groups"> Documentation</a>
    */
@@ -383,6 +467,7 @@ export class ManageAudienceClient {
     size?: number,
     includesExternalPublicGroups?: boolean,
     createRoute?: AudienceGroupCreateRoute,
+    requestOptions?: FetchRequestConfig,
   ): Promise<Types.ApiResponseType<GetAudienceGroupsResponse>> {
     var queryParams = {
       page: page,
@@ -401,6 +486,7 @@ export class ManageAudienceClient {
     var res = await this.httpClient.get(
       "/v2/bot/audienceGroup/list",
       queryParams,
+      requestOptions,
     );
     var text = await res.text();
     var parsedBody = text ? JSON.parse(text) : null;
@@ -409,30 +495,44 @@ export class ManageAudienceClient {
   /**
    * Gets audience data.
    * @param audienceGroupId The audience ID.
+   * @param requestOptions Options of the request, e.g. a signal to abort it, a timeout and extra headers.
    *
    * @see <a href="https://developers.line.biz/en/reference/messaging-api/#get-shared-audience"> Documentation</a>
    */
   public async getSharedAudienceData(
     audienceGroupId: number,
+    requestOptions?: FetchRequestConfig,
   ): Promise<GetSharedAudienceDataResponse> {
-    return (await this.getSharedAudienceDataWithHttpInfo(audienceGroupId)).body;
+    return (
+      await this.getSharedAudienceDataWithHttpInfo(
+        audienceGroupId,
+        requestOptions,
+      )
+    ).body;
   }
 
   /**
    * Gets audience data..
    * This method includes HttpInfo object to return additional information.
    * @param audienceGroupId The audience ID.
+   * @param requestOptions Options of the request, e.g. a signal to abort it, a timeout and extra headers.
    *
    * @see <a href="https://developers.line.biz/en/reference/messaging-api/#get-shared-audience"> Documentation</a>
    */
   public async getSharedAudienceDataWithHttpInfo(
     audienceGroupId: number,
+    requestOptions?: FetchRequestConfig,
   ): Promise<Types.ApiResponseType<GetSharedAudienceDataResponse>> {
     var res = await this.httpClient.get(
       "/v2/bot/audienceGroup/shared/{audienceGroupId}".replace(
         "{audienceGroupId}",
         String(audienceGroupId),
       ),
+      undefined,
+      {
+        ...requestOptions,
+        pathTemplate: "/v2/bot/audienceGroup/shared/{audienceGroupId}",
+      },
     );
     var text = await res.text();
     var parsedBody = text ? JSON.parse(text) : null;
@@ -445,6 +545,7 @@ export class ManageAudienceClient {
    * @param status The status of the audience(s) to return. If omitted, the status of the audience(s) will not be used as a search criterion.
    * @param size The number of audiences per page. Default: 20 Max: 40
    * @param createRoute How the audience was created. If omitted, all audiences are included.  `OA_MANAGER`: Return only audiences created with LINE Official Account Manager (opens new window). `MESSAGING_API`: Return only audiences created with Messaging API.
+   * @param requestOptions Options of the request, e.g. a signal to abort it, a timeout and extra headers.
    *
    * @see <a href="https://developers.line.biz/en/reference/messaging-api/#get-shared-audience-list"> Documentation</a>
    */
@@ -454,6 +555,7 @@ export class ManageAudienceClient {
     status?: AudienceGroupStatus,
     size?: number,
     createRoute?: AudienceGroupCreateRoute,
+    requestOptions?: FetchRequestConfig,
   ): Promise<GetSharedAudienceGroupsResponse> {
     return (
       await this.getSharedAudienceGroupsWithHttpInfo(
@@ -462,6 +564,7 @@ export class ManageAudienceClient {
         status,
         size,
         createRoute,
+        requestOptions,
       )
     ).body;
   }
@@ -474,6 +577,7 @@ export class ManageAudienceClient {
    * @param status The status of the audience(s) to return. If omitted, the status of the audience(s) will not be used as a search criterion.
    * @param size The number of audiences per page. Default: 20 Max: 40
    * @param createRoute How the audience was created. If omitted, all audiences are included.  `OA_MANAGER`: Return only audiences created with LINE Official Account Manager (opens new window). `MESSAGING_API`: Return only audiences created with Messaging API.
+   * @param requestOptions Options of the request, e.g. a signal to abort it, a timeout and extra headers.
    *
    * @see <a href="https://developers.line.biz/en/reference/messaging-api/#get-shared-audience-list"> Documentation</a>
    */
@@ -483,6 +587,7 @@ export class ManageAudienceClient {
     status?: AudienceGroupStatus,
     size?: number,
     createRoute?: AudienceGroupCreateRoute,
+    requestOptions?: FetchRequestConfig,
   ): Promise<Types.ApiResponseType<GetSharedAudienceGroupsResponse>> {
     var queryParams = {
       page: page,
@@ -500,6 +605,7 @@ export class ManageAudienceClient {
     var res = await this.httpClient.get(
       "/v2/bot/audienceGroup/shared/list",
       queryParams,
+      requestOptions,
     );
     var text = await res.text();
     var parsedBody = text ? JSON.parse(text) : null;
@@ -508,15 +614,18 @@ export class ManageAudienceClient {
   /**
    * Change the authority level of the audience
    * @param updateAudienceGroupAuthorityLevelRequest
+   * @param requestOptions Options of the request, e.g. a signal to abort it, a timeout and extra headers.
    *
    * @see <a href="https://developers.line.biz/en/reference/messaging-api/#change-authority-level"> Documentation</a>
    */
   public async updateAudienceGroupAuthorityLevel(
     updateAudienceGroupAuthorityLevelRequest: UpdateAudienceGroupAuthorityLevelRequest,
+    requestOptions?: FetchRequestConfig,
   ): Promise<Types.MessageAPIResponseBase> {
     return (
       await this.updateAudienceGroupAuthorityLevelWithHttpInfo(
         updateAudienceGroupAuthorityLevelRequest,
+        requestOptions,
       )
     ).body;
   }
@@ -525,17 +634,20 @@ export class ManageAudienceClient {
    * Change the authority level of the audience.
    * This method includes HttpInfo object to return additional information.
    * @param updateAudienceGroupAuthorityLevelRequest
+   * @param requestOptions Options of the request, e.g. a signal to abort it, a timeout and extra headers.
    *
    * @see <a href="https://developers.line.biz/en/reference/messaging-api/#change-authority-level"> Documentation</a>
    */
   public async updateAudienceGroupAuthorityLevelWithHttpInfo(
     updateAudienceGroupAuthorityLevelRequest: UpdateAudienceGroupAuthorityLevelRequest,
+    requestOptions?: FetchRequestConfig,
   ): Promise<Types.ApiResponseType<Types.MessageAPIResponseBase>> {
     var params = updateAudienceGroupAuthorityLevelRequest;
 
     var res = await this.httpClient.put(
       "/v2/bot/audienceGroup/authorityLevel",
       params,
+      requestOptions,
     );
     var text = await res.text();
     var parsedBody = text ? JSON.parse(text) : null;
@@ -545,17 +657,20 @@ export class ManageAudienceClient {
    * Renames an existing audience.
    * @param audienceGroupId The audience ID.
    * @param updateAudienceGroupDescriptionRequest
+   * @param requestOptions Options of the request, e.g. a signal to abort it, a timeout and extra headers.
    *
    * @see <a href="https://developers.line.biz/en/reference/messaging-api/#set-description-audience-group"> Documentation</a>
    */
   public async updateAudienceGroupDescription(
     audienceGroupId: number,
     updateAudienceGroupDescriptionRequest: UpdateAudienceGroupDescriptionRequest,
+    requestOptions?: FetchRequestConfig,
   ): Promise<Types.MessageAPIResponseBase> {
     return (
       await this.updateAudienceGroupDescriptionWithHttpInfo(
         audienceGroupId,
         updateAudienceGroupDescriptionRequest,
+        requestOptions,
       )
     ).body;
   }
@@ -565,12 +680,14 @@ export class ManageAudienceClient {
    * This method includes HttpInfo object to return additional information.
    * @param audienceGroupId The audience ID.
    * @param updateAudienceGroupDescriptionRequest
+   * @param requestOptions Options of the request, e.g. a signal to abort it, a timeout and extra headers.
    *
    * @see <a href="https://developers.line.biz/en/reference/messaging-api/#set-description-audience-group"> Documentation</a>
    */
   public async updateAudienceGroupDescriptionWithHttpInfo(
     audienceGroupId: number,
     updateAudienceGroupDescriptionRequest: UpdateAudienceGroupDescriptionRequest,
+    requestOptions?: FetchRequestConfig,
   ): Promise<Types.ApiResponseType<Types.MessageAPIResponseBase>> {
     var params = updateAudienceGroupDescriptionRequest;
 
@@ -580,6 +697,11 @@ export class ManageAudienceClient {
         String(audienceGroupId),
       ),
       params,
+      {
+        ...requestOptions,
+        pathTemplate:
+          "/v2/bot/audienceGroup/{audienceGroupId}/updateDescription",
+      },
     );
     var text = await res.text();
     var parsedBody = text ? JSON.parse(text) : null;
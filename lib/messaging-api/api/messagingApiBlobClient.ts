@@ -19,16 +19,18 @@ import { Readable } from "node:stream";
 
 import HTTPFetchClient, {
   convertResponseToReadable,
+  FetchRequestConfig,
+  HTTPClientOptions,
 } from "../../http-fetch.js";
+import type { ChannelAccessTokenProvider } from "../../channel-access-token-provider.js";
 
 // ===============================================
 // This file is autogenerated - Please do not edit
 // ===============================================
 
-interface httpClientConfig {
+interface httpClientConfig extends HTTPClientOptions {
   baseURL?: string;
-  channelAccessToken: string;
-  // TODO support defaultHeaders?
+  channelAccessToken: string | ChannelAccessTokenProvider;
 }
 
 export class MessagingApiBlobClient {
@@ -37,9 +39,11 @@ export class MessagingApiBlobClient {
   constructor(config: httpClientConfig) {
     const baseURL = config.baseURL || "https://api-data.line.me";
     this.httpClient = new HTTPFetchClient({
+      ...config,
       defaultHeaders: {
-        Authorization: "Bearer " + config.channelAccessToken,
+        ...config.defaultHeaders,
       },
+      channelAccessToken: config.channelAccessToken,
       baseURL: baseURL,
     });
   }
@@ -60,28 +64,40 @@ export class MessagingApiBlobClient {
   /**
    * Download image, video, and audio data sent from users.
    * @param messageId Message ID of video or audio
+   * @param requestOptions Options of the request, e.g. a signal to abort it, a timeout and extra headers.
    *
    * @see <a href="https://developers.line.biz/en/reference/messaging-api/#get-content"> Documentation</a>
    */
-  public async getMessageContent(messageId: string): Promise<Readable> {
-    return (await this.getMessageContentWithHttpInfo(messageId)).body;
+  public async getMessageContent(
+    messageId: string,
+    requestOptions?: FetchRequestConfig,
+  ): Promise<Readable> {
+    return (await this.getMessageContentWithHttpInfo(messageId, requestOptions))
+      .body;
   }
 
   /**
    * Download image, video, and audio data sent from users..
    * This method includes HttpInfo object to return additional information.
    * @param messageId Message ID of video or audio
+   * @param requestOptions Options of the request, e.g. a signal to abort it, a timeout and extra headers.
    *
    * @see <a href="https://developers.line.biz/en/reference/messaging-api/#get-content"> Documentation</a>
    */
   public async getMessageContentWithHttpInfo(
     messageId: string,
+    requestOptions?: FetchRequestConfig,
   ): Promise<Types.ApiResponseType<Readable>> {
     const response = await this.httpClient.get(
       "/v2/bot/message/{messageId}/content".replace(
         "{" + "messageId" + "}",
         String(messageId),
       ),
+      undefined,
+      {
+        ...requestOptions,
+        pathTemplate: "/v2/bot/message/{messageId}/content",
+      },
     );
     return {
       httpResponse: response,
@@ -91,28 +107,41 @@ export class MessagingApiBlobClient {
   /**
    * Get a preview image of the image or video
    * @param messageId Message ID of image or video
+   * @param requestOptions Options of the request, e.g. a signal to abort it, a timeout and extra headers.
    *
    * @see <a href="https://developers.line.biz/en/reference/messaging-api/#get-image-or-video-preview"> Documentation</a>
    */
-  public async getMessageContentPreview(messageId: string): Promise<Readable> {
-    return (await this.getMessageContentPreviewWithHttpInfo(messageId)).body;
+  public async getMessageContentPreview(
+    messageId: string,
+    requestOptions?: FetchRequestConfig,
+  ): Promise<Readable> {
+    return (
+      await this.getMessageContentPreviewWithHttpInfo(messageId, requestOptions)
+    ).body;
   }
 
   /**
    * Get a preview image of the image or video.
    * This method includes HttpInfo object to return additional information.
    * @param messageId Message ID of image or video
+   * @param requestOptions Options of the request, e.g. a signal to abort it, a timeout and extra headers.
    *
    * @see <a href="https://developers.line.biz/en/reference/messaging-api/#get-image-or-video-preview"> Documentation</a>
    */
   public async getMessageContentPreviewWithHttpInfo(
     messageId: string,
+    requestOptions?: FetchRequestConfig,
   ): Promise<Types.ApiResponseType<Readable>> {
     const response = await this.httpClient.get(
       "/v2/bot/message/{messageId}/content/preview".replace(
         "{" + "messageId" + "}",
         String(messageId),
       ),
+      undefined,
+      {
+        ...requestOptions,
+        pathTemplate: "/v2/bot/message/{messageId}/content/preview",
+      },
     );
     return {
       httpResponse: response,
@@ -122,14 +151,19 @@ export class MessagingApiBlobClient {
   /**
    * Verify the preparation status of a video or audio for getting
    * @param messageId Message ID of video or audio
+   * @param requestOptions Options of the request, e.g. a signal to abort it, a timeout and extra headers.
    *
    * @see <a href="https://developers.line.biz/en/reference/messaging-api/#verify-video-or-audio-preparation-status"> Documentation</a>
    */
   public async getMessageContentTranscodingByMessageId(
     messageId: string,
+    requestOptions?: FetchRequestConfig,
   ): Promise<GetMessageContentTranscodingResponse> {
     return (
-      await this.getMessageContentTranscodingByMessageIdWithHttpInfo(messageId)
+      await this.getMessageContentTranscodingByMessageIdWithHttpInfo(
+        messageId,
+        requestOptions,
+      )
     ).body;
   }
 
@@ -137,17 +171,24 @@ export class MessagingApiBlobClient {
    * Verify the preparation status of a video or audio for getting.
    * This method includes HttpInfo object to return additional information.
    * @param messageId Message ID of video or audio
+   * @param requestOptions Options of the request, e.g. a signal to abort it, a timeout and extra headers.
    *
    * @see <a href="https://developers.line.biz/en/reference/messaging-api/#verify-video-or-audio-preparation-status"> Documentation</a>
    */
   public async getMessageContentTranscodingByMessageIdWithHttpInfo(
     messageId: string,
+    requestOptions?: FetchRequestConfig,
   ): Promise<Types.ApiResponseType<GetMessageContentTranscodingResponse>> {
     const res = await this.httpClient.get(
       "/v2/bot/message/{messageId}/content/transcoding".replace(
         "{messageId}",
         String(messageId),
       ),
+      undefined,
+      {
+        ...requestOptions,
+        pathTemplate: "/v2/bot/message/{messageId}/content/transcoding",
+      },
     );
     const text = await res.text();
     const parsedBody = text ? JSON.parse(text) : null;
@@ -156,28 +197,40 @@ export class MessagingApiBlobClient {
   /**
    * Download rich menu image.
    * @param richMenuId ID of the rich menu with the image to be downloaded
+   * @param requestOptions Options of the request, e.g. a signal to abort it, a timeout and extra headers.
    *
    * @see <a href="https://developers.line.biz/en/reference/messaging-api/#download-rich-menu-image"> Documentation</a>
    */
-  public async getRichMenuImage(richMenuId: string): Promise<Readable> {
-    return (await this.getRichMenuImageWithHttpInfo(richMenuId)).body;
+  public async getRichMenuImage(
+    richMenuId: string,
+    requestOptions?: FetchRequestConfig,
+  ): Promise<Readable> {
+    return (await this.getRichMenuImageWithHttpInfo(richMenuId, requestOptions))
+      .body;
   }
 
   /**
    * Download rich menu image..
    * This method includes HttpInfo object to return additional information.
    * @param richMenuId ID of the rich menu with the image to be downloaded
+   * @param requestOptions Options of the request, e.g. a signal to abort it, a timeout and extra headers.
    *
    * @see <a href="https://developers.line.biz/en/reference/messaging-api/#download-rich-menu-image"> Documentation</a>
    */
   public async getRichMenuImageWithHttpInfo(
     richMenuId: string,
+    requestOptions?: FetchRequestConfig,
   ): Promise<Types.ApiResponseType<Readable>> {
     const response = await this.httpClient.get(
       "/v2/bot/richmenu/{richMenuId}/content".replace(
         "{" + "richMenuId" + "}",
         String(richMenuId),
       ),
+      undefined,
+      {
+        ...requestOptions,
+        pathTemplate: "/v2/bot/richmenu/{richMenuId}/content",
+      },
     );
     return {
       httpResponse: response,
@@ -188,14 +241,18 @@ export class MessagingApiBlobClient {
    * Upload rich menu image
    * @param richMenuId The ID of the rich menu to attach the image to
    * @param body
+   * @param requestOptions Options of the request, e.g. a signal to abort it, a timeout and extra headers.
    *
    * @see <a href="https://developers.line.biz/en/reference/messaging-api/#upload-rich-menu-image"> Documentation</a>
    */
   public async setRichMenuImage(
     richMenuId: string,
     body?: Blob,
+    requestOptions?: FetchRequestConfig,
   ): Promise<Types.MessageAPIResponseBase> {
-    return (await this.setRichMenuImageWithHttpInfo(richMenuId, body)).body;
+    return (
+      await this.setRichMenuImageWithHttpInfo(richMenuId, body, requestOptions)
+    ).body;
   }
 
   /**
@@ -203,12 +260,14 @@ export class MessagingApiBlobClient {
    * This method includes HttpInfo object to return additional information.
    * @param richMenuId The ID of the rich menu to attach the image to
    * @param body
+   * @param requestOptions Options of the request, e.g. a signal to abort it, a timeout and extra headers.
    *
    * @see <a href="https://developers.line.biz/en/reference/messaging-api/#upload-rich-menu-image"> Documentation</a>
    */
   public async setRichMenuImageWithHttpInfo(
     richMenuId: string,
     body?: Blob,
+    requestOptions?: FetchRequestConfig,
   ): Promise<Types.ApiResponseType<Types.MessageAPIResponseBase>> {
     const params = body;
 
@@ -218,6 +277,10 @@ export class MessagingApiBlobClient {
         String(richMenuId),
       ),
       params,
+      {
+        ...requestOptions,
+        pathTemplate: "/v2/bot/richmenu/{richMenuId}/content",
+      },
     );
     const text = await res.text();
     const parsedBody = text ? JSON.parse(text) : null;
@@ -65,16 +65,18 @@ import { Readable } from "node:stream";
 
 import HTTPFetchClient, {
   convertResponseToReadable,
+  FetchRequestConfig,
+  HTTPClientOptions,
 } from "../../http-fetch.js";
+import type { ChannelAccessTokenProvider } from "../../channel-access-token-provider.js";
 
 // ===============================================
 // This file is autogenerated - Please do not edit
 // ===============================================
 
-interface httpClientConfig {
+interface httpClientConfig extends HTTPClientOptions {
   baseURL?: string;
-  channelAccessToken: string;
-  // TODO support defaultHeaders?
+  channelAccessToken: string | ChannelAccessTokenProvider;
 }
 
 export class MessagingApiClient {
@@ -83,9 +85,11 @@ export class MessagingApiClient {
   constructor(config: httpClientConfig) {
     const baseURL = config.baseURL || "https://api.line.me";
     this.httpClient = new HTTPFetchClient({
+      ...config,
       defaultHeaders: {
-        Authorization: "Bearer " + config.channelAccessToken,
+        ...config.defaultHeaders,
       },
+      channelAccessToken: config.channelAccessToken,
       baseURL: baseURL,
     });
   }
@@ -107,15 +111,22 @@ export class MessagingApiClient {
    * Sends a message to multiple users at any time.
    * @param broadcastRequest
    * @param xLineRetryKey Retry key. Specifies the UUID in hexadecimal format (e.g., `123e4567-e89b-12d3-a456-426614174000`) generated by any method. The retry key isn\'t generated by LINE. Each developer must generate their own retry key.
+   * @param requestOptions Options of the request, e.g. a signal to abort it, a timeout and extra headers.
    *
    * @see <a href="https://developers.line.biz/en/reference/messaging-api/#send-broadcast-message"> Documentation</a>
    */
   public async broadcast(
     broadcastRequest: BroadcastRequest,
     xLineRetryKey?: string,
+    requestOptions?: FetchRequestConfig,
   ): Promise<object> {
-    return (await this.broadcastWithHttpInfo(broadcastRequest, xLineRetryKey))
-      .body;
+    return (
+      await this.broadcastWithHttpInfo(
+        broadcastRequest,
+        xLineRetryKey,
+        requestOptions,
+      )
+    ).body;
   }
 
   /**
@@ -123,12 +134,14 @@ export class MessagingApiClient {
    * This method includes HttpInfo object to return additional information.
    * @param broadcastRequest
    * @param xLineRetryKey Retry key. Specifies the UUID in hexadecimal format (e.g., `123e4567-e89b-12d3-a456-426614174000`) generated by any method. The retry key isn\'t generated by LINE. Each developer must generate their own retry key.
+   * @param requestOptions Options of the request, e.g. a signal to abort it, a timeout and extra headers.
    *
    * @see <a href="https://developers.line.biz/en/reference/messaging-api/#send-broadcast-message"> Documentation</a>
    */
   public async broadcastWithHttpInfo(
     broadcastRequest: BroadcastRequest,
     xLineRetryKey?: string,
+    requestOptions?: FetchRequestConfig,
   ): Promise<Types.ApiResponseType<object>> {
     const params = broadcastRequest;
 
@@ -139,8 +152,10 @@ export class MessagingApiClient {
     const res = await this.httpClient.post(
       "/v2/bot/message/broadcast",
       params,
-
-      { headers: headerParams },
+      {
+        ...requestOptions,
+        headers: { ...requestOptions?.headers, ...headerParams },
+      },
     );
     const text = await res.text();
     const parsedBody = text ? JSON.parse(text) : null;
@@ -148,23 +163,31 @@ export class MessagingApiClient {
   }
   /**
    * Cancel default rich menu
+   * @param requestOptions Options of the request, e.g. a signal to abort it, a timeout and extra headers.
    *
    * @see <a href="https://developers.line.biz/en/reference/messaging-api/#cancel-default-rich-menu"> Documentation</a>
    */
-  public async cancelDefaultRichMenu(): Promise<Types.MessageAPIResponseBase> {
-    return (await this.cancelDefaultRichMenuWithHttpInfo()).body;
+  public async cancelDefaultRichMenu(
+    requestOptions?: FetchRequestConfig,
+  ): Promise<Types.MessageAPIResponseBase> {
+    return (await this.cancelDefaultRichMenuWithHttpInfo(requestOptions)).body;
   }
 
   /**
    * Cancel default rich menu.
    * This method includes HttpInfo object to return additional information.
+   * @param requestOptions Options of the request, e.g. a signal to abort it, a timeout and extra headers.
    *
    * @see <a href="https://developers.line.biz/en/reference/messaging-api/#cancel-default-rich-menu"> Documentation</a>
    */
-  public async cancelDefaultRichMenuWithHttpInfo(): Promise<
-    Types.ApiResponseType<Types.MessageAPIResponseBase>
-  > {
-    const res = await this.httpClient.delete("/v2/bot/user/all/richmenu");
+  public async cancelDefaultRichMenuWithHttpInfo(
+    requestOptions?: FetchRequestConfig,
+  ): Promise<Types.ApiResponseType<Types.MessageAPIResponseBase>> {
+    const res = await this.httpClient.delete(
+      "/v2/bot/user/all/richmenu",
+      undefined,
+      requestOptions,
+    );
     const text = await res.text();
     const parsedBody = text ? JSON.parse(text) : null;
     return { httpResponse: res, body: parsedBody };
@@ -172,28 +195,38 @@ export class MessagingApiClient {
   /**
    * Create rich menu
    * @param richMenuRequest
+   * @param requestOptions Options of the request, e.g. a signal to abort it, a timeout and extra headers.
    *
    * @see <a href="https://developers.line.biz/en/reference/messaging-api/#create-rich-menu"> Documentation</a>
    */
   public async createRichMenu(
     richMenuRequest: RichMenuRequest,
+    requestOptions?: FetchRequestConfig,
   ): Promise<RichMenuIdResponse> {
-    return (await this.createRichMenuWithHttpInfo(richMenuRequest)).body;
+    return (
+      await this.createRichMenuWithHttpInfo(richMenuRequest, requestOptions)
+    ).body;
   }
 
   /**
    * Create rich menu.
    * This method includes HttpInfo object to return additional information.
    * @param richMenuRequest
+   * @param requestOptions Options of the request, e.g. a signal to abort it, a timeout and extra headers.
    *
    * @see <a href="https://developers.line.biz/en/reference/messaging-api/#create-rich-menu"> Documentation</a>
    */
   public async createRichMenuWithHttpInfo(
     richMenuRequest: RichMenuRequest,
+    requestOptions?: FetchRequestConfig,
   ): Promise<Types.ApiResponseType<RichMenuIdResponse>> {
     const params = richMenuRequest;
 
-    const res = await this.httpClient.post("/v2/bot/richmenu", params);
+    const res = await this.httpClient.post(
+      "/v2/bot/richmenu",
+      params,
+      requestOptions,
+    );
     const text = await res.text();
     const parsedBody = text ? JSON.parse(text) : null;
     return { httpResponse: res, body: parsedBody };
@@ -201,14 +234,19 @@ export class MessagingApiClient {
   /**
    * Create rich menu alias
    * @param createRichMenuAliasRequest
+   * @param requestOptions Options of the request, e.g. a signal to abort it, a timeout and extra headers.
    *
    * @see <a href="https://developers.line.biz/en/reference/messaging-api/#create-rich-menu-alias"> Documentation</a>
    */
   public async createRichMenuAlias(
     createRichMenuAliasRequest: CreateRichMenuAliasRequest,
+    requestOptions?: FetchRequestConfig,
   ): Promise<Types.MessageAPIResponseBase> {
     return (
-      await this.createRichMenuAliasWithHttpInfo(createRichMenuAliasRequest)
+      await this.createRichMenuAliasWithHttpInfo(
+        createRichMenuAliasRequest,
+        requestOptions,
+      )
     ).body;
   }
 
@@ -216,15 +254,21 @@ export class MessagingApiClient {
    * Create rich menu alias.
    * This method includes HttpInfo object to return additional information.
    * @param createRichMenuAliasRequest
+   * @param requestOptions Options of the request, e.g. a signal to abort it, a timeout and extra headers.
    *
    * @see <a href="https://developers.line.biz/en/reference/messaging-api/#create-rich-menu-alias"> Documentation</a>
    */
   public async createRichMenuAliasWithHttpInfo(
     createRichMenuAliasRequest: CreateRichMenuAliasRequest,
+    requestOptions?: FetchRequestConfig,
   ): Promise<Types.ApiResponseType<Types.MessageAPIResponseBase>> {
     const params = createRichMenuAliasRequest;
 
-    const res = await this.httpClient.post("/v2/bot/richmenu/alias", params);
+    const res = await this.httpClient.post(
+      "/v2/bot/richmenu/alias",
+      params,
+      requestOptions,
+    );
     const text = await res.text();
     const parsedBody = text ? JSON.parse(text) : null;
     return { httpResponse: res, body: parsedBody };
@@ -232,30 +276,37 @@ export class MessagingApiClient {
   /**
    * Deletes a rich menu.
    * @param richMenuId ID of a rich menu
+   * @param requestOptions Options of the request, e.g. a signal to abort it, a timeout and extra headers.
    *
    * @see <a href="https://developers.line.biz/en/reference/messaging-api/#delete-rich-menu"> Documentation</a>
    */
   public async deleteRichMenu(
     richMenuId: string,
+    requestOptions?: FetchRequestConfig,
   ): Promise<Types.MessageAPIResponseBase> {
-    return (await this.deleteRichMenuWithHttpInfo(richMenuId)).body;
+    return (await this.deleteRichMenuWithHttpInfo(richMenuId, requestOptions))
+      .body;
   }
 
   /**
    * Deletes a rich menu..
    * This method includes HttpInfo object to return additional information.
    * @param richMenuId ID of a rich menu
+   * @param requestOptions Options of the request, e.g. a signal to abort it, a timeout and extra headers.
    *
    * @see <a href="https://developers.line.biz/en/reference/messaging-api/#delete-rich-menu"> Documentation</a>
    */
   public async deleteRichMenuWithHttpInfo(
     richMenuId: string,
+    requestOptions?: FetchRequestConfig,
   ): Promise<Types.ApiResponseType<Types.MessageAPIResponseBase>> {
     const res = await this.httpClient.delete(
       "/v2/bot/richmenu/{richMenuId}".replace(
         "{richMenuId}",
         String(richMenuId),
       ),
+      undefined,
+      { ...requestOptions, pathTemplate: "/v2/bot/richmenu/{richMenuId}" },
     );
     const text = await res.text();
     const parsedBody = text ? JSON.parse(text) : null;
@@ -264,30 +315,44 @@ export class MessagingApiClient {
   /**
    * Delete rich menu alias
    * @param richMenuAliasId Rich menu alias ID that you want to delete.
+   * @param requestOptions Options of the request, e.g. a signal to abort it, a timeout and extra headers.
    *
    * @see <a href="https://developers.line.biz/en/reference/messaging-api/#delete-rich-menu-alias"> Documentation</a>
    */
   public async deleteRichMenuAlias(
     richMenuAliasId: string,
+    requestOptions?: FetchRequestConfig,
   ): Promise<Types.MessageAPIResponseBase> {
-    return (await this.deleteRichMenuAliasWithHttpInfo(richMenuAliasId)).body;
+    return (
+      await this.deleteRichMenuAliasWithHttpInfo(
+        richMenuAliasId,
+        requestOptions,
+      )
+    ).body;
   }
 
   /**
    * Delete rich menu alias.
    * This method includes HttpInfo object to return additional information.
    * @param richMenuAliasId Rich menu alias ID that you want to delete.
+   * @param requestOptions Options of the request, e.g. a signal to abort it, a timeout and extra headers.
    *
    * @see <a href="https://developers.line.biz/en/reference/messaging-api/#delete-rich-menu-alias"> Documentation</a>
    */
   public async deleteRichMenuAliasWithHttpInfo(
     richMenuAliasId: string,
+    requestOptions?: FetchRequestConfig,
   ): Promise<Types.ApiResponseType<Types.MessageAPIResponseBase>> {
     const res = await this.httpClient.delete(
       "/v2/bot/richmenu/alias/{richMenuAliasId}".replace(
         "{richMenuAliasId}",
         String(richMenuAliasId),
       ),
+      undefined,
+      {
+        ...requestOptions,
+        pathTemplate: "/v2/bot/richmenu/alias/{richMenuAliasId}",
+      },
     );
     const text = await res.text();
     const parsedBody = text ? JSON.parse(text) : null;
@@ -297,15 +362,22 @@ export class MessagingApiClient {
    * Get name list of units used this month
    * @param limit The maximum number of aggregation units you can get per request.
    * @param start Value of the continuation token found in the next property of the JSON object returned in the response. If you can\'t get all the aggregation units in one request, include this parameter to get the remaining array.
+   * @param requestOptions Options of the request, e.g. a signal to abort it, a timeout and extra headers.
    *
    * @see <a href="https://developers.line.biz/en/reference/messaging-api/#get-name-list-of-units-used-this-month"> Documentation</a>
    */
   public async getAggregationUnitNameList(
     limit?: string,
     start?: string,
+    requestOptions?: FetchRequestConfig,
   ): Promise<GetAggregationUnitNameListResponse> {
-    return (await this.getAggregationUnitNameListWithHttpInfo(limit, start))
-      .body;
+    return (
+      await this.getAggregationUnitNameListWithHttpInfo(
+        limit,
+        start,
+        requestOptions,
+      )
+    ).body;
   }
 
   /**
@@ -313,12 +385,14 @@ export class MessagingApiClient {
    * This method includes HttpInfo object to return additional information.
    * @param limit The maximum number of aggregation units you can get per request.
    * @param start Value of the continuation token found in the next property of the JSON object returned in the response. If you can\'t get all the aggregation units in one request, include this parameter to get the remaining array.
+   * @param requestOptions Options of the request, e.g. a signal to abort it, a timeout and extra headers.
    *
    * @see <a href="https://developers.line.biz/en/reference/messaging-api/#get-name-list-of-units-used-this-month"> Documentation</a>
    */
   public async getAggregationUnitNameListWithHttpInfo(
     limit?: string,
     start?: string,
+    requestOptions?: FetchRequestConfig,
   ): Promise<Types.ApiResponseType<GetAggregationUnitNameListResponse>> {
     const queryParams = {
       limit: limit,
@@ -333,6 +407,7 @@ export class MessagingApiClient {
     const res = await this.httpClient.get(
       "/v2/bot/message/aggregation/list",
       queryParams,
+      requestOptions,
     );
     const text = await res.text();
     const parsedBody = text ? JSON.parse(text) : null;
@@ -340,69 +415,94 @@ export class MessagingApiClient {
   }
   /**
    * Get number of units used this month
+   * @param requestOptions Options of the request, e.g. a signal to abort it, a timeout and extra headers.
    *
    * @see <a href="https://developers.line.biz/en/reference/messaging-api/#get-number-of-units-used-this-month"> Documentation</a>
    */
-  public async getAggregationUnitUsage(): Promise<GetAggregationUnitUsageResponse> {
-    return (await this.getAggregationUnitUsageWithHttpInfo()).body;
+  public async getAggregationUnitUsage(
+    requestOptions?: FetchRequestConfig,
+  ): Promise<GetAggregationUnitUsageResponse> {
+    return (await this.getAggregationUnitUsageWithHttpInfo(requestOptions))
+      .body;
   }
 
   /**
    * Get number of units used this month.
    * This method includes HttpInfo object to return additional information.
+   * @param requestOptions Options of the request, e.g. a signal to abort it, a timeout and extra headers.
    *
    * @see <a href="https://developers.line.biz/en/reference/messaging-api/#get-number-of-units-used-this-month"> Documentation</a>
    */
-  public async getAggregationUnitUsageWithHttpInfo(): Promise<
-    Types.ApiResponseType<GetAggregationUnitUsageResponse>
-  > {
-    const res = await this.httpClient.get("/v2/bot/message/aggregation/info");
+  public async getAggregationUnitUsageWithHttpInfo(
+    requestOptions?: FetchRequestConfig,
+  ): Promise<Types.ApiResponseType<GetAggregationUnitUsageResponse>> {
+    const res = await this.httpClient.get(
+      "/v2/bot/message/aggregation/info",
+      undefined,
+      requestOptions,
+    );
     const text = await res.text();
     const parsedBody = text ? JSON.parse(text) : null;
     return { httpResponse: res, body: parsedBody };
   }
   /**
    * Get bot info
+   * @param requestOptions Options of the request, e.g. a signal to abort it, a timeout and extra headers.
    *
    * @see <a href="https://developers.line.biz/en/reference/messaging-api/#get-bot-info"> Documentation</a>
    */
-  public async getBotInfo(): Promise<BotInfoResponse> {
-    return (await this.getBotInfoWithHttpInfo()).body;
+  public async getBotInfo(
+    requestOptions?: FetchRequestConfig,
+  ): Promise<BotInfoResponse> {
+    return (await this.getBotInfoWithHttpInfo(requestOptions)).body;
   }
 
   /**
    * Get bot info.
    * This method includes HttpInfo object to return additional information.
+   * @param requestOptions Options of the request, e.g. a signal to abort it, a timeout and extra headers.
    *
    * @see <a href="https://developers.line.biz/en/reference/messaging-api/#get-bot-info"> Documentation</a>
    */
-  public async getBotInfoWithHttpInfo(): Promise<
-    Types.ApiResponseType<BotInfoResponse>
-  > {
-    const res = await this.httpClient.get("/v2/bot/info");
+  public async getBotInfoWithHttpInfo(
+    requestOptions?: FetchRequestConfig,
+  ): Promise<Types.ApiResponseType<BotInfoResponse>> {
+    const res = await this.httpClient.get(
+      "/v2/bot/info",
+      undefined,
+      requestOptions,
+    );
     const text = await res.text();
     const parsedBody = text ? JSON.parse(text) : null;
     return { httpResponse: res, body: parsedBody };
   }
   /**
    * Gets the ID of the default rich menu set with the Messaging API.
+   * @param requestOptions Options of the request, e.g. a signal to abort it, a timeout and extra headers.
    *
    * @see <a href="https://developers.line.biz/en/reference/messaging-api/#get-default-rich-menu-id"> Documentation</a>
    */
-  public async getDefaultRichMenuId(): Promise<RichMenuIdResponse> {
-    return (await this.getDefaultRichMenuIdWithHttpInfo()).body;
+  public async getDefaultRichMenuId(
+    requestOptions?: FetchRequestConfig,
+  ): Promise<RichMenuIdResponse> {
+    return (await this.getDefaultRichMenuIdWithHttpInfo(requestOptions)).body;
   }
 
   /**
    * Gets the ID of the default rich menu set with the Messaging API..
    * This method includes HttpInfo object to return additional information.
+   * @param requestOptions Options of the request, e.g. a signal to abort it, a timeout and extra headers.
    *
    * @see <a href="https://developers.line.biz/en/reference/messaging-api/#get-default-rich-menu-id"> Documentation</a>
    */
-  public async getDefaultRichMenuIdWithHttpInfo(): Promise<
-    Types.ApiResponseType<RichMenuIdResponse>
-  > {
-    const res = await this.httpClient.get("/v2/bot/user/all/richmenu");
+  public async getDefaultRichMenuIdWithHttpInfo(
+    requestOptions?: FetchRequestConfig,
+  ): Promise<Types.ApiResponseType<RichMenuIdResponse>> {
+    const res = await this.httpClient.get(
+      "/v2/bot/user/all/richmenu",
+      undefined,
+      requestOptions,
+    );
     const text = await res.text();
     const parsedBody = text ? JSON.parse(text) : null;
     return { httpResponse: res, body: parsedBody };
@@ -411,14 +511,17 @@ export class MessagingApiClient {
    * Get a list of users who added your LINE Official Account as a friend
    * @param start Value of the continuation token found in the next property of the JSON object returned in the response. Include this parameter to get the next array of user IDs.
    * @param limit The maximum number of user IDs to retrieve in a single request.
+   * @param requestOptions Options of the request, e.g. a signal to abort it, a timeout and extra headers.
    *
    * @see <a href="https://developers.line.biz/en/reference/messaging-api/#get-follower-ids"> Documentation</a>
    */
   public async getFollowers(
     start?: string,
     limit?: number,
+    requestOptions?: FetchRequestConfig,
   ): Promise<GetFollowersResponse> {
-    return (await this.getFollowersWithHttpInfo(start, limit)).body;
+    return (await this.getFollowersWithHttpInfo(start, limit, requestOptions))
+      .body;
   }
 
   /**
@@ -426,12 +529,14 @@ export class MessagingApiClient {
    * This method includes HttpInfo object to return additional information.
    * @param start Value of the continuation token found in the next property of the JSON object returned in the response. Include this parameter to get the next array of user IDs.
    * @param limit The maximum number of user IDs to retrieve in a single request.
+   * @param requestOptions Options of the request, e.g. a signal to abort it, a timeout and extra headers.
    *
    * @see <a href="https://developers.line.biz/en/reference/messaging-api/#get-follower-ids"> Documentation</a>
    */
   public async getFollowersWithHttpInfo(
     start?: string,
     limit?: number,
+    requestOptions?: FetchRequestConfig,
   ): Promise<Types.ApiResponseType<GetFollowersResponse>> {
     const queryParams = {
       start: start,
@@ -443,7 +548,11 @@ export class MessagingApiClient {
       }
     });
 
-    const res = await this.httpClient.get("/v2/bot/followers/ids", queryParams);
+    const res = await this.httpClient.get(
+      "/v2/bot/followers/ids",
+      queryParams,
+      requestOptions,
+    );
     const text = await res.text();
     const parsedBody = text ? JSON.parse(text) : null;
     return { httpResponse: res, body: parsedBody };
@@ -451,30 +560,40 @@ export class MessagingApiClient {
   /**
    * Get number of users in a group chat
    * @param groupId Group ID
+   * @param requestOptions Options of the request, e.g. a signal to abort it, a timeout and extra headers.
    *
    * @see <a href="https://developers.line.biz/en/reference/messaging-api/#get-members-group-count"> Documentation</a>
    */
   public async getGroupMemberCount(
     groupId: string,
+    requestOptions?: FetchRequestConfig,
   ): Promise<GroupMemberCountResponse> {
-    return (await this.getGroupMemberCountWithHttpInfo(groupId)).body;
+    return (await this.getGroupMemberCountWithHttpInfo(groupId, requestOptions))
+      .body;
   }
 
   /**
    * Get number of users in a group chat.
    * This method includes HttpInfo object to return additional information.
    * @param groupId Group ID
+   * @param requestOptions Options of the request, e.g. a signal to abort it, a timeout and extra headers.
    *
    * @see <a href="https://developers.line.biz/en/reference/messaging-api/#get-members-group-count"> Documentation</a>
    */
   public async getGroupMemberCountWithHttpInfo(
     groupId: string,
+    requestOptions?: FetchRequestConfig,
   ): Promise<Types.ApiResponseType<GroupMemberCountResponse>> {
     const res = await this.httpClient.get(
       "/v2/bot/group/{groupId}/members/count".replace(
         "{groupId}",
         String(groupId),
       ),
+      undefined,
+      {
+        ...requestOptions,
+        pathTemplate: "/v2/bot/group/{groupId}/members/count",
+      },
     );
     const text = await res.text();
     const parsedBody = text ? JSON.parse(text) : null;
@@ -484,14 +603,22 @@ export class MessagingApiClient {
    * Get group chat member profile
    * @param groupId Group ID
    * @param userId User ID
+   * @param requestOptions Options of the request, e.g. a signal to abort it, a timeout and extra headers.
    *
    * @see <a href="https://developers.line.biz/en/reference/messaging-api/#get-group-member-profile"> Documentation</a>
    */
   public async getGroupMemberProfile(
     groupId: string,
     userId: string,
+    requestOptions?: FetchRequestConfig,
   ): Promise<GroupUserProfileResponse> {
-    return (await this.getGroupMemberProfileWithHttpInfo(groupId, userId)).body;
+    return (
+      await this.getGroupMemberProfileWithHttpInfo(
+        groupId,
+        userId,
+        requestOptions,
+      )
+    ).body;
   }
 
   /**
@@ -499,12 +626,14 @@ export class MessagingApiClient {
    * This method includes HttpInfo object to return additional information.
    * @param groupId Group ID
    * @param userId User ID
+   * @param requestOptions Options of the request, e.g. a signal to abort it, a timeout and extra headers.
    *
    * @see <a href="https://developers.line.biz/en/reference/messaging-api/#get-group-member-profile"> Documentation</a>
    */
   public async getGroupMemberProfileWithHttpInfo(
     groupId: string,
     userId: string,
+    requestOptions?: FetchRequestConfig,
   ): Promise<Types.ApiResponseType<GroupUserProfileResponse>> {
     const res = await this.httpClient.get(
       "/v2/bot/group/{groupId}/member/{userId}"
@@ -512,6 +641,11 @@ export class MessagingApiClient {
         .replace("{groupId}", String(groupId))
 
         .replace("{userId}", String(userId)),
+      undefined,
+      {
+        ...requestOptions,
+        pathTemplate: "/v2/bot/group/{groupId}/member/{userId}",
+      },
     );
     const text = await res.text();
     const parsedBody = text ? JSON.parse(text) : null;
@@ -521,14 +655,18 @@ export class MessagingApiClient {
    * Get group chat member user IDs
    * @param groupId Group ID
    * @param start Value of the continuation token found in the `next` property of the JSON object returned in the response. Include this parameter to get the next array of user IDs for the members of the group.
+   * @param requestOptions Options of the request, e.g. a signal to abort it, a timeout and extra headers.
    *
    * @see <a href="https://developers.line.biz/en/reference/messaging-api/#get-group-member-user-ids"> Documentation</a>
    */
   public async getGroupMembersIds(
     groupId: string,
     start?: string,
+    requestOptions?: FetchRequestConfig,
   ): Promise<MembersIdsResponse> {
-    return (await this.getGroupMembersIdsWithHttpInfo(groupId, start)).body;
+    return (
+      await this.getGroupMembersIdsWithHttpInfo(groupId, start, requestOptions)
+    ).body;
   }
 
   /**
@@ -536,12 +674,14 @@ export class MessagingApiClient {
    * This method includes HttpInfo object to return additional information.
    * @param groupId Group ID
    * @param start Value of the continuation token found in the `next` property of the JSON object returned in the response. Include this parameter to get the next array of user IDs for the members of the group.
+   * @param requestOptions Options of the request, e.g. a signal to abort it, a timeout and extra headers.
    *
    * @see <a href="https://developers.line.biz/en/reference/messaging-api/#get-group-member-user-ids"> Documentation</a>
    */
   public async getGroupMembersIdsWithHttpInfo(
     groupId: string,
     start?: string,
+    requestOptions?: FetchRequestConfig,
   ): Promise<Types.ApiResponseType<MembersIdsResponse>> {
     const queryParams = {
       start: start,
@@ -558,6 +698,10 @@ export class MessagingApiClient {
         String(groupId),
       ),
       queryParams,
+      {
+        ...requestOptions,
+        pathTemplate: "/v2/bot/group/{groupId}/members/ids",
+      },
     );
     const text = await res.text();
     const parsedBody = text ? JSON.parse(text) : null;
@@ -566,25 +710,34 @@ export class MessagingApiClient {
   /**
    * Get group chat summary
    * @param groupId Group ID
+   * @param requestOptions Options of the request, e.g. a signal to abort it, a timeout and extra headers.
    *
    * @see <a href="https://developers.line.biz/en/reference/messaging-api/#get-group-summary"> Documentation</a>
    */
-  public async getGroupSummary(groupId: string): Promise<GroupSummaryResponse> {
-    return (await this.getGroupSummaryWithHttpInfo(groupId)).body;
+  public async getGroupSummary(
+    groupId: string,
+    requestOptions?: FetchRequestConfig,
+  ): Promise<GroupSummaryResponse> {
+    return (await this.getGroupSummaryWithHttpInfo(groupId, requestOptions))
+      .body;
   }
 
   /**
    * Get group chat summary.
    * This method includes HttpInfo object to return additional information.
    * @param groupId Group ID
+   * @param requestOptions Options of the request, e.g. a signal to abort it, a timeout and extra headers.
    *
    * @see <a href="https://developers.line.biz/en/reference/messaging-api/#get-group-summary"> Documentation</a>
    */
   public async getGroupSummaryWithHttpInfo(
     groupId: string,
+    requestOptions?: FetchRequestConfig,
   ): Promise<Types.ApiResponseType<GroupSummaryResponse>> {
     const res = await this.httpClient.get(
       "/v2/bot/group/{groupId}/summary".replace("{groupId}", String(groupId)),
+      undefined,
+      { ...requestOptions, pathTemplate: "/v2/bot/group/{groupId}/summary" },
     );
     const text = await res.text();
     const parsedBody = text ? JSON.parse(text) : null;
@@ -595,6 +748,7 @@ export class MessagingApiClient {
    * @param membershipId Membership plan ID.
    * @param start A continuation token to get next remaining membership user IDs. Returned only when there are remaining user IDs that weren\'t returned in the userIds property in the previous request. The continuation token expires in 24 hours (86,400 seconds).
    * @param limit The max number of items to return for this API call. The value is set to 300 by default, but the max acceptable value is 1000.
+   * @param requestOptions Options of the request, e.g. a signal to abort it, a timeout and extra headers.
    *
    * @see <a href="https://developers.line.biz/en/reference/messaging-api/#get-membership-user-ids"> Documentation</a>
    */
@@ -602,12 +756,14 @@ export class MessagingApiClient {
     membershipId: number,
     start?: string,
     limit?: number,
+    requestOptions?: FetchRequestConfig,
   ): Promise<GetJoinedMembershipUsersResponse> {
     return (
       await this.getJoinedMembershipUsersWithHttpInfo(
         membershipId,
         start,
         limit,
+        requestOptions,
       )
     ).body;
   }
@@ -618,6 +774,7 @@ export class MessagingApiClient {
    * @param membershipId Membership plan ID.
    * @param start A continuation token to get next remaining membership user IDs. Returned only when there are remaining user IDs that weren\'t returned in the userIds property in the previous request. The continuation token expires in 24 hours (86,400 seconds).
    * @param limit The max number of items to return for this API call. The value is set to 300 by default, but the max acceptable value is 1000.
+   * @param requestOptions Options of the request, e.g. a signal to abort it, a timeout and extra headers.
    *
    * @see <a href="https://developers.line.biz/en/reference/messaging-api/#get-membership-user-ids"> Documentation</a>
    */
@@ -625,6 +782,7 @@ export class MessagingApiClient {
     membershipId: number,
     start?: string,
     limit?: number,
+    requestOptions?: FetchRequestConfig,
   ): Promise<Types.ApiResponseType<GetJoinedMembershipUsersResponse>> {
     const queryParams = {
       start: start,
@@ -642,6 +800,10 @@ export class MessagingApiClient {
         String(membershipId),
       ),
       queryParams,
+      {
+        ...requestOptions,
+        pathTemplate: "/v2/bot/membership/{membershipId}/users/ids",
+      },
     );
     const text = await res.text();
     const parsedBody = text ? JSON.parse(text) : null;
@@ -649,23 +811,31 @@ export class MessagingApiClient {
   }
   /**
    * Get a list of memberships.
+   * @param requestOptions Options of the request, e.g. a signal to abort it, a timeout and extra headers.
    *
    * @see <a href="https://developers.line.biz/en/reference/messaging-api/#get-membership-plans"> Documentation</a>
    */
-  public async getMembershipList(): Promise<MembershipListResponse> {
-    return (await this.getMembershipListWithHttpInfo()).body;
+  public async getMembershipList(
+    requestOptions?: FetchRequestConfig,
+  ): Promise<MembershipListResponse> {
+    return (await this.getMembershipListWithHttpInfo(requestOptions)).body;
   }
 
   /**
    * Get a list of memberships..
    * This method includes HttpInfo object to return additional information.
+   * @param requestOptions Options of the request, e.g. a signal to abort it, a timeout and extra headers.
    *
    * @see <a href="https://developers.line.biz/en/reference/messaging-api/#get-membership-plans"> Documentation</a>
    */
-  public async getMembershipListWithHttpInfo(): Promise<
-    Types.ApiResponseType<MembershipListResponse>
-  > {
-    const res = await this.httpClient.get("/v2/bot/membership/list");
+  public async getMembershipListWithHttpInfo(
+    requestOptions?: FetchRequestConfig,
+  ): Promise<Types.ApiResponseType<MembershipListResponse>> {
+    const res = await this.httpClient.get(
+      "/v2/bot/membership/list",
+      undefined,
+      requestOptions,
+    );
     const text = await res.text();
     const parsedBody = text ? JSON.parse(text) : null;
     return { httpResponse: res, body: parsedBody };
@@ -673,30 +843,41 @@ export class MessagingApiClient {
   /**
    * Get a user\'s membership subscription.
    * @param userId User ID
+   * @param requestOptions Options of the request, e.g. a signal to abort it, a timeout and extra headers.
    *
    * @see <a href="https://developers.line.biz/en/reference/messaging-api/#get-a-users-membership-subscription-status"> Documentation</a>
    */
   public async getMembershipSubscription(
     userId: string,
+    requestOptions?: FetchRequestConfig,
   ): Promise<GetMembershipSubscriptionResponse> {
-    return (await this.getMembershipSubscriptionWithHttpInfo(userId)).body;
+    return (
+      await this.getMembershipSubscriptionWithHttpInfo(userId, requestOptions)
+    ).body;
   }
 
   /**
    * Get a user\'s membership subscription..
    * This method includes HttpInfo object to return additional information.
    * @param userId User ID
+   * @param requestOptions Options of the request, e.g. a signal to abort it, a timeout and extra headers.
    *
    * @see <a href="https://developers.line.biz/en/reference/messaging-api/#get-a-users-membership-subscription-status"> Documentation</a>
    */
   public async getMembershipSubscriptionWithHttpInfo(
     userId: string,
+    requestOptions?: FetchRequestConfig,
   ): Promise<Types.ApiResponseType<GetMembershipSubscriptionResponse>> {
     const res = await this.httpClient.get(
       "/v2/bot/membership/subscription/{userId}".replace(
         "{userId}",
         String(userId),
       ),
+      undefined,
+      {
+        ...requestOptions,
+        pathTemplate: "/v2/bot/membership/subscription/{userId}",
+      },
     );
     const text = await res.text();
     const parsedBody = text ? JSON.parse(text) : null;
@@ -704,46 +885,63 @@ export class MessagingApiClient {
   }
   /**
    * Gets the target limit for sending messages in the current month. The total number of the free messages and the additional messages is returned.
+   * @param requestOptions Options of the request, e.g. a signal to abort it, a timeout and extra headers.
    *
    * @see <a href="https://developers.line.biz/en/reference/messaging-api/#get-quota"> Documentation</a>
    */
-  public async getMessageQuota(): Promise<MessageQuotaResponse> {
-    return (await this.getMessageQuotaWithHttpInfo()).body;
+  public async getMessageQuota(
+    requestOptions?: FetchRequestConfig,
+  ): Promise<MessageQuotaResponse> {
+    return (await this.getMessageQuotaWithHttpInfo(requestOptions)).body;
   }
 
   /**
    * Gets the target limit for sending messages in the current month. The total number of the free messages and the additional messages is returned..
    * This method includes HttpInfo object to return additional information.
+   * @param requestOptions Options of the request, e.g. a signal to abort it, a timeout and extra headers.
    *
    * @see <a href="https://developers.line.biz/en/reference/messaging-api/#get-quota"> Documentation</a>
    */
-  public async getMessageQuotaWithHttpInfo(): Promise<
-    Types.ApiResponseType<MessageQuotaResponse>
-  > {
-    const res = await this.httpClient.get("/v2/bot/message/quota");
+  public async getMessageQuotaWithHttpInfo(
+    requestOptions?: FetchRequestConfig,
+  ): Promise<Types.ApiResponseType<MessageQuotaResponse>> {
+    const res = await this.httpClient.get(
+      "/v2/bot/message/quota",
+      undefined,
+      requestOptions,
+    );
     const text = await res.text();
     const parsedBody = text ? JSON.parse(text) : null;
     return { httpResponse: res, body: parsedBody };
   }
   /**
    * Gets the number of messages sent in the current month.
+   * @param requestOptions Options of the request, e.g. a signal to abort it, a timeout and extra headers.
    *
    * @see <a href="https://developers.line.biz/en/reference/messaging-api/#get-consumption"> Documentation</a>
    */
-  public async getMessageQuotaConsumption(): Promise<QuotaConsumptionResponse> {
-    return (await this.getMessageQuotaConsumptionWithHttpInfo()).body;
+  public async getMessageQuotaConsumption(
+    requestOptions?: FetchRequestConfig,
+  ): Promise<QuotaConsumptionResponse> {
+    return (await this.getMessageQuotaConsumptionWithHttpInfo(requestOptions))
+      .body;
   }
 
   /**
    * Gets the number of messages sent in the current month..
    * This method includes HttpInfo object to return additional information.
+   * @param requestOptions Options of the request, e.g. a signal to abort it, a timeout and extra headers.
    *
    * @see <a href="https://developers.line.biz/en/reference/messaging-api/#get-consumption"> Documentation</a>
    */
-  public async getMessageQuotaConsumptionWithHttpInfo(): Promise<
-    Types.ApiResponseType<QuotaConsumptionResponse>
-  > {
-    const res = await this.httpClient.get("/v2/bot/message/quota/consumption");
+  public async getMessageQuotaConsumptionWithHttpInfo(
+    requestOptions?: FetchRequestConfig,
+  ): Promise<Types.ApiResponseType<QuotaConsumptionResponse>> {
+    const res = await this.httpClient.get(
+      "/v2/bot/message/quota/consumption",
+      undefined,
+      requestOptions,
+    );
     const text = await res.text();
     const parsedBody = text ? JSON.parse(text) : null;
     return { httpResponse: res, body: parsedBody };
@@ -751,24 +949,30 @@ export class MessagingApiClient {
   /**
    * Gets the status of a narrowcast message.
    * @param requestId The narrowcast message\'s request ID. Each Messaging API request has a request ID.
+   * @param requestOptions Options of the request, e.g. a signal to abort it, a timeout and extra headers.
    *
    * @see <a href="https://developers.line.biz/en/reference/messaging-api/#get-narrowcast-progress-status"> Documentation</a>
    */
   public async getNarrowcastProgress(
     requestId: string,
+    requestOptions?: FetchRequestConfig,
   ): Promise<NarrowcastProgressResponse> {
-    return (await this.getNarrowcastProgressWithHttpInfo(requestId)).body;
+    return (
+      await this.getNarrowcastProgressWithHttpInfo(requestId, requestOptions)
+    ).body;
   }
 
   /**
    * Gets the status of a narrowcast message..
    * This method includes HttpInfo object to return additional information.
    * @param requestId The narrowcast message\'s request ID. Each Messaging API request has a request ID.
+   * @param requestOptions Options of the request, e.g. a signal to abort it, a timeout and extra headers.
    *
    * @see <a href="https://developers.line.biz/en/reference/messaging-api/#get-narrowcast-progress-status"> Documentation</a>
    */
   public async getNarrowcastProgressWithHttpInfo(
     requestId: string,
+    requestOptions?: FetchRequestConfig,
   ): Promise<Types.ApiResponseType<NarrowcastProgressResponse>> {
     const queryParams = {
       requestId: requestId,
@@ -782,6 +986,7 @@ export class MessagingApiClient {
     const res = await this.httpClient.get(
       "/v2/bot/message/progress/narrowcast",
       queryParams,
+      requestOptions,
     );
     const text = await res.text();
     const parsedBody = text ? JSON.parse(text) : null;
@@ -790,24 +995,33 @@ export class MessagingApiClient {
   /**
    * Get number of sent broadcast messages
    * @param date Date the messages were sent  Format: yyyyMMdd (e.g. 20191231) Timezone: UTC+9
+   * @param requestOptions Options of the request, e.g. a signal to abort it, a timeout and extra headers.
    *
    * @see <a href="https://developers.line.biz/en/reference/messaging-api/#get-number-of-broadcast-messages"> Documentation</a>
    */
   public async getNumberOfSentBroadcastMessages(
     date: string,
+    requestOptions?: FetchRequestConfig,
   ): Promise<NumberOfMessagesResponse> {
-    return (await this.getNumberOfSentBroadcastMessagesWithHttpInfo(date)).body;
+    return (
+      await this.getNumberOfSentBroadcastMessagesWithHttpInfo(
+        date,
+        requestOptions,
+      )
+    ).body;
   }
 
   /**
    * Get number of sent broadcast messages.
    * This method includes HttpInfo object to return additional information.
    * @param date Date the messages were sent  Format: yyyyMMdd (e.g. 20191231) Timezone: UTC+9
+   * @param requestOptions Options of the request, e.g. a signal to abort it, a timeout and extra headers.
    *
    * @see <a href="https://developers.line.biz/en/reference/messaging-api/#get-number-of-broadcast-messages"> Documentation</a>
    */
   public async getNumberOfSentBroadcastMessagesWithHttpInfo(
     date: string,
+    requestOptions?: FetchRequestConfig,
   ): Promise<Types.ApiResponseType<NumberOfMessagesResponse>> {
     const queryParams = {
       date: date,
@@ -821,6 +1035,7 @@ export class MessagingApiClient {
     const res = await this.httpClient.get(
       "/v2/bot/message/delivery/broadcast",
       queryParams,
+      requestOptions,
     );
     const text = await res.text();
     const parsedBody = text ? JSON.parse(text) : null;
@@ -829,24 +1044,33 @@ export class MessagingApiClient {
   /**
    * Get number of sent multicast messages
    * @param date Date the messages were sent  Format: `yyyyMMdd` (e.g. `20191231`) Timezone: UTC+9
+   * @param requestOptions Options of the request, e.g. a signal to abort it, a timeout and extra headers.
    *
    * @see <a href="https://developers.line.biz/en/reference/messaging-api/#get-number-of-multicast-messages"> Documentation</a>
    */
   public async getNumberOfSentMulticastMessages(
     date: string,
+    requestOptions?: FetchRequestConfig,
   ): Promise<NumberOfMessagesResponse> {
-    return (await this.getNumberOfSentMulticastMessagesWithHttpInfo(date)).body;
+    return (
+      await this.getNumberOfSentMulticastMessagesWithHttpInfo(
+        date,
+        requestOptions,
+      )
+    ).body;
   }
 
   /**
    * Get number of sent multicast messages.
    * This method includes HttpInfo object to return additional information.
    * @param date Date the messages were sent  Format: `yyyyMMdd` (e.g. `20191231`) Timezone: UTC+9
+   * @param requestOptions Options of the request, e.g. a signal to abort it, a timeout and extra headers.
    *
    * @see <a href="https://developers.line.biz/en/reference/messaging-api/#get-number-of-multicast-messages"> Documentation</a>
    */
   public async getNumberOfSentMulticastMessagesWithHttpInfo(
     date: string,
+    requestOptions?: FetchRequestConfig,
   ): Promise<Types.ApiResponseType<NumberOfMessagesResponse>> {
     const queryParams = {
       date: date,
@@ -860,6 +1084,7 @@ export class MessagingApiClient {
     const res = await this.httpClient.get(
       "/v2/bot/message/delivery/multicast",
       queryParams,
+      requestOptions,
     );
     const text = await res.text();
     const parsedBody = text ? JSON.parse(text) : null;
@@ -868,24 +1093,30 @@ export class MessagingApiClient {
   /**
    * Get number of sent push messages
    * @param date Date the messages were sent  Format: `yyyyMMdd` (e.g. `20191231`) Timezone: UTC+9
+   * @param requestOptions Options of the request, e.g. a signal to abort it, a timeout and extra headers.
    *
    * @see <a href="https://developers.line.biz/en/reference/messaging-api/#get-number-of-push-messages"> Documentation</a>
    */
   public async getNumberOfSentPushMessages(
     date: string,
+    requestOptions?: FetchRequestConfig,
   ): Promise<NumberOfMessagesResponse> {
-    return (await this.getNumberOfSentPushMessagesWithHttpInfo(date)).body;
+    return (
+      await this.getNumberOfSentPushMessagesWithHttpInfo(date, requestOptions)
+    ).body;
   }
 
   /**
    * Get number of sent push messages.
    * This method includes HttpInfo object to return additional information.
    * @param date Date the messages were sent  Format: `yyyyMMdd` (e.g. `20191231`) Timezone: UTC+9
+   * @param requestOptions Options of the request, e.g. a signal to abort it, a timeout and extra headers.
    *
    * @see <a href="https://developers.line.biz/en/reference/messaging-api/#get-number-of-push-messages"> Documentation</a>
    */
   public async getNumberOfSentPushMessagesWithHttpInfo(
     date: string,
+    requestOptions?: FetchRequestConfig,
   ): Promise<Types.ApiResponseType<NumberOfMessagesResponse>> {
     const queryParams = {
       date: date,
@@ -899,6 +1130,7 @@ export class MessagingApiClient {
     const res = await this.httpClient.get(
       "/v2/bot/message/delivery/push",
       queryParams,
+      requestOptions,
     );
     const text = await res.text();
     const parsedBody = text ? JSON.parse(text) : null;
@@ -907,24 +1139,30 @@ export class MessagingApiClient {
   /**
    * Get number of sent reply messages
    * @param date Date the messages were sent  Format: `yyyyMMdd` (e.g. `20191231`) Timezone: UTC+9
+   * @param requestOptions Options of the request, e.g. a signal to abort it, a timeout and extra headers.
    *
    * @see <a href="https://developers.line.biz/en/reference/messaging-api/#get-number-of-reply-messages"> Documentation</a>
    */
   public async getNumberOfSentReplyMessages(
     date: string,
+    requestOptions?: FetchRequestConfig,
   ): Promise<NumberOfMessagesResponse> {
-    return (await this.getNumberOfSentReplyMessagesWithHttpInfo(date)).body;
+    return (
+      await this.getNumberOfSentReplyMessagesWithHttpInfo(date, requestOptions)
+    ).body;
   }
 
   /**
    * Get number of sent reply messages.
    * This method includes HttpInfo object to return additional information.
    * @param date Date the messages were sent  Format: `yyyyMMdd` (e.g. `20191231`) Timezone: UTC+9
+   * @param requestOptions Options of the request, e.g. a signal to abort it, a timeout and extra headers.
    *
    * @see <a href="https://developers.line.biz/en/reference/messaging-api/#get-number-of-reply-messages"> Documentation</a>
    */
   public async getNumberOfSentReplyMessagesWithHttpInfo(
     date: string,
+    requestOptions?: FetchRequestConfig,
   ): Promise<Types.ApiResponseType<NumberOfMessagesResponse>> {
     const queryParams = {
       date: date,
@@ -938,6 +1176,7 @@ export class MessagingApiClient {
     const res = await this.httpClient.get(
       "/v2/bot/message/delivery/reply",
       queryParams,
+      requestOptions,
     );
     const text = await res.text();
     const parsedBody = text ? JSON.parse(text) : null;
@@ -946,24 +1185,30 @@ export class MessagingApiClient {
   /**
    * Get number of sent LINE notification messages
    * @param date Date the message was sent  Format: `yyyyMMdd` (Example:`20211231`) Time zone: UTC+9
+   * @param requestOptions Options of the request, e.g. a signal to abort it, a timeout and extra headers.
    *
    * @see <a href="https://developers.line.biz/en/reference/partner-docs/#get-number-of-sent-line-notification-messages"> Documentation</a>
    */
   public async getPNPMessageStatistics(
     date: string,
+    requestOptions?: FetchRequestConfig,
   ): Promise<NumberOfMessagesResponse> {
-    return (await this.getPNPMessageStatisticsWithHttpInfo(date)).body;
+    return (
+      await this.getPNPMessageStatisticsWithHttpInfo(date, requestOptions)
+    ).body;
   }
 
   /**
    * Get number of sent LINE notification messages　.
    * This method includes HttpInfo object to return additional information.
    * @param date Date the message was sent  Format: `yyyyMMdd` (Example:`20211231`) Time zone: UTC+9
+   * @param requestOptions Options of the request, e.g. a signal to abort it, a timeout and extra headers.
    *
    * @see <a href="https://developers.line.biz/en/reference/partner-docs/#get-number-of-sent-line-notification-messages"> Documentation</a>
    */
   public async getPNPMessageStatisticsWithHttpInfo(
     date: string,
+    requestOptions?: FetchRequestConfig,
   ): Promise<Types.ApiResponseType<NumberOfMessagesResponse>> {
     const queryParams = {
       date: date,
@@ -977,6 +1222,7 @@ export class MessagingApiClient {
     const res = await this.httpClient.get(
       "/v2/bot/message/delivery/pnp",
       queryParams,
+      requestOptions,
     );
     const text = await res.text();
     const parsedBody = text ? JSON.parse(text) : null;
@@ -985,25 +1231,33 @@ export class MessagingApiClient {
   /**
    * Get profile
    * @param userId User ID
+   * @param requestOptions Options of the request, e.g. a signal to abort it, a timeout and extra headers.
    *
    * @see <a href="https://developers.line.biz/en/reference/messaging-api/#get-profile"> Documentation</a>
    */
-  public async getProfile(userId: string): Promise<UserProfileResponse> {
-    return (await this.getProfileWithHttpInfo(userId)).body;
+  public async getProfile(
+    userId: string,
+    requestOptions?: FetchRequestConfig,
+  ): Promise<UserProfileResponse> {
+    return (await this.getProfileWithHttpInfo(userId, requestOptions)).body;
   }
 
   /**
    * Get profile.
    * This method includes HttpInfo object to return additional information.
    * @param userId User ID
+   * @param requestOptions Options of the request, e.g. a signal to abort it, a timeout and extra headers.
    *
    * @see <a href="https://developers.line.biz/en/reference/messaging-api/#get-profile"> Documentation</a>
    */
   public async getProfileWithHttpInfo(
     userId: string,
+    requestOptions?: FetchRequestConfig,
   ): Promise<Types.ApiResponseType<UserProfileResponse>> {
     const res = await this.httpClient.get(
       "/v2/bot/profile/{userId}".replace("{userId}", String(userId)),
+      undefined,
+      { ...requestOptions, pathTemplate: "/v2/bot/profile/{userId}" },
     );
     const text = await res.text();
     const parsedBody = text ? JSON.parse(text) : null;
@@ -1012,28 +1266,37 @@ export class MessagingApiClient {
   /**
    * Gets a rich menu via a rich menu ID.
    * @param richMenuId ID of a rich menu
+   * @param requestOptions Options of the request, e.g. a signal to abort it, a timeout and extra headers.
    *
    * @see <a href="https://developers.line.biz/en/reference/messaging-api/#get-rich-menu"> Documentation</a>
    */
-  public async getRichMenu(richMenuId: string): Promise<RichMenuResponse> {
-    return (await this.getRichMenuWithHttpInfo(richMenuId)).body;
+  public async getRichMenu(
+    richMenuId: string,
+    requestOptions?: FetchRequestConfig,
+  ): Promise<RichMenuResponse> {
+    return (await this.getRichMenuWithHttpInfo(richMenuId, requestOptions))
+      .body;
   }
 
   /**
    * Gets a rich menu via a rich menu ID..
    * This method includes HttpInfo object to return additional information.
    * @param richMenuId ID of a rich menu
+   * @param requestOptions Options of the request, e.g. a signal to abort it, a timeout and extra headers.
    *
    * @see <a href="https://developers.line.biz/en/reference/messaging-api/#get-rich-menu"> Documentation</a>
    */
   public async getRichMenuWithHttpInfo(
     richMenuId: string,
+    requestOptions?: FetchRequestConfig,
   ): Promise<Types.ApiResponseType<RichMenuResponse>> {
     const res = await this.httpClient.get(
       "/v2/bot/richmenu/{richMenuId}".replace(
         "{richMenuId}",
         String(richMenuId),
       ),
+      undefined,
+      { ...requestOptions, pathTemplate: "/v2/bot/richmenu/{richMenuId}" },
     );
     const text = await res.text();
     const parsedBody = text ? JSON.parse(text) : null;
@@ -1042,30 +1305,41 @@ export class MessagingApiClient {
   /**
    * Get rich menu alias information
    * @param richMenuAliasId The rich menu alias ID whose information you want to obtain.
+   * @param requestOptions Options of the request, e.g. a signal to abort it, a timeout and extra headers.
    *
    * @see <a href="https://developers.line.biz/en/reference/messaging-api/#get-rich-menu-alias-by-id"> Documentation</a>
    */
   public async getRichMenuAlias(
     richMenuAliasId: string,
+    requestOptions?: FetchRequestConfig,
   ): Promise<RichMenuAliasResponse> {
-    return (await this.getRichMenuAliasWithHttpInfo(richMenuAliasId)).body;
+    return (
+      await this.getRichMenuAliasWithHttpInfo(richMenuAliasId, requestOptions)
+    ).body;
   }
 
   /**
    * Get rich menu alias information.
    * This method includes HttpInfo object to return additional information.
    * @param richMenuAliasId The rich menu alias ID whose information you want to obtain.
+   * @param requestOptions Options of the request, e.g. a signal to abort it, a timeout and extra headers.
    *
    * @see <a href="https://developers.line.biz/en/reference/messaging-api/#get-rich-menu-alias-by-id"> Documentation</a>
    */
   public async getRichMenuAliasWithHttpInfo(
     richMenuAliasId: string,
+    requestOptions?: FetchRequestConfig,
   ): Promise<Types.ApiResponseType<RichMenuAliasResponse>> {
     const res = await this.httpClient.get(
       "/v2/bot/richmenu/alias/{richMenuAliasId}".replace(
         "{richMenuAliasId}",
         String(richMenuAliasId),
       ),
+      undefined,
+      {
+        ...requestOptions,
+        pathTemplate: "/v2/bot/richmenu/alias/{richMenuAliasId}",
+      },
     );
     const text = await res.text();
     const parsedBody = text ? JSON.parse(text) : null;
@@ -1073,23 +1347,31 @@ export class MessagingApiClient {
   }
   /**
    * Get list of rich menu alias
+   * @param requestOptions Options of the request, e.g. a signal to abort it, a timeout and extra headers.
    *
    * @see <a href="https://developers.line.biz/en/reference/messaging-api/#get-rich-menu-alias-list"> Documentation</a>
    */
-  public async getRichMenuAliasList(): Promise<RichMenuAliasListResponse> {
-    return (await this.getRichMenuAliasListWithHttpInfo()).body;
+  public async getRichMenuAliasList(
+    requestOptions?: FetchRequestConfig,
+  ): Promise<RichMenuAliasListResponse> {
+    return (await this.getRichMenuAliasListWithHttpInfo(requestOptions)).body;
   }
 
   /**
    * Get list of rich menu alias.
    * This method includes HttpInfo object to return additional information.
+   * @param requestOptions Options of the request, e.g. a signal to abort it, a timeout and extra headers.
    *
    * @see <a href="https://developers.line.biz/en/reference/messaging-api/#get-rich-menu-alias-list"> Documentation</a>
    */
-  public async getRichMenuAliasListWithHttpInfo(): Promise<
-    Types.ApiResponseType<RichMenuAliasListResponse>
-  > {
-    const res = await this.httpClient.get("/v2/bot/richmenu/alias/list");
+  public async getRichMenuAliasListWithHttpInfo(
+    requestOptions?: FetchRequestConfig,
+  ): Promise<Types.ApiResponseType<RichMenuAliasListResponse>> {
+    const res = await this.httpClient.get(
+      "/v2/bot/richmenu/alias/list",
+      undefined,
+      requestOptions,
+    );
     const text = await res.text();
     const parsedBody = text ? JSON.parse(text) : null;
     return { httpResponse: res, body: parsedBody };
@@ -1097,24 +1379,30 @@ export class MessagingApiClient {
   /**
    * Get the status of Replace or unlink a linked rich menus in batches.
    * @param requestId A request ID used to batch control the rich menu linked to the user. Each Messaging API request has a request ID.
+   * @param requestOptions Options of the request, e.g. a signal to abort it, a timeout and extra headers.
    *
    * @see <a href="https://developers.line.biz/en/reference/messaging-api/#get-batch-control-rich-menus-progress-status"> Documentation</a>
    */
   public async getRichMenuBatchProgress(
     requestId: string,
+    requestOptions?: FetchRequestConfig,
   ): Promise<RichMenuBatchProgressResponse> {
-    return (await this.getRichMenuBatchProgressWithHttpInfo(requestId)).body;
+    return (
+      await this.getRichMenuBatchProgressWithHttpInfo(requestId, requestOptions)
+    ).body;
   }
 
   /**
    * Get the status of Replace or unlink a linked rich menus in batches..
    * This method includes HttpInfo object to return additional information.
    * @param requestId A request ID used to batch control the rich menu linked to the user. Each Messaging API request has a request ID.
+   * @param requestOptions Options of the request, e.g. a signal to abort it, a timeout and extra headers.
    *
    * @see <a href="https://developers.line.biz/en/reference/messaging-api/#get-batch-control-rich-menus-progress-status"> Documentation</a>
    */
   public async getRichMenuBatchProgressWithHttpInfo(
     requestId: string,
+    requestOptions?: FetchRequestConfig,
   ): Promise<Types.ApiResponseType<RichMenuBatchProgressResponse>> {
     const queryParams = {
       requestId: requestId,
@@ -1128,6 +1416,7 @@ export class MessagingApiClient {
     const res = await this.httpClient.get(
       "/v2/bot/richmenu/progress/batch",
       queryParams,
+      requestOptions,
     );
     const text = await res.text();
     const parsedBody = text ? JSON.parse(text) : null;
@@ -1136,27 +1425,34 @@ export class MessagingApiClient {
   /**
    * Get rich menu ID of user
    * @param userId User ID. Found in the `source` object of webhook event objects. Do not use the LINE ID used in LINE.
+   * @param requestOptions Options of the request, e.g. a signal to abort it, a timeout and extra headers.
    *
    * @see <a href="https://developers.line.biz/en/reference/messaging-api/#get-rich-menu-id-of-user"> Documentation</a>
    */
   public async getRichMenuIdOfUser(
     userId: string,
+    requestOptions?: FetchRequestConfig,
   ): Promise<RichMenuIdResponse> {
-    return (await this.getRichMenuIdOfUserWithHttpInfo(userId)).body;
+    return (await this.getRichMenuIdOfUserWithHttpInfo(userId, requestOptions))
+      .body;
   }
 
   /**
    * Get rich menu ID of user.
    * This method includes HttpInfo object to return additional information.
    * @param userId User ID. Found in the `source` object of webhook event objects. Do not use the LINE ID used in LINE.
+   * @param requestOptions Options of the request, e.g. a signal to abort it, a timeout and extra headers.
    *
    * @see <a href="https://developers.line.biz/en/reference/messaging-api/#get-rich-menu-id-of-user"> Documentation</a>
    */
   public async getRichMenuIdOfUserWithHttpInfo(
     userId: string,
+    requestOptions?: FetchRequestConfig,
   ): Promise<Types.ApiResponseType<RichMenuIdResponse>> {
     const res = await this.httpClient.get(
       "/v2/bot/user/{userId}/richmenu".replace("{userId}", String(userId)),
+      undefined,
+      { ...requestOptions, pathTemplate: "/v2/bot/user/{userId}/richmenu" },
     );
     const text = await res.text();
     const parsedBody = text ? JSON.parse(text) : null;
@@ -1164,23 +1460,31 @@ export class MessagingApiClient {
   }
   /**
    * Get rich menu list
+   * @param requestOptions Options of the request, e.g. a signal to abort it, a timeout and extra headers.
    *
    * @see <a href="https://developers.line.biz/en/reference/messaging-api/#get-rich-menu-list"> Documentation</a>
    */
-  public async getRichMenuList(): Promise<RichMenuListResponse> {
-    return (await this.getRichMenuListWithHttpInfo()).body;
+  public async getRichMenuList(
+    requestOptions?: FetchRequestConfig,
+  ): Promise<RichMenuListResponse> {
+    return (await this.getRichMenuListWithHttpInfo(requestOptions)).body;
   }
 
   /**
    * Get rich menu list.
    * This method includes HttpInfo object to return additional information.
+   * @param requestOptions Options of the request, e.g. a signal to abort it, a timeout and extra headers.
    *
    * @see <a href="https://developers.line.biz/en/reference/messaging-api/#get-rich-menu-list"> Documentation</a>
    */
-  public async getRichMenuListWithHttpInfo(): Promise<
-    Types.ApiResponseType<RichMenuListResponse>
-  > {
-    const res = await this.httpClient.get("/v2/bot/richmenu/list");
+  public async getRichMenuListWithHttpInfo(
+    requestOptions?: FetchRequestConfig,
+  ): Promise<Types.ApiResponseType<RichMenuListResponse>> {
+    const res = await this.httpClient.get(
+      "/v2/bot/richmenu/list",
+      undefined,
+      requestOptions,
+    );
     const text = await res.text();
     const parsedBody = text ? JSON.parse(text) : null;
     return { httpResponse: res, body: parsedBody };
@@ -1188,27 +1492,37 @@ export class MessagingApiClient {
   /**
    * Get number of users in a multi-person chat
    * @param roomId Room ID
+   * @param requestOptions Options of the request, e.g. a signal to abort it, a timeout and extra headers.
    *
    * @see <a href="https://developers.line.biz/en/reference/messaging-api/#get-members-room-count"> Documentation</a>
    */
   public async getRoomMemberCount(
     roomId: string,
+    requestOptions?: FetchRequestConfig,
   ): Promise<RoomMemberCountResponse> {
-    return (await this.getRoomMemberCountWithHttpInfo(roomId)).body;
+    return (await this.getRoomMemberCountWithHttpInfo(roomId, requestOptions))
+      .body;
   }
 
   /**
    * Get number of users in a multi-person chat.
    * This method includes HttpInfo object to return additional information.
    * @param roomId Room ID
+   * @param requestOptions Options of the request, e.g. a signal to abort it, a timeout and extra headers.
    *
    * @see <a href="https://developers.line.biz/en/reference/messaging-api/#get-members-room-count"> Documentation</a>
    */
   public async getRoomMemberCountWithHttpInfo(
     roomId: string,
+    requestOptions?: FetchRequestConfig,
   ): Promise<Types.ApiResponseType<RoomMemberCountResponse>> {
     const res = await this.httpClient.get(
       "/v2/bot/room/{roomId}/members/count".replace("{roomId}", String(roomId)),
+      undefined,
+      {
+        ...requestOptions,
+        pathTemplate: "/v2/bot/room/{roomId}/members/count",
+      },
     );
     const text = await res.text();
     const parsedBody = text ? JSON.parse(text) : null;
@@ -1218,14 +1532,22 @@ export class MessagingApiClient {
    * Get multi-person chat member profile
    * @param roomId Room ID
    * @param userId User ID
+   * @param requestOptions Options of the request, e.g. a signal to abort it, a timeout and extra headers.
    *
    * @see <a href="https://developers.line.biz/en/reference/messaging-api/#get-room-member-profile"> Documentation</a>
    */
   public async getRoomMemberProfile(
     roomId: string,
     userId: string,
+    requestOptions?: FetchRequestConfig,
   ): Promise<RoomUserProfileResponse> {
-    return (await this.getRoomMemberProfileWithHttpInfo(roomId, userId)).body;
+    return (
+      await this.getRoomMemberProfileWithHttpInfo(
+        roomId,
+        userId,
+        requestOptions,
+      )
+    ).body;
   }
 
   /**
@@ -1233,12 +1555,14 @@ export class MessagingApiClient {
    * This method includes HttpInfo object to return additional information.
    * @param roomId Room ID
    * @param userId User ID
+   * @param requestOptions Options of the request, e.g. a signal to abort it, a timeout and extra headers.
    *
    * @see <a href="https://developers.line.biz/en/reference/messaging-api/#get-room-member-profile"> Documentation</a>
    */
   public async getRoomMemberProfileWithHttpInfo(
     roomId: string,
     userId: string,
+    requestOptions?: FetchRequestConfig,
   ): Promise<Types.ApiResponseType<RoomUserProfileResponse>> {
     const res = await this.httpClient.get(
       "/v2/bot/room/{roomId}/member/{userId}"
@@ -1246,6 +1570,11 @@ export class MessagingApiClient {
         .replace("{roomId}", String(roomId))
 
         .replace("{userId}", String(userId)),
+      undefined,
+      {
+        ...requestOptions,
+        pathTemplate: "/v2/bot/room/{roomId}/member/{userId}",
+      },
     );
     const text = await res.text();
     const parsedBody = text ? JSON.parse(text) : null;
@@ -1255,14 +1584,18 @@ export class MessagingApiClient {
    * Get multi-person chat member user IDs
    * @param roomId Room ID
    * @param start Value of the continuation token found in the `next` property of the JSON object returned in the response. Include this parameter to get the next array of user IDs for the members of the group.
+   * @param requestOptions Options of the request, e.g. a signal to abort it, a timeout and extra headers.
    *
    * @see <a href="https://developers.line.biz/en/reference/messaging-api/#get-room-member-user-ids"> Documentation</a>
    */
   public async getRoomMembersIds(
     roomId: string,
     start?: string,
+    requestOptions?: FetchRequestConfig,
   ): Promise<MembersIdsResponse> {
-    return (await this.getRoomMembersIdsWithHttpInfo(roomId, start)).body;
+    return (
+      await this.getRoomMembersIdsWithHttpInfo(roomId, start, requestOptions)
+    ).body;
   }
 
   /**
@@ -1270,12 +1603,14 @@ export class MessagingApiClient {
    * This method includes HttpInfo object to return additional information.
    * @param roomId Room ID
    * @param start Value of the continuation token found in the `next` property of the JSON object returned in the response. Include this parameter to get the next array of user IDs for the members of the group.
+   * @param requestOptions Options of the request, e.g. a signal to abort it, a timeout and extra headers.
    *
    * @see <a href="https://developers.line.biz/en/reference/messaging-api/#get-room-member-user-ids"> Documentation</a>
    */
   public async getRoomMembersIdsWithHttpInfo(
     roomId: string,
     start?: string,
+    requestOptions?: FetchRequestConfig,
   ): Promise<Types.ApiResponseType<MembersIdsResponse>> {
     const queryParams = {
       start: start,
@@ -1289,6 +1624,7 @@ export class MessagingApiClient {
     const res = await this.httpClient.get(
       "/v2/bot/room/{roomId}/members/ids".replace("{roomId}", String(roomId)),
       queryParams,
+      { ...requestOptions, pathTemplate: "/v2/bot/room/{roomId}/members/ids" },
     );
     const text = await res.text();
     const parsedBody = text ? JSON.parse(text) : null;
@@ -1296,23 +1632,31 @@ export class MessagingApiClient {
   }
   /**
    * Get webhook endpoint information
+   * @param requestOptions Options of the request, e.g. a signal to abort it, a timeout and extra headers.
    *
    * @see <a href="https://developers.line.biz/en/reference/messaging-api/#get-webhook-endpoint-information"> Documentation</a>
    */
-  public async getWebhookEndpoint(): Promise<GetWebhookEndpointResponse> {
-    return (await this.getWebhookEndpointWithHttpInfo()).body;
+  public async getWebhookEndpoint(
+    requestOptions?: FetchRequestConfig,
+  ): Promise<GetWebhookEndpointResponse> {
+    return (await this.getWebhookEndpointWithHttpInfo(requestOptions)).body;
   }
 
   /**
    * Get webhook endpoint information.
    * This method includes HttpInfo object to return additional information.
+   * @param requestOptions Options of the request, e.g. a signal to abort it, a timeout and extra headers.
    *
    * @see <a href="https://developers.line.biz/en/reference/messaging-api/#get-webhook-endpoint-information"> Documentation</a>
    */
-  public async getWebhookEndpointWithHttpInfo(): Promise<
-    Types.ApiResponseType<GetWebhookEndpointResponse>
-  > {
-    const res = await this.httpClient.get("/v2/bot/channel/webhook/endpoint");
+  public async getWebhookEndpointWithHttpInfo(
+    requestOptions?: FetchRequestConfig,
+  ): Promise<Types.ApiResponseType<GetWebhookEndpointResponse>> {
+    const res = await this.httpClient.get(
+      "/v2/bot/channel/webhook/endpoint",
+      undefined,
+      requestOptions,
+    );
     const text = await res.text();
     const parsedBody = text ? JSON.parse(text) : null;
     return { httpResponse: res, body: parsedBody };
@@ -1320,25 +1664,33 @@ export class MessagingApiClient {
   /**
    * Issue link token
    * @param userId User ID for the LINE account to be linked. Found in the `source` object of account link event objects. Do not use the LINE ID used in LINE.
+   * @param requestOptions Options of the request, e.g. a signal to abort it, a timeout and extra headers.
    *
    * @see <a href="https://developers.line.biz/en/reference/messaging-api/#issue-link-token"> Documentation</a>
    */
-  public async issueLinkToken(userId: string): Promise<IssueLinkTokenResponse> {
-    return (await this.issueLinkTokenWithHttpInfo(userId)).body;
+  public async issueLinkToken(
+    userId: string,
+    requestOptions?: FetchRequestConfig,
+  ): Promise<IssueLinkTokenResponse> {
+    return (await this.issueLinkTokenWithHttpInfo(userId, requestOptions)).body;
   }
 
   /**
    * Issue link token.
    * This method includes HttpInfo object to return additional information.
    * @param userId User ID for the LINE account to be linked. Found in the `source` object of account link event objects. Do not use the LINE ID used in LINE.
+   * @param requestOptions Options of the request, e.g. a signal to abort it, a timeout and extra headers.
    *
    * @see <a href="https://developers.line.biz/en/reference/messaging-api/#issue-link-token"> Documentation</a>
    */
   public async issueLinkTokenWithHttpInfo(
     userId: string,
+    requestOptions?: FetchRequestConfig,
   ): Promise<Types.ApiResponseType<IssueLinkTokenResponse>> {
     const res = await this.httpClient.post(
       "/v2/bot/user/{userId}/linkToken".replace("{userId}", String(userId)),
+      undefined,
+      { ...requestOptions, pathTemplate: "/v2/bot/user/{userId}/linkToken" },
     );
     const text = await res.text();
     const parsedBody = text ? JSON.parse(text) : null;
@@ -1347,27 +1699,33 @@ export class MessagingApiClient {
   /**
    * Leave group chat
    * @param groupId Group ID
+   * @param requestOptions Options of the request, e.g. a signal to abort it, a timeout and extra headers.
    *
    * @see <a href="https://developers.line.biz/en/reference/messaging-api/#leave-group"> Documentation</a>
    */
   public async leaveGroup(
     groupId: string,
+    requestOptions?: FetchRequestConfig,
   ): Promise<Types.MessageAPIResponseBase> {
-    return (await this.leaveGroupWithHttpInfo(groupId)).body;
+    return (await this.leaveGroupWithHttpInfo(groupId, requestOptions)).body;
   }
 
   /**
    * Leave group chat.
    * This method includes HttpInfo object to return additional information.
    * @param groupId Group ID
+   * @param requestOptions Options of the request, e.g. a signal to abort it, a timeout and extra headers.
    *
    * @see <a href="https://developers.line.biz/en/reference/messaging-api/#leave-group"> Documentation</a>
    */
   public async leaveGroupWithHttpInfo(
     groupId: string,
+    requestOptions?: FetchRequestConfig,
   ): Promise<Types.ApiResponseType<Types.MessageAPIResponseBase>> {
     const res = await this.httpClient.post(
       "/v2/bot/group/{groupId}/leave".replace("{groupId}", String(groupId)),
+      undefined,
+      { ...requestOptions, pathTemplate: "/v2/bot/group/{groupId}/leave" },
     );
     const text = await res.text();
     const parsedBody = text ? JSON.parse(text) : null;
@@ -1376,27 +1734,33 @@ export class MessagingApiClient {
   /**
    * Leave multi-person chat
    * @param roomId Room ID
+   * @param requestOptions Options of the request, e.g. a signal to abort it, a timeout and extra headers.
    *
    * @see <a href="https://developers.line.biz/en/reference/messaging-api/#leave-room"> Documentation</a>
    */
   public async leaveRoom(
     roomId: string,
+    requestOptions?: FetchRequestConfig,
   ): Promise<Types.MessageAPIResponseBase> {
-    return (await this.leaveRoomWithHttpInfo(roomId)).body;
+    return (await this.leaveRoomWithHttpInfo(roomId, requestOptions)).body;
   }
 
   /**
    * Leave multi-person chat.
    * This method includes HttpInfo object to return additional information.
    * @param roomId Room ID
+   * @param requestOptions Options of the request, e.g. a signal to abort it, a timeout and extra headers.
    *
    * @see <a href="https://developers.line.biz/en/reference/messaging-api/#leave-room"> Documentation</a>
    */
   public async leaveRoomWithHttpInfo(
     roomId: string,
+    requestOptions?: FetchRequestConfig,
   ): Promise<Types.ApiResponseType<Types.MessageAPIResponseBase>> {
     const res = await this.httpClient.post(
       "/v2/bot/room/{roomId}/leave".replace("{roomId}", String(roomId)),
+      undefined,
+      { ...requestOptions, pathTemplate: "/v2/bot/room/{roomId}/leave" },
     );
     const text = await res.text();
     const parsedBody = text ? JSON.parse(text) : null;
@@ -1406,15 +1770,22 @@ export class MessagingApiClient {
    * Link rich menu to user.
    * @param userId User ID. Found in the `source` object of webhook event objects. Do not use the LINE ID used in LINE.
    * @param richMenuId ID of a rich menu
+   * @param requestOptions Options of the request, e.g. a signal to abort it, a timeout and extra headers.
    *
    * @see <a href="https://developers.line.biz/en/reference/messaging-api/#link-rich-menu-to-user"> Documentation</a>
    */
   public async linkRichMenuIdToUser(
     userId: string,
     richMenuId: string,
+    requestOptions?: FetchRequestConfig,
   ): Promise<Types.MessageAPIResponseBase> {
-    return (await this.linkRichMenuIdToUserWithHttpInfo(userId, richMenuId))
-      .body;
+    return (
+      await this.linkRichMenuIdToUserWithHttpInfo(
+        userId,
+        richMenuId,
+        requestOptions,
+      )
+    ).body;
   }
 
   /**
@@ -1422,12 +1793,14 @@ export class MessagingApiClient {
    * This method includes HttpInfo object to return additional information.
    * @param userId User ID. Found in the `source` object of webhook event objects. Do not use the LINE ID used in LINE.
    * @param richMenuId ID of a rich menu
+   * @param requestOptions Options of the request, e.g. a signal to abort it, a timeout and extra headers.
    *
    * @see <a href="https://developers.line.biz/en/reference/messaging-api/#link-rich-menu-to-user"> Documentation</a>
    */
   public async linkRichMenuIdToUserWithHttpInfo(
     userId: string,
     richMenuId: string,
+    requestOptions?: FetchRequestConfig,
   ): Promise<Types.ApiResponseType<Types.MessageAPIResponseBase>> {
     const res = await this.httpClient.post(
       "/v2/bot/user/{userId}/richmenu/{richMenuId}"
@@ -1435,6 +1808,11 @@ export class MessagingApiClient {
         .replace("{userId}", String(userId))
 
         .replace("{richMenuId}", String(richMenuId)),
+      undefined,
+      {
+        ...requestOptions,
+        pathTemplate: "/v2/bot/user/{userId}/richmenu/{richMenuId}",
+      },
     );
     const text = await res.text();
     const parsedBody = text ? JSON.parse(text) : null;
@@ -1443,14 +1821,19 @@ export class MessagingApiClient {
   /**
    * Link rich menu to multiple users
    * @param richMenuBulkLinkRequest
+   * @param requestOptions Options of the request, e.g. a signal to abort it, a timeout and extra headers.
    *
    * @see <a href="https://developers.line.biz/en/reference/messaging-api/#link-rich-menu-to-users"> Documentation</a>
    */
   public async linkRichMenuIdToUsers(
     richMenuBulkLinkRequest: RichMenuBulkLinkRequest,
+    requestOptions?: FetchRequestConfig,
   ): Promise<Types.MessageAPIResponseBase> {
     return (
-      await this.linkRichMenuIdToUsersWithHttpInfo(richMenuBulkLinkRequest)
+      await this.linkRichMenuIdToUsersWithHttpInfo(
+        richMenuBulkLinkRequest,
+        requestOptions,
+      )
     ).body;
   }
 
@@ -1458,17 +1841,20 @@ export class MessagingApiClient {
    * Link rich menu to multiple users.
    * This method includes HttpInfo object to return additional information.
    * @param richMenuBulkLinkRequest
+   * @param requestOptions Options of the request, e.g. a signal to abort it, a timeout and extra headers.
    *
    * @see <a href="https://developers.line.biz/en/reference/messaging-api/#link-rich-menu-to-users"> Documentation</a>
    */
   public async linkRichMenuIdToUsersWithHttpInfo(
     richMenuBulkLinkRequest: RichMenuBulkLinkRequest,
+    requestOptions?: FetchRequestConfig,
   ): Promise<Types.ApiResponseType<Types.MessageAPIResponseBase>> {
     const params = richMenuBulkLinkRequest;
 
     const res = await this.httpClient.post(
       "/v2/bot/richmenu/bulk/link",
       params,
+      requestOptions,
     );
     const text = await res.text();
     const parsedBody = text ? JSON.parse(text) : null;
@@ -1477,14 +1863,19 @@ export class MessagingApiClient {
   /**
    * Mark messages from users as read
    * @param markMessagesAsReadRequest
+   * @param requestOptions Options of the request, e.g. a signal to abort it, a timeout and extra headers.
    *
    * @see <a href="https://developers.line.biz/en/reference/partner-docs/#mark-messages-from-users-as-read"> Documentation</a>
    */
   public async markMessagesAsRead(
     markMessagesAsReadRequest: MarkMessagesAsReadRequest,
+    requestOptions?: FetchRequestConfig,
   ): Promise<Types.MessageAPIResponseBase> {
     return (
-      await this.markMessagesAsReadWithHttpInfo(markMessagesAsReadRequest)
+      await this.markMessagesAsReadWithHttpInfo(
+        markMessagesAsReadRequest,
+        requestOptions,
+      )
     ).body;
   }
 
@@ -1492,17 +1883,20 @@ export class MessagingApiClient {
    * Mark messages from users as read.
    * This method includes HttpInfo object to return additional information.
    * @param markMessagesAsReadRequest
+   * @param requestOptions Options of the request, e.g. a signal to abort it, a timeout and extra headers.
    *
    * @see <a href="https://developers.line.biz/en/reference/partner-docs/#mark-messages-from-users-as-read"> Documentation</a>
    */
   public async markMessagesAsReadWithHttpInfo(
     markMessagesAsReadRequest: MarkMessagesAsReadRequest,
+    requestOptions?: FetchRequestConfig,
   ): Promise<Types.ApiResponseType<Types.MessageAPIResponseBase>> {
     const params = markMessagesAsReadRequest;
 
     const res = await this.httpClient.post(
       "/v2/bot/message/markAsRead",
       params,
+      requestOptions,
     );
     const text = await res.text();
     const parsedBody = text ? JSON.parse(text) : null;
@@ -1512,15 +1906,22 @@ export class MessagingApiClient {
    * An API that efficiently sends the same message to multiple user IDs. You can\'t send messages to group chats or multi-person chats.
    * @param multicastRequest
    * @param xLineRetryKey Retry key. Specifies the UUID in hexadecimal format (e.g., `123e4567-e89b-12d3-a456-426614174000`) generated by any method. The retry key isn\'t generated by LINE. Each developer must generate their own retry key.
+   * @param requestOptions Options of the request, e.g. a signal to abort it, a timeout and extra headers.
    *
    * @see <a href="https://developers.line.biz/en/reference/messaging-api/#send-multicast-message"> Documentation</a>
    */
   public async multicast(
     multicastRequest: MulticastRequest,
     xLineRetryKey?: string,
+    requestOptions?: FetchRequestConfig,
   ): Promise<object> {
-    return (await this.multicastWithHttpInfo(multicastRequest, xLineRetryKey))
-      .body;
+    return (
+      await this.multicastWithHttpInfo(
+        multicastRequest,
+        xLineRetryKey,
+        requestOptions,
+      )
+    ).body;
   }
 
   /**
@@ -1528,12 +1929,14 @@ export class MessagingApiClient {
    * This method includes HttpInfo object to return additional information.
    * @param multicastRequest
    * @param xLineRetryKey Retry key. Specifies the UUID in hexadecimal format (e.g., `123e4567-e89b-12d3-a456-426614174000`) generated by any method. The retry key isn\'t generated by LINE. Each developer must generate their own retry key.
+   * @param requestOptions Options of the request, e.g. a signal to abort it, a timeout and extra headers.
    *
    * @see <a href="https://developers.line.biz/en/reference/messaging-api/#send-multicast-message"> Documentation</a>
    */
   public async multicastWithHttpInfo(
     multicastRequest: MulticastRequest,
     xLineRetryKey?: string,
+    requestOptions?: FetchRequestConfig,
   ): Promise<Types.ApiResponseType<object>> {
     const params = multicastRequest;
 
@@ -1544,8 +1947,10 @@ export class MessagingApiClient {
     const res = await this.httpClient.post(
       "/v2/bot/message/multicast",
       params,
-
-      { headers: headerParams },
+      {
+        ...requestOptions,
+        headers: { ...requestOptions?.headers, ...headerParams },
+      },
     );
     const text = await res.text();
     const parsedBody = text ? JSON.parse(text) : null;
@@ -1555,15 +1960,22 @@ export class MessagingApiClient {
    * Send narrowcast message
    * @param narrowcastRequest
    * @param xLineRetryKey Retry key. Specifies the UUID in hexadecimal format (e.g., `123e4567-e89b-12d3-a456-426614174000`) generated by any method. The retry key isn\'t generated by LINE. Each developer must generate their own retry key.
+   * @param requestOptions Options of the request, e.g. a signal to abort it, a timeout and extra headers.
    *
    * @see <a href="https://developers.line.biz/en/reference/messaging-api/#send-narrowcast-message"> Documentation</a>
    */
   public async narrowcast(
     narrowcastRequest: NarrowcastRequest,
     xLineRetryKey?: string,
+    requestOptions?: FetchRequestConfig,
   ): Promise<object> {
-    return (await this.narrowcastWithHttpInfo(narrowcastRequest, xLineRetryKey))
-      .body;
+    return (
+      await this.narrowcastWithHttpInfo(
+        narrowcastRequest,
+        xLineRetryKey,
+        requestOptions,
+      )
+    ).body;
   }
 
   /**
@@ -1571,12 +1983,14 @@ export class MessagingApiClient {
    * This method includes HttpInfo object to return additional information.
    * @param narrowcastRequest
    * @param xLineRetryKey Retry key. Specifies the UUID in hexadecimal format (e.g., `123e4567-e89b-12d3-a456-426614174000`) generated by any method. The retry key isn\'t generated by LINE. Each developer must generate their own retry key.
+   * @param requestOptions Options of the request, e.g. a signal to abort it, a timeout and extra headers.
    *
    * @see <a href="https://developers.line.biz/en/reference/messaging-api/#send-narrowcast-message"> Documentation</a>
    */
   public async narrowcastWithHttpInfo(
     narrowcastRequest: NarrowcastRequest,
     xLineRetryKey?: string,
+    requestOptions?: FetchRequestConfig,
   ): Promise<Types.ApiResponseType<object>> {
     const params = narrowcastRequest;
 
@@ -1587,8 +2001,10 @@ export class MessagingApiClient {
     const res = await this.httpClient.post(
       "/v2/bot/message/narrowcast",
       params,
-
-      { headers: headerParams },
+      {
+        ...requestOptions,
+        headers: { ...requestOptions?.headers, ...headerParams },
+      },
     );
     const text = await res.text();
     const parsedBody = text ? JSON.parse(text) : null;
@@ -1598,15 +2014,21 @@ export class MessagingApiClient {
    * Sends a message to a user, group chat, or multi-person chat at any time.
    * @param pushMessageRequest
    * @param xLineRetryKey Retry key. Specifies the UUID in hexadecimal format (e.g., `123e4567-e89b-12d3-a456-426614174000`) generated by any method. The retry key isn\'t generated by LINE. Each developer must generate their own retry key.
+   * @param requestOptions Options of the request, e.g. a signal to abort it, a timeout and extra headers.
    *
    * @see <a href="https://developers.line.biz/en/reference/messaging-api/#send-push-message"> Documentation</a>
    */
   public async pushMessage(
     pushMessageRequest: PushMessageRequest,
     xLineRetryKey?: string,
+    requestOptions?: FetchRequestConfig,
   ): Promise<PushMessageResponse> {
     return (
-      await this.pushMessageWithHttpInfo(pushMessageRequest, xLineRetryKey)
+      await this.pushMessageWithHttpInfo(
+        pushMessageRequest,
+        xLineRetryKey,
+        requestOptions,
+      )
     ).body;
   }
 
@@ -1615,12 +2037,14 @@ export class MessagingApiClient {
    * This method includes HttpInfo object to return additional information.
    * @param pushMessageRequest
    * @param xLineRetryKey Retry key. Specifies the UUID in hexadecimal format (e.g., `123e4567-e89b-12d3-a456-426614174000`) generated by any method. The retry key isn\'t generated by LINE. Each developer must generate their own retry key.
+   * @param requestOptions Options of the request, e.g. a signal to abort it, a timeout and extra headers.
    *
    * @see <a href="https://developers.line.biz/en/reference/messaging-api/#send-push-message"> Documentation</a>
    */
   public async pushMessageWithHttpInfo(
     pushMessageRequest: PushMessageRequest,
     xLineRetryKey?: string,
+    requestOptions?: FetchRequestConfig,
   ): Promise<Types.ApiResponseType<PushMessageResponse>> {
     const params = pushMessageRequest;
 
@@ -1628,12 +2052,10 @@ export class MessagingApiClient {
       ...(xLineRetryKey != null ? { "X-Line-Retry-Key": xLineRetryKey } : {}),
     };
 
-    const res = await this.httpClient.post(
-      "/v2/bot/message/push",
-      params,
-
-      { headers: headerParams },
-    );
+    const res = await this.httpClient.post("/v2/bot/message/push", params, {
+      ...requestOptions,
+      headers: { ...requestOptions?.headers, ...headerParams },
+    });
     const text = await res.text();
     const parsedBody = text ? JSON.parse(text) : null;
     return { httpResponse: res, body: parsedBody };
@@ -1642,17 +2064,20 @@ export class MessagingApiClient {
    * Send LINE notification message
    * @param pnpMessagesRequest
    * @param xLineDeliveryTag String returned in the delivery.data property of the delivery completion event via Webhook.
+   * @param requestOptions Options of the request, e.g. a signal to abort it, a timeout and extra headers.
    *
    * @see <a href="https://developers.line.biz/en/reference/partner-docs/#send-line-notification-message"> Documentation</a>
    */
   public async pushMessagesByPhone(
     pnpMessagesRequest: PnpMessagesRequest,
     xLineDeliveryTag?: string,
+    requestOptions?: FetchRequestConfig,
   ): Promise<Types.MessageAPIResponseBase> {
     return (
       await this.pushMessagesByPhoneWithHttpInfo(
         pnpMessagesRequest,
         xLineDeliveryTag,
+        requestOptions,
       )
     ).body;
   }
@@ -1662,12 +2087,14 @@ export class MessagingApiClient {
    * This method includes HttpInfo object to return additional information.
    * @param pnpMessagesRequest
    * @param xLineDeliveryTag String returned in the delivery.data property of the delivery completion event via Webhook.
+   * @param requestOptions Options of the request, e.g. a signal to abort it, a timeout and extra headers.
    *
    * @see <a href="https://developers.line.biz/en/reference/partner-docs/#send-line-notification-message"> Documentation</a>
    */
   public async pushMessagesByPhoneWithHttpInfo(
     pnpMessagesRequest: PnpMessagesRequest,
     xLineDeliveryTag?: string,
+    requestOptions?: FetchRequestConfig,
   ): Promise<Types.ApiResponseType<Types.MessageAPIResponseBase>> {
     const params = pnpMessagesRequest;
 
@@ -1677,12 +2104,10 @@ export class MessagingApiClient {
         : {}),
     };
 
-    const res = await this.httpClient.post(
-      "/bot/pnp/push",
-      params,
-
-      { headers: headerParams },
-    );
+    const res = await this.httpClient.post("/bot/pnp/push", params, {
+      ...requestOptions,
+      headers: { ...requestOptions?.headers, ...headerParams },
+    });
     const text = await res.text();
     const parsedBody = text ? JSON.parse(text) : null;
     return { httpResponse: res, body: parsedBody };
@@ -1690,28 +2115,38 @@ export class MessagingApiClient {
   /**
    * Send reply message
    * @param replyMessageRequest
+   * @param requestOptions Options of the request, e.g. a signal to abort it, a timeout and extra headers.
    *
    * @see <a href="https://developers.line.biz/en/reference/messaging-api/#send-reply-message"> Documentation</a>
    */
   public async replyMessage(
     replyMessageRequest: ReplyMessageRequest,
+    requestOptions?: FetchRequestConfig,
   ): Promise<ReplyMessageResponse> {
-    return (await this.replyMessageWithHttpInfo(replyMessageRequest)).body;
+    return (
+      await this.replyMessageWithHttpInfo(replyMessageRequest, requestOptions)
+    ).body;
   }
 
   /**
    * Send reply message.
    * This method includes HttpInfo object to return additional information.
    * @param replyMessageRequest
+   * @param requestOptions Options of the request, e.g. a signal to abort it, a timeout and extra headers.
    *
    * @see <a href="https://developers.line.biz/en/reference/messaging-api/#send-reply-message"> Documentation</a>
    */
   public async replyMessageWithHttpInfo(
     replyMessageRequest: ReplyMessageRequest,
+    requestOptions?: FetchRequestConfig,
   ): Promise<Types.ApiResponseType<ReplyMessageResponse>> {
     const params = replyMessageRequest;
 
-    const res = await this.httpClient.post("/v2/bot/message/reply", params);
+    const res = await this.httpClient.post(
+      "/v2/bot/message/reply",
+      params,
+      requestOptions,
+    );
     const text = await res.text();
     const parsedBody = text ? JSON.parse(text) : null;
     return { httpResponse: res, body: parsedBody };
@@ -1719,28 +2154,38 @@ export class MessagingApiClient {
   /**
    * You can use this endpoint to batch control the rich menu linked to the users using the endpoint such as Link rich menu to user. The following operations are available:  1. Replace a rich menu with another rich menu for all users linked to a specific rich menu 2. Unlink a rich menu for all users linked to a specific rich menu 3. Unlink a rich menu for all users linked the rich menu
    * @param richMenuBatchRequest
+   * @param requestOptions Options of the request, e.g. a signal to abort it, a timeout and extra headers.
    *
    * @see <a href="https://developers.line.biz/en/reference/messaging-api/#batch-control-rich-menus-of-users"> Documentation</a>
    */
   public async richMenuBatch(
     richMenuBatchRequest: RichMenuBatchRequest,
+    requestOptions?: FetchRequestConfig,
   ): Promise<Types.MessageAPIResponseBase> {
-    return (await this.richMenuBatchWithHttpInfo(richMenuBatchRequest)).body;
+    return (
+      await this.richMenuBatchWithHttpInfo(richMenuBatchRequest, requestOptions)
+    ).body;
   }
 
   /**
    * You can use this endpoint to batch control the rich menu linked to the users using the endpoint such as Link rich menu to user. The following operations are available:  1. Replace a rich menu with another rich menu for all users linked to a specific rich menu 2. Unlink a rich menu for all users linked to a specific rich menu 3. Unlink a rich menu for all users linked the rich menu .
    * This method includes HttpInfo object to return additional information.
    * @param richMenuBatchRequest
+   * @param requestOptions Options of the request, e.g. a signal to abort it, a timeout and extra headers.
    *
    * @see <a href="https://developers.line.biz/en/reference/messaging-api/#batch-control-rich-menus-of-users"> Documentation</a>
    */
   public async richMenuBatchWithHttpInfo(
     richMenuBatchRequest: RichMenuBatchRequest,
+    requestOptions?: FetchRequestConfig,
   ): Promise<Types.ApiResponseType<Types.MessageAPIResponseBase>> {
     const params = richMenuBatchRequest;
 
-    const res = await this.httpClient.post("/v2/bot/richmenu/batch", params);
+    const res = await this.httpClient.post(
+      "/v2/bot/richmenu/batch",
+      params,
+      requestOptions,
+    );
     const text = await res.text();
     const parsedBody = text ? JSON.parse(text) : null;
     return { httpResponse: res, body: parsedBody };
@@ -1748,30 +2193,41 @@ export class MessagingApiClient {
   /**
    * Set default rich menu
    * @param richMenuId ID of a rich menu
+   * @param requestOptions Options of the request, e.g. a signal to abort it, a timeout and extra headers.
    *
    * @see <a href="https://developers.line.biz/en/reference/messaging-api/#set-default-rich-menu"> Documentation</a>
    */
   public async setDefaultRichMenu(
     richMenuId: string,
+    requestOptions?: FetchRequestConfig,
   ): Promise<Types.MessageAPIResponseBase> {
-    return (await this.setDefaultRichMenuWithHttpInfo(richMenuId)).body;
+    return (
+      await this.setDefaultRichMenuWithHttpInfo(richMenuId, requestOptions)
+    ).body;
   }
 
   /**
    * Set default rich menu.
    * This method includes HttpInfo object to return additional information.
    * @param richMenuId ID of a rich menu
+   * @param requestOptions Options of the request, e.g. a signal to abort it, a timeout and extra headers.
    *
    * @see <a href="https://developers.line.biz/en/reference/messaging-api/#set-default-rich-menu"> Documentation</a>
    */
   public async setDefaultRichMenuWithHttpInfo(
     richMenuId: string,
+    requestOptions?: FetchRequestConfig,
   ): Promise<Types.ApiResponseType<Types.MessageAPIResponseBase>> {
     const res = await this.httpClient.post(
       "/v2/bot/user/all/richmenu/{richMenuId}".replace(
         "{richMenuId}",
         String(richMenuId),
       ),
+      undefined,
+      {
+        ...requestOptions,
+        pathTemplate: "/v2/bot/user/all/richmenu/{richMenuId}",
+      },
     );
     const text = await res.text();
     const parsedBody = text ? JSON.parse(text) : null;
@@ -1780,14 +2236,19 @@ export class MessagingApiClient {
   /**
    * Set webhook endpoint URL
    * @param setWebhookEndpointRequest
+   * @param requestOptions Options of the request, e.g. a signal to abort it, a timeout and extra headers.
    *
    * @see <a href="https://developers.line.biz/en/reference/messaging-api/#set-webhook-endpoint-url"> Documentation</a>
    */
   public async setWebhookEndpoint(
     setWebhookEndpointRequest: SetWebhookEndpointRequest,
+    requestOptions?: FetchRequestConfig,
   ): Promise<Types.MessageAPIResponseBase> {
     return (
-      await this.setWebhookEndpointWithHttpInfo(setWebhookEndpointRequest)
+      await this.setWebhookEndpointWithHttpInfo(
+        setWebhookEndpointRequest,
+        requestOptions,
+      )
     ).body;
   }
 
@@ -1795,17 +2256,20 @@ export class MessagingApiClient {
    * Set webhook endpoint URL.
    * This method includes HttpInfo object to return additional information.
    * @param setWebhookEndpointRequest
+   * @param requestOptions Options of the request, e.g. a signal to abort it, a timeout and extra headers.
    *
    * @see <a href="https://developers.line.biz/en/reference/messaging-api/#set-webhook-endpoint-url"> Documentation</a>
    */
   public async setWebhookEndpointWithHttpInfo(
     setWebhookEndpointRequest: SetWebhookEndpointRequest,
+    requestOptions?: FetchRequestConfig,
   ): Promise<Types.ApiResponseType<Types.MessageAPIResponseBase>> {
     const params = setWebhookEndpointRequest;
 
     const res = await this.httpClient.put(
       "/v2/bot/channel/webhook/endpoint",
       params,
+      requestOptions,
     );
     const text = await res.text();
     const parsedBody = text ? JSON.parse(text) : null;
@@ -1814,14 +2278,19 @@ export class MessagingApiClient {
   /**
    * Display a loading animation in one-on-one chats between users and LINE Official Accounts.
    * @param showLoadingAnimationRequest
+   * @param requestOptions Options of the request, e.g. a signal to abort it, a timeout and extra headers.
    *
    * @see <a href="https://developers.line.biz/en/reference/messaging-api/#display-a-loading-indicator"> Documentation</a>
    */
   public async showLoadingAnimation(
     showLoadingAnimationRequest: ShowLoadingAnimationRequest,
+    requestOptions?: FetchRequestConfig,
   ): Promise<object> {
     return (
-      await this.showLoadingAnimationWithHttpInfo(showLoadingAnimationRequest)
+      await this.showLoadingAnimationWithHttpInfo(
+        showLoadingAnimationRequest,
+        requestOptions,
+      )
     ).body;
   }
 
@@ -1829,17 +2298,20 @@ export class MessagingApiClient {
    * Display a loading animation in one-on-one chats between users and LINE Official Accounts..
    * This method includes HttpInfo object to return additional information.
    * @param showLoadingAnimationRequest
+   * @param requestOptions Options of the request, e.g. a signal to abort it, a timeout and extra headers.
    *
    * @see <a href="https://developers.line.biz/en/reference/messaging-api/#display-a-loading-indicator"> Documentation</a>
    */
   public async showLoadingAnimationWithHttpInfo(
     showLoadingAnimationRequest: ShowLoadingAnimationRequest,
+    requestOptions?: FetchRequestConfig,
   ): Promise<Types.ApiResponseType<object>> {
     const params = showLoadingAnimationRequest;
 
     const res = await this.httpClient.post(
       "/v2/bot/chat/loading/start",
       params,
+      requestOptions,
     );
     const text = await res.text();
     const parsedBody = text ? JSON.parse(text) : null;
@@ -1848,14 +2320,19 @@ export class MessagingApiClient {
   /**
    * Test webhook endpoint
    * @param testWebhookEndpointRequest
+   * @param requestOptions Options of the request, e.g. a signal to abort it, a timeout and extra headers.
    *
    * @see <a href="https://developers.line.biz/en/reference/messaging-api/#test-webhook-endpoint"> Documentation</a>
    */
   public async testWebhookEndpoint(
     testWebhookEndpointRequest?: TestWebhookEndpointRequest,
+    requestOptions?: FetchRequestConfig,
   ): Promise<TestWebhookEndpointResponse> {
     return (
-      await this.testWebhookEndpointWithHttpInfo(testWebhookEndpointRequest)
+      await this.testWebhookEndpointWithHttpInfo(
+        testWebhookEndpointRequest,
+        requestOptions,
+      )
     ).body;
   }
 
@@ -1863,17 +2340,20 @@ export class MessagingApiClient {
    * Test webhook endpoint.
    * This method includes HttpInfo object to return additional information.
    * @param testWebhookEndpointRequest
+   * @param requestOptions Options of the request, e.g. a signal to abort it, a timeout and extra headers.
    *
    * @see <a href="https://developers.line.biz/en/reference/messaging-api/#test-webhook-endpoint"> Documentation</a>
    */
   public async testWebhookEndpointWithHttpInfo(
     testWebhookEndpointRequest?: TestWebhookEndpointRequest,
+    requestOptions?: FetchRequestConfig,
   ): Promise<Types.ApiResponseType<TestWebhookEndpointResponse>> {
     const params = testWebhookEndpointRequest;
 
     const res = await this.httpClient.post(
       "/v2/bot/channel/webhook/test",
       params,
+      requestOptions,
     );
     const text = await res.text();
     const parsedBody = text ? JSON.parse(text) : null;
@@ -1882,27 +2362,35 @@ export class MessagingApiClient {
   /**
    * Unlink rich menu from user
    * @param userId User ID. Found in the `source` object of webhook event objects. Do not use the LINE ID used in LINE.
+   * @param requestOptions Options of the request, e.g. a signal to abort it, a timeout and extra headers.
    *
    * @see <a href="https://developers.line.biz/en/reference/messaging-api/#unlink-rich-menu-from-user"> Documentation</a>
    */
   public async unlinkRichMenuIdFromUser(
     userId: string,
+    requestOptions?: FetchRequestConfig,
   ): Promise<Types.MessageAPIResponseBase> {
-    return (await this.unlinkRichMenuIdFromUserWithHttpInfo(userId)).body;
+    return (
+      await this.unlinkRichMenuIdFromUserWithHttpInfo(userId, requestOptions)
+    ).body;
   }
 
   /**
    * Unlink rich menu from user.
    * This method includes HttpInfo object to return additional information.
    * @param userId User ID. Found in the `source` object of webhook event objects. Do not use the LINE ID used in LINE.
+   * @param requestOptions Options of the request, e.g. a signal to abort it, a timeout and extra headers.
    *
    * @see <a href="https://developers.line.biz/en/reference/messaging-api/#unlink-rich-menu-from-user"> Documentation</a>
    */
   public async unlinkRichMenuIdFromUserWithHttpInfo(
     userId: string,
+    requestOptions?: FetchRequestConfig,
   ): Promise<Types.ApiResponseType<Types.MessageAPIResponseBase>> {
     const res = await this.httpClient.delete(
       "/v2/bot/user/{userId}/richmenu".replace("{userId}", String(userId)),
+      undefined,
+      { ...requestOptions, pathTemplate: "/v2/bot/user/{userId}/richmenu" },
     );
     const text = await res.text();
     const parsedBody = text ? JSON.parse(text) : null;
@@ -1911,15 +2399,18 @@ export class MessagingApiClient {
   /**
    * Unlink rich menus from multiple users
    * @param richMenuBulkUnlinkRequest
+   * @param requestOptions Options of the request, e.g. a signal to abort it, a timeout and extra headers.
    *
    * @see <a href="https://developers.line.biz/en/reference/messaging-api/#unlink-rich-menu-from-users"> Documentation</a>
    */
   public async unlinkRichMenuIdFromUsers(
     richMenuBulkUnlinkRequest: RichMenuBulkUnlinkRequest,
+    requestOptions?: FetchRequestConfig,
   ): Promise<Types.MessageAPIResponseBase> {
     return (
       await this.unlinkRichMenuIdFromUsersWithHttpInfo(
         richMenuBulkUnlinkRequest,
+        requestOptions,
       )
     ).body;
   }
@@ -1928,17 +2419,20 @@ export class MessagingApiClient {
    * Unlink rich menus from multiple users.
    * This method includes HttpInfo object to return additional information.
    * @param richMenuBulkUnlinkRequest
+   * @param requestOptions Options of the request, e.g. a signal to abort it, a timeout and extra headers.
    *
    * @see <a href="https://developers.line.biz/en/reference/messaging-api/#unlink-rich-menu-from-users"> Documentation</a>
    */
   public async unlinkRichMenuIdFromUsersWithHttpInfo(
     richMenuBulkUnlinkRequest: RichMenuBulkUnlinkRequest,
+    requestOptions?: FetchRequestConfig,
   ): Promise<Types.ApiResponseType<Types.MessageAPIResponseBase>> {
     const params = richMenuBulkUnlinkRequest;
 
     const res = await this.httpClient.post(
       "/v2/bot/richmenu/bulk/unlink",
       params,
+      requestOptions,
     );
     const text = await res.text();
     const parsedBody = text ? JSON.parse(text) : null;
@@ -1948,17 +2442,20 @@ export class MessagingApiClient {
    * Update rich menu alias
    * @param richMenuAliasId The rich menu alias ID you want to update.
    * @param updateRichMenuAliasRequest
+   * @param requestOptions Options of the request, e.g. a signal to abort it, a timeout and extra headers.
    *
    * @see <a href="https://developers.line.biz/en/reference/messaging-api/#update-rich-menu-alias"> Documentation</a>
    */
   public async updateRichMenuAlias(
     richMenuAliasId: string,
     updateRichMenuAliasRequest: UpdateRichMenuAliasRequest,
+    requestOptions?: FetchRequestConfig,
   ): Promise<Types.MessageAPIResponseBase> {
     return (
       await this.updateRichMenuAliasWithHttpInfo(
         richMenuAliasId,
         updateRichMenuAliasRequest,
+        requestOptions,
       )
     ).body;
   }
@@ -1968,12 +2465,14 @@ export class MessagingApiClient {
    * This method includes HttpInfo object to return additional information.
    * @param richMenuAliasId The rich menu alias ID you want to update.
    * @param updateRichMenuAliasRequest
+   * @param requestOptions Options of the request, e.g. a signal to abort it, a timeout and extra headers.
    *
    * @see <a href="https://developers.line.biz/en/reference/messaging-api/#update-rich-menu-alias"> Documentation</a>
    */
   public async updateRichMenuAliasWithHttpInfo(
     richMenuAliasId: string,
     updateRichMenuAliasRequest: UpdateRichMenuAliasRequest,
+    requestOptions?: FetchRequestConfig,
   ): Promise<Types.ApiResponseType<Types.MessageAPIResponseBase>> {
     const params = updateRichMenuAliasRequest;
 
@@ -1983,6 +2482,10 @@ export class MessagingApiClient {
         String(richMenuAliasId),
       ),
       params,
+      {
+        ...requestOptions,
+        pathTemplate: "/v2/bot/richmenu/alias/{richMenuAliasId}",
+      },
     );
     const text = await res.text();
     const parsedBody = text ? JSON.parse(text) : null;
@@ -1991,31 +2494,40 @@ export class MessagingApiClient {
   /**
    * Validate message objects of a broadcast message
    * @param validateMessageRequest
+   * @param requestOptions Options of the request, e.g. a signal to abort it, a timeout and extra headers.
    *
    * @see <a href="https://developers.line.biz/en/reference/messaging-api/#validate-message-objects-of-broadcast-message"> Documentation</a>
    */
   public async validateBroadcast(
     validateMessageRequest: ValidateMessageRequest,
+    requestOptions?: FetchRequestConfig,
   ): Promise<Types.MessageAPIResponseBase> {
-    return (await this.validateBroadcastWithHttpInfo(validateMessageRequest))
-      .body;
+    return (
+      await this.validateBroadcastWithHttpInfo(
+        validateMessageRequest,
+        requestOptions,
+      )
+    ).body;
   }
 
   /**
    * Validate message objects of a broadcast message.
    * This method includes HttpInfo object to return additional information.
    * @param validateMessageRequest
+   * @param requestOptions Options of the request, e.g. a signal to abort it, a timeout and extra headers.
    *
    * @see <a href="https://developers.line.biz/en/reference/messaging-api/#validate-message-objects-of-broadcast-message"> Documentation</a>
    */
   public async validateBroadcastWithHttpInfo(
     validateMessageRequest: ValidateMessageRequest,
+    requestOptions?: FetchRequestConfig,
   ): Promise<Types.ApiResponseType<Types.MessageAPIResponseBase>> {
     const params = validateMessageRequest;
 
     const res = await this.httpClient.post(
       "/v2/bot/message/validate/broadcast",
       params,
+      requestOptions,
     );
     const text = await res.text();
     const parsedBody = text ? JSON.parse(text) : null;
@@ -2024,31 +2536,40 @@ export class MessagingApiClient {
   /**
    * Validate message objects of a multicast message
    * @param validateMessageRequest
+   * @param requestOptions Options of the request, e.g. a signal to abort it, a timeout and extra headers.
    *
    * @see <a href="https://developers.line.biz/en/reference/messaging-api/#validate-message-objects-of-multicast-message"> Documentation</a>
    */
   public async validateMulticast(
     validateMessageRequest: ValidateMessageRequest,
+    requestOptions?: FetchRequestConfig,
   ): Promise<Types.MessageAPIResponseBase> {
-    return (await this.validateMulticastWithHttpInfo(validateMessageRequest))
-      .body;
+    return (
+      await this.validateMulticastWithHttpInfo(
+        validateMessageRequest,
+        requestOptions,
+      )
+    ).body;
   }
 
   /**
    * Validate message objects of a multicast message.
    * This method includes HttpInfo object to return additional information.
    * @param validateMessageRequest
+   * @param requestOptions Options of the request, e.g. a signal to abort it, a timeout and extra headers.
    *
    * @see <a href="https://developers.line.biz/en/reference/messaging-api/#validate-message-objects-of-multicast-message"> Documentation</a>
    */
   public async validateMulticastWithHttpInfo(
     validateMessageRequest: ValidateMessageRequest,
+    requestOptions?: FetchRequestConfig,
   ): Promise<Types.ApiResponseType<Types.MessageAPIResponseBase>> {
     const params = validateMessageRequest;
 
     const res = await this.httpClient.post(
       "/v2/bot/message/validate/multicast",
       params,
+      requestOptions,
     );
     const text = await res.text();
     const parsedBody = text ? JSON.parse(text) : null;
@@ -2057,31 +2578,40 @@ export class MessagingApiClient {
   /**
    * Validate message objects of a narrowcast message
    * @param validateMessageRequest
+   * @param requestOptions Options of the request, e.g. a signal to abort it, a timeout and extra headers.
    *
    * @see <a href="https://developers.line.biz/en/reference/messaging-api/#validate-message-objects-of-narrowcast-message"> Documentation</a>
    */
   public async validateNarrowcast(
     validateMessageRequest: ValidateMessageRequest,
+    requestOptions?: FetchRequestConfig,
   ): Promise<Types.MessageAPIResponseBase> {
-    return (await this.validateNarrowcastWithHttpInfo(validateMessageRequest))
-      .body;
+    return (
+      await this.validateNarrowcastWithHttpInfo(
+        validateMessageRequest,
+        requestOptions,
+      )
+    ).body;
   }
 
   /**
    * Validate message objects of a narrowcast message.
    * This method includes HttpInfo object to return additional information.
    * @param validateMessageRequest
+   * @param requestOptions Options of the request, e.g. a signal to abort it, a timeout and extra headers.
    *
    * @see <a href="https://developers.line.biz/en/reference/messaging-api/#validate-message-objects-of-narrowcast-message"> Documentation</a>
    */
   public async validateNarrowcastWithHttpInfo(
     validateMessageRequest: ValidateMessageRequest,
+    requestOptions?: FetchRequestConfig,
   ): Promise<Types.ApiResponseType<Types.MessageAPIResponseBase>> {
     const params = validateMessageRequest;
 
     const res = await this.httpClient.post(
       "/v2/bot/message/validate/narrowcast",
       params,
+      requestOptions,
     );
     const text = await res.text();
     const parsedBody = text ? JSON.parse(text) : null;
@@ -2090,30 +2620,40 @@ export class MessagingApiClient {
   /**
    * Validate message objects of a push message
    * @param validateMessageRequest
+   * @param requestOptions Options of the request, e.g. a signal to abort it, a timeout and extra headers.
    *
    * @see <a href="https://developers.line.biz/en/reference/messaging-api/#validate-message-objects-of-push-message"> Documentation</a>
    */
   public async validatePush(
     validateMessageRequest: ValidateMessageRequest,
+    requestOptions?: FetchRequestConfig,
   ): Promise<Types.MessageAPIResponseBase> {
-    return (await this.validatePushWithHttpInfo(validateMessageRequest)).body;
+    return (
+      await this.validatePushWithHttpInfo(
+        validateMessageRequest,
+        requestOptions,
+      )
+    ).body;
   }
 
   /**
    * Validate message objects of a push message.
    * This method includes HttpInfo object to return additional information.
    * @param validateMessageRequest
+   * @param requestOptions Options of the request, e.g. a signal to abort it, a timeout and extra headers.
    *
    * @see <a href="https://developers.line.biz/en/reference/messaging-api/#validate-message-objects-of-push-message"> Documentation</a>
    */
   public async validatePushWithHttpInfo(
     validateMessageRequest: ValidateMessageRequest,
+    requestOptions?: FetchRequestConfig,
   ): Promise<Types.ApiResponseType<Types.MessageAPIResponseBase>> {
     const params = validateMessageRequest;
 
     const res = await this.httpClient.post(
       "/v2/bot/message/validate/push",
       params,
+      requestOptions,
     );
     const text = await res.text();
     const parsedBody = text ? JSON.parse(text) : null;
@@ -2122,30 +2662,40 @@ export class MessagingApiClient {
   /**
    * Validate message objects of a reply message
    * @param validateMessageRequest
+   * @param requestOptions Options of the request, e.g. a signal to abort it, a timeout and extra headers.
    *
    * @see <a href="https://developers.line.biz/en/reference/messaging-api/#validate-message-objects-of-reply-message"> Documentation</a>
    */
   public async validateReply(
     validateMessageRequest: ValidateMessageRequest,
+    requestOptions?: FetchRequestConfig,
   ): Promise<Types.MessageAPIResponseBase> {
-    return (await this.validateReplyWithHttpInfo(validateMessageRequest)).body;
+    return (
+      await this.validateReplyWithHttpInfo(
+        validateMessageRequest,
+        requestOptions,
+      )
+    ).body;
   }
 
   /**
    * Validate message objects of a reply message.
    * This method includes HttpInfo object to return additional information.
    * @param validateMessageRequest
+   * @param requestOptions Options of the request, e.g. a signal to abort it, a timeout and extra headers.
    *
    * @see <a href="https://developers.line.biz/en/reference/messaging-api/#validate-message-objects-of-reply-message"> Documentation</a>
    */
   public async validateReplyWithHttpInfo(
     validateMessageRequest: ValidateMessageRequest,
+    requestOptions?: FetchRequestConfig,
   ): Promise<Types.ApiResponseType<Types.MessageAPIResponseBase>> {
     const params = validateMessageRequest;
 
     const res = await this.httpClient.post(
       "/v2/bot/message/validate/reply",
       params,
+      requestOptions,
     );
     const text = await res.text();
     const parsedBody = text ? JSON.parse(text) : null;
@@ -2154,14 +2704,19 @@ export class MessagingApiClient {
   /**
    * Validate a request body of the Replace or unlink the linked rich menus in batches endpoint.
    * @param richMenuBatchRequest
+   * @param requestOptions Options of the request, e.g. a signal to abort it, a timeout and extra headers.
    *
    * @see <a href="https://developers.line.biz/en/reference/messaging-api/#validate-batch-control-rich-menus-request"> Documentation</a>
    */
   public async validateRichMenuBatchRequest(
     richMenuBatchRequest: RichMenuBatchRequest,
+    requestOptions?: FetchRequestConfig,
   ): Promise<Types.MessageAPIResponseBase> {
     return (
-      await this.validateRichMenuBatchRequestWithHttpInfo(richMenuBatchRequest)
+      await this.validateRichMenuBatchRequestWithHttpInfo(
+        richMenuBatchRequest,
+        requestOptions,
+      )
     ).body;
   }
 
@@ -2169,17 +2724,20 @@ export class MessagingApiClient {
    * Validate a request body of the Replace or unlink the linked rich menus in batches endpoint..
    * This method includes HttpInfo object to return additional information.
    * @param richMenuBatchRequest
+   * @param requestOptions Options of the request, e.g. a signal to abort it, a timeout and extra headers.
    *
    * @see <a href="https://developers.line.biz/en/reference/messaging-api/#validate-batch-control-rich-menus-request"> Documentation</a>
    */
   public async validateRichMenuBatchRequestWithHttpInfo(
     richMenuBatchRequest: RichMenuBatchRequest,
+    requestOptions?: FetchRequestConfig,
   ): Promise<Types.ApiResponseType<Types.MessageAPIResponseBase>> {
     const params = richMenuBatchRequest;
 
     const res = await this.httpClient.post(
       "/v2/bot/richmenu/validate/batch",
       params,
+      requestOptions,
     );
     const text = await res.text();
     const parsedBody = text ? JSON.parse(text) : null;
@@ -2188,29 +2746,41 @@ export class MessagingApiClient {
   /**
    * Validate rich menu object
    * @param richMenuRequest
+   * @param requestOptions Options of the request, e.g. a signal to abort it, a timeout and extra headers.
    *
    * @see <a href="https://developers.line.biz/en/reference/messaging-api/#validate-rich-menu-object"> Documentation</a>
    */
   public async validateRichMenuObject(
     richMenuRequest: RichMenuRequest,
+    requestOptions?: FetchRequestConfig,
   ): Promise<Types.MessageAPIResponseBase> {
-    return (await this.validateRichMenuObjectWithHttpInfo(richMenuRequest))
-      .body;
+    return (
+      await this.validateRichMenuObjectWithHttpInfo(
+        richMenuRequest,
+        requestOptions,
+      )
+    ).body;
   }
 
   /**
    * Validate rich menu object.
    * This method includes HttpInfo object to return additional information.
    * @param richMenuRequest
+   * @param requestOptions Options of the request, e.g. a signal to abort it, a timeout and extra headers.
    *
    * @see <a href="https://developers.line.biz/en/reference/messaging-api/#validate-rich-menu-object"> Documentation</a>
    */
   public async validateRichMenuObjectWithHttpInfo(
     richMenuRequest: RichMenuRequest,
+    requestOptions?: FetchRequestConfig,
   ): Promise<Types.ApiResponseType<Types.MessageAPIResponseBase>> {
     const params = richMenuRequest;
 
-    const res = await this.httpClient.post("/v2/bot/richmenu/validate", params);
+    const res = await this.httpClient.post(
+      "/v2/bot/richmenu/validate",
+      params,
+      requestOptions,
+    );
     const text = await res.text();
     const parsedBody = text ? JSON.parse(text) : null;
     return { httpResponse: res, body: parsedBody };
@@ -3,6 +3,10 @@ import { Buffer } from "node:buffer";
 import { JSONParseError, SignatureValidationFailed } from "./exceptions.js";
 import * as Types from "./types.js";
 import validateSignature from "./validate-signature.js";
+import { toArray } from "./utils.js";
+import type { Instrumentation } from "./instrumentation.js";
+import { countEvents, startSpan } from "./instrumentation.js";
+import type { WebhookRecorder } from "./webhook-recorder.js";
 
 export type Request = http.IncomingMessage & { body: any };
 export type Response = http.ServerResponse;
@@ -26,7 +30,80 @@ let readRequestBody = async (req: http.IncomingMessage): Promise<Buffer> => {
   return Buffer.concat(chunks);
 };
 
-export default function middleware(config: Types.MiddlewareConfig): Middleware {
+let getRawBody = async (req: Request): Promise<string | Buffer> => {
+  if (isValidBody((req as any).rawBody)) {
+    // rawBody is provided in Google Cloud Functions and others
+    return (req as any).rawBody;
+  } else if (isValidBody(req.body)) {
+    return req.body;
+  } else {
+    // body may not be parsed yet, parse it to a buffer
+    let rawBody = await readRequestBody(req);
+    if (isValidBody(rawBody)) {
+      return rawBody;
+    } else {
+      throw new JSONParseError("Invalid body", { raw: rawBody });
+    }
+  }
+};
+
+export interface RecordingConfig {
+  /**
+   * Receives every request with its raw body before signature validation,
+   * e.g. to replay it later with `replayWebhookRecordings()`.
+   */
+  recorder?: WebhookRecorder;
+}
+
+function record(
+  recorder: WebhookRecorder | undefined,
+  req: http.IncomingMessage,
+  receivedAt: number,
+  body: string | Buffer,
+): void {
+  recorder?.record({
+    receivedAt,
+    headers: { ...req.headers },
+    body: body.toString(),
+  });
+}
+
+export interface InstrumentationConfig {
+  /**
+   * `startWebhook()` is called for every request, and the span is ended with
+   * the events of the body or the error when the request is handled.
+   */
+  instrumentation?: Instrumentation;
+}
+
+function instrument(
+  instrumentation: Instrumentation | undefined,
+  middleware: Middleware,
+): Middleware {
+  if (!instrumentation) {
+    return middleware;
+  }
+  return (req, res, next) => {
+    let startedAt = Date.now();
+    let end = startSpan(() =>
+      instrumentation.startWebhook?.({
+        signed: Boolean(req.headers[Types.LINE_SIGNATURE_HTTP_HEADER_NAME]),
+      }),
+    );
+    return middleware(req, res, err => {
+      end({
+        ...countEvents(err ? undefined : req.body),
+        duration: Date.now() - startedAt,
+        error: err,
+      });
+      next(err);
+    });
+  };
+}
+
+export default function middleware(
+  config: Types.MiddlewareConfig & RecordingConfig & InstrumentationConfig,
+): Middleware {
   if (!config.channelSecret) {
     throw new Error("no channel secret");
   }
@@ -34,6 +111,8 @@ export default function middleware(config: Types.MiddlewareConfig): Middleware {
   let secret = config.channelSecret;
 
   let _middleware: Middleware = async (req, res, next) => {
+    let receivedAt = Date.now();
+
     // header names are lower-cased
     // https://nodejs.org/api/http.html#http_message_headers
     let signature = req.headers[
@@ -45,22 +124,8 @@ export default function middleware(config: Types.MiddlewareConfig): Middleware {
       return;
     }
 
-    let body = await (async (): Promise<string | Buffer> => {
-      if (isValidBody((req as any).rawBody)) {
-        // rawBody is provided in Google Cloud Functions and others
-        return (req as any).rawBody;
-      } else if (isValidBody(req.body)) {
-        return req.body;
-      } else {
-        // body may not be parsed yet, parse it to a buffer
-        let rawBody = await readRequestBody(req);
-        if (isValidBody(rawBody)) {
-          return rawBody;
-        } else {
-          throw new JSONParseError("Invalid body", { raw: rawBody });
-        }
-      }
-    })();
+    let body = await getRawBody(req);
+    record(config.recorder, req, receivedAt, body);
 
     if (!validateSignature(body, secret, signature)) {
       next(
@@ -82,7 +147,133 @@ export default function middleware(config: Types.MiddlewareConfig): Middleware {
       next(new JSONParseError(message, { raw: strBody }));
     }
   };
-  return (req, res, next): void => {
+  return instrument(config.instrumentation, (req, res, next): void => {
     (<Promise<void>>_middleware(req, res, next)).catch(next);
+  });
+}
+
+/**
+ * Channel resolved by `multiChannelMiddleware()`.
+ */
+export interface ChannelContext {
+  /**
+   * Secret used to validate the signature. During a rollover window of the
+   * channel secret, give every candidate; the first one which validates the
+   * signature is used.
+   */
+  channelSecret: string | string[];
+}
+
+export interface ChannelResolverKey {
+  /**
+   * User ID of the bot which should receive the events. `undefined` when the
+   * body can't be parsed.
+   */
+  destination?: string;
+  /**
+   * Route parameters, e.g. `req.params` of Express.
+   */
+  params: Record<string, string>;
+  req: http.IncomingMessage;
+}
+
+export type ChannelResolver<C extends ChannelContext = ChannelContext> = (
+  key: ChannelResolverKey,
+) => C | undefined | Promise<C | undefined>;
+
+export interface MultiChannelMiddlewareConfig<
+  C extends ChannelContext = ChannelContext,
+> extends RecordingConfig,
+    InstrumentationConfig {
+  resolveChannel: ChannelResolver<C>;
+}
+
+export type MultiChannelRequest<C extends ChannelContext = ChannelContext> =
+  Request & {
+    /**
+     * The resolved channel.
+     */
+    channel: C;
+    /**
+     * The secret which validated the signature.
+     */
+    channelSecret: string;
+  };
+
+function peekDestination(body: string | Buffer): string | undefined {
+  try {
+    let { destination } = JSON.parse(body.toString());
+    return typeof destination === "string" ? destination : undefined;
+  } catch {
+    return undefined;
+  }
+}
+
+/**
+ * Creates a middleware like `middleware()` for an endpoint shared by several
+ * channels. The channel secret is resolved per request by the `destination`
+ * of the body or by route parameters, and the resolved channel is set to
+ * `req.channel`.
+ */
+export function multiChannelMiddleware<
+  C extends ChannelContext = ChannelContext,
+>(config: MultiChannelMiddlewareConfig<C>): Middleware {
+  if (!config.resolveChannel) {
+    throw new Error("no channel resolver");
+  }
+
+  let _middleware: Middleware = async (req, res, next) => {
+    let receivedAt = Date.now();
+
+    let signature = req.headers[
+      Types.LINE_SIGNATURE_HTTP_HEADER_NAME
+    ] as string;
+
+    if (!signature) {
+      next(new SignatureValidationFailed("no signature"));
+      return;
+    }
+
+    let body = await getRawBody(req);
+    record(config.recorder, req, receivedAt, body);
+
+    let channel = await config.resolveChannel({
+      destination: peekDestination(body),
+      params: (req as any).params || {},
+      req,
+    });
+    if (!channel || !channel.channelSecret) {
+      next(new SignatureValidationFailed("no channel secret", { signature }));
+      return;
+    }
+
+    let secret = toArray(channel.channelSecret).find(secret =>
+      validateSignature(body, secret, signature),
+    );
+    if (!secret) {
+      next(
+        new SignatureValidationFailed("signature validation failed", {
+          signature,
+        }),
+      );
+      return;
+    }
+
+    let strBody = Buffer.isBuffer(body) ? body.toString() : body;
+
+    try {
+      req.body = JSON.parse(strBody);
+    } catch (err) {
+      let { message } = err;
+
+      next(new JSONParseError(message, { raw: strBody }));
+      return;
+    }
+
+    Object.assign(req, { channel, channelSecret: secret });
+    next();
   };
+  return instrument(config.instrumentation, (req, res, next): void => {
+    (<Promise<void>>_middleware(req, res, next)).catch(next);
+  });
 }
@@ -19,16 +19,18 @@ import { Readable } from "node:stream";
 
 import HTTPFetchClient, {
   convertResponseToReadable,
+  FetchRequestConfig,
+  HTTPClientOptions,
 } from "../../http-fetch.js";
+import type { ChannelAccessTokenProvider } from "../../channel-access-token-provider.js";
 
 // ===============================================
 // This file is autogenerated - Please do not edit
 // ===============================================
 
-interface httpClientConfig {
+interface httpClientConfig extends HTTPClientOptions {
   baseURL?: string;
-  channelAccessToken: string;
-  // TODO support defaultHeaders?
+  channelAccessToken: string | ChannelAccessTokenProvider;
 }
 
 export class LineModuleAttachClient {
@@ -37,9 +39,11 @@ export class LineModuleAttachClient {
   constructor(config: httpClientConfig) {
     const baseURL = config.baseURL || "https://manager.line.biz";
     this.httpClient = new HTTPFetchClient({
+      ...config,
       defaultHeaders: {
-        Authorization: "Bearer " + config.channelAccessToken,
+        ...config.defaultHeaders,
       },
+      channelAccessToken: config.channelAccessToken,
       baseURL: baseURL,
     });
   }
@@ -69,6 +73,7 @@ export class LineModuleAttachClient {
    * @param basicSearchId If you specified a value for basic_search_id in the URL for authentication and authorization, specify the same value.
    * @param scope If you specified a value for scope in the URL for authentication and authorization, specify the same value.
    * @param brandType If you specified a value for brand_type in the URL for authentication and authorization, specify the same value.
+   * @param requestOptions Options of the request, e.g. a signal to abort it, a timeout and extra headers.
    *
    * @see <a href="https://developers.line.biz/en/reference/partner-docs/#link-attach-by-operation-module-channel-provider"> Documentation</a>
    */
@@ -83,6 +88,7 @@ export class LineModuleAttachClient {
     basicSearchId?: string,
     scope?: string,
     brandType?: string,
+    requestOptions?: FetchRequestConfig,
   ): Promise<AttachModuleResponse> {
     return (
       await this.attachModuleWithHttpInfo(
@@ -96,6 +102,7 @@ export class LineModuleAttachClient {
         basicSearchId,
         scope,
         brandType,
+        requestOptions,
       )
     ).body;
   }
@@ -113,6 +120,7 @@ export class LineModuleAttachClient {
    * @param basicSearchId If you specified a value for basic_search_id in the URL for authentication and authorization, specify the same value.
    * @param scope If you specified a value for scope in the URL for authentication and authorization, specify the same value.
    * @param brandType If you specified a value for brand_type in the URL for authentication and authorization, specify the same value.
+   * @param requestOptions Options of the request, e.g. a signal to abort it, a timeout and extra headers.
    *
    * @see <a href="https://developers.line.biz/en/reference/partner-docs/#link-attach-by-operation-module-channel-provider"> Documentation</a>
    */
@@ -127,6 +135,7 @@ export class LineModuleAttachClient {
     basicSearchId?: string,
     scope?: string,
     brandType?: string,
+    requestOptions?: FetchRequestConfig,
   ): Promise<Types.ApiResponseType<AttachModuleResponse>> {
     const formParams = {
       grant_type: grantType,
@@ -149,6 +158,7 @@ export class LineModuleAttachClient {
     const res = await this.httpClient.postForm(
       "/module/auth/v1/token",
       formParams,
+      requestOptions,
     );
     const text = await res.text();
     const parsedBody = text ? JSON.parse(text) : null;
@@ -21,16 +21,18 @@ import { Readable } from "node:stream";
 
 import HTTPFetchClient, {
   convertResponseToReadable,
+  FetchRequestConfig,
+  HTTPClientOptions,
 } from "../../http-fetch.js";
+import type { ChannelAccessTokenProvider } from "../../channel-access-token-provider.js";
 
 // ===============================================
 // This file is autogenerated - Please do not edit
 // ===============================================
 
-interface httpClientConfig {
+interface httpClientConfig extends HTTPClientOptions {
   baseURL?: string;
-  channelAccessToken: string;
-  // TODO support defaultHeaders?
+  channelAccessToken: string | ChannelAccessTokenProvider;
 }
 
 export class LineModuleClient {
@@ -39,9 +41,11 @@ export class LineModuleClient {
   constructor(config: httpClientConfig) {
     const baseURL = config.baseURL || "https://api.line.me";
     this.httpClient = new HTTPFetchClient({
+      ...config,
       defaultHeaders: {
-        Authorization: "Bearer " + config.channelAccessToken,
+        ...config.defaultHeaders,
       },
+      channelAccessToken: config.channelAccessToken,
       baseURL: baseURL,
     });
   }
@@ -63,17 +67,20 @@ export class LineModuleClient {
    * If the Standby Channel wants to take the initiative (Chat Control), it calls the Acquire Control API. The channel that was previously an Active Channel will automatically switch to a Standby Channel.
    * @param chatId The `userId`, `roomId`, or `groupId`
    * @param acquireChatControlRequest
+   * @param requestOptions Options of the request, e.g. a signal to abort it, a timeout and extra headers.
    *
    * @see <a href="https://developers.line.biz/en/reference/partner-docs/#acquire-control-api"> Documentation</a>
    */
   public async acquireChatControl(
     chatId: string,
     acquireChatControlRequest?: AcquireChatControlRequest,
+    requestOptions?: FetchRequestConfig,
   ): Promise<Types.MessageAPIResponseBase> {
     return (
       await this.acquireChatControlWithHttpInfo(
         chatId,
         acquireChatControlRequest,
+        requestOptions,
       )
     ).body;
   }
@@ -83,12 +90,14 @@ export class LineModuleClient {
    * This method includes HttpInfo object to return additional information.
    * @param chatId The `userId`, `roomId`, or `groupId`
    * @param acquireChatControlRequest
+   * @param requestOptions Options of the request, e.g. a signal to abort it, a timeout and extra headers.
    *
    * @see <a href="https://developers.line.biz/en/reference/partner-docs/#acquire-control-api"> Documentation</a>
    */
   public async acquireChatControlWithHttpInfo(
     chatId: string,
     acquireChatControlRequest?: AcquireChatControlRequest,
+    requestOptions?: FetchRequestConfig,
   ): Promise<Types.ApiResponseType<Types.MessageAPIResponseBase>> {
     const params = acquireChatControlRequest;
 
@@ -98,6 +107,10 @@ export class LineModuleClient {
         String(chatId),
       ),
       params,
+      {
+        ...requestOptions,
+        pathTemplate: "/v2/bot/chat/{chatId}/control/acquire",
+      },
     );
     const text = await res.text();
     const parsedBody = text ? JSON.parse(text) : null;
@@ -106,28 +119,38 @@ export class LineModuleClient {
   /**
    * The module channel admin calls the Detach API to detach the module channel from a LINE Official Account.
    * @param detachModuleRequest
+   * @param requestOptions Options of the request, e.g. a signal to abort it, a timeout and extra headers.
    *
    * @see <a href="https://developers.line.biz/en/reference/partner-docs/#unlink-detach-module-channel-by-operation-mc-admin"> Documentation</a>
    */
   public async detachModule(
     detachModuleRequest?: DetachModuleRequest,
+    requestOptions?: FetchRequestConfig,
   ): Promise<Types.MessageAPIResponseBase> {
-    return (await this.detachModuleWithHttpInfo(detachModuleRequest)).body;
+    return (
+      await this.detachModuleWithHttpInfo(detachModuleRequest, requestOptions)
+    ).body;
   }
 
   /**
    * The module channel admin calls the Detach API to detach the module channel from a LINE Official Account..
    * This method includes HttpInfo object to return additional information.
    * @param detachModuleRequest
+   * @param requestOptions Options of the request, e.g. a signal to abort it, a timeout and extra headers.
    *
    * @see <a href="https://developers.line.biz/en/reference/partner-docs/#unlink-detach-module-channel-by-operation-mc-admin"> Documentation</a>
    */
   public async detachModuleWithHttpInfo(
     detachModuleRequest?: DetachModuleRequest,
+    requestOptions?: FetchRequestConfig,
   ): Promise<Types.ApiResponseType<Types.MessageAPIResponseBase>> {
     const params = detachModuleRequest;
 
-    const res = await this.httpClient.post("/v2/bot/channel/detach", params);
+    const res = await this.httpClient.post(
+      "/v2/bot/channel/detach",
+      params,
+      requestOptions,
+    );
     const text = await res.text();
     const parsedBody = text ? JSON.parse(text) : null;
     return { httpResponse: res, body: parsedBody };
@@ -136,14 +159,17 @@ export class LineModuleClient {
    * Gets a list of basic information about the bots of multiple LINE Official Accounts that have attached module channels.
    * @param start Value of the continuation token found in the next property of the JSON object returned in the response. If you can\'t get all basic information about the bots in one request, include this parameter to get the remaining array.
    * @param limit Specify the maximum number of bots that you get basic information from. The default value is 100. Max value: 100
+   * @param requestOptions Options of the request, e.g. a signal to abort it, a timeout and extra headers.
    *
    * @see <a href="https://developers.line.biz/en/reference/partner-docs/#get-multiple-bot-info-api"> Documentation</a>
    */
   public async getModules(
     start?: string,
     limit?: number,
+    requestOptions?: FetchRequestConfig,
   ): Promise<GetModulesResponse> {
-    return (await this.getModulesWithHttpInfo(start, limit)).body;
+    return (await this.getModulesWithHttpInfo(start, limit, requestOptions))
+      .body;
   }
 
   /**
@@ -151,12 +177,14 @@ export class LineModuleClient {
    * This method includes HttpInfo object to return additional information.
    * @param start Value of the continuation token found in the next property of the JSON object returned in the response. If you can\'t get all basic information about the bots in one request, include this parameter to get the remaining array.
    * @param limit Specify the maximum number of bots that you get basic information from. The default value is 100. Max value: 100
+   * @param requestOptions Options of the request, e.g. a signal to abort it, a timeout and extra headers.
    *
    * @see <a href="https://developers.line.biz/en/reference/partner-docs/#get-multiple-bot-info-api"> Documentation</a>
    */
   public async getModulesWithHttpInfo(
     start?: string,
     limit?: number,
+    requestOptions?: FetchRequestConfig,
   ): Promise<Types.ApiResponseType<GetModulesResponse>> {
     const queryParams = {
       start: start,
@@ -168,7 +196,11 @@ export class LineModuleClient {
       }
     });
 
-    const res = await this.httpClient.get("/v2/bot/list", queryParams);
+    const res = await this.httpClient.get(
+      "/v2/bot/list",
+      queryParams,
+      requestOptions,
+    );
     const text = await res.text();
     const parsedBody = text ? JSON.parse(text) : null;
     return { httpResponse: res, body: parsedBody };
@@ -176,30 +208,40 @@ export class LineModuleClient {
   /**
    * To return the initiative (Chat Control) of Active Channel to Primary Channel, call the Release Control API.
    * @param chatId The `userId`, `roomId`, or `groupId`
+   * @param requestOptions Options of the request, e.g. a signal to abort it, a timeout and extra headers.
    *
    * @see <a href="https://developers.line.biz/en/reference/partner-docs/#release-control-api"> Documentation</a>
    */
   public async releaseChatControl(
     chatId: string,
+    requestOptions?: FetchRequestConfig,
   ): Promise<Types.MessageAPIResponseBase> {
-    return (await this.releaseChatControlWithHttpInfo(chatId)).body;
+    return (await this.releaseChatControlWithHttpInfo(chatId, requestOptions))
+      .body;
   }
 
   /**
    * To return the initiative (Chat Control) of Active Channel to Primary Channel, call the Release Control API. .
    * This method includes HttpInfo object to return additional information.
    * @param chatId The `userId`, `roomId`, or `groupId`
+   * @param requestOptions Options of the request, e.g. a signal to abort it, a timeout and extra headers.
    *
    * @see <a href="https://developers.line.biz/en/reference/partner-docs/#release-control-api"> Documentation</a>
    */
   public async releaseChatControlWithHttpInfo(
     chatId: string,
+    requestOptions?: FetchRequestConfig,
   ): Promise<Types.ApiResponseType<Types.MessageAPIResponseBase>> {
     const res = await this.httpClient.post(
       "/v2/bot/chat/{chatId}/control/release".replace(
         "{chatId}",
         String(chatId),
       ),
+      undefined,
+      {
+        ...requestOptions,
+        pathTemplate: "/v2/bot/chat/{chatId}/control/release",
+      },
     );
     const text = await res.text();
     const parsedBody = text ? JSON.parse(text) : null;
@@ -0,0 +1,721 @@
+import { Buffer } from "node:buffer";
+import { randomUUID } from "node:crypto";
+import * as http from "node:http";
+import type { AddressInfo } from "node:net";
+import * as messagingApi from "./messaging-api/api.js";
+import { sourceId } from "./utils.js";
+import * as webhook from "./webhook/api.js";
+import {
+  createCallbackRequest,
+  createMessageEvent,
+  signWebhookRequest,
+  TEST_DESTINATION,
+} from "./webhook-test-kit.js";
+
+export interface LinePlatformEmulatorConfig {
+  /**
+   * Secret to sign the webhook requests with.
+   */
+  channelSecret: string;
+  /**
+   * Token the clients must send. Any token is accepted when omitted.
+   */
+  channelAccessToken?: string;
+  /**
+   * Webhook URL of the bot, which `emit()` sends events to.
+   */
+  webhookUrl?: string;
+  /**
+   * Returned by `getBotInfo()`. `userId` is the destination of webhooks.
+   */
+  bot?: Partial<messagingApi.BotInfoResponse>;
+}
+
+/**
+ * Messages sent by a reply, push or multicast request.
+ */
+export interface EmulatedSentMessages {
+  type: "reply" | "push" | "multicast";
+  /**
+   * Recipients. Replies are sent to the source of the replied event.
+   */
+  to: string[];
+  replyToken?: string;
+  messages: messagingApi.Message[];
+  retryKey?: string;
+  requestId: string;
+  sentAt: number;
+}
+
+interface EmulatorRequest {
+  params: Record<string, string>;
+  headers: http.IncomingHttpHeaders;
+  body: Buffer;
+}
+
+interface EmulatorResponse {
+  status?: number;
+  headers?: Record<string, string>;
+  body?: unknown;
+}
+
+type Handler = (request: EmulatorRequest) => EmulatorResponse;
+
+interface Route {
+  method: string;
+  pattern: RegExp;
+  handler: Handler;
+}
+
+interface Content {
+  data: Buffer;
+  contentType: string;
+}
+
+// required properties of the messages of each type, as far as validated
+const REQUIRED_PROPERTIES: Record<string, string[]> = {
+  text: ["text"],
+  textV2: ["text"],
+  sticker: ["packageId", "stickerId"],
+  image: ["originalContentUrl", "previewImageUrl"],
+  video: ["originalContentUrl", "previewImageUrl"],
+  audio: ["originalContentUrl"],
+  location: ["title", "address"],
+  imagemap: ["baseUrl", "altText"],
+  template: ["altText"],
+  flex: ["altText"],
+};
+
+const ID_PATTERN = /^[UCR][0-9a-f]{32}$/;
+
+function toPattern(path: string): RegExp {
+  return new RegExp(
+    "^" + path.replace(/\{([^}]+)\}/g, (_, name) => `(?<${name}>[^/]+)`) + "$",
+  );
+}
+
+function errorResponse(
+  status: number,
+  message: string,
+  details?: messagingApi.ErrorDetail[],
+): EmulatorResponse {
+  return {
+    status,
+    body: { message, ...(details && details.length > 0 ? { details } : {}) },
+  };
+}
+
+function badRequest(details: messagingApi.ErrorDetail[]): EmulatorResponse {
+  return errorResponse(
+    400,
+    `The request body has ${details.length} error(s)`,
+    details,
+  );
+}
+
+/**
+ * A request body the API rejects with 400.
+ */
+class InvalidBodyError extends Error {}
+
+function parseBody(raw: Buffer): any {
+  let body: unknown;
+  try {
+    body = JSON.parse(raw.toString());
+  } catch {
+    throw new InvalidBodyError("The request body is not valid JSON");
+  }
+  if (!body || typeof body !== "object" || Array.isArray(body)) {
+    throw new InvalidBodyError("The request body must be a JSON object");
+  }
+  return body;
+}
+
+const isString = (value: unknown): value is string =>
+  typeof value === "string" && value !== "";
+
+/**
+ * Validates messages as the Messaging API does, roughly: the number of
+ * messages, their types and the required properties of the common types.
+ */
+function validateMessages(messages: unknown): messagingApi.ErrorDetail[] {
+  if (!Array.isArray(messages) || messages.length < 1 || messages.length > 5) {
+    return [{ message: "Size must be between 1 and 5", property: "messages" }];
+  }
+  const details: messagingApi.ErrorDetail[] = [];
+  messages.forEach((message, i) => {
+    const property = `messages[${i}]`;
+    if (
+      !message ||
+      !Object.prototype.hasOwnProperty.call(REQUIRED_PROPERTIES, message.type)
+    ) {
+      details.push({
+        message: `Must be one of the following values: [${Object.keys(REQUIRED_PROPERTIES).join(", ")}]`,
+        property: `${property}.type`,
+      });
+      return;
+    }
+    for (const name of REQUIRED_PROPERTIES[message.type]) {
+      if (!isString(message[name])) {
+        details.push({
+          message: "May not be empty",
+          property: `${property}.${name}`,
+        });
+      }
+    }
+    if (typeof message.text === "string" && message.text.length > 5000) {
+      details.push({
+        message: "Length must be between 0 and 5000",
+        property: `${property}.text`,
+      });
+    }
+  });
+  return details;
+}
+
+function validateRichMenu(menu: any): messagingApi.ErrorDetail[] {
+  const details: messagingApi.ErrorDetail[] = [];
+  const { size, name, chatBarText, areas } = menu ?? {};
+  if (
+    !size ||
+    !(size.width >= 800 && size.width <= 2500) ||
+    !(size.height >= 250)
+  ) {
+    details.push({ message: "Invalid size", property: "size" });
+  }
+  if (typeof menu?.selected !== "boolean") {
+    details.push({ message: "May not be null", property: "selected" });
+  }
+  if (!isString(name) || name.length > 300) {
+    details.push({
+      message: "Length must be between 1 and 300",
+      property: "name",
+    });
+  }
+  if (!isString(chatBarText) || chatBarText.length > 14) {
+    details.push({
+      message: "Length must be between 1 and 14",
+      property: "chatBarText",
+    });
+  }
+  if (!Array.isArray(areas) || areas.length > 20) {
+    details.push({
+      message: "Size must be between 0 and 20",
+      property: "areas",
+    });
+  } else {
+    areas.forEach((area, i) => {
+      if (!area?.bounds) {
+        details.push({
+          message: "May not be null",
+          property: `areas[${i}].bounds`,
+        });
+      }
+      if (!area?.action?.type) {
+        details.push({
+          message: "May not be null",
+          property: `areas[${i}].action`,
+        });
+      }
+    });
+  }
+  return details;
+}
+
+/**
+ * An HTTP server emulating the endpoints of the Messaging API used by
+ * `MessagingApiClient` and `MessagingApiBlobClient` with in-memory state, to
+ * run bots without the LINE Platform. Point `baseURL` of the clients at `url`.
+ *
+ * Replies, pushes and multicasts are validated and kept in `sentMessages`,
+ * and `emit()` sends signed webhook events to the bot. Reply tokens of the
+ * emitted events can be used once.
+ */
+export class LinePlatformEmulator {
+  private readonly config: LinePlatformEmulatorConfig;
+  private readonly bot: messagingApi.BotInfoResponse;
+  private readonly routes: Route[];
+  private server: http.Server | undefined;
+
+  private readonly sent: EmulatedSentMessages[] = [];
+  private readonly profiles = new Map<
+    string,
+    messagingApi.UserProfileResponse
+  >();
+  private readonly replyTokens = new Map<string, webhook.Source | undefined>();
+  private readonly retryKeys = new Map<string, string>();
+  private readonly contents = new Map<string, Content>();
+  private readonly richMenus = new Map<string, messagingApi.RichMenuResponse>();
+  private readonly richMenuImages = new Map<string, Content>();
+  private readonly userRichMenus = new Map<string, string>();
+  private defaultRichMenuId: string | undefined;
+
+  constructor(config: LinePlatformEmulatorConfig) {
+    if (!config.channelSecret) {
+      throw new Error("no channel secret");
+    }
+    this.config = config;
+    this.bot = {
+      userId: TEST_DESTINATION,
+      basicId: "@000emulator",
+      displayName: "Emulated bot",
+      chatMode: "bot",
+      markAsReadMode: "auto",
+      ...config.bot,
+    };
+    this.routes = this.createRoutes();
+  }
+
+  /**
+   * URL of the server, e.g. `http://127.0.0.1:53017`.
+   */
+  public get url(): string {
+    const address = this.server?.address() as AddressInfo | null | undefined;
+    if (!address) {
+      throw new Error("the emulator is not listening");
+    }
+    return `http://127.0.0.1:${address.port}`;
+  }
+
+  /**
+   * Starts the server on `port`, a free one by default, and resolves with
+   * its URL.
+   */
+  public listen(port = 0): Promise<string> {
+    return new Promise((resolve, reject) => {
+      const server = http.createServer((req, res) => {
+        this.handle(req, res).catch(err => {
+          // e.g. the client disconnected while sending the body
+          if (res.headersSent || req.destroyed) {
+            res.destroy();
+          } else {
+            res.writeHead(500, { "content-type": "application/json" });
+            res.end(JSON.stringify(errorResponse(500, String(err)).body));
+          }
+        });
+      });
+      server.once("error", reject);
+      server.listen(port, "127.0.0.1", () => {
+        this.server = server;
+        resolve(this.url);
+      });
+    });
+  }
+
+  public close(): Promise<void> {
+    const { server } = this;
+    this.server = undefined;
+    return new Promise((resolve, reject) => {
+      if (!server) {
+        return resolve();
+      }
+      server.close(err => (err ? reject(err) : resolve()));
+      server.closeAllConnections();
+    });
+  }
+
+  /**
+   * Messages sent so far, oldest first.
+   */
+  public get sentMessages(): EmulatedSentMessages[] {
+    return [...this.sent];
+  }
+
+  /**
+   * Clears the messages sent so far, e.g. between tests.
+   */
+  public clearSentMessages(): void {
+    this.sent.length = 0;
+  }
+
+  /**
+   * Adds a user whose profile is returned by `getProfile()`.
+   */
+  public addUser(profile: messagingApi.UserProfileResponse): void {
+    this.profiles.set(profile.userId, profile);
+  }
+
+  /**
+   * Sends events to the webhook URL of the bot, signed with the channel
+   * secret, and resolves with the response of the bot.
+   */
+  public async emit(events: webhook.Event[]): Promise<Response> {
+    if (!this.config.webhookUrl) {
+      throw new Error("no webhook URL");
+    }
+    for (const event of events) {
+      if ("replyToken" in event && event.replyToken) {
+        this.replyTokens.set(event.replyToken, event.source);
+      }
+    }
+    const { body, headers } = signWebhookRequest(
+      createCallbackRequest(events, this.bot.userId),
+      this.config.channelSecret,
+    );
+    return fetch(this.config.webhookUrl, { method: "POST", headers, body });
+  }
+
+  /**
+   * Emits a text message event from `userId`.
+   */
+  public sendText(userId: string, text: string): Promise<Response> {
+    return this.emit([
+      createMessageEvent(
+        "text",
+        { text },
+        { source: { type: "user", userId } },
+      ),
+    ]);
+  }
+
+  /**
+   * Emits an image message event from `userId`, whose content is served by
+   * `getMessageContent()`.
+   */
+  public sendImage(
+    userId: string,
+    data: Uint8Array,
+    contentType = "image/jpeg",
+  ): Promise<Response> {
+    const event = createMessageEvent(
+      "image",
+      {},
+      { source: { type: "user", userId } },
+    );
+    this.contents.set(event.message.id, {
+      data: Buffer.from(data),
+      contentType,
+    });
+    return this.emit([event]);
+  }
+
+  private createRoutes(): Route[] {
+    const routes: [string, string, Handler][] = [
+      ["GET", "/v2/bot/info", () => ({ body: this.bot })],
+      ["POST", "/v2/bot/message/reply", req => this.reply(req)],
+      ["POST", "/v2/bot/message/push", req => this.push(req)],
+      ["POST", "/v2/bot/message/multicast", req => this.multicast(req)],
+      [
+        "GET",
+        "/v2/bot/profile/{userId}",
+        ({ params }) => this.profile(params.userId),
+      ],
+      [
+        "GET",
+        "/v2/bot/message/{messageId}/content",
+        ({ params }) => this.content(this.contents.get(params.messageId)),
+      ],
+      ["POST", "/v2/bot/richmenu/validate", req => this.validateRichMenu(req)],
+      ["POST", "/v2/bot/richmenu", req => this.createRichMenu(req)],
+      [
+        "GET",
+        "/v2/bot/richmenu/list",
+        () => ({ body: { richmenus: [...this.richMenus.values()] } }),
+      ],
+      [
+        "GET",
+        "/v2/bot/richmenu/{richMenuId}",
+        ({ params }) =>
+          this.withRichMenu(params.richMenuId, menu => ({ body: menu })),
+      ],
+      [
+        "DELETE",
+        "/v2/bot/richmenu/{richMenuId}",
+        ({ params }) => this.deleteRichMenu(params.richMenuId),
+      ],
+      [
+        "POST",
+        "/v2/bot/richmenu/{richMenuId}/content",
+        req => this.uploadRichMenuImage(req),
+      ],
+      [
+        "GET",
+        "/v2/bot/richmenu/{richMenuId}/content",
+        ({ params }) =>
+          this.withRichMenu(params.richMenuId, () =>
+            this.content(this.richMenuImages.get(params.richMenuId)),
+          ),
+      ],
+      [
+        "POST",
+        "/v2/bot/user/all/richmenu/{richMenuId}",
+        ({ params }) =>
+          this.withRichMenu(params.richMenuId, () => {
+            this.defaultRichMenuId = params.richMenuId;
+            return {};
+          }),
+      ],
+      [
+        "GET",
+        "/v2/bot/user/all/richmenu",
+        () => this.richMenuIdResponse(this.defaultRichMenuId),
+      ],
+      [
+        "DELETE",
+        "/v2/bot/user/all/richmenu",
+        () => {
+          this.defaultRichMenuId = undefined;
+          return {};
+        },
+      ],
+      [
+        "POST",
+        "/v2/bot/user/{userId}/richmenu/{richMenuId}",
+        ({ params }) =>
+          this.withRichMenu(params.richMenuId, () => {
+            this.userRichMenus.set(params.userId, params.richMenuId);
+            return {};
+          }),
+      ],
+      [
+        "GET",
+        "/v2/bot/user/{userId}/richmenu",
+        ({ params }) =>
+          this.richMenuIdResponse(
+            this.userRichMenus.get(params.userId) ?? this.defaultRichMenuId,
+          ),
+      ],
+      [
+        "DELETE",
+        "/v2/bot/user/{userId}/richmenu",
+        ({ params }) => {
+          this.userRichMenus.delete(params.userId);
+          return {};
+        },
+      ],
+    ];
+    return routes.map(([method, path, handler]) => ({
+      method,
+      pattern: toPattern(path),
+      handler,
+    }));
+  }
+
+  private async handle(
+    req: http.IncomingMessage,
+    res: http.ServerResponse,
+  ): Promise<void> {
+    const chunks: Buffer[] = [];
+    for await (const chunk of req) {
+      chunks.push(chunk as Buffer);
+    }
+    const { pathname } = new URL(req.url ?? "/", "http://localhost");
+
+    let response: EmulatorResponse;
+    const token = this.config.channelAccessToken;
+    if (token && req.headers.authorization !== `Bearer ${token}`) {
+      response = errorResponse(
+        401,
+        "Authentication failed. Confirm that the access token in the authorization header is valid.",
+      );
+    } else {
+      let params: Record<string, string> | undefined;
+      const route = this.routes.find(route => {
+        const match =
+          route.method === req.method && route.pattern.exec(pathname);
+        params = match ? { ...match.groups } : undefined;
+        return params !== undefined;
+      });
+      try {
+        response = route
+          ? route.handler({
+              params: params!,
+              headers: req.headers,
+              body: Buffer.concat(chunks),
+            })
+          : errorResponse(404, "Not found");
+      } catch (err) {
+        response =
+          err instanceof InvalidBodyError
+            ? errorResponse(400, err.message)
+            : errorResponse(500, String(err));
+      }
+    }
+
+    const { status = 200, headers = {}, body = {} } = response;
+    const isBinary = Buffer.isBuffer(body);
+    res.writeHead(status, {
+      "x-line-request-id": randomUUID(),
+      "content-type": isBinary
+        ? "application/octet-stream"
+        : "application/json",
+      ...headers,
+    });
+    res.end(isBinary ? body : JSON.stringify(body));
+  }
+
+  private send(
+    type: EmulatedSentMessages["type"],
+    to: string[],
+    body: any,
+    headers: http.IncomingHttpHeaders,
+    replyToken?: string,
+  ): EmulatorResponse {
+    const retryKey = headers["x-line-retry-key"] as string | undefined;
+    if (retryKey !== undefined) {
+      const accepted = this.retryKeys.get(retryKey);
+      if (accepted) {
+        return {
+          ...errorResponse(409, "The retry key is already accepted"),
+          headers: { "x-line-accepted-request-id": accepted },
+        };
+      }
+    }
+
+    const requestId = randomUUID();
+    if (retryKey !== undefined) {
+      this.retryKeys.set(retryKey, requestId);
+    }
+    this.sent.push({
+      type,
+      to,
+      ...(replyToken ? { replyToken } : {}),
+      messages: body.messages,
+      ...(retryKey !== undefined ? { retryKey } : {}),
+      requestId,
+      sentAt: Date.now(),
+    });
+    return {
+      headers: { "x-line-request-id": requestId },
+      body: {
+        sentMessages: body.messages.map(() => ({
+          id: String(Math.floor(Math.random() * 1e17)),
+          quoteToken: randomUUID(),
+        })),
+      },
+    };
+  }
+
+  private reply({ body: raw, headers }: EmulatorRequest): EmulatorResponse {
+    const body = parseBody(raw);
+    const details = validateMessages(body.messages);
+    if (!isString(body.replyToken)) {
+      details.unshift({ message: "May not be empty", property: "replyToken" });
+    }
+    if (details.length > 0) {
+      return badRequest(details);
+    }
+    if (!this.replyTokens.has(body.replyToken)) {
+      return errorResponse(400, "Invalid reply token");
+    }
+    const source = this.replyTokens.get(body.replyToken);
+    this.replyTokens.delete(body.replyToken);
+
+    const to = sourceId(source);
+    return this.send("reply", to ? [to] : [], body, headers, body.replyToken);
+  }
+
+  private push({ body: raw, headers }: EmulatorRequest): EmulatorResponse {
+    const body = parseBody(raw);
+    const details = validateMessages(body.messages);
+    if (typeof body.to !== "string" || !ID_PATTERN.test(body.to)) {
+      details.unshift({
+        message: "The property, 'to', in the request body is invalid",
+        property: "to",
+      });
+    }
+    if (details.length > 0) {
+      return badRequest(details);
+    }
+    return this.send("push", [body.to], body, headers);
+  }
+
+  private multicast({ body: raw, headers }: EmulatorRequest): EmulatorResponse {
+    const body = parseBody(raw);
+    const details = validateMessages(body.messages);
+    if (!Array.isArray(body.to) || body.to.length < 1 || body.to.length > 500) {
+      details.unshift({
+        message: "Size must be between 1 and 500",
+        property: "to",
+      });
+    } else {
+      body.to.forEach((to: unknown, i: number) => {
+        if (typeof to !== "string" || !/^U[0-9a-f]{32}$/.test(to)) {
+          details.push({ message: "Invalid user ID", property: `to[${i}]` });
+        }
+      });
+    }
+    if (details.length > 0) {
+      return badRequest(details);
+    }
+    return this.send("multicast", body.to, body, headers);
+  }
+
+  private profile(userId: string): EmulatorResponse {
+    const profile = this.profiles.get(userId);
+    return profile ? { body: profile } : errorResponse(404, "Not found");
+  }
+
+  private content(content: Content | undefined): EmulatorResponse {
+    return content
+      ? { headers: { "content-type": content.contentType }, body: content.data }
+      : errorResponse(404, "Not found");
+  }
+
+  private withRichMenu(
+    richMenuId: string,
+    handler: (menu: messagingApi.RichMenuResponse) => EmulatorResponse,
+  ): EmulatorResponse {
+    const menu = this.richMenus.get(richMenuId);
+    return menu ? handler(menu) : errorResponse(404, "Not found");
+  }
+
+  private richMenuIdResponse(richMenuId: string | undefined): EmulatorResponse {
+    return richMenuId
+      ? { body: { richMenuId } }
+      : errorResponse(404, "the user has no richmenu");
+  }
+
+  private validateRichMenu({ body }: EmulatorRequest): EmulatorResponse {
+    const details = validateRichMenu(parseBody(body));
+    return details.length > 0 ? badRequest(details) : {};
+  }
+
+  private createRichMenu({ body }: EmulatorRequest): EmulatorResponse {
+    const menu = parseBody(body);
+    const details = validateRichMenu(menu);
+    if (details.length > 0) {
+      return badRequest(details);
+    }
+    const richMenuId = `richmenu-${randomUUID().replace(/-/g, "")}`;
+    this.richMenus.set(richMenuId, { ...menu, richMenuId });
+    return { body: { richMenuId } };
+  }
+
+  private deleteRichMenu(richMenuId: string): EmulatorResponse {
+    return this.withRichMenu(richMenuId, () => {
+      this.richMenus.delete(richMenuId);
+      this.richMenuImages.delete(richMenuId);
+      for (const [userId, linked] of this.userRichMenus) {
+        if (linked === richMenuId) {
+          this.userRichMenus.delete(userId);
+        }
+      }
+      if (this.defaultRichMenuId === richMenuId) {
+        this.defaultRichMenuId = undefined;
+      }
+      return {};
+    });
+  }
+
+  private uploadRichMenuImage({
+    params,
+    headers,
+    body,
+  }: EmulatorRequest): EmulatorResponse {
+    return this.withRichMenu(params.richMenuId, () => {
+      const contentType = headers["content-type"] ?? "";
+      if (!["image/jpeg", "image/png"].includes(contentType)) {
+        return errorResponse(415, "Unsupported media type");
+      }
+      if (this.richMenuImages.has(params.richMenuId)) {
+        return errorResponse(
+          400,
+          "An image has already been uploaded to the richmenu",
+        );
+      }
+      this.richMenuImages.set(params.richMenuId, { data: body, contentType });
+      return {};
+    });
+  }
+}
@@ -0,0 +1,137 @@
+import { PostbackDataError } from "./exceptions.js";
+import * as webhook from "./webhook/api.js";
+
+/**
+ * Maximum length of `data` of postback actions.
+ */
+export const MAX_POSTBACK_DATA_LENGTH = 300;
+
+export type PostbackFieldType = "string" | "number" | "boolean";
+
+export type PostbackSchema = Record<string, PostbackFieldType>;
+
+export type PostbackPayload<S extends PostbackSchema> = {
+  [K in keyof S]: S[K] extends "string"
+    ? string
+    : S[K] extends "number"
+      ? number
+      : boolean;
+};
+
+/**
+ * `params` of a postback from a datetime picker or a rich menu switch action.
+ */
+export type PostbackParams = {
+  date?: string;
+  time?: string;
+  datetime?: string;
+  newRichMenuAliasId?: string;
+  status?: string;
+};
+
+const SEPARATOR = ",";
+const NAME_PATTERN = /^[A-Za-z0-9_-]+$/;
+
+function escape(value: string): string {
+  return value.replace(/%/g, "%25").replace(/,/g, "%2C");
+}
+
+function unescape(value: string): string {
+  return value.replace(/%2C/g, ",").replace(/%25/g, "%");
+}
+
+/**
+ * Encodes typed payloads into the `data` of postback actions and decodes
+ * them from postback events.
+ *
+ * The data is the name of the codec followed by the values in the order of
+ * the schema, e.g. `buy,1234,3` for `{ itemId: "1234", quantity: 3 }`, so
+ * that it fits in 300 characters.
+ */
+export class PostbackCodec<S extends PostbackSchema> {
+  public readonly name: string;
+  private readonly schema: S;
+  private readonly keys: (keyof S & string)[];
+
+  constructor(name: string, schema: S) {
+    if (!NAME_PATTERN.test(name)) {
+      throw new Error(`invalid codec name: ${name}`);
+    }
+    this.name = name;
+    this.schema = schema;
+    this.keys = Object.keys(schema);
+  }
+
+  public encode(payload: PostbackPayload<S>): string {
+    const values = this.keys.map(key => {
+      const value = payload[key];
+      if (this.schema[key] === "boolean") {
+        return value ? "1" : "0";
+      }
+      return escape(String(value));
+    });
+    const data = [this.name, ...values].join(SEPARATOR);
+
+    if (data.length > MAX_POSTBACK_DATA_LENGTH) {
+      throw new PostbackDataError(
+        `postback data is longer than ${MAX_POSTBACK_DATA_LENGTH} characters: ${data.length}`,
+        { data },
+      );
+    }
+    return data;
+  }
+
+  /**
+   * Whether `data` was encoded by this codec.
+   */
+  public matches(data: string): boolean {
+    return data === this.name || data.startsWith(this.name + SEPARATOR);
+  }
+
+  /**
+   * Decodes `data`, or returns `undefined` when it wasn't encoded by this
+   * codec.
+   */
+  public decode(data: string): PostbackPayload<S> | undefined {
+    if (!this.matches(data)) {
+      return undefined;
+    }
+
+    const values = data.split(SEPARATOR).slice(1);
+    if (values.length !== this.keys.length) {
+      throw new PostbackDataError("unexpected number of postback values", {
+        data,
+      });
+    }
+
+    const payload: Record<string, string | number | boolean> = {};
+    this.keys.forEach((key, i) => {
+      const value = unescape(values[i]);
+      switch (this.schema[key]) {
+        case "number":
+          payload[key] = Number(value);
+          if (value === "" || Number.isNaN(payload[key])) {
+            throw new PostbackDataError(`invalid number for ${key}`, { data });
+          }
+          break;
+        case "boolean":
+          payload[key] = value === "1";
+          break;
+        default:
+          payload[key] = value;
+      }
+    });
+    return payload as PostbackPayload<S>;
+  }
+
+  /**
+   * Decodes `PostbackContent` of a postback event and merges its `params`
+   * into the payload.
+   */
+  public decodeContent(
+    content: webhook.PostbackContent,
+  ): (PostbackPayload<S> & PostbackParams) | undefined {
+    const payload = this.decode(content.data);
+    return payload && { ...content.params, ...payload };
+  }
+}
@@ -0,0 +1,251 @@
+/**
+ * A limit of requests to the endpoints matching `path`.
+ */
+export interface RateLimit {
+  /**
+   * A path template such as `/v2/bot/richmenu/{richMenuId}`, `{...}` matching
+   * a path segment, or a regular expression tested against the path.
+   */
+  path: string | RegExp;
+  /**
+   * HTTP method of the requests, any method when omitted.
+   */
+  method?: string;
+  /**
+   * Number of requests allowed in `interval`.
+   */
+  limit: number;
+  /**
+   * Length of the interval in milliseconds.
+   */
+  interval: number;
+}
+
+const SECOND = 1000;
+const MINUTE = 60 * SECOND;
+const HOUR = 60 * MINUTE;
+
+/**
+ * Rate limits of the Messaging API as documented in
+ * https://developers.line.biz/en/reference/messaging-api/#rate-limits.
+ * Requests to the other endpoints of the API are limited to 2,000 requests
+ * per second.
+ */
+export const MESSAGING_API_RATE_LIMITS: RateLimit[] = [
+  {
+    method: "POST",
+    path: "/v2/bot/message/multicast",
+    limit: 200,
+    interval: SECOND,
+  },
+  {
+    method: "POST",
+    path: "/v2/bot/message/narrowcast",
+    limit: 60,
+    interval: HOUR,
+  },
+  {
+    method: "POST",
+    path: "/v2/bot/message/broadcast",
+    limit: 60,
+    interval: HOUR,
+  },
+  { method: "POST", path: "/v2/bot/richmenu", limit: 100, interval: HOUR },
+  {
+    method: "DELETE",
+    path: "/v2/bot/richmenu/{richMenuId}",
+    limit: 100,
+    interval: HOUR,
+  },
+  { method: "POST", path: "/v2/bot/richmenu/batch", limit: 3, interval: HOUR },
+  {
+    path: /^\/v2\/bot\/audienceGroup\/upload(\/byFile)?$/,
+    limit: 60,
+    interval: MINUTE,
+  },
+  {
+    method: "POST",
+    path: "/v2/bot/audienceGroup/click",
+    limit: 60,
+    interval: MINUTE,
+  },
+  {
+    method: "POST",
+    path: "/v2/bot/audienceGroup/imp",
+    limit: 60,
+    interval: MINUTE,
+  },
+  { path: /^\/v2\/bot\//, limit: 2000, interval: SECOND },
+];
+
+export interface RateLimiterConfig {
+  /**
+   * Limits checked in order, the first one matching a request applying to
+   * it. Given limits are checked before the default ones.
+   */
+  limits?: RateLimit[];
+  /**
+   * Whether `MESSAGING_API_RATE_LIMITS` are applied. Defaults to true.
+   */
+  useDefaultLimits?: boolean;
+}
+
+interface Waiter {
+  resolve: () => void;
+  reject: (reason: unknown) => void;
+}
+
+function toRegExp(path: string | RegExp): RegExp {
+  if (typeof path !== "string") {
+    return path;
+  }
+  const pattern = path
+    .split(/\{[^}]+\}/)
+    .map(part => part.replace(/[.*+?^$()|[\]\\]/g, "\\$&"))
+    .join("[^/]+");
+  return new RegExp(`^${pattern}$`);
+}
+
+/**
+ * A token bucket, refilled continuously up to `limit` tokens per `interval`,
+ * and the queue of the requests waiting for a token.
+ */
+class TokenBucket {
+  private tokens: number;
+  private updatedAt = Date.now();
+  private readonly queue: Waiter[] = [];
+  private timer: ReturnType<typeof setTimeout> | undefined;
+
+  constructor(
+    private readonly limit: number,
+    private readonly interval: number,
+  ) {
+    this.tokens = limit;
+  }
+
+  public get queueDepth(): number {
+    return this.queue.length;
+  }
+
+  public acquire(signal?: AbortSignal): Promise<void> {
+    if (signal?.aborted) {
+      return Promise.reject(signal.reason);
+    }
+    return new Promise((resolve, reject) => {
+      const waiter: Waiter = { resolve, reject };
+      const onAbort = () => {
+        const index = this.queue.indexOf(waiter);
+        if (index >= 0) {
+          this.queue.splice(index, 1);
+          this.schedule();
+          reject(signal!.reason);
+        }
+      };
+      waiter.resolve = () => {
+        signal?.removeEventListener("abort", onAbort);
+        resolve();
+      };
+      signal?.addEventListener("abort", onAbort, { once: true });
+      this.queue.push(waiter);
+      this.drain();
+    });
+  }
+
+  private refill() {
+    const now = Date.now();
+    this.tokens = Math.min(
+      this.limit,
+      this.tokens + ((now - this.updatedAt) * this.limit) / this.interval,
+    );
+    this.updatedAt = now;
+  }
+
+  private drain() {
+    this.refill();
+    while (this.queue.length > 0 && this.tokens >= 1) {
+      this.tokens -= 1;
+      this.queue.shift()!.resolve();
+    }
+    this.schedule();
+  }
+
+  // wakes up when the next token is available, while requests are waiting
+  private schedule() {
+    if (this.queue.length === 0) {
+      clearTimeout(this.timer);
+      this.timer = undefined;
+      return;
+    }
+    if (this.timer) {
+      return;
+    }
+    const wait = ((1 - this.tokens) * this.interval) / this.limit;
+    this.timer = setTimeout(() => {
+      this.timer = undefined;
+      this.drain();
+    }, Math.ceil(wait));
+  }
+}
+
+/**
+ * Keeps requests within rate limits, queueing the requests exceeding them
+ * until they can be sent. Give the same instance to the clients sharing a
+ * channel access token.
+ */
+export class RateLimiter {
+  private readonly rules: {
+    limit: RateLimit;
+    path: RegExp;
+    bucket: TokenBucket;
+  }[];
+
+  constructor(config: RateLimiterConfig = {}) {
+    const { limits = [], useDefaultLimits = true } = config;
+    this.rules = [
+      ...limits,
+      ...(useDefaultLimits ? MESSAGING_API_RATE_LIMITS : []),
+    ].map(limit => {
+      if (!(limit.limit > 0) || !(limit.interval > 0)) {
+        throw new Error(`invalid rate limit of ${limit.path}`);
+      }
+      return {
+        limit,
+        path: toRegExp(limit.path),
+        bucket: new TokenBucket(limit.limit, limit.interval),
+      };
+    });
+  }
+
+  /**
+   * Number of requests waiting to be sent.
+   */
+  public get queueDepth(): number {
+    return this.rules.reduce((sum, rule) => sum + rule.bucket.queueDepth, 0);
+  }
+
+  /**
+   * Number of requests waiting to be sent for each limit with any.
+   */
+  public getQueueDepths(): { limit: RateLimit; queueDepth: number }[] {
+    return this.rules
+      .filter(rule => rule.bucket.queueDepth > 0)
+      .map(rule => ({ limit: rule.limit, queueDepth: rule.bucket.queueDepth }));
+  }
+
+  /**
+   * Resolves when a request can be sent, or rejects when `signal` aborts it
+   * while waiting.
+   */
+  public acquire(
+    method: string,
+    path: string,
+    signal?: AbortSignal,
+  ): Promise<void> {
+    const rule = this.rules.find(
+      ({ limit, path: pattern }) =>
+        (!limit.method || limit.method.toUpperCase() === method) &&
+        pattern.test(path),
+    );
+    return rule ? rule.bucket.acquire(signal) : Promise.resolve();
+  }
+}
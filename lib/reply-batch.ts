@@ -0,0 +1,153 @@
+import { createHash, randomUUID } from "node:crypto";
+import { ReplyBatchError } from "./exceptions.js";
+import * as messagingApi from "./messaging-api/api.js";
+import {
+  ReplyContext,
+  ReplyContextConfig,
+  SendOptions,
+  SendResult,
+  isDeliveryUnknown,
+} from "./reply-context.js";
+import * as webhook from "./webhook/api.js";
+
+/**
+ * Maximum number of messages sent by one reply or push.
+ */
+const MAX_MESSAGES = 5;
+
+export interface FlushOptions extends SendOptions {
+  /**
+   * Base of the retry keys of the pushes: the first chunk of the batch uses
+   * it, and the others keys derived from it. Pass the same key to retry a
+   * flush, e.g. in another process. Generated for each batch when omitted.
+   */
+  retryKey?: string;
+}
+
+/**
+ * Retry key of the `index`th chunk of a batch, a UUID derived from `base`.
+ */
+function chunkRetryKey(base: string, index: number): string {
+  if (index === 0) {
+    return base;
+  }
+  const hex = createHash("sha256").update(`${base}:${index}`).digest("hex");
+  return [
+    hex.slice(0, 8),
+    hex.slice(8, 12),
+    "5" + hex.slice(13, 16),
+    ((parseInt(hex[16], 16) & 0x3) | 0x8).toString(16) + hex.slice(17, 20),
+    hex.slice(20, 32),
+  ].join("-");
+}
+
+/**
+ * Collects the messages sent in response to a webhook event and sends them
+ * together on `flush()`. The first five messages are replied with the reply
+ * token of the event; the rest are pushed in chunks of five.
+ *
+ * Messages stay in the batch until they are sent, so a failed `flush()` can
+ * be called again; the pushes are retried with the same retry keys. A reply
+ * that may have been delivered despite failing isn't sent again: its
+ * messages are removed from the batch.
+ */
+export class ReplyBatch {
+  private readonly context: ReplyContext;
+  private messages: messagingApi.Message[] = [];
+  private readonly retryKey = randomUUID();
+  private chunksSent = 0;
+
+  constructor(
+    client: messagingApi.MessagingApiClient,
+    event: webhook.Event,
+    config: ReplyContextConfig = {},
+  ) {
+    this.context = new ReplyContext(client, event, config);
+  }
+
+  /**
+   * Number of messages waiting for `flush()`.
+   */
+  public get pending(): number {
+    return this.messages.length;
+  }
+
+  public reply(...messages: messagingApi.Message[]): void {
+    this.messages.push(...messages);
+  }
+
+  /**
+   * Sends the collected messages. If the reply token is no longer valid, all
+   * of them are pushed.
+   *
+   * Throws `ReplyBatchError` with the results of the messages sent so far,
+   * leaving the rest in the batch. If the failed request was a reply whose
+   * messages may have been delivered, they are removed from the batch and
+   * the error has `deliveryUnknown` set.
+   */
+  public async flush(options: FlushOptions = {}): Promise<SendResult[]> {
+    const baseRetryKey = options.retryKey || this.retryKey;
+    const results: SendResult[] = [];
+    while (this.messages.length > 0) {
+      const messages = this.messages.slice(0, MAX_MESSAGES);
+      const retryKey = chunkRetryKey(baseRetryKey, this.chunksSent);
+      const sendOptions = {
+        notificationDisabled: options.notificationDisabled,
+        retryKey,
+      };
+      let replying = this.context.canReply;
+      try {
+        const replied = replying
+          ? await this.context.reply(messages, sendOptions)
+          : undefined;
+        replying = false;
+        results.push(
+          replied ?? (await this.context.push(messages, sendOptions)),
+        );
+      } catch (err) {
+        // the reply token is used now, so sending the messages again would
+        // push them, possibly after the reply delivered them
+        const deliveryUnknown = replying && isDeliveryUnknown(err);
+        const message = `failed to send ${this.messages.length} of the messages`;
+        if (deliveryUnknown) {
+          this.messages.splice(0, messages.length);
+          this.chunksSent++;
+        }
+        throw new ReplyBatchError(message, {
+          results,
+          retryKey,
+          deliveryUnknown,
+          originalError: err,
+        });
+      }
+      this.messages.splice(0, messages.length);
+      this.chunksSent++;
+    }
+    return results;
+  }
+}
+
+/**
+ * Runs `handler` with a `ReplyBatch` of `event`, and flushes the batch when
+ * the handler completes.
+ *
+ * ```ts
+ * webhookHandler.on("message:text", event =>
+ *   withReplyBatch(client, event, async batch => {
+ *     batch.reply({ type: "text", text: "Hello" });
+ *     await greet(batch);
+ *   }),
+ * );
+ * ```
+ */
+export async function withReplyBatch<T>(
+  client: messagingApi.MessagingApiClient,
+  event: webhook.Event,
+  handler: (batch: ReplyBatch) => Promise<T> | T,
+  options: ReplyContextConfig & FlushOptions = {},
+): Promise<T> {
+  const batch = new ReplyBatch(client, event, options);
+  const result = await handler(batch);
+  await batch.flush(options);
+  return result;
+}
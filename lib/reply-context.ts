@@ -0,0 +1,159 @@
+import { randomUUID } from "node:crypto";
+import { HTTPFetchError } from "./exceptions.js";
+import * as messagingApi from "./messaging-api/api.js";
+import { sourceId } from "./utils.js";
+import * as webhook from "./webhook/api.js";
+
+export interface ReplyContextConfig {
+  /**
+   * How long a reply token is used after the event occurred, in milliseconds.
+   * Defaults to 50 seconds, leaving a margin before the token expires.
+   */
+  replyTokenTtl?: number;
+}
+
+export interface SendOptions {
+  notificationDisabled?: boolean;
+  /**
+   * Retry key used when the messages are pushed. Generated when omitted.
+   */
+  retryKey?: string;
+}
+
+export interface SendResult {
+  /**
+   * `reply` when the reply token was used, `push` otherwise.
+   */
+  method: "reply" | "push";
+  /**
+   * Empty when a push with the same retry key was accepted before, as the
+   * IDs of its messages aren't returned.
+   */
+  sentMessages: messagingApi.SentMessage[];
+  /**
+   * Retry key of the push message. Pass it again to retry the push without
+   * sending the messages twice.
+   */
+  retryKey?: string;
+}
+
+function isInvalidReplyToken(err: unknown): boolean {
+  return (
+    err instanceof HTTPFetchError &&
+    err.status === 400 &&
+    /invalid reply token/i.test(err.error?.message ?? "")
+  );
+}
+
+/**
+ * Whether the messages of a failed request may have been delivered anyway:
+ * the request timed out, the connection was lost or the server failed, any
+ * of which may happen after the messages were sent. The LINE Platform
+ * doesn't send messages of requests it rejects with a 4xx status.
+ */
+export function isDeliveryUnknown(err: unknown): boolean {
+  return !(err instanceof HTTPFetchError) || err.status >= 500;
+}
+
+/**
+ * Sends messages in response to a webhook event. The reply token of the
+ * event is used while it's valid and unused; otherwise the messages are
+ * pushed to the source of the event (the user, group or room).
+ */
+export class ReplyContext {
+  private readonly client: messagingApi.MessagingApiClient;
+  private readonly event: webhook.Event;
+  private readonly replyTokenTtl: number;
+  private replyTokenUsed = false;
+
+  constructor(
+    client: messagingApi.MessagingApiClient,
+    event: webhook.Event,
+    config: ReplyContextConfig = {},
+  ) {
+    this.client = client;
+    this.event = event;
+    this.replyTokenTtl = config.replyTokenTtl || 50 * 1000;
+  }
+
+  public get replyToken(): string | undefined {
+    return "replyToken" in this.event ? this.event.replyToken : undefined;
+  }
+
+  /**
+   * Whether `send()` will use the reply token.
+   */
+  public get canReply(): boolean {
+    return (
+      !!this.replyToken &&
+      !this.replyTokenUsed &&
+      Date.now() - this.event.timestamp < this.replyTokenTtl
+    );
+  }
+
+  /**
+   * ID of the user, group or room the event came from.
+   */
+  public get to(): string | undefined {
+    return sourceId(this.event.source);
+  }
+
+  public async send(
+    messages: messagingApi.Message[],
+    options: SendOptions = {},
+  ): Promise<SendResult> {
+    return (
+      (await this.reply(messages, options)) ?? this.push(messages, options)
+    );
+  }
+
+  /**
+   * Replies the messages with the reply token, and resolves to `undefined`
+   * if the token can't be used or is rejected as invalid.
+   *
+   * The token is used once even if the reply fails otherwise; use
+   * `isDeliveryUnknown()` to tell whether the messages may have been sent.
+   */
+  public async reply(
+    messages: messagingApi.Message[],
+    options: SendOptions = {},
+  ): Promise<SendResult | undefined> {
+    if (!this.canReply) {
+      return undefined;
+    }
+    this.replyTokenUsed = true;
+    try {
+      const { sentMessages } = await this.client.replyMessage({
+        replyToken: this.replyToken,
+        messages,
+        notificationDisabled: options.notificationDisabled,
+      });
+      return { method: "reply", sentMessages };
+    } catch (err) {
+      if (!isInvalidReplyToken(err)) {
+        throw err;
+      }
+    }
+    return undefined;
+  }
+
+  /**
+   * Pushes the messages to the source of the event.
+   */
+  public async push(
+    messages: messagingApi.Message[],
+    options: SendOptions = {},
+  ): Promise<SendResult> {
+    const to = this.to;
+    if (!to) {
+      throw new Error("no source to push messages to");
+    }
+
+    const retryKey = options.retryKey || randomUUID();
+    const { sentMessages } = await this.client.pushMessage(
+      { to, messages, notificationDisabled: options.notificationDisabled },
+      retryKey,
+    );
+    return { method: "push", sentMessages, retryKey };
+  }
+}
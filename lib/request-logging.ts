@@ -0,0 +1,272 @@
+import type { FetchRequest } from "./http-fetch.js";
+
+const REDACTED = "***";
+
+/**
+ * Fields always redacted from bodies and queries: credentials of the
+ * channel and tokens. Field names match regardless of case and separators,
+ * e.g. `client_assertion` also matches the `clientAssertion` query.
+ */
+export const SECRET_FIELDS = [
+  "client_secret",
+  "client_assertion",
+  "access_token",
+  "refresh_token",
+  "id_token",
+  "channelSecret",
+  "channelAccessToken",
+];
+
+/**
+ * Fields redacted by default as personal data, e.g. `to` of push and PNP
+ * messages, which is a user ID or a phone number.
+ */
+export const PII_FIELDS = ["to", "userId", "userIds", "phoneNumber"];
+
+const SECRET_HEADERS = ["authorization", "proxy-authorization"];
+
+interface LogEntryBase {
+  method: string;
+  /**
+   * Path template of the endpoint, e.g. `/v2/bot/profile/{userId}`, not to
+   * log IDs in paths.
+   */
+  path: string;
+  /**
+   * Attempt of the request, 1 for the first one.
+   */
+  attempt: number;
+}
+
+export interface RequestLogEntry extends LogEntryBase {
+  type: "request";
+  query?: Record<string, string>;
+  headers: Record<string, string>;
+  body?: unknown;
+}
+
+export interface ResponseLogEntry extends LogEntryBase {
+  type: "response";
+  status: number;
+  /**
+   * `x-line-request-id` of the response.
+   */
+  requestId?: string;
+  /**
+   * Milliseconds from sending the request to receiving the headers.
+   */
+  duration: number;
+  body?: unknown;
+}
+
+export interface RequestErrorLogEntry extends LogEntryBase {
+  type: "error";
+  error: unknown;
+  duration: number;
+}
+
+export type HTTPLogEntry =
+  | RequestLogEntry
+  | ResponseLogEntry
+  | RequestErrorLogEntry;
+
+export interface RequestLoggingOptions {
+  /**
+   * Receives a structured entry for every request, response and network
+   * error, e.g. `entry => logger.debug(entry)`.
+   */
+  log: (entry: HTTPLogEntry) => void;
+  /**
+   * Whether JSON and form bodies are logged. Defaults to false.
+   */
+  bodies?: boolean;
+  /**
+   * Fields redacted from bodies and queries in addition to `SECRET_FIELDS`.
+   * Defaults to `PII_FIELDS`.
+   */
+  redactFields?: string[];
+}
+
+function normalizeField(name: string): string {
+  return name.replace(/[_-]/g, "").toLowerCase();
+}
+
+/**
+ * A set of field names for `redactFields()` and `matchesField()`.
+ */
+export function fieldSet(names: string[]): Set<string> {
+  return new Set(names.map(normalizeField));
+}
+
+/**
+ * Whether `name` is one of `fields`, regardless of case and separators.
+ */
+export function matchesField(fields: Set<string>, name: string): boolean {
+  return fields.has(normalizeField(name));
+}
+
+/**
+ * Replaces the values of `fields`, made by `fieldSet()`, in `value`, at any
+ * depth.
+ */
+export function redactFields(value: unknown, fields: Set<string>): unknown {
+  if (Array.isArray(value)) {
+    return value.map(item => redactFields(item, fields));
+  }
+  if (value && typeof value === "object") {
+    return Object.fromEntries(
+      Object.entries(value).map(([key, item]) => [
+        key,
+        matchesField(fields, key) ? REDACTED : redactFields(item, fields),
+      ]),
+    );
+  }
+  return value;
+}
+
+export function redactHeaders(
+  headers: Record<string, string>,
+): Record<string, string> {
+  return Object.fromEntries(
+    Object.entries(headers).map(([name, value]) => [
+      name,
+      SECRET_HEADERS.includes(name.toLowerCase())
+        ? // keep the scheme, e.g. `Bearer ***`
+          value.replace(/^(\S+\s+)?.*$/, `$1${REDACTED}`)
+        : value,
+    ]),
+  );
+}
+
+function contentTypeOf(headers: Record<string, string>): string {
+  const name = Object.keys(headers).find(
+    key => key.toLowerCase() === "content-type",
+  );
+  return name ? headers[name] : "";
+}
+
+/**
+ * Writes log entries of the requests of `HTTPFetchClient`, redacted.
+ * Errors of `log` are ignored.
+ */
+export class RequestLogger {
+  private readonly options: RequestLoggingOptions;
+  private readonly fields: Set<string>;
+
+  constructor(options: RequestLoggingOptions) {
+    this.options = options;
+    this.fields = fieldSet([
+      ...SECRET_FIELDS,
+      ...(options.redactFields ?? PII_FIELDS),
+    ]);
+  }
+
+  public request(request: FetchRequest, path: string, attempt: number): void {
+    const { url, method, headers } = request;
+    const query =
+      url.search === ""
+        ? undefined
+        : (redactFields(
+            Object.fromEntries(url.searchParams),
+            this.fields,
+          ) as Record<string, string>);
+    this.write({
+      type: "request",
+      method,
+      path,
+      attempt,
+      ...(query ? { query } : {}),
+      headers: redactHeaders(headers),
+      ...(this.options.bodies && request.body !== undefined
+        ? { body: this.requestBody(request) }
+        : {}),
+    });
+  }
+
+  public async response(
+    request: FetchRequest,
+    path: string,
+    attempt: number,
+    response: Response,
+    duration: number,
+  ): Promise<void> {
+    const body = this.options.bodies
+      ? await this.responseBody(response)
+      : undefined;
+    this.write({
+      type: "response",
+      method: request.method,
+      path,
+      attempt,
+      status: response.status,
+      requestId: response.headers.get("x-line-request-id") ?? undefined,
+      duration,
+      ...(body !== undefined ? { body } : {}),
+    });
+  }
+
+  public error(
+    request: FetchRequest,
+    path: string,
+    attempt: number,
+    error: unknown,
+    duration: number,
+  ): void {
+    this.write({
+      type: "error",
+      method: request.method,
+      path,
+      attempt,
+      error,
+      duration,
+    });
+  }
+
+  private requestBody({ body, headers }: FetchRequest): unknown {
+    const contentType = contentTypeOf(headers);
+    if (typeof body !== "string") {
+      return body instanceof Blob
+        ? `[binary body, ${body.size} bytes]`
+        : "[multipart body]";
+    }
+    if (contentType.includes("application/x-www-form-urlencoded")) {
+      return redactFields(
+        Object.fromEntries(new URLSearchParams(body)),
+        this.fields,
+      );
+    }
+    return this.parseJSON(body);
+  }
+
+  private async responseBody(response: Response): Promise<unknown> {
+    const contentType = response.headers.get("content-type") ?? "";
+    if (!contentType.includes("json")) {
+      return contentType ? `[${contentType} body]` : undefined;
+    }
+    try {
+      // a clone, to leave the body to the caller
+      return this.parseJSON(await response.clone().text());
+    } catch {
+      return "[unreadable body]";
+    }
+  }
+
+  private parseJSON(text: string): unknown {
+    if (text === "") {
+      return undefined;
+    }
+    try {
+      return redactFields(JSON.parse(text), this.fields);
+    } catch {
+      return "[invalid JSON body]";
+    }
+  }
+
+  private write(entry: HTTPLogEntry): void {
+    try {
+      this.options.log(entry);
+    } catch {
+      // logging must not break requests
+    }
+  }
+}
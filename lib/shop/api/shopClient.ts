@@ -19,16 +19,18 @@ import { Readable } from "node:stream";
 
 import HTTPFetchClient, {
   convertResponseToReadable,
+  FetchRequestConfig,
+  HTTPClientOptions,
 } from "../../http-fetch.js";
+import type { ChannelAccessTokenProvider } from "../../channel-access-token-provider.js";
 
 // ===============================================
 // This file is autogenerated - Please do not edit
 // ===============================================
 
-interface httpClientConfig {
+interface httpClientConfig extends HTTPClientOptions {
   baseURL?: string;
-  channelAccessToken: string;
-  // TODO support defaultHeaders?
+  channelAccessToken: string | ChannelAccessTokenProvider;
 }
 
 export class ShopClient {
@@ -37,9 +39,11 @@ export class ShopClient {
   constructor(config: httpClientConfig) {
     const baseURL = config.baseURL || "https://api.line.me";
     this.httpClient = new HTTPFetchClient({
+      ...config,
       defaultHeaders: {
-        Authorization: "Bearer " + config.channelAccessToken,
+        ...config.defaultHeaders,
       },
+      channelAccessToken: config.channelAccessToken,
       baseURL: baseURL,
     });
   }
@@ -60,29 +64,41 @@ export class ShopClient {
   /**
    * Sends a mission sticker.
    * @param missionStickerRequest
+   * @param requestOptions Options of the request, e.g. a signal to abort it, a timeout and extra headers.
    *
    * @see <a href="https://developers.line.biz/en/reference/partner-docs/#send-mission-stickers-v3"> Documentation</a>
    */
   public async missionStickerV3(
     missionStickerRequest: MissionStickerRequest,
+    requestOptions?: FetchRequestConfig,
   ): Promise<Types.MessageAPIResponseBase> {
-    return (await this.missionStickerV3WithHttpInfo(missionStickerRequest))
-      .body;
+    return (
+      await this.missionStickerV3WithHttpInfo(
+        missionStickerRequest,
+        requestOptions,
+      )
+    ).body;
   }
 
   /**
    * Sends a mission sticker..
    * This method includes HttpInfo object to return additional information.
    * @param missionStickerRequest
+   * @param requestOptions Options of the request, e.g. a signal to abort it, a timeout and extra headers.
    *
    * @see <a href="https://developers.line.biz/en/reference/partner-docs/#send-mission-stickers-v3"> Documentation</a>
    */
   public async missionStickerV3WithHttpInfo(
     missionStickerRequest: MissionStickerRequest,
+    requestOptions?: FetchRequestConfig,
   ): Promise<Types.ApiResponseType<Types.MessageAPIResponseBase>> {
     const params = missionStickerRequest;
 
-    const res = await this.httpClient.post("/shop/v3/mission", params);
+    const res = await this.httpClient.post(
+      "/shop/v3/mission",
+      params,
+      requestOptions,
+    );
     const text = await res.text();
     const parsedBody = text ? JSON.parse(text) : null;
     return { httpResponse: res, body: parsedBody };
@@ -0,0 +1,141 @@
+import { TextMessageV2Error } from "./exceptions.js";
+import * as messagingApi from "./messaging-api/api.js";
+
+/**
+ * Maximum length of `text` of text messages (v2).
+ */
+export const MAX_TEXT_V2_LENGTH = 5000;
+
+/**
+ * Maximum number of substitutions in a text message (v2).
+ */
+export const MAX_TEXT_V2_SUBSTITUTIONS = 100;
+
+export type TextMessageV2Options = Omit<
+  messagingApi.TextMessageV2,
+  "type" | "text" | "substitution"
+>;
+
+export type TextMessageV2Value =
+  | string
+  | number
+  | messagingApi.SubstitutionObject;
+
+export function userMention(
+  userId: string,
+): messagingApi.MentionSubstitutionObject {
+  return { type: "mention", mentionee: { type: "user", userId } };
+}
+
+export function allMention(): messagingApi.MentionSubstitutionObject {
+  return { type: "mention", mentionee: { type: "all" } };
+}
+
+export function lineEmoji(
+  productId: string,
+  emojiId: string,
+): messagingApi.EmojiSubstitutionObject {
+  return { type: "emoji", productId, emojiId };
+}
+
+// literal braces are written doubled in text of text messages (v2)
+function escapeBraces(text: string): string {
+  return text.replace(/[{}]/g, brace => brace + brace);
+}
+
+/**
+ * Builds a text message (v2) from texts, mentions and LINE emojis. Keys of
+ * the substitutions are generated, the same mention or emoji sharing a key,
+ * and braces in texts are escaped.
+ */
+export class TextMessageV2Builder {
+  private text = "";
+  private readonly substitution: {
+    [key: string]: messagingApi.SubstitutionObject;
+  } = {};
+  private readonly keys = new Map<string, string>();
+
+  public append(text: string | number): this {
+    this.text += escapeBraces(String(text));
+    return this;
+  }
+
+  public mention(userId: string): this {
+    return this.substitute(userMention(userId));
+  }
+
+  public mentionAll(): this {
+    return this.substitute(allMention());
+  }
+
+  public emoji(productId: string, emojiId: string): this {
+    return this.substitute(lineEmoji(productId, emojiId));
+  }
+
+  public substitute(object: messagingApi.SubstitutionObject): this {
+    const id = JSON.stringify(object);
+    let key = this.keys.get(id);
+    if (!key) {
+      key = `${object.type}${this.keys.size}`;
+      this.keys.set(id, key);
+      this.substitution[key] = object;
+    }
+    this.text += `{${key}}`;
+    return this;
+  }
+
+  /**
+   * Throws `TextMessageV2Error` when the text is longer than 5000 characters
+   * or there are more than 100 substitutions.
+   */
+  public build(options: TextMessageV2Options = {}): messagingApi.TextMessageV2 {
+    const { text, substitution } = this;
+    if (text.length > MAX_TEXT_V2_LENGTH) {
+      throw new TextMessageV2Error(
+        `text is longer than ${MAX_TEXT_V2_LENGTH} characters: ${text.length}`,
+        { text },
+      );
+    }
+    if (this.keys.size > MAX_TEXT_V2_SUBSTITUTIONS) {
+      throw new TextMessageV2Error(
+        `more than ${MAX_TEXT_V2_SUBSTITUTIONS} substitutions: ${this.keys.size}`,
+        { text },
+      );
+    }
+
+    return {
+      ...options,
+      type: "textV2",
+      text,
+      ...(this.keys.size > 0 ? { substitution: { ...substitution } } : {}),
+    };
+  }
+}
+
+/**
+ * Template tag building a text message (v2). Substitution objects, e.g. of
+ * `userMention()`, `allMention()` and `lineEmoji()`, are put as placeholders
+ * and other values as texts.
+ *
+ * ```
+ * textV2`Welcome, ${userMention(userId)} ${lineEmoji(productId, emojiId)}`
+ * ```
+ */
+export function textV2(
+  strings: TemplateStringsArray,
+  ...values: TextMessageV2Value[]
+): messagingApi.TextMessageV2 {
+  const builder = new TextMessageV2Builder();
+  strings.forEach((text, i) => {
+    builder.append(text);
+    if (i < values.length) {
+      const value = values[i];
+      if (typeof value === "object") {
+        builder.substitute(value);
+      } else {
+        builder.append(value);
+      }
+    }
+  });
+  return builder.build();
+}
@@ -0,0 +1,217 @@
+import * as messagingApi from "./messaging-api/api.js";
+import * as webhook from "./webhook/api.js";
+
+export interface PlainTextSegment {
+  type: "text";
+  text: string;
+}
+
+export interface UserMentionSegment {
+  type: "user";
+  /**
+   * The mention as written, e.g. `@example`.
+   */
+  text: string;
+  /**
+   * Only included when the user consents to the bot obtaining their profile.
+   */
+  userId?: string;
+  isSelf?: boolean;
+}
+
+export interface AllMentionSegment {
+  type: "all";
+  text: string;
+}
+
+export interface EmojiSegment {
+  type: "emoji";
+  /**
+   * The text of the emoji, e.g. `(love)`.
+   */
+  text: string;
+  productId: string;
+  emojiId: string;
+}
+
+export type TextSegment =
+  | PlainTextSegment
+  | UserMentionSegment
+  | AllMentionSegment
+  | EmojiSegment;
+
+export type MentionSegment = UserMentionSegment | AllMentionSegment;
+
+interface Range {
+  index: number;
+  length: number;
+  segment: (text: string) => TextSegment;
+}
+
+export function isMentionSegment(
+  segment: TextSegment,
+): segment is MentionSegment {
+  return segment.type === "user" || segment.type === "all";
+}
+
+/**
+ * Splits the text of a text message into plain texts, mentions and LINE
+ * emojis.
+ *
+ * `index` and `length` of mentions and emojis count UTF-16 code units, as
+ * JavaScript strings do, so a character outside the BMP such as "😀" counts
+ * as 2. Ranges overlapping a previous one are ignored.
+ */
+export function splitText(content: webhook.TextMessageContent): TextSegment[] {
+  const ranges: Range[] = [
+    ...(content.mention?.mentionees ?? []).map(
+      (mentionee): Range => ({
+        index: mentionee.index,
+        length: mentionee.length,
+        segment: text =>
+          mentionee.type === "user"
+            ? {
+                type: "user",
+                text,
+                userId: mentionee.userId,
+                isSelf: mentionee.isSelf,
+              }
+            : { type: "all", text },
+      }),
+    ),
+    ...(content.emojis ?? []).map(
+      (emoji): Range => ({
+        index: emoji.index,
+        length: emoji.length,
+        segment: text => ({
+          type: "emoji",
+          text,
+          productId: emoji.productId,
+          emojiId: emoji.emojiId,
+        }),
+      }),
+    ),
+  ].sort((a, b) => a.index - b.index);
+
+  const { text } = content;
+  const segments: TextSegment[] = [];
+  let cursor = 0;
+  for (const range of ranges) {
+    const end = range.index + range.length;
+    if (range.index < cursor || end > text.length || range.length <= 0) {
+      continue;
+    }
+    if (range.index > cursor) {
+      segments.push({ type: "text", text: text.slice(cursor, range.index) });
+    }
+    segments.push(range.segment(text.slice(range.index, end)));
+    cursor = end;
+  }
+  if (cursor < text.length) {
+    segments.push({ type: "text", text: text.slice(cursor) });
+  }
+  return segments;
+}
+
+/**
+ * Whether the user of `userId` is mentioned. With `includeAll`, an @All
+ * mention counts as well.
+ */
+export function isMentioned(
+  content: webhook.TextMessageContent,
+  userId: string,
+  includeAll = false,
+): boolean {
+  return (content.mention?.mentionees ?? []).some(mentionee =>
+    mentionee.type === "user"
+      ? mentionee.userId === userId
+      : includeAll && mentionee.type === "all",
+  );
+}
+
+/**
+ * Removes the mentions matching `predicate`, all mentions by default, and
+ * returns the rest of the text, e.g. `"weather Tokyo"` for
+ * `"@bot weather Tokyo"`. Whitespace left around removed mentions is
+ * collapsed.
+ */
+export function stripMentions(
+  content: webhook.TextMessageContent,
+  predicate: (segment: MentionSegment) => boolean = () => true,
+): string {
+  let result = "";
+  let stripped = false;
+  for (const segment of splitText(content)) {
+    if (isMentionSegment(segment) && predicate(segment)) {
+      stripped = true;
+      continue;
+    }
+    if (stripped && (result === "" || /\s$/.test(result))) {
+      result += segment.text.replace(/^\s+/, "");
+    } else {
+      result += segment.text;
+    }
+    stripped = false;
+  }
+  return result.trim();
+}
+
+/**
+ * Tells whether messages mention the bot, whose user ID is fetched with
+ * `getBotInfo()` once and cached.
+ */
+export class BotMention {
+  private readonly client: messagingApi.MessagingApiClient;
+  private botUserId: Promise<string> | undefined;
+
+  constructor(client: messagingApi.MessagingApiClient) {
+    this.client = client;
+  }
+
+  public getBotUserId(): Promise<string> {
+    if (!this.botUserId) {
+      this.botUserId = this.client.getBotInfo().then(
+        info => info.userId,
+        err => {
+          // fetch again next time
+          this.botUserId = undefined;
+          throw err;
+        },
+      );
+    }
+    return this.botUserId;
+  }
+
+  public async isMentioned(
+    content: webhook.TextMessageContent,
+    includeAll = false,
+  ): Promise<boolean> {
+    const mentionees = content.mention?.mentionees ?? [];
+    if (mentionees.some(m => m.type === "user" && m.isSelf)) {
+      return true;
+    }
+    if (mentionees.length === 0) {
+      return false;
+    }
+    return isMentioned(content, await this.getBotUserId(), includeAll);
+  }
+
+  /**
+   * Returns the text without the mentions of the bot, e.g. to parse it as a
+   * command.
+   */
+  public async getCommandText(
+    content: webhook.TextMessageContent,
+  ): Promise<string> {
+    const mentionees = content.mention?.mentionees ?? [];
+    const botUserId = mentionees.some(m => m.type === "user" && !m.isSelf)
+      ? await this.getBotUserId()
+      : undefined;
+    return stripMentions(
+      content,
+      segment =>
+        segment.type === "user" &&
+        (segment.isSelf === true || segment.userId === botUserId),
+    );
+  }
+}
@@ -1,5 +1,6 @@
 import { Buffer } from "node:buffer";
 import { JSONParseError } from "./exceptions.js";
+import type { Source } from "./webhook/api.js";
 
 export function toArray<T>(maybeArr: T | T[]): T[] {
   return Array.isArray(maybeArr) ? maybeArr : [maybeArr];
@@ -27,3 +28,42 @@ export function createMultipartFormData(
   });
   return formData;
 }
+
+/**
+ * Resolves after `ms` milliseconds, or rejects when `signal` is aborted
+ * before.
+ */
+export function sleep(ms: number, signal?: AbortSignal): Promise<void> {
+  return new Promise((resolve, reject) => {
+    if (signal?.aborted) {
+      reject(signal.reason);
+      return;
+    }
+    const onAbort = () => {
+      clearTimeout(timer);
+      reject(signal.reason);
+    };
+    const timer = setTimeout(() => {
+      signal?.removeEventListener("abort", onAbort);
+      resolve();
+    }, ms);
+    signal?.addEventListener("abort", onAbort, { once: true });
+  });
+}
+
+/**
+ * ID of the user, group or room of a webhook event source, to send messages
+ * to.
+ */
+export function sourceId(source: Source | undefined): string | undefined {
+  if (!source) {
+    return undefined;
+  } else if (source.type === "group") {
+    return source.groupId;
+  } else if (source.type === "room") {
+    return source.roomId;
+  } else if (source.type === "user") {
+    return source.userId;
+  }
+  return undefined;
+}
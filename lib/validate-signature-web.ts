@@ -0,0 +1,65 @@
+const encoder = new TextEncoder();
+
+let nodeSubtle: Promise<SubtleCrypto | undefined> | undefined;
+
+/**
+ * The WebCrypto of the runtime. ES modules on Node.js 18 have no `crypto`
+ * global, so `node:crypto` is imported there, only when needed.
+ */
+async function getSubtle(): Promise<SubtleCrypto> {
+  if (globalThis.crypto?.subtle) {
+    return globalThis.crypto.subtle;
+  }
+  if (!nodeSubtle) {
+    nodeSubtle = import("node:crypto").then(
+      ({ webcrypto }): SubtleCrypto | undefined =>
+        webcrypto?.subtle as SubtleCrypto | undefined,
+      (): undefined => undefined,
+    );
+  }
+  const subtle = await nodeSubtle;
+  if (!subtle) {
+    throw new Error("WebCrypto is not available in this runtime");
+  }
+  return subtle;
+}
+
+function base64ToBytes(str: string): Uint8Array | undefined {
+  try {
+    return Uint8Array.from(atob(str), c => c.charCodeAt(0));
+  } catch {
+    return undefined;
+  }
+}
+
+/**
+ * Validates `x-line-signature` with WebCrypto instead of `node:crypto`, so it
+ * works on runtimes such as Cloudflare Workers, Deno and Bun.
+ *
+ * `SubtleCrypto.verify` compares the signatures in constant time.
+ */
+export default async function validateSignatureWeb(
+  body: string | ArrayBuffer | Uint8Array,
+  channelSecret: string,
+  signature: string,
+): Promise<boolean> {
+  const signatureBytes = base64ToBytes(signature);
+  if (!signatureBytes) {
+    return false;
+  }
+
+  const subtle = await getSubtle();
+  const key = await subtle.importKey(
+    "raw",
+    encoder.encode(channelSecret),
+    { name: "HMAC", hash: "SHA-256" },
+    false,
+    ["verify"],
+  );
+  return subtle.verify(
+    "HMAC",
+    key,
+    signatureBytes,
+    typeof body === "string" ? encoder.encode(body) : body,
+  );
+}
@@ -12,6 +12,17 @@ function safeCompare(a: Buffer, b: Buffer): boolean {
   return timingSafeEqual(a, b);
 }
 
+/**
+ * Computes the `x-line-signature` of `body`, the base64 HMAC-SHA256 digest
+ * keyed with the channel secret.
+ */
+export function createSignature(
+  body: string | Buffer,
+  channelSecret: string,
+): string {
+  return createHmac("SHA256", channelSecret).update(body).digest("base64");
+}
+
 export default function validateSignature(
   body: string | Buffer,
   channelSecret: string,
@@ -0,0 +1,156 @@
+import { Middleware } from "./middleware.js";
+import * as webhook from "./webhook/api.js";
+
+/**
+ * Store of the `webhookEventId`s already received. Implement it on top of an
+ * external store such as Redis to deduplicate events across processes.
+ */
+export interface WebhookEventIdStore {
+  /**
+   * Records `id` for `ttl` milliseconds and returns whether it was already
+   * recorded. It should check and record atomically.
+   */
+  markSeen(id: string, ttl: number): boolean | Promise<boolean>;
+  /**
+   * Removes `id`, so the next event with the same ID isn't a duplicate.
+   */
+  forget(id: string): void | Promise<void>;
+}
+
+/**
+ * `WebhookEventIdStore` keeping the IDs in memory. When `maxSize` IDs are
+ * recorded, the least recently recorded one is evicted.
+ */
+export class InMemoryWebhookEventIdStore implements WebhookEventIdStore {
+  private readonly maxSize: number;
+  private readonly expirations = new Map<string, number>();
+
+  constructor({ maxSize = 10000 }: { maxSize?: number } = {}) {
+    this.maxSize = maxSize;
+  }
+
+  public markSeen(id: string, ttl: number): boolean {
+    const now = Date.now();
+    const expiresAt = this.expirations.get(id);
+    const seen = expiresAt !== undefined && expiresAt > now;
+
+    // re-insert to move the ID to the most recent position
+    this.expirations.delete(id);
+    this.expirations.set(id, now + ttl);
+
+    if (this.expirations.size > this.maxSize) {
+      const oldest = this.expirations.keys().next().value;
+      this.expirations.delete(oldest);
+    }
+    return seen;
+  }
+
+  public forget(id: string): void {
+    this.expirations.delete(id);
+  }
+}
+
+export type DuplicateEventAction = "process" | "skip";
+
+export interface DuplicateEventInfo {
+  /**
+   * Whether the `webhookEventId` was already received.
+   */
+  seen: boolean;
+  /**
+   * `deliveryContext.isRedelivery` of the event.
+   */
+  redelivery: boolean;
+}
+
+export interface WebhookDeduplicationConfig {
+  /**
+   * Defaults to an `InMemoryWebhookEventIdStore`.
+   */
+  store?: WebhookEventIdStore;
+  /**
+   * How long an ID is remembered in milliseconds. Defaults to 24 hours.
+   */
+  ttl?: number;
+  /**
+   * Called for events already received or marked as redelivered. Return the
+   * action to take, or nothing to skip events already received and process
+   * the others, e.g. when only logging them.
+   */
+  onDuplicate?: (
+    event: webhook.Event,
+    info: DuplicateEventInfo,
+  ) => DuplicateEventAction | void | Promise<DuplicateEventAction | void>;
+}
+
+export interface DeduplicationResult extends DuplicateEventInfo {
+  action: DuplicateEventAction;
+}
+
+/**
+ * Deduplicates webhook events by `webhookEventId`, as the LINE Platform may
+ * deliver the same event more than once.
+ */
+export class WebhookDeduplicator {
+  private readonly store: WebhookEventIdStore;
+  private readonly ttl: number;
+  private readonly onDuplicate: WebhookDeduplicationConfig["onDuplicate"];
+
+  constructor(config: WebhookDeduplicationConfig = {}) {
+    this.store = config.store || new InMemoryWebhookEventIdStore();
+    this.ttl = config.ttl || 24 * 60 * 60 * 1000;
+    this.onDuplicate = config.onDuplicate;
+  }
+
+  public async check(event: webhook.Event): Promise<DeduplicationResult> {
+    const redelivery = !!(
+      event.deliveryContext && event.deliveryContext.isRedelivery
+    );
+    const seen = event.webhookEventId
+      ? await this.store.markSeen(event.webhookEventId, this.ttl)
+      : false;
+
+    let action: DuplicateEventAction = seen ? "skip" : "process";
+    if ((seen || redelivery) && this.onDuplicate) {
+      action = (await this.onDuplicate(event, { seen, redelivery })) || action;
+    }
+    return { seen, redelivery, action };
+  }
+
+  /**
+   * Forgets the event, e.g. when processing it failed and a redelivery should
+   * be processed again.
+   */
+  public async forget(event: webhook.Event): Promise<void> {
+    if (event.webhookEventId) {
+      await this.store.forget(event.webhookEventId);
+    }
+  }
+
+  /**
+   * Returns the events which should be processed.
+   */
+  public async filter(events: webhook.Event[]): Promise<webhook.Event[]> {
+    const results = await Promise.all(events.map(event => this.check(event)));
+    return events.filter((_, i) => results[i].action === "process");
+  }
+}
+
+/**
+ * Creates a middleware removing duplicate events from `req.body.events`. Use
+ * it after `middleware()`.
+ */
+export function deduplicationMiddleware(
+  deduplicator: WebhookDeduplicator = new WebhookDeduplicator(),
+): Middleware {
+  return (req, res, next): void => {
+    if (!req.body || !Array.isArray(req.body.events)) {
+      next();
+      return;
+    }
+    deduplicator.filter(req.body.events).then(events => {
+      req.body.events = events;
+      next();
+    }, next);
+  };
+}
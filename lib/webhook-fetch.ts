@@ -0,0 +1,14 @@
+// Entry point for runtimes built on the Fetch API, `@line/bot-sdk/webhook-fetch`.
+// It only loads the WebCrypto path, without the `node:http` and `node:crypto`
+// modules the package root depends on.
+import fetchHandler from "./fetch-handler.js";
+import validateSignatureWeb from "./validate-signature-web.js";
+
+export { fetchHandler, validateSignatureWeb };
+
+export * from "./fetch-handler.js";
+export { JSONParseError, SignatureValidationFailed } from "./exceptions.js";
+export type { MiddlewareConfig } from "./types.js";
+
+import * as webhook from "./webhook/api.js";
+export { webhook };
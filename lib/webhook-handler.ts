@@ -0,0 +1,277 @@
+import {
+  PostbackCodec,
+  PostbackParams,
+  PostbackPayload,
+  PostbackSchema,
+} from "./postback-codec.js";
+import { WebhookDeduplicator } from "./webhook-deduplication.js";
+import * as webhook from "./webhook/api.js";
+
+type EventType = webhook.Event["type"];
+type MessageContentType = webhook.MessageContent["type"];
+
+/**
+ * Route a handler can be registered for. Either an event type such as
+ * `"postback"`, or `"message:<content type>"` for a specific kind of message.
+ */
+export type WebhookRoute = EventType | `message:${MessageContentType}`;
+
+/**
+ * The event type a handler registered for `R` receives.
+ */
+export type WebhookRouteEvent<R extends WebhookRoute> =
+  R extends `message:${infer T}`
+    ? webhook.MessageEvent & {
+        message: Extract<webhook.MessageContent, { type: T }>;
+      }
+    : Extract<webhook.Event, { type: R }>;
+
+export interface WebhookHandlerContext {
+  /**
+   * User ID of the bot which received the event.
+   */
+  destination: string;
+}
+
+export type WebhookEventHandler<E extends webhook.Event = webhook.Event> = (
+  event: E,
+  context: WebhookHandlerContext,
+) => void | Promise<void>;
+
+export type PostbackHandler<S extends PostbackSchema> = (
+  payload: PostbackPayload<S> & PostbackParams,
+  event: webhook.PostbackEvent,
+  context: WebhookHandlerContext,
+) => void | Promise<void>;
+
+export type WebhookErrorHandler = (
+  err: unknown,
+  event: webhook.Event,
+  context: WebhookHandlerContext,
+) => void | Promise<void>;
+
+export type WebhookEventStatus = "handled" | "unhandled" | "failed" | "skipped";
+
+export interface WebhookEventResult {
+  event: webhook.Event;
+  /**
+   * The route which matched the event. `undefined` when no registered route
+   * matched, even if a fallback handler processed it.
+   */
+  route?: WebhookRoute;
+  status: WebhookEventStatus;
+  /**
+   * Errors thrown by the handlers of this event, in the order they ran.
+   */
+  errors: unknown[];
+  /**
+   * Whether the event was already received. Only set when deduplicating.
+   */
+  duplicate?: boolean;
+}
+
+export interface WebhookHandleSummary {
+  destination: string;
+  handled: number;
+  unhandled: number;
+  failed: number;
+  skipped: number;
+  results: WebhookEventResult[];
+}
+
+export interface WebhookHandlerConfig {
+  /**
+   * Deduplicates events by `webhookEventId`. Skipped events aren't given to
+   * any handler, and events a handler failed for are forgotten so that
+   * their redelivery is processed.
+   */
+  deduplicator?: WebhookDeduplicator;
+}
+
+/**
+ * Dispatches the events of a `webhook.CallbackRequest` to handlers registered
+ * per event type and per message content type.
+ *
+ * For a message event, handlers for `"message:<content type>"` take
+ * precedence over handlers for `"message"`. Likewise, handlers registered by
+ * `onPostback()` take precedence over handlers for `"postback"`. Events no
+ * route matches, including event types unknown to this SDK, are given to the
+ * fallback handlers.
+ *
+ * ```ts
+ * const handler = new WebhookHandler()
+ *   .on("message:text", event => reply(event.replyToken, event.message.text))
+ *   .on("postback", event => console.log(event.postback.data))
+ *   .fallback(event => console.log("unhandled", event.type));
+ *
+ * app.post("/webhook", middleware(config), async (req, res) => {
+ *   res.json(await handler.handle(req.body));
+ * });
+ * ```
+ */
+export default class WebhookHandler {
+  private readonly handlers = new Map<WebhookRoute, WebhookEventHandler[]>();
+  private readonly postbackHandlers: {
+    codec: PostbackCodec<any>;
+    handler: WebhookEventHandler;
+  }[] = [];
+  private readonly fallbackHandlers: WebhookEventHandler[] = [];
+  private readonly errorHandlers: WebhookErrorHandler[] = [];
+  private readonly deduplicator?: WebhookDeduplicator;
+
+  constructor(config: WebhookHandlerConfig = {}) {
+    this.deduplicator = config.deduplicator;
+  }
+
+  public on<R extends WebhookRoute>(
+    route: R,
+    handler: WebhookEventHandler<WebhookRouteEvent<R>>,
+  ): this {
+    const handlers = this.handlers.get(route) || [];
+    handlers.push(handler as WebhookEventHandler);
+    this.handlers.set(route, handlers);
+    return this;
+  }
+
+  /**
+   * Registers a handler for postback events whose data was encoded by
+   * `codec`. The handler receives the decoded payload.
+   */
+  public onPostback<S extends PostbackSchema>(
+    codec: PostbackCodec<S>,
+    handler: PostbackHandler<S>,
+  ): this {
+    this.postbackHandlers.push({
+      codec,
+      handler: (event: webhook.PostbackEvent, context) =>
+        handler(codec.decodeContent(event.postback), event, context),
+    });
+    return this;
+  }
+
+  /**
+   * Registers a handler for events no route matches.
+   */
+  public fallback(handler: WebhookEventHandler): this {
+    this.fallbackHandlers.push(handler);
+    return this;
+  }
+
+  /**
+   * Registers a handler called with every error thrown by an event handler.
+   * Errors are captured per handler, so a failing handler doesn't prevent the
+   * others from running.
+   */
+  public onError(handler: WebhookErrorHandler): this {
+    this.errorHandlers.push(handler);
+    return this;
+  }
+
+  public async handle(
+    body: webhook.CallbackRequest,
+  ): Promise<WebhookHandleSummary> {
+    const context: WebhookHandlerContext = { destination: body.destination };
+    const results = await Promise.all(
+      (body.events || []).map(event => this.handleEvent(event, context)),
+    );
+
+    const count = (status: WebhookEventStatus) =>
+      results.filter(result => result.status === status).length;
+
+    return {
+      destination: body.destination,
+      handled: count("handled"),
+      unhandled: count("unhandled"),
+      failed: count("failed"),
+      skipped: count("skipped"),
+      results,
+    };
+  }
+
+  public async handleEvent(
+    event: webhook.Event,
+    context: WebhookHandlerContext,
+  ): Promise<WebhookEventResult> {
+    if (!this.deduplicator) {
+      return this.dispatch(event, context);
+    }
+
+    const { seen, action } = await this.deduplicator.check(event);
+    if (action === "skip") {
+      return { event, status: "skipped", errors: [], duplicate: seen };
+    }
+
+    const result = await this.dispatch(event, context);
+    if (result.status === "failed") {
+      await this.deduplicator.forget(event);
+    }
+    return { ...result, duplicate: seen };
+  }
+
+  private async dispatch(
+    event: webhook.Event,
+    context: WebhookHandlerContext,
+  ): Promise<WebhookEventResult> {
+    const { route, handlers } = this.resolveHandlers(event);
+
+    if (handlers.length === 0) {
+      return { event, route, status: "unhandled", errors: [] };
+    }
+
+    const errors: unknown[] = [];
+    for (const handler of handlers) {
+      try {
+        await handler(event, context);
+      } catch (err) {
+        errors.push(err);
+        await this.reportError(err, event, context);
+      }
+    }
+
+    return {
+      event,
+      route,
+      status: errors.length > 0 ? "failed" : "handled",
+      errors,
+    };
+  }
+
+  private resolveHandlers(event: webhook.Event): {
+    route?: WebhookRoute;
+    handlers: WebhookEventHandler[];
+  } {
+    if (event.type === "message" && event.message) {
+      const route = `message:${event.message.type}` as WebhookRoute;
+      if (this.handlers.has(route)) {
+        return { route, handlers: this.handlers.get(route) };
+      }
+    }
+    if (event.type === "postback" && event.postback) {
+      const handlers = this.postbackHandlers
+        .filter(({ codec }) => codec.matches(event.postback.data))
+        .map(({ handler }) => handler);
+      if (handlers.length > 0) {
+        return { route: "postback", handlers };
+      }
+    }
+    const route = event.type as WebhookRoute;
+    if (this.handlers.has(route)) {
+      return { route, handlers: this.handlers.get(route) };
+    }
+    return { handlers: this.fallbackHandlers };
+  }
+
+  private async reportError(
+    err: unknown,
+    event: webhook.Event,
+    context: WebhookHandlerContext,
+  ): Promise<void> {
+    for (const errorHandler of this.errorHandlers) {
+      try {
+        await errorHandler(err, event, context);
+      } catch {
+        // an error handler must not break the dispatch of other events
+      }
+    }
+  }
+}
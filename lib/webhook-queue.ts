@@ -0,0 +1,225 @@
+import middleware, { Middleware } from "./middleware.js";
+import * as Types from "./types.js";
+import { sleep, sourceId } from "./utils.js";
+import * as webhook from "./webhook/api.js";
+import { WebhookHandlerContext } from "./webhook-handler.js";
+
+export type QueuedEventHandler = (
+  event: webhook.Event,
+  context: WebhookHandlerContext,
+) => Promise<void> | void;
+
+export interface WebhookEventQueueConfig {
+  handler: QueuedEventHandler;
+  /**
+   * Number of events processed at the same time. Defaults to 10.
+   */
+  concurrency?: number;
+  /**
+   * Number of retries after the handler throws. Defaults to 2.
+   */
+  retries?: number;
+  /**
+   * Delay before the `attempt`th retry in milliseconds. Defaults to
+   * exponential backoff starting from 1 second.
+   */
+  retryDelay?: (attempt: number) => number;
+  /**
+   * Called with events the handler failed for after all retries.
+   */
+  onDeadLetter?: (
+    event: webhook.Event,
+    err: unknown,
+    context: WebhookHandlerContext,
+  ) => Promise<void> | void;
+}
+
+interface QueuedEvent {
+  event: webhook.Event;
+  context: WebhookHandlerContext;
+}
+
+let anonymousKey = 0;
+
+function orderingKey(event: webhook.Event): string {
+  const id = sourceId(event.source);
+  if (id) {
+    return `${event.source.type}:${id}`;
+  }
+  // events without a source aren't ordered
+  return `anonymous:${anonymousKey++}`;
+}
+
+/**
+ * In-process queue of webhook events. Events from the same source (user,
+ * group or room) are processed one by one in the order received, while events
+ * from different sources are processed concurrently.
+ */
+export class WebhookEventQueue {
+  private readonly handler: QueuedEventHandler;
+  private readonly concurrency: number;
+  private readonly retries: number;
+  private readonly retryDelay: (attempt: number) => number;
+  private readonly onDeadLetter: WebhookEventQueueConfig["onDeadLetter"];
+
+  // pending events per ordering key; a key is kept while its events run
+  private readonly lanes = new Map<string, QueuedEvent[]>();
+  private readonly ready: string[] = [];
+  private running = 0;
+  private closed = false;
+  private idleCallbacks: (() => void)[] = [];
+
+  constructor(config: WebhookEventQueueConfig) {
+    if (!config.handler) {
+      throw new Error("no handler");
+    }
+    this.handler = config.handler;
+    this.concurrency = config.concurrency || 10;
+    this.retries = config.retries !== undefined ? config.retries : 2;
+    this.retryDelay =
+      config.retryDelay || (attempt => 1000 * 2 ** (attempt - 1));
+    this.onDeadLetter = config.onDeadLetter;
+  }
+
+  /**
+   * Number of events waiting or being processed.
+   */
+  public get size(): number {
+    let size = this.running;
+    this.lanes.forEach(lane => (size += lane.length));
+    return size;
+  }
+
+  public push(body: webhook.CallbackRequest): void {
+    if (this.closed) {
+      throw new Error("queue is closed");
+    }
+
+    const context: WebhookHandlerContext = { destination: body.destination };
+    for (const event of body.events || []) {
+      const key = orderingKey(event);
+      const lane = this.lanes.get(key);
+      if (lane) {
+        lane.push({ event, context });
+      } else {
+        this.lanes.set(key, [{ event, context }]);
+        this.ready.push(key);
+      }
+    }
+    this.pump();
+  }
+
+  /**
+   * Resolves when all queued events are processed.
+   */
+  public drain(): Promise<void> {
+    if (this.size === 0) {
+      return Promise.resolve();
+    }
+    return new Promise(resolve => this.idleCallbacks.push(resolve));
+  }
+
+  /**
+   * Stops accepting events and resolves when the queued ones are processed.
+   */
+  public close(): Promise<void> {
+    this.closed = true;
+    return this.drain();
+  }
+
+  private pump(): void {
+    while (this.running < this.concurrency && this.ready.length > 0) {
+      this.run(this.ready.shift()).catch(() => {
+        // run() dead-letters the failures of the events it processes
+      });
+    }
+  }
+
+  private async run(key: string): Promise<void> {
+    const lane = this.lanes.get(key);
+    const item = lane.shift();
+    this.running++;
+
+    try {
+      await this.process(item);
+    } catch (err) {
+      await this.deadLetter(item, err);
+    } finally {
+      this.release(key, lane);
+    }
+  }
+
+  private release(key: string, lane: QueuedEvent[]): void {
+    this.running--;
+    if (lane.length > 0) {
+      this.ready.push(key);
+    } else {
+      this.lanes.delete(key);
+    }
+    this.pump();
+
+    if (this.size === 0) {
+      const callbacks = this.idleCallbacks;
+      this.idleCallbacks = [];
+      callbacks.forEach(callback => callback());
+    }
+  }
+
+  /**
+   * Runs the handler for the event, retrying it, and throws the error of
+   * the last attempt.
+   */
+  private async process({ event, context }: QueuedEvent): Promise<void> {
+    for (let attempt = 0; ; attempt++) {
+      try {
+        await this.handler(event, context);
+        return;
+      } catch (err) {
+        if (attempt >= this.retries) {
+          throw err;
+        }
+      }
+      await sleep(this.retryDelay(attempt + 1));
+    }
+  }
+
+  private async deadLetter(
+    { event, context }: QueuedEvent,
+    err: unknown,
+  ): Promise<void> {
+    if (this.onDeadLetter) {
+      try {
+        await this.onDeadLetter(event, err, context);
+      } catch {
+        // a failing dead-letter callback must not stop the queue
+      }
+    }
+  }
+}
+
+/**
+ * Creates a middleware which validates the signature like `middleware()`,
+ * responds `200 OK` right away and pushes the events to `queue`, so that slow
+ * handlers don't make the LINE Platform time out and redeliver events.
+ */
+export function acknowledgeMiddleware(
+  config: Types.MiddlewareConfig,
+  queue: WebhookEventQueue,
+): Middleware {
+  const parse = middleware(config);
+  return (req, res, next) =>
+    parse(req, res, err => {
+      if (err) {
+        next(err);
+        return;
+      }
+      try {
+        queue.push(req.body);
+      } catch (err) {
+        next(err);
+        return;
+      }
+      res.statusCode = 200;
+      res.end();
+    });
+}
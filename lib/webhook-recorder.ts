@@ -0,0 +1,256 @@
+import { Buffer } from "node:buffer";
+import { createReadStream } from "node:fs";
+import { appendFile, rename, rm, stat } from "node:fs/promises";
+import * as http from "node:http";
+import { createInterface } from "node:readline";
+import * as Types from "./types.js";
+import { sleep } from "./utils.js";
+import { createSignature } from "./validate-signature.js";
+
+/**
+ * A webhook request as it arrived, before signature validation.
+ */
+export interface WebhookRecording {
+  /**
+   * Arrival time in milliseconds since the epoch.
+   */
+  receivedAt: number;
+  headers: http.IncomingHttpHeaders;
+  /**
+   * The raw body, of which the signature was computed.
+   */
+  body: string;
+}
+
+/**
+ * Receives the requests given to `middleware()` or `multiChannelMiddleware()`
+ * with the `recorder` option. It must not throw; the request is processed
+ * regardless of the recording.
+ */
+export interface WebhookRecorder {
+  record(recording: WebhookRecording): void;
+}
+
+export interface FileWebhookRecorderConfig {
+  /**
+   * Path of the NDJSON file. Rotated files get `.1`, `.2`, ... appended, `.1`
+   * being the newest.
+   */
+  path: string;
+  /**
+   * Size in bytes after which the file is rotated. Defaults to 10 MiB.
+   */
+  maxBytes?: number;
+  /**
+   * Number of rotated files kept. Defaults to 5.
+   */
+  maxFiles?: number;
+  /**
+   * Called before a recording is written, e.g. to mask user IDs or message
+   * texts. Return `undefined` to drop the recording.
+   */
+  redact?: (recording: WebhookRecording) => WebhookRecording | undefined;
+  /**
+   * Called when a recording can't be written. Errors are ignored by default.
+   */
+  onError?: (err: unknown) => void;
+}
+
+async function fileSize(path: string): Promise<number> {
+  try {
+    return (await stat(path)).size;
+  } catch (err) {
+    if (err.code === "ENOENT") {
+      return 0;
+    }
+    throw err;
+  }
+}
+
+async function renameIfExists(from: string, to: string): Promise<void> {
+  try {
+    await rename(from, to);
+  } catch (err) {
+    if (err.code !== "ENOENT") {
+      throw err;
+    }
+  }
+}
+
+/**
+ * Appends recordings to an NDJSON file, one request per line, rotating it by
+ * size.
+ */
+export class FileWebhookRecorder implements WebhookRecorder {
+  private readonly path: string;
+  private readonly maxBytes: number;
+  private readonly maxFiles: number;
+  private readonly redact: FileWebhookRecorderConfig["redact"];
+  private readonly onError: (err: unknown) => void;
+
+  private size: number | undefined;
+  private writing: Promise<void> = Promise.resolve();
+
+  constructor(config: FileWebhookRecorderConfig) {
+    if (!config.path) {
+      throw new Error("no path");
+    }
+    this.path = config.path;
+    this.maxBytes = config.maxBytes ?? 10 * 1024 * 1024;
+    this.maxFiles = config.maxFiles ?? 5;
+    this.redact = config.redact;
+    this.onError = config.onError ?? (() => {});
+  }
+
+  public record(recording: WebhookRecording): void {
+    let redacted: WebhookRecording | undefined;
+    try {
+      redacted = this.redact ? this.redact(recording) : recording;
+    } catch (err) {
+      this.reportError(err);
+      return;
+    }
+    if (!redacted) {
+      return;
+    }
+
+    const line = JSON.stringify(redacted) + "\n";
+    // writes are chained to keep the order of the requests
+    this.writing = this.writing
+      .then(() => this.write(line))
+      .catch(err => this.reportError(err));
+  }
+
+  /**
+   * Resolves when the recordings given so far are written.
+   */
+  public flush(): Promise<void> {
+    return this.writing;
+  }
+
+  private reportError(err: unknown): void {
+    try {
+      this.onError(err);
+    } catch {
+      // a failing error callback must not stop the later writes
+    }
+  }
+
+  private async write(line: string): Promise<void> {
+    const bytes = Buffer.byteLength(line);
+    if (this.size === undefined) {
+      this.size = await fileSize(this.path);
+    }
+    if (this.size > 0 && this.size + bytes > this.maxBytes) {
+      await this.rotate();
+      this.size = 0;
+    }
+    await appendFile(this.path, line);
+    this.size += bytes;
+  }
+
+  private async rotate(): Promise<void> {
+    if (this.maxFiles < 1) {
+      await rm(this.path, { force: true });
+      return;
+    }
+    await rm(`${this.path}.${this.maxFiles}`, { force: true });
+    for (let i = this.maxFiles - 1; i >= 1; i--) {
+      await renameIfExists(`${this.path}.${i}`, `${this.path}.${i + 1}`);
+    }
+    await rename(this.path, `${this.path}.1`);
+  }
+}
+
+/**
+ * Reads recordings written by `FileWebhookRecorder`.
+ */
+export async function* readWebhookRecordings(
+  path: string,
+): AsyncGenerator<WebhookRecording> {
+  const lines = createInterface({
+    input: createReadStream(path),
+    crlfDelay: Infinity,
+  });
+  for await (const line of lines) {
+    if (line.trim()) {
+      yield JSON.parse(line);
+    }
+  }
+}
+
+/**
+ * URL of a running webhook endpoint, or a handler taking a `Request` such as
+ * one created by `fetchHandler()`.
+ */
+export type ReplayTarget =
+  | string
+  | URL
+  | ((request: Request) => Response | Promise<Response>);
+
+export interface ReplayOptions {
+  /**
+   * Secret to sign the bodies with, e.g. of a development channel. The
+   * recorded signatures are sent when omitted.
+   */
+  channelSecret?: string;
+  /**
+   * Wait between requests as long as between the original arrivals.
+   */
+  preserveTiming?: boolean;
+}
+
+export interface ReplayResult {
+  recording: WebhookRecording;
+  response: Response;
+}
+
+function firstHeader(value: string | string[] | undefined): string | undefined {
+  return Array.isArray(value) ? value[0] : value;
+}
+
+/**
+ * Sends recorded webhook requests to `target` one by one, in order.
+ */
+export async function replayWebhookRecordings(
+  recordings: Iterable<WebhookRecording> | AsyncIterable<WebhookRecording>,
+  target: ReplayTarget,
+  options: ReplayOptions = {},
+): Promise<ReplayResult[]> {
+  const results: ReplayResult[] = [];
+  const startedAt = Date.now();
+  let firstReceivedAt: number | undefined;
+
+  for await (const recording of recordings) {
+    if (options.preserveTiming) {
+      firstReceivedAt ??= recording.receivedAt;
+      const wait =
+        recording.receivedAt - firstReceivedAt - (Date.now() - startedAt);
+      if (wait > 0) {
+        await sleep(wait);
+      }
+    }
+
+    const signature = options.channelSecret
+      ? createSignature(recording.body, options.channelSecret)
+      : (firstHeader(
+          recording.headers[Types.LINE_SIGNATURE_HTTP_HEADER_NAME],
+        ) ?? "");
+    const init: RequestInit = {
+      method: "POST",
+      headers: {
+        "content-type":
+          firstHeader(recording.headers["content-type"]) ?? "application/json",
+        [Types.LINE_SIGNATURE_HTTP_HEADER_NAME]: signature,
+      },
+      body: recording.body,
+    };
+
+    const response =
+      typeof target === "function"
+        ? await target(new Request("http://localhost/webhook", init))
+        : await fetch(target, init);
+    results.push({ recording, response });
+  }
+  return results;
+}
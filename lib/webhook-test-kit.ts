@@ -0,0 +1,221 @@
+import { createSignature } from "./validate-signature.js";
+import * as webhook from "./webhook/api.js";
+
+type EventType = webhook.Event["type"];
+type MessageContentType = webhook.MessageContent["type"];
+
+export type WebhookEventOf<T extends EventType> = Extract<
+  webhook.Event,
+  { type: T }
+>;
+
+export type MessageContentOf<T extends MessageContentType> = Extract<
+  webhook.MessageContent,
+  { type: T }
+>;
+
+export const TEST_DESTINATION = "Ufedcba9876543210fedcba9876543210";
+export const TEST_USER_ID = "U0123456789abcdef0123456789abcdef";
+export const TEST_GROUP_ID = "C0123456789abcdef0123456789abcdef";
+
+// events which only happen in group chats
+const GROUP_EVENT_TYPES: EventType[] = [
+  "join",
+  "leave",
+  "memberJoined",
+  "memberLeft",
+];
+
+let sequence = 0;
+
+function nextId(): number {
+  return ++sequence;
+}
+
+const messageDefaults: {
+  [T in MessageContentType]: (
+    id: number,
+  ) => Omit<MessageContentOf<T>, "type" | "id">;
+} = {
+  text: id => ({ text: "hello", quoteToken: `test_quote_token_${id}` }),
+  image: id => ({
+    contentProvider: { type: "line" },
+    quoteToken: `test_quote_token_${id}`,
+  }),
+  video: id => ({
+    duration: 10000,
+    contentProvider: { type: "line" },
+    quoteToken: `test_quote_token_${id}`,
+  }),
+  audio: () => ({ duration: 10000, contentProvider: { type: "line" } }),
+  file: () => ({ fileName: "file.txt", fileSize: 1024 }),
+  location: () => ({
+    title: "LINE Corporation",
+    address: "1-6-1 Yotsuya, Shinjuku-ku, Tokyo",
+    latitude: 35.687574,
+    longitude: 139.72922,
+  }),
+  sticker: id => ({
+    packageId: "446",
+    stickerId: "1988",
+    stickerResourceType: "STATIC",
+    quoteToken: `test_quote_token_${id}`,
+  }),
+};
+
+const eventDefaults: {
+  [T in EventType]: (
+    id: number,
+  ) => Omit<WebhookEventOf<T>, keyof webhook.EventBase>;
+} = {
+  accountLink: id => ({
+    replyToken: `test_reply_token_${id}`,
+    link: { result: "ok", nonce: `test_nonce_${id}` },
+  }),
+  activated: () => ({ chatControl: { expireAt: Date.now() + 3600 * 1000 } }),
+  beacon: id => ({
+    replyToken: `test_reply_token_${id}`,
+    beacon: { hwid: "d41d8cd98f", type: "enter" },
+  }),
+  botResumed: () => ({}),
+  botSuspended: () => ({}),
+  deactivated: () => ({}),
+  delivery: id => ({ delivery: { data: `test_delivery_data_${id}` } }),
+  follow: id => ({
+    replyToken: `test_reply_token_${id}`,
+    follow: { isUnblocked: false },
+  }),
+  join: id => ({ replyToken: `test_reply_token_${id}` }),
+  leave: () => ({}),
+  memberJoined: id => ({
+    replyToken: `test_reply_token_${id}`,
+    joined: { members: [{ type: "user", userId: TEST_USER_ID }] },
+  }),
+  memberLeft: () => ({
+    left: { members: [{ type: "user", userId: TEST_USER_ID }] },
+  }),
+  membership: id => ({
+    replyToken: `test_reply_token_${id}`,
+    membership: { type: "joined", membershipId: 1 },
+  }),
+  message: id => ({
+    replyToken: `test_reply_token_${id}`,
+    message: {
+      type: "text",
+      id: `test_message_id_${id}`,
+      ...messageDefaults.text(id),
+    },
+  }),
+  module: () => ({
+    module: { type: "attached", botId: TEST_USER_ID, scopes: ["message"] },
+  }),
+  postback: id => ({
+    replyToken: `test_reply_token_${id}`,
+    postback: { data: "" },
+  }),
+  things: id => ({
+    replyToken: `test_reply_token_${id}`,
+    things: { type: "link", deviceId: `test_device_id_${id}` },
+  }),
+  unfollow: () => ({}),
+  unsend: id => ({ unsend: { messageId: `test_message_id_${id}` } }),
+  videoPlayComplete: id => ({
+    replyToken: `test_reply_token_${id}`,
+    videoPlayComplete: { trackingId: `test_tracking_id_${id}` },
+  }),
+};
+
+/**
+ * Builds a webhook event of `type` with valid defaults. Each event gets its
+ * own `webhookEventId` and reply token. Events happening only in groups, such
+ * as `join`, come from a group; the others come from a user.
+ */
+export function createEvent<T extends EventType>(
+  type: T,
+  overrides: Partial<WebhookEventOf<T>> = {},
+): WebhookEventOf<T> {
+  const id = nextId();
+  const source: webhook.Source = GROUP_EVENT_TYPES.includes(type)
+    ? { type: "group", groupId: TEST_GROUP_ID }
+    : { type: "user", userId: TEST_USER_ID };
+
+  return {
+    type,
+    source,
+    timestamp: Date.now(),
+    mode: "active",
+    webhookEventId: `test_webhook_event_id_${id}`,
+    deliveryContext: { isRedelivery: false },
+    ...eventDefaults[type](id),
+    ...overrides,
+  } as WebhookEventOf<T>;
+}
+
+/**
+ * Builds a message event whose message is of `type`.
+ */
+export function createMessageEvent<T extends MessageContentType>(
+  type: T,
+  message: Partial<MessageContentOf<T>> = {},
+  overrides: Partial<webhook.MessageEvent> = {},
+): webhook.MessageEvent & { message: MessageContentOf<T> } {
+  const event = createEvent("message", overrides);
+  const id = nextId();
+  return {
+    ...event,
+    message: {
+      type,
+      id: `test_message_id_${id}`,
+      ...messageDefaults[type](id),
+      ...message,
+    } as MessageContentOf<T>,
+  };
+}
+
+/**
+ * Builds a postback event. `params` is set as datetime pickers and rich
+ * menu switch actions do.
+ */
+export function createPostbackEvent(
+  data: string,
+  params?: { [key: string]: string },
+  overrides: Partial<webhook.PostbackEvent> = {},
+): webhook.PostbackEvent {
+  return createEvent("postback", {
+    postback: params ? { data, params } : { data },
+    ...overrides,
+  });
+}
+
+export function createCallbackRequest(
+  events: webhook.Event[],
+  destination: string = TEST_DESTINATION,
+): webhook.CallbackRequest {
+  return { destination, events };
+}
+
+export interface SignedWebhookRequest {
+  body: string;
+  signature: string;
+  headers: { "content-type": string; "x-line-signature": string };
+}
+
+/**
+ * Serializes the request body and signs it with `channelSecret` as the LINE
+ * Platform does, so that it passes `middleware()` and `validateSignature()`.
+ */
+export function signWebhookRequest(
+  body: webhook.CallbackRequest | string,
+  channelSecret: string,
+): SignedWebhookRequest {
+  const raw = typeof body === "string" ? body : JSON.stringify(body);
+  const signature = createSignature(raw, channelSecret);
+  return {
+    body: raw,
+    signature,
+    headers: {
+      "content-type": "application/json",
+      "x-line-signature": signature,
+    },
+  };
+}
@@ -0,0 +1,252 @@
+import { WebhookValidationError } from "./exceptions.js";
+import { Middleware } from "./middleware.js";
+import * as webhook from "./webhook/api.js";
+import {
+  ModelSchema,
+  PropertySchema,
+  schemas,
+} from "./webhook/model/schemas.js";
+
+/**
+ * `strict` rejects unknown properties and unknown event or message types.
+ * `lenient` passes them through and reports them as warnings.
+ */
+export type WebhookValidationMode = "strict" | "lenient";
+
+export interface WebhookValidationOptions {
+  /**
+   * Defaults to `lenient`.
+   */
+  mode?: WebhookValidationMode;
+}
+
+export interface WebhookValidationDiagnostic {
+  /**
+   * Path to the invalid value, e.g. `events[0].message.text`.
+   */
+  path: string;
+  message: string;
+  severity: "error" | "warning";
+}
+
+export interface WebhookValidationResult<T> {
+  /**
+   * Whether no diagnostic has the `error` severity.
+   */
+  valid: boolean;
+  value: T;
+  diagnostics: WebhookValidationDiagnostic[];
+}
+
+class Validator {
+  public readonly diagnostics: WebhookValidationDiagnostic[] = [];
+  private readonly mode: WebhookValidationMode;
+
+  constructor(mode: WebhookValidationMode) {
+    this.mode = mode;
+  }
+
+  public model(value: any, name: string, path: string): void {
+    const schema = schemas[name];
+
+    if (schema.enum) {
+      if (typeof value !== "string") {
+        this.error(path, "must be a string");
+      } else if (!schema.enum.includes(value)) {
+        this.unknown(path, `unknown value "${value}"`);
+      }
+      return;
+    }
+
+    if (!isObject(value)) {
+      this.error(path, "must be an object");
+      return;
+    }
+
+    if (schema.discriminator) {
+      const { propertyName, mapping } = schema.discriminator;
+      const type = value[propertyName];
+      if (typeof type === "string" && mapping[type]) {
+        this.model(value, mapping[type], path);
+        return;
+      }
+      if (typeof type === "string") {
+        this.unknown(join(path, propertyName), `unknown ${name} "${type}"`);
+      }
+      // check the common properties only, other properties are unknown
+      this.properties(value, this.collectProperties(schema), path, false);
+      return;
+    }
+
+    this.properties(value, this.collectProperties(schema), path, true);
+  }
+
+  private properties(
+    value: Record<string, any>,
+    properties: Record<string, PropertySchema>,
+    path: string,
+    checkUnknown: boolean,
+  ): void {
+    for (const [key, property] of Object.entries(properties)) {
+      const propertyPath = join(path, key);
+      if (value[key] === undefined || value[key] === null) {
+        if (property.required) {
+          this.error(propertyPath, "is required");
+        }
+        continue;
+      }
+      this.property(value[key], property, propertyPath);
+    }
+
+    if (checkUnknown) {
+      for (const key of Object.keys(value)) {
+        if (!(key in properties)) {
+          this.unknown(join(path, key), "unknown property");
+        }
+      }
+    }
+  }
+
+  private property(value: any, property: PropertySchema, path: string): void {
+    switch (property.type) {
+      case "string":
+        if (typeof value !== "string") {
+          this.error(path, "must be a string");
+        } else if (property.enum && !property.enum.includes(value)) {
+          this.unknown(path, `unknown value "${value}"`);
+        }
+        break;
+      case "number":
+        if (typeof value !== "number") {
+          this.error(path, "must be a number");
+        }
+        break;
+      case "boolean":
+        if (typeof value !== "boolean") {
+          this.error(path, "must be a boolean");
+        }
+        break;
+      case "array":
+        if (!Array.isArray(value)) {
+          this.error(path, "must be an array");
+          break;
+        }
+        value.forEach((item, i) =>
+          this.property(item, property.items, `${path}[${i}]`),
+        );
+        break;
+      case "map":
+        if (!isObject(value)) {
+          this.error(path, "must be an object");
+          break;
+        }
+        for (const [key, item] of Object.entries(value)) {
+          this.property(item, property.items, join(path, key));
+        }
+        break;
+      case "model":
+        this.model(value, property.model, path);
+        break;
+    }
+  }
+
+  private collectProperties(
+    schema: ModelSchema,
+  ): Record<string, PropertySchema> {
+    const parent = schema.parent && schemas[schema.parent];
+    return {
+      ...(parent ? this.collectProperties(parent) : {}),
+      ...schema.properties,
+    };
+  }
+
+  private error(path: string, message: string): void {
+    this.diagnostics.push({ path, message, severity: "error" });
+  }
+
+  private unknown(path: string, message: string): void {
+    this.diagnostics.push({
+      path,
+      message,
+      severity: this.mode === "strict" ? "error" : "warning",
+    });
+  }
+}
+
+function isObject(value: any): value is Record<string, any> {
+  return typeof value === "object" && value !== null && !Array.isArray(value);
+}
+
+function join(path: string, key: string): string {
+  return path ? `${path}.${key}` : key;
+}
+
+function validate<T>(
+  value: unknown,
+  model: string,
+  { mode = "lenient" }: WebhookValidationOptions = {},
+): WebhookValidationResult<T> {
+  const validator = new Validator(mode);
+  validator.model(value, model, "");
+  const { diagnostics } = validator;
+  return {
+    valid: diagnostics.every(d => d.severity !== "error"),
+    value: value as T,
+    diagnostics,
+  };
+}
+
+/**
+ * Validates a webhook request body against the models in `lib/webhook/model`.
+ */
+export function validateCallbackRequest(
+  body: unknown,
+  options?: WebhookValidationOptions,
+): WebhookValidationResult<webhook.CallbackRequest> {
+  return validate(body, "CallbackRequest", options);
+}
+
+export function validateEvent(
+  event: unknown,
+  options?: WebhookValidationOptions,
+): WebhookValidationResult<webhook.Event> {
+  return validate(event, "Event", options);
+}
+
+export function validateMessageContent(
+  message: unknown,
+  options?: WebhookValidationOptions,
+): WebhookValidationResult<webhook.MessageContent> {
+  return validate(message, "MessageContent", options);
+}
+
+export interface ValidationMiddlewareConfig extends WebhookValidationOptions {
+  /**
+   * Called with the diagnostics of a request, if any, e.g. to log warnings.
+   */
+  onDiagnostics?: (diagnostics: WebhookValidationDiagnostic[]) => void;
+}
+
+/**
+ * Creates a middleware validating `req.body` parsed by `middleware()`. Use it
+ * after `middleware()`. An invalid body results in `WebhookValidationError`.
+ */
+export function validationMiddleware(
+  config: ValidationMiddlewareConfig = {},
+): Middleware {
+  return (req, res, next): void => {
+    const { valid, diagnostics } = validateCallbackRequest(req.body, config);
+    if (diagnostics.length > 0 && config.onDiagnostics) {
+      config.onDiagnostics(diagnostics);
+    }
+    if (!valid) {
+      next(
+        new WebhookValidationError("webhook validation failed", {
+          diagnostics,
+        }),
+      );
+      return;
+    }
+    next();
+  };
+}
@@ -0,0 +1,637 @@
+/**
+ * Webhook Type Definition
+ * Webhook event definition of the LINE Messaging API
+ *
+ * The version of the OpenAPI document: 1.0.0
+ *
+ *
+ * NOTE: This class is auto generated by OpenAPI Generator (https://openapi-generator.tech).
+ * https://openapi-generator.tech
+ * Do not edit the class manually.
+ */
+
+// ===============================================
+// This file is autogenerated - Please do not edit
+// ===============================================
+
+/**
+ * Runtime schema of a property.
+ */
+export type PropertySchema = {
+  type: "string" | "number" | "boolean" | "array" | "map" | "model";
+  required?: boolean;
+  enum?: string[];
+  model?: string;
+  items?: PropertySchema;
+};
+
+/**
+ * Runtime schema of a model.
+ */
+export type ModelSchema = {
+  parent?: string;
+  discriminator?: { propertyName: string; mapping: Record<string, string> };
+  enum?: string[];
+  properties: Record<string, PropertySchema>;
+};
+
+export const schemas: Record<string, ModelSchema> = {
+  AccountLinkEvent: {
+    parent: "Event",
+    properties: {
+      type: { type: "string", required: true, enum: ["accountLink"] },
+      replyToken: { type: "string" },
+      link: { type: "model", required: true, model: "LinkContent" },
+    },
+  },
+  ActionResult: {
+    properties: {
+      type: { type: "string", required: true, enum: ["void", "binary"] },
+      data: { type: "string" },
+    },
+  },
+  ActivatedEvent: {
+    parent: "Event",
+    properties: {
+      type: { type: "string", required: true, enum: ["activated"] },
+      chatControl: { type: "model", required: true, model: "ChatControl" },
+    },
+  },
+  AllMentionee: {
+    parent: "Mentionee",
+    properties: {
+      type: { type: "string", required: true, enum: ["all"] },
+    },
+  },
+  AttachedModuleContent: {
+    parent: "ModuleContent",
+    properties: {
+      type: { type: "string", required: true, enum: ["attached"] },
+      botId: { type: "string", required: true },
+      scopes: { type: "array", required: true, items: { type: "string" } },
+    },
+  },
+  AudioMessageContent: {
+    parent: "MessageContent",
+    properties: {
+      type: { type: "string", required: true, enum: ["audio"] },
+      contentProvider: {
+        type: "model",
+        required: true,
+        model: "ContentProvider",
+      },
+      duration: { type: "number" },
+    },
+  },
+  BeaconContent: {
+    properties: {
+      hwid: { type: "string", required: true },
+      type: {
+        type: "string",
+        required: true,
+        enum: ["enter", "banner", "stay"],
+      },
+      dm: { type: "string" },
+    },
+  },
+  BeaconEvent: {
+    parent: "Event",
+    properties: {
+      type: { type: "string", required: true, enum: ["beacon"] },
+      replyToken: { type: "string", required: true },
+      beacon: { type: "model", required: true, model: "BeaconContent" },
+    },
+  },
+  BotResumedEvent: {
+    parent: "Event",
+    properties: {
+      type: { type: "string", required: true, enum: ["botResumed"] },
+    },
+  },
+  BotSuspendedEvent: {
+    parent: "Event",
+    properties: {
+      type: { type: "string", required: true, enum: ["botSuspended"] },
+    },
+  },
+  CallbackRequest: {
+    properties: {
+      destination: { type: "string", required: true },
+      events: {
+        type: "array",
+        required: true,
+        items: { type: "model", model: "Event" },
+      },
+    },
+  },
+  ChatControl: {
+    properties: {
+      expireAt: { type: "number", required: true },
+    },
+  },
+  ContentProvider: {
+    properties: {
+      type: { type: "string", required: true, enum: ["line", "external"] },
+      originalContentUrl: { type: "string" },
+      previewImageUrl: { type: "string" },
+    },
+  },
+  DeactivatedEvent: {
+    parent: "Event",
+    properties: {
+      type: { type: "string", required: true, enum: ["deactivated"] },
+    },
+  },
+  DeliveryContext: {
+    properties: {
+      isRedelivery: { type: "boolean", required: true },
+    },
+  },
+  DetachedModuleContent: {
+    parent: "ModuleContent",
+    properties: {
+      type: { type: "string", required: true, enum: ["detached"] },
+      botId: { type: "string", required: true },
+      reason: { type: "string", required: true, enum: ["bot_deleted"] },
+    },
+  },
+  Emoji: {
+    properties: {
+      index: { type: "number", required: true },
+      length: { type: "number", required: true },
+      productId: { type: "string", required: true },
+      emojiId: { type: "string", required: true },
+    },
+  },
+  Event: {
+    discriminator: {
+      propertyName: "type",
+      mapping: {
+        accountLink: "AccountLinkEvent",
+        activated: "ActivatedEvent",
+        beacon: "BeaconEvent",
+        botResumed: "BotResumedEvent",
+        botSuspended: "BotSuspendedEvent",
+        deactivated: "DeactivatedEvent",
+        delivery: "PnpDeliveryCompletionEvent",
+        follow: "FollowEvent",
+        join: "JoinEvent",
+        leave: "LeaveEvent",
+        memberJoined: "MemberJoinedEvent",
+        memberLeft: "MemberLeftEvent",
+        membership: "MembershipEvent",
+        message: "MessageEvent",
+        module: "ModuleEvent",
+        postback: "PostbackEvent",
+        things: "ThingsEvent",
+        unfollow: "UnfollowEvent",
+        unsend: "UnsendEvent",
+        videoPlayComplete: "VideoPlayCompleteEvent",
+      },
+    },
+    properties: {
+      type: { type: "string", required: true },
+      source: { type: "model", model: "Source" },
+      timestamp: { type: "number", required: true },
+      mode: { type: "model", required: true, model: "EventMode" },
+      webhookEventId: { type: "string", required: true },
+      deliveryContext: {
+        type: "model",
+        required: true,
+        model: "DeliveryContext",
+      },
+    },
+  },
+  EventMode: {
+    enum: ["active", "standby"],
+    properties: {},
+  },
+  FileMessageContent: {
+    parent: "MessageContent",
+    properties: {
+      type: { type: "string", required: true, enum: ["file"] },
+      fileName: { type: "string", required: true },
+      fileSize: { type: "number", required: true },
+    },
+  },
+  FollowDetail: {
+    properties: {
+      isUnblocked: { type: "boolean", required: true },
+    },
+  },
+  FollowEvent: {
+    parent: "Event",
+    properties: {
+      type: { type: "string", required: true, enum: ["follow"] },
+      replyToken: { type: "string", required: true },
+      follow: { type: "model", required: true, model: "FollowDetail" },
+    },
+  },
+  GroupSource: {
+    parent: "Source",
+    properties: {
+      type: { type: "string", required: true, enum: ["group"] },
+      groupId: { type: "string", required: true },
+      userId: { type: "string" },
+    },
+  },
+  ImageMessageContent: {
+    parent: "MessageContent",
+    properties: {
+      type: { type: "string", required: true, enum: ["image"] },
+      contentProvider: {
+        type: "model",
+        required: true,
+        model: "ContentProvider",
+      },
+      imageSet: { type: "model", model: "ImageSet" },
+      quoteToken: { type: "string", required: true },
+    },
+  },
+  ImageSet: {
+    properties: {
+      id: { type: "string", required: true },
+      index: { type: "number" },
+      total: { type: "number" },
+    },
+  },
+  JoinEvent: {
+    parent: "Event",
+    properties: {
+      type: { type: "string", required: true, enum: ["join"] },
+      replyToken: { type: "string", required: true },
+    },
+  },
+  JoinedMembers: {
+    properties: {
+      members: {
+        type: "array",
+        required: true,
+        items: { type: "model", model: "UserSource" },
+      },
+    },
+  },
+  JoinedMembershipContent: {
+    parent: "MembershipContent",
+    properties: {
+      type: { type: "string", required: true, enum: ["joined"] },
+      membershipId: { type: "number", required: true },
+    },
+  },
+  LeaveEvent: {
+    parent: "Event",
+    properties: {
+      type: { type: "string", required: true, enum: ["leave"] },
+    },
+  },
+  LeftMembers: {
+    properties: {
+      members: {
+        type: "array",
+        required: true,
+        items: { type: "model", model: "UserSource" },
+      },
+    },
+  },
+  LeftMembershipContent: {
+    parent: "MembershipContent",
+    properties: {
+      type: { type: "string", required: true, enum: ["left"] },
+      membershipId: { type: "number", required: true },
+    },
+  },
+  LinkContent: {
+    properties: {
+      result: { type: "string", required: true, enum: ["ok", "failed"] },
+      nonce: { type: "string", required: true },
+    },
+  },
+  LinkThingsContent: {
+    parent: "ThingsContent",
+    properties: {
+      type: { type: "string", required: true, enum: ["link"] },
+      deviceId: { type: "string", required: true },
+    },
+  },
+  LocationMessageContent: {
+    parent: "MessageContent",
+    properties: {
+      type: { type: "string", required: true, enum: ["location"] },
+      title: { type: "string" },
+      address: { type: "string" },
+      latitude: { type: "number", required: true },
+      longitude: { type: "number", required: true },
+    },
+  },
+  MemberJoinedEvent: {
+    parent: "Event",
+    properties: {
+      type: { type: "string", required: true, enum: ["memberJoined"] },
+      replyToken: { type: "string", required: true },
+      joined: { type: "model", required: true, model: "JoinedMembers" },
+    },
+  },
+  MemberLeftEvent: {
+    parent: "Event",
+    properties: {
+      type: { type: "string", required: true, enum: ["memberLeft"] },
+      left: { type: "model", required: true, model: "LeftMembers" },
+    },
+  },
+  MembershipContent: {
+    discriminator: {
+      propertyName: "type",
+      mapping: {
+        joined: "JoinedMembershipContent",
+        left: "LeftMembershipContent",
+        renewed: "RenewedMembershipContent",
+      },
+    },
+    properties: {
+      type: { type: "string", required: true },
+    },
+  },
+  MembershipEvent: {
+    parent: "Event",
+    properties: {
+      type: { type: "string", required: true, enum: ["membership"] },
+      replyToken: { type: "string", required: true },
+      membership: { type: "model", required: true, model: "MembershipContent" },
+    },
+  },
+  Mention: {
+    properties: {
+      mentionees: {
+        type: "array",
+        required: true,
+        items: { type: "model", model: "Mentionee" },
+      },
+    },
+  },
+  Mentionee: {
+    discriminator: {
+      propertyName: "type",
+      mapping: {
+        all: "AllMentionee",
+        user: "UserMentionee",
+      },
+    },
+    properties: {
+      type: { type: "string", required: true },
+      index: { type: "number", required: true },
+      length: { type: "number", required: true },
+    },
+  },
+  MessageContent: {
+    discriminator: {
+      propertyName: "type",
+      mapping: {
+        audio: "AudioMessageContent",
+        file: "FileMessageContent",
+        image: "ImageMessageContent",
+        location: "LocationMessageContent",
+        sticker: "StickerMessageContent",
+        text: "TextMessageContent",
+        video: "VideoMessageContent",
+      },
+    },
+    properties: {
+      type: { type: "string", required: true },
+      id: { type: "string", required: true },
+    },
+  },
+  MessageEvent: {
+    parent: "Event",
+    properties: {
+      type: { type: "string", required: true, enum: ["message"] },
+      replyToken: { type: "string" },
+      message: { type: "model", required: true, model: "MessageContent" },
+    },
+  },
+  ModuleContent: {
+    discriminator: {
+      propertyName: "type",
+      mapping: {
+        attached: "AttachedModuleContent",
+        detached: "DetachedModuleContent",
+      },
+    },
+    properties: {
+      type: { type: "string", required: true },
+    },
+  },
+  ModuleEvent: {
+    parent: "Event",
+    properties: {
+      type: { type: "string", required: true, enum: ["module"] },
+      module: { type: "model", required: true, model: "ModuleContent" },
+    },
+  },
+  PnpDelivery: {
+    properties: {
+      data: { type: "string", required: true },
+    },
+  },
+  PnpDeliveryCompletionEvent: {
+    parent: "Event",
+    properties: {
+      type: { type: "string", required: true, enum: ["delivery"] },
+      delivery: { type: "model", required: true, model: "PnpDelivery" },
+    },
+  },
+  PostbackContent: {
+    properties: {
+      data: { type: "string", required: true },
+      params: { type: "map", items: { type: "string" } },
+    },
+  },
+  PostbackEvent: {
+    parent: "Event",
+    properties: {
+      type: { type: "string", required: true, enum: ["postback"] },
+      replyToken: { type: "string" },
+      postback: { type: "model", required: true, model: "PostbackContent" },
+    },
+  },
+  RenewedMembershipContent: {
+    parent: "MembershipContent",
+    properties: {
+      type: { type: "string", required: true, enum: ["renewed"] },
+      membershipId: { type: "number", required: true },
+    },
+  },
+  RoomSource: {
+    parent: "Source",
+    properties: {
+      type: { type: "string", required: true, enum: ["room"] },
+      userId: { type: "string" },
+      roomId: { type: "string", required: true },
+    },
+  },
+  ScenarioResult: {
+    properties: {
+      scenarioId: { type: "string" },
+      revision: { type: "number" },
+      startTime: { type: "number", required: true },
+      endTime: { type: "number", required: true },
+      resultCode: { type: "string", required: true },
+      actionResults: {
+        type: "array",
+        items: { type: "model", model: "ActionResult" },
+      },
+      bleNotificationPayload: { type: "string" },
+      errorReason: { type: "string" },
+    },
+  },
+  ScenarioResultThingsContent: {
+    parent: "ThingsContent",
+    properties: {
+      type: { type: "string", required: true, enum: ["scenarioResult"] },
+      deviceId: { type: "string", required: true },
+      result: { type: "model", required: true, model: "ScenarioResult" },
+    },
+  },
+  Source: {
+    discriminator: {
+      propertyName: "type",
+      mapping: {
+        group: "GroupSource",
+        room: "RoomSource",
+        user: "UserSource",
+      },
+    },
+    properties: {
+      type: { type: "string" },
+    },
+  },
+  StickerMessageContent: {
+    parent: "MessageContent",
+    properties: {
+      type: { type: "string", required: true, enum: ["sticker"] },
+      packageId: { type: "string", required: true },
+      stickerId: { type: "string", required: true },
+      stickerResourceType: {
+        type: "string",
+        required: true,
+        enum: [
+          "STATIC",
+          "ANIMATION",
+          "SOUND",
+          "ANIMATION_SOUND",
+          "POPUP",
+          "POPUP_SOUND",
+          "CUSTOM",
+          "MESSAGE",
+          "NAME_TEXT",
+          "PER_STICKER_TEXT",
+        ],
+      },
+      keywords: { type: "array", items: { type: "string" } },
+      text: { type: "string" },
+      quoteToken: { type: "string", required: true },
+      quotedMessageId: { type: "string" },
+    },
+  },
+  TextMessageContent: {
+    parent: "MessageContent",
+    properties: {
+      type: { type: "string", required: true, enum: ["text"] },
+      text: { type: "string", required: true },
+      emojis: { type: "array", items: { type: "model", model: "Emoji" } },
+      mention: { type: "model", model: "Mention" },
+      quoteToken: { type: "string", required: true },
+      quotedMessageId: { type: "string" },
+    },
+  },
+  ThingsContent: {
+    discriminator: {
+      propertyName: "type",
+      mapping: {
+        link: "LinkThingsContent",
+        scenarioResult: "ScenarioResultThingsContent",
+        unlink: "UnlinkThingsContent",
+      },
+    },
+    properties: {
+      type: { type: "string", required: true },
+    },
+  },
+  ThingsEvent: {
+    parent: "Event",
+    properties: {
+      type: { type: "string", required: true, enum: ["things"] },
+      replyToken: { type: "string", required: true },
+      things: { type: "model", required: true, model: "ThingsContent" },
+    },
+  },
+  UnfollowEvent: {
+    parent: "Event",
+    properties: {
+      type: { type: "string", required: true, enum: ["unfollow"] },
+    },
+  },
+  UnlinkThingsContent: {
+    parent: "ThingsContent",
+    properties: {
+      type: { type: "string", required: true, enum: ["unlink"] },
+      deviceId: { type: "string", required: true },
+    },
+  },
+  UnsendDetail: {
+    properties: {
+      messageId: { type: "string", required: true },
+    },
+  },
+  UnsendEvent: {
+    parent: "Event",
+    properties: {
+      type: { type: "string", required: true, enum: ["unsend"] },
+      unsend: { type: "model", required: true, model: "UnsendDetail" },
+    },
+  },
+  UserMentionee: {
+    parent: "Mentionee",
+    properties: {
+      type: { type: "string", required: true, enum: ["user"] },
+      userId: { type: "string" },
+      isSelf: { type: "boolean" },
+    },
+  },
+  UserSource: {
+    parent: "Source",
+    properties: {
+      type: { type: "string", required: true, enum: ["user"] },
+      userId: { type: "string" },
+    },
+  },
+  VideoMessageContent: {
+    parent: "MessageContent",
+    properties: {
+      type: { type: "string", required: true, enum: ["video"] },
+      duration: { type: "number" },
+      contentProvider: {
+        type: "model",
+        required: true,
+        model: "ContentProvider",
+      },
+      quoteToken: { type: "string", required: true },
+    },
+  },
+  VideoPlayComplete: {
+    properties: {
+      trackingId: { type: "string", required: true },
+    },
+  },
+  VideoPlayCompleteEvent: {
+    parent: "Event",
+    properties: {
+      type: { type: "string", required: true, enum: ["videoPlayComplete"] },
+      replyToken: { type: "string", required: true },
+      videoPlayComplete: {
+        type: "model",
+        required: true,
+        model: "VideoPlayComplete",
+      },
+    },
+  },
+};
@@ -0,0 +1,161 @@
+import { deepEqual, equal, rejects } from "node:assert";
+import {
+  channelAccessToken,
+  messagingApi,
+  RefreshingChannelAccessTokenProvider,
+  statelessChannelAccessTokenProvider,
+  UnauthorizedError,
+} from "../lib/index.js";
+
+import { afterEach, beforeEach, describe, it, vi } from "vitest";
+
+describe("channel-access-token-provider", () => {
+  beforeEach(() => {
+    vi.useFakeTimers();
+  });
+
+  afterEach(() => {
+    vi.useRealTimers();
+  });
+
+  const issuing = () => {
+    let count = 0;
+    const issue = vi.fn(async () => {
+      count++;
+      return { access_token: `token${count}`, expires_in: 900 };
+    });
+    return issue;
+  };
+
+  it("uses a token until the refresh margin before its expiry", async () => {
+    const issue = issuing();
+    const provider = new RefreshingChannelAccessTokenProvider({ issue });
+
+    equal(await provider.getToken(), "token1");
+    vi.advanceTimersByTime((900 - 61) * 1000);
+    equal(await provider.getToken(), "token1");
+    vi.advanceTimersByTime(1000);
+    equal(await provider.getToken(), "token2");
+    equal(issue.mock.calls.length, 2);
+  });
+
+  it("issues a token once for concurrent requests", async () => {
+    const issue = issuing();
+    const provider = new RefreshingChannelAccessTokenProvider({ issue });
+
+    const tokens = await Promise.all([
+      provider.getToken(),
+      provider.getToken(),
+      provider.getToken(),
+    ]);
+
+    deepEqual(tokens, ["token1", "token1", "token1"]);
+    equal(issue.mock.calls.length, 1);
+  });
+
+  it("issues again after a failed issuance", async () => {
+    const issue = vi
+      .fn()
+      .mockRejectedValueOnce(new Error("unavailable"))
+      .mockResolvedValueOnce({ access_token: "token", expires_in: 900 });
+    const provider = new RefreshingChannelAccessTokenProvider({ issue });
+
+    await rejects(provider.getToken(), /unavailable/);
+    equal(await provider.getToken(), "token");
+  });
+
+  it("invalidates only the current token", async () => {
+    const issue = issuing();
+    const provider = new RefreshingChannelAccessTokenProvider({ issue });
+
+    await provider.getToken();
+    provider.invalidate("token0");
+    equal(await provider.getToken(), "token1");
+    provider.invalidate("token1");
+    equal(await provider.getToken(), "token2");
+  });
+
+  it("issues stateless tokens with the channel secret", async () => {
+    vi.useRealTimers();
+    const requests: Request[] = [];
+    const client = new channelAccessToken.ChannelAccessTokenClient({
+      baseURL: "http://localhost",
+      fetch: async (input, init) => {
+        requests.push(new Request(input, init));
+        return Response.json({
+          access_token: "stateless",
+          expires_in: 900,
+          token_type: "Bearer",
+        });
+      },
+    });
+    const provider = statelessChannelAccessTokenProvider(
+      { channelId: "1234", channelSecret: "secret" },
+      { client },
+    );
+
+    equal(await provider.getToken(), "stateless");
+    equal(new URL(requests[0].url).pathname, "/oauth2/v3/token");
+    const form = new URLSearchParams(await requests[0].text());
+    equal(form.get("grant_type"), "client_credentials");
+    equal(form.get("client_id"), "1234");
+    equal(form.get("client_secret"), "secret");
+  });
+
+  describe("with the clients", () => {
+    beforeEach(() => {
+      vi.useRealTimers();
+    });
+
+    const createClient = (
+      issue: () => Promise<{ access_token: string; expires_in: number }>,
+      validTokens: string[],
+    ) => {
+      const authorizations: (string | null)[] = [];
+      const provider = new RefreshingChannelAccessTokenProvider({ issue });
+      const client = new messagingApi.MessagingApiClient({
+        channelAccessToken: provider,
+        baseURL: "http://localhost",
+        fetch: async (input, init) => {
+          const authorization = new Request(input, init).headers.get(
+            "Authorization",
+          );
+          authorizations.push(authorization);
+          return validTokens.some(token => authorization === `Bearer ${token}`)
+            ? Response.json({})
+            : Response.json(
+                { message: "Authentication failed" },
+                { status: 401 },
+              );
+        },
+      });
+      return { client, authorizations };
+    };
+
+    it("sends the token of the provider", async () => {
+      const { client, authorizations } = createClient(issuing(), ["token1"]);
+
+      await client.getBotInfo();
+      await client.getBotInfo();
+
+      deepEqual(authorizations, ["Bearer token1", "Bearer token1"]);
+    });
+
+    it("retries once with a new token after 401", async () => {
+      const issue = issuing();
+      const { client, authorizations } = createClient(issue, ["token2"]);
+
+      await client.getBotInfo();
+
+      deepEqual(authorizations, ["Bearer token1", "Bearer token2"]);
+      equal(issue.mock.calls.length, 2);
+    });
+
+    it("fails with 401 of the new token", async () => {
+      const { client, authorizations } = createClient(issuing(), []);
+
+      await rejects(client.getBotInfo(), UnauthorizedError);
+      equal(authorizations.length, 2);
+    });
+  });
+});
@@ -0,0 +1,132 @@
+import { deepEqual, equal, ok, throws } from "node:assert";
+import { Buffer } from "node:buffer";
+import { createPublicKey, generateKeyPairSync, verify } from "node:crypto";
+import {
+  AssertionSigningKeyPair,
+  channelAccessToken,
+  createClientAssertion,
+  generateAssertionSigningKeyPair,
+  jwtChannelAccessTokenProvider,
+} from "../lib/index.js";
+
+import { beforeAll, describe, it } from "vitest";
+
+const decode = (part: string) =>
+  JSON.parse(Buffer.from(part, "base64url").toString());
+
+describe("client-assertion", () => {
+  let keyPair: AssertionSigningKeyPair;
+
+  beforeAll(async () => {
+    keyPair = await generateAssertionSigningKeyPair();
+  });
+
+  it("generates an RSA key pair as JWKs", () => {
+    equal(keyPair.publicKey.kty, "RSA");
+    equal(keyPair.publicKey.alg, "RS256");
+    equal(keyPair.publicKey.use, "sig");
+    ok(keyPair.publicKey.n);
+    equal(keyPair.publicKey.d, undefined);
+    ok(keyPair.privateKey.d);
+  });
+
+  it("creates an assertion signed with RS256", () => {
+    const now = Math.floor(Date.now() / 1000);
+    const assertion = createClientAssertion({
+      channelId: "1234",
+      kid: "kid",
+      privateKey: keyPair.privateKey,
+    });
+    const [header, payload, signature] = assertion.split(".");
+
+    deepEqual(decode(header), { alg: "RS256", typ: "JWT", kid: "kid" });
+    const claims = decode(payload);
+    equal(claims.iss, "1234");
+    equal(claims.sub, "1234");
+    equal(claims.aud, "https://api.line.me/");
+    ok(claims.exp >= now + 30 * 60 && claims.exp <= now + 30 * 60 + 1);
+    equal(claims.token_exp, 30 * 24 * 60 * 60);
+    ok(
+      verify(
+        "sha256",
+        Buffer.from(`${header}.${payload}`),
+        createPublicKey({ key: keyPair.publicKey, format: "jwk" }),
+        Buffer.from(signature, "base64url"),
+      ),
+    );
+  });
+
+  it("takes a PEM and the expiries", () => {
+    const { privateKey } = generateKeyPairSync("rsa", { modulusLength: 2048 });
+    const assertion = createClientAssertion({
+      channelId: "1234",
+      kid: "kid",
+      privateKey: privateKey.export({ type: "pkcs8", format: "pem" }) as string,
+      expiresIn: 60,
+      tokenExpiresIn: 3600,
+    });
+
+    const claims = decode(assertion.split(".")[1]);
+    ok(claims.exp <= Math.floor(Date.now() / 1000) + 60);
+    equal(claims.token_exp, 3600);
+  });
+
+  it("rejects expiries over the limits", () => {
+    const config = {
+      channelId: "1234",
+      kid: "kid",
+      privateKey: keyPair.privateKey,
+    };
+    throws(
+      () => createClientAssertion({ ...config, expiresIn: 31 * 60 }),
+      RangeError,
+    );
+    throws(
+      () =>
+        createClientAssertion({
+          ...config,
+          tokenExpiresIn: 31 * 24 * 60 * 60,
+        }),
+      RangeError,
+    );
+  });
+
+  it("rejects keys other than RSA", () => {
+    const { privateKey } = generateKeyPairSync("ec", { namedCurve: "P-256" });
+    throws(
+      () =>
+        createClientAssertion({ channelId: "1234", kid: "kid", privateKey }),
+      TypeError,
+    );
+  });
+
+  it("issues channel access tokens v2.1 with the assertion", async () => {
+    const requests: Request[] = [];
+    const client = new channelAccessToken.ChannelAccessTokenClient({
+      baseURL: "http://localhost",
+      fetch: async (input, init) => {
+        requests.push(new Request(input, init));
+        return Response.json({
+          access_token: "token",
+          expires_in: 2592000,
+          token_type: "Bearer",
+          key_id: "key",
+        });
+      },
+    });
+    const provider = jwtChannelAccessTokenProvider(
+      () =>
+        createClientAssertion({
+          channelId: "1234",
+          kid: "kid",
+          privateKey: keyPair.privateKey,
+        }),
+      { client },
+    );
+
+    equal(await provider.getToken(), "token");
+    equal(new URL(requests[0].url).pathname, "/oauth2/v2.1/token");
+    const form = new URLSearchParams(await requests[0].text());
+    equal(decode(form.get("client_assertion")!.split(".")[1]).iss, "1234");
+  });
+});
@@ -0,0 +1,158 @@
+import { deepEqual, equal, ok } from "node:assert";
+import { createHmac } from "node:crypto";
+import {
+  fetchHandler,
+  JSONParseError,
+  validateSignatureWeb,
+  webhook,
+} from "../lib/index.js";
+import * as webhookFetch from "../lib/webhook-fetch.js";
+
+import { afterEach, describe, it, vi } from "vitest";
+
+const secret = "test_channel_secret";
+
+const body: webhook.CallbackRequest = {
+  destination: "Uaaaabbbbccccddddeeeeffff",
+  events: [],
+};
+
+const sign = (raw: string) =>
+  createHmac("SHA256", secret).update(raw).digest("base64");
+
+const request = (raw: string, signature?: string) =>
+  new Request("https://example.com/webhook", {
+    method: "POST",
+    headers: signature ? { "X-Line-Signature": signature } : {},
+    body: raw,
+  });
+
+describe("validateSignatureWeb", () => {
+  it("success", async () => {
+    const raw = JSON.stringify({ hello: "world" });
+    ok(await validateSignatureWeb(raw, secret, sign(raw)));
+  });
+
+  it("failure", async () => {
+    const raw = JSON.stringify({ hello: "world" });
+    ok(!(await validateSignatureWeb(raw, "wrong_secret", sign(raw))));
+    ok(!(await validateSignatureWeb(raw, secret, "not base64!")));
+  });
+
+  describe("without the crypto global", () => {
+    afterEach(() => {
+      vi.unstubAllGlobals();
+    });
+
+    it("falls back to node:crypto", async () => {
+      // ES modules on Node.js 18 have no crypto global
+      vi.stubGlobal("crypto", undefined);
+      const raw = JSON.stringify({ hello: "world" });
+
+      ok(await validateSignatureWeb(raw, secret, sign(raw)));
+      ok(!(await validateSignatureWeb(raw, "wrong_secret", sign(raw))));
+    });
+  });
+});
+
+describe("fetchHandler", () => {
+  it("passes the parsed body to the callback", async () => {
+    const raw = JSON.stringify(body);
+    let received: webhook.CallbackRequest | undefined;
+    const handle = fetchHandler({ channelSecret: secret }, parsed => {
+      received = parsed;
+    });
+
+    const res = await handle(request(raw, sign(raw)));
+
+    equal(res.status, 200);
+    deepEqual(received, body);
+  });
+
+  it("returns the response of the callback", async () => {
+    const raw = JSON.stringify(body);
+    const handle = fetchHandler({ channelSecret: secret }, () =>
+      Response.json({ ok: true }, { status: 202 }),
+    );
+
+    const res = await handle(request(raw, sign(raw)));
+
+    equal(res.status, 202);
+    deepEqual(await res.json(), { ok: true });
+  });
+
+  it("responds 401 without a signature", async () => {
+    const handle = fetchHandler({ channelSecret: secret }, () => {
+      ok(false);
+    });
+
+    const res = await handle(request(JSON.stringify(body)));
+
+    equal(res.status, 401);
+  });
+
+  it("responds 401 on a wrong signature", async () => {
+    const raw = JSON.stringify(body);
+    const handle = fetchHandler({ channelSecret: secret }, () => {
+      ok(false);
+    });
+
+    const res = await handle(request(raw, sign(raw + " ")));
+
+    equal(res.status, 401);
+  });
+
+  it("responds 400 on invalid JSON", async () => {
+    const raw = "i am not jason";
+    const handle = fetchHandler({ channelSecret: secret }, () => {
+      ok(false);
+    });
+
+    const res = await handle(request(raw, sign(raw)));
+
+    equal(res.status, 400);
+  });
+
+  it("uses onError to build error responses", async () => {
+    const raw = "i am not jason";
+    const handle = fetchHandler(
+      {
+        channelSecret: secret,
+        onError: err => {
+          ok(err instanceof JSONParseError);
+          equal(err.raw, raw);
+          return new Response("custom", { status: 418 });
+        },
+      },
+      () => {},
+    );
+
+    const res = await handle(request(raw, sign(raw)));
+
+    equal(res.status, 418);
+  });
+
+  it("throws without channelSecret", () => {
+    try {
+      fetchHandler({ channelSecret: null }, () => {});
+      ok(false);
+    } catch (err) {
+      equal(err.message, "no channel secret");
+    }
+  });
+});
+
+describe("webhook-fetch entry point", () => {
+  it("exports the handler of the package root", async () => {
+    equal(webhookFetch.fetchHandler, fetchHandler);
+    equal(webhookFetch.validateSignatureWeb, validateSignatureWeb);
+    equal(webhookFetch.JSONParseError, JSONParseError);
+
+    const raw = JSON.stringify(body);
+    const res = await webhookFetch.fetchHandler(
+      { channelSecret: secret },
+      () => {},
+    )(request(raw, sign(raw)));
+    equal(res.status, 200);
+  });
+});
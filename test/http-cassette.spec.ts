@@ -0,0 +1,215 @@
+import { deepEqual, equal, ok } from "node:assert";
+import { mkdtemp, readFile, rm } from "node:fs/promises";
+import { tmpdir } from "node:os";
+import { join } from "node:path";
+import {
+  CassetteError,
+  channelAccessToken,
+  HTTPCassette,
+  messagingApi,
+} from "../lib/index.js";
+import { getStreamData } from "./helpers/stream.js";
+
+import { describe, it, beforeEach, afterEach } from "vitest";
+
+const token = "test_channel_access_token";
+
+// a fake API, recorded as if it were the real one
+const api: typeof fetch = async (input, init) => {
+  const request = new Request(input, init);
+  const { pathname } = new URL(request.url);
+  const headers = { "x-line-request-id": `request_id_${pathname.length}` };
+  if (pathname === "/v2/bot/message/push") {
+    const { messages } = await request.json();
+    return Response.json(
+      {
+        sentMessages: messages.map((_: unknown, i: number) => ({ id: `${i}` })),
+      },
+      { headers },
+    );
+  }
+  if (pathname === "/v2/bot/message/1/content") {
+    return new Response(new Uint8Array([0xff, 0xd8, 0x00, 0x01]), {
+      headers: { ...headers, "content-type": "image/jpeg" },
+    });
+  }
+  if (pathname === "/oauth2/v3/token") {
+    return Response.json({ access_token: "issued_token", key_id: "kid" });
+  }
+  if (pathname === "/oauth2/v2.1/tokens/kid") {
+    return Response.json({ kids: ["kid"] }, { headers });
+  }
+  return Response.json({ message: "Not found" }, { status: 404, headers });
+};
+
+describe("http-cassette", () => {
+  let dir: string;
+  let path: string;
+  beforeEach(async () => {
+    dir = await mkdtemp(join(tmpdir(), "cassette-"));
+    path = join(dir, "cassette.json");
+  });
+  afterEach(async () => {
+    await rm(dir, { recursive: true, force: true });
+  });
+
+  const clients = (cassette: HTTPCassette) => ({
+    client: new messagingApi.MessagingApiClient({
+      channelAccessToken: token,
+      fetch: cassette.fetch,
+    }),
+    blobClient: new messagingApi.MessagingApiBlobClient({
+      channelAccessToken: token,
+      fetch: cassette.fetch,
+    }),
+    tokenClient: new channelAccessToken.ChannelAccessTokenClient({
+      fetch: cassette.fetch,
+    }),
+  });
+
+  const push = (client: messagingApi.MessagingApiClient, text: string) =>
+    client.pushMessageWithHttpInfo(
+      { to: "U1", messages: [{ type: "text", text }] },
+      "retry_key",
+    );
+
+  async function recordAll() {
+    const cassette = new HTTPCassette({ path, mode: "record", fetch: api });
+    const { client, blobClient, tokenClient } = clients(cassette);
+    await push(client, "hello");
+    await getStreamData(await blobClient.getMessageContent("1"));
+    await tokenClient.issueStatelessChannelToken(
+      "client_credentials",
+      "urn:ietf:params:oauth:client-assertion-type:jwt-bearer",
+      "header.payload.signature",
+    );
+    await cassette.save();
+  }
+
+  it("records interactions with secrets scrubbed", async () => {
+    await recordAll();
+
+    const text = await readFile(path, "utf8");
+    ok(!text.includes(token));
+    ok(!text.includes("header.payload.signature"));
+    ok(!text.includes("issued_token"));
+
+    const { interactions } = JSON.parse(text);
+    equal(interactions.length, 3);
+    equal(interactions[0].request.headers["authorization"], "Bearer ***");
+    equal(
+      interactions[0].response.headers["x-line-request-id"],
+      "request_id_20",
+    );
+    equal(interactions[1].response.body.encoding, "base64");
+  });
+
+  it("scrubs client assertions of queries", async () => {
+    const cassette = new HTTPCassette({ path, mode: "record", fetch: api });
+    const { tokenClient } = clients(cassette);
+    const getKids = () =>
+      tokenClient.getsAllValidChannelAccessTokenKeyIds(
+        "urn:ietf:params:oauth:client-assertion-type:jwt-bearer",
+        "header.payload.signature",
+      );
+    await getKids();
+    await cassette.save();
+
+    const text = await readFile(path, "utf8");
+    ok(!text.includes("header.payload.signature"));
+    const { interactions } = JSON.parse(text);
+    equal(
+      new URL(interactions[0].request.url).searchParams.get("clientAssertion"),
+      "***",
+    );
+
+    const replay = new HTTPCassette({ path, mode: "replay" });
+    deepEqual(
+      await clients(replay).tokenClient.getsAllValidChannelAccessTokenKeyIds(
+        "urn:ietf:params:oauth:client-assertion-type:jwt-bearer",
+        "other.payload.signature",
+      ),
+      { kids: ["kid"] },
+    );
+  });
+
+  it("replays recorded interactions", async () => {
+    await recordAll();
+    const cassette = new HTTPCassette({ path, mode: "replay" });
+    const { client, blobClient } = clients(cassette);
+
+    const { httpResponse, body } = await push(client, "hello");
+    deepEqual(body, { sentMessages: [{ id: "0" }] });
+    equal(httpResponse.headers.get("x-line-request-id"), "request_id_20");
+
+    const chunks: Buffer[] = [];
+    for await (const chunk of await blobClient.getMessageContent("1")) {
+      chunks.push(chunk);
+    }
+    deepEqual([...Buffer.concat(chunks)], [0xff, 0xd8, 0x00, 0x01]);
+    equal((await cassette.unusedInteractions()).length, 1);
+  });
+
+  it("rejects unmatched requests in strict mode", async () => {
+    await recordAll();
+    const cassette = new HTTPCassette({ path, mode: "replay" });
+    const { client } = clients(cassette);
+
+    try {
+      await push(client, "goodbye");
+      ok(false);
+    } catch (err) {
+      ok(err instanceof CassetteError);
+      equal(err.method, "POST");
+      equal(err.url, "https://api.line.me/v2/bot/message/push");
+      ok(err.message.includes("unused interactions"));
+    }
+  });
+
+  it("matches by method and path in loose mode", async () => {
+    await recordAll();
+    const cassette = new HTTPCassette({
+      path,
+      mode: "replay",
+      matching: "loose",
+    });
+    const { client } = clients(cassette);
+
+    await push(client, "goodbye");
+
+    // every interaction is replayed once
+    try {
+      await push(client, "goodbye");
+      ok(false);
+    } catch (err) {
+      ok(err instanceof CassetteError);
+      ok(err.message.includes("POST https://api.line.me/v2/bot/message/push"));
+    }
+  });
+
+  it("scrubs requests before recording and matching", async () => {
+    const scrubRequest = (request: any) => ({
+      ...request,
+      body: request.body && {
+        ...request.body,
+        data: request.body.data.replace(/U\d/g, "U***"),
+      },
+    });
+    const recorder = new HTTPCassette({
+      path,
+      mode: "record",
+      fetch: api,
+      scrubRequest,
+    });
+    await push(clients(recorder).client, "hello");
+    await recorder.save();
+    ok(!(await readFile(path, "utf8")).includes('\\"to\\":\\"U1'));
+
+    const player = new HTTPCassette({ path, mode: "replay", scrubRequest });
+    const { client } = clients(player);
+    await client.pushMessage(
+      { to: "U2", messages: [{ type: "text", text: "hello" }] },
+      "retry_key",
+    );
+  });
+});
@@ -1,5 +1,12 @@
 import { deepEqual, equal, ok } from "node:assert";
-import { HTTPFetchError } from "../lib/index.js";
+import {
+  BadRequestError,
+  HTTPFetchError,
+  NotFoundError,
+  RateLimitError,
+  ServerError,
+  UnauthorizedError,
+} from "../lib/index.js";
 import HTTPFetchClient, {
   convertResponseToReadable,
 } from "../lib/http-fetch.js";
@@ -8,8 +15,9 @@ import { http, HttpResponse } from "msw";
 import { setupServer } from "msw/node";
 import { join } from "node:path";
 import * as fs from "node:fs";
+import { getEventListeners } from "node:events";
 
-import { describe, it, beforeAll, afterAll, afterEach } from "vitest";
+import { describe, it, beforeAll, afterAll, afterEach, vi } from "vitest";
 
 const baseURL = "https://line.me";
 
@@ -219,6 +227,7 @@ describe("http(fetch)", () => {
       ok(false);
     } catch (err) {
       ok(err instanceof HTTPFetchError);
+      ok(err instanceof NotFoundError);
       equal(scope.isDone(), true);
       equal(err.status, 404);
       equal(err.headers.get("content-type"), "application/json");
@@ -245,3 +254,509 @@ describe("http(fetch)", () => {
     deepEqual(await res.json(), {});
   });
 });
+
+describe("http(fetch) retry", () => {
+  const server = setupServer();
+  beforeAll(() => {
+    server.listen();
+  });
+  afterAll(() => {
+    server.close();
+  });
+  afterEach(() => {
+    server.resetHandlers();
+  });
+
+  const client = new HTTPFetchClient({
+    baseURL,
+    defaultHeaders: {},
+    retry: { maxAttempts: 3, baseDelay: 1 },
+  });
+
+  const respond = (
+    method: "get" | "post",
+    path: string,
+    responses: (() => Response)[],
+  ) => {
+    const requests: Request[] = [];
+    server.use(
+      http[method](baseURL + path, ({ request }) => {
+        requests.push(request);
+        return responses[Math.min(requests.length, responses.length) - 1]();
+      }),
+    );
+    return requests;
+  };
+
+  it("retries 5xx and 429", async () => {
+    const requests = respond("get", "/get", [
+      () => new HttpResponse(null, { status: 503 }),
+      () => new HttpResponse(null, { status: 429 }),
+      () => HttpResponse.json({ ok: true }),
+    ]);
+
+    const res = await client.get("/get");
+
+    equal(requests.length, 3);
+    deepEqual(await res.json(), { ok: true });
+  });
+
+  it("gives up after maxAttempts", async () => {
+    const requests = respond("get", "/get", [
+      () => new HttpResponse(null, { status: 500 }),
+    ]);
+
+    try {
+      await client.get("/get");
+      ok(false);
+    } catch (err) {
+      ok(err instanceof HTTPFetchError);
+      equal(err.status, 500);
+    }
+    equal(requests.length, 3);
+  });
+
+  it("doesn't retry 4xx", async () => {
+    const requests = respond("get", "/get", [
+      () => new HttpResponse(null, { status: 400 }),
+    ]);
+
+    try {
+      await client.get("/get");
+      ok(false);
+    } catch (err) {
+      equal(err.status, 400);
+    }
+    equal(requests.length, 1);
+  });
+
+  it("honors Retry-After", async () => {
+    const requests = respond("get", "/get", [
+      () =>
+        new HttpResponse(null, {
+          status: 429,
+          headers: { "Retry-After": "0.05" },
+        }),
+      () => HttpResponse.json({}),
+    ]);
+
+    const start = Date.now();
+    await client.get("/get");
+
+    equal(requests.length, 2);
+    ok(Date.now() - start >= 45);
+  });
+
+  it("doesn't wait longer than maxDelay", async () => {
+    const requests = respond("get", "/get", [
+      () =>
+        new HttpResponse(null, {
+          status: 429,
+          headers: { "Retry-After": "3600" },
+        }),
+    ]);
+
+    try {
+      await client.get("/get");
+      ok(false);
+    } catch (err) {
+      equal(err.status, 429);
+    }
+    equal(requests.length, 1);
+  });
+
+  it("doesn't retry POST without a retry key", async () => {
+    const requests = respond("post", "/v2/bot/message/reply", [
+      () => new HttpResponse(null, { status: 500 }),
+    ]);
+
+    try {
+      await client.post("/v2/bot/message/reply", {});
+      ok(false);
+    } catch (err) {
+      equal(err.status, 500);
+    }
+    equal(requests.length, 1);
+  });
+
+  it("sends push messages with a stable retry key", async () => {
+    const requests = respond("post", "/v2/bot/message/push", [
+      () => new HttpResponse(null, { status: 500 }),
+      () =>
+        HttpResponse.json(
+          { message: "The retry key is already accepted" },
+          {
+            status: 409,
+            headers: { "x-line-accepted-request-id": "accepted_request_id" },
+          },
+        ),
+    ]);
+
+    const res = await client.post("/v2/bot/message/push", {});
+
+    equal(res.status, 409);
+    equal(res.headers.get("x-line-accepted-request-id"), "accepted_request_id");
+    deepEqual(await res.json(), { sentMessages: [] });
+    equal(requests.length, 2);
+    const keys = requests.map(r => r.headers.get("x-line-retry-key"));
+    ok(keys[0]);
+    equal(keys[0], keys[1]);
+  });
+
+  it("keeps the given retry key", async () => {
+    const requests = respond("post", "/v2/bot/message/multicast", [
+      () => HttpResponse.json({}),
+    ]);
+
+    await client.post(
+      "/v2/bot/message/multicast",
+      {},
+      { headers: { "X-Line-Retry-Key": "given_retry_key" } },
+    );
+
+    equal(requests[0].headers.get("x-line-retry-key"), "given_retry_key");
+  });
+});
+
+describe("http(fetch) retry before sending", () => {
+  it("doesn't retry failures of the token provider", async () => {
+    let fetched = 0;
+    const results: { status?: number; error?: unknown }[] = [];
+    const getToken = vi.fn(async () => {
+      throw new BadRequestError("400 - Bad Request", {
+        status: 400,
+        statusText: "Bad Request",
+        headers: new Headers(),
+        body: JSON.stringify({ error: "invalid_client" }),
+      });
+    });
+    const client = new HTTPFetchClient({
+      baseURL,
+      defaultHeaders: {},
+      channelAccessToken: { getToken },
+      retry: { baseDelay: 1 },
+      instrumentation: {
+        startApiCall: () => ({ end: result => results.push(result) }),
+      },
+      fetch: async () => {
+        fetched++;
+        return Response.json({});
+      },
+    });
+
+    try {
+      await client.get("/get");
+      ok(false);
+    } catch (err) {
+      ok(err instanceof BadRequestError);
+    }
+    equal(getToken.mock.calls.length, 1);
+    equal(fetched, 0);
+    equal(results[0].status, undefined);
+    ok(results[0].error instanceof BadRequestError);
+  });
+
+  it("doesn't retry failures of request interceptors", async () => {
+    let intercepted = 0;
+    const client = new HTTPFetchClient({
+      baseURL,
+      defaultHeaders: {},
+      retry: { baseDelay: 1 },
+      fetch: async () => Response.json({}),
+      requestInterceptors: [
+        () => {
+          intercepted++;
+          throw new TypeError("broken interceptor");
+        },
+      ],
+    });
+
+    try {
+      await client.get("/get");
+      ok(false);
+    } catch (err) {
+      ok(err instanceof TypeError);
+    }
+    equal(intercepted, 1);
+  });
+});
+
+describe("http(fetch) interceptors", () => {
+  it("runs interceptors in order", async () => {
+    const calls: string[] = [];
+    const sent: Request[] = [];
+    const client = new HTTPFetchClient({
+      baseURL,
+      defaultHeaders: {},
+      fetch: async (input, init) => {
+        sent.push(new Request(input, init));
+        return Response.json({ original: true });
+      },
+      requestInterceptors: [
+        request => {
+          calls.push("request 1");
+          request.headers["X-Trace-Id"] = "trace";
+        },
+        async request => {
+          calls.push("request 2");
+          return { ...request, url: new URL("/replaced", request.url) };
+        },
+      ],
+      responseInterceptors: [
+        (response, request) => {
+          calls.push(`response ${request.url.pathname}`);
+          return Response.json({ replaced: true });
+        },
+      ],
+    });
+
+    const res = await client.get("/get");
+
+    deepEqual(calls, ["request 1", "request 2", "response /replaced"]);
+    equal(sent[0].url, `${baseURL}/replaced`);
+    equal(sent[0].headers.get("X-Trace-Id"), "trace");
+    deepEqual(await res.json(), { replaced: true });
+  });
+
+  it("runs interceptors for every attempt", async () => {
+    let attempts = 0;
+    const headers: (string | null)[] = [];
+    const client = new HTTPFetchClient({
+      baseURL,
+      defaultHeaders: {},
+      retry: { baseDelay: 1 },
+      fetch: async (input, init) => {
+        headers.push(new Headers(init?.headers).get("X-Attempt"));
+        return new Response(null, { status: attempts < 3 ? 503 : 200 });
+      },
+      requestInterceptors: [
+        request => {
+          request.headers["X-Attempt"] = String(++attempts);
+        },
+      ],
+    });
+
+    await client.delete("/delete");
+
+    deepEqual(headers, ["1", "2", "3"]);
+  });
+});
+
+describe("http(fetch) request options", () => {
+  // responds after the request is aborted, like a hung server
+  const hang: typeof fetch = (input, init) =>
+    new Promise((resolve, reject) => {
+      init?.signal?.addEventListener("abort", () =>
+        reject(init.signal!.reason),
+      );
+    });
+
+  it("aborts requests with the signal", async () => {
+    const client = new HTTPFetchClient({
+      baseURL,
+      defaultHeaders: {},
+      fetch: hang,
+    });
+    const controller = new AbortController();
+
+    const promise = client.post("/post", {}, { signal: controller.signal });
+    controller.abort();
+
+    try {
+      await promise;
+      ok(false);
+    } catch (err) {
+      equal(err.name, "AbortError");
+    }
+  });
+
+  it("aborts requests after timeoutMs", async () => {
+    const client = new HTTPFetchClient({
+      baseURL,
+      defaultHeaders: {},
+      fetch: hang,
+      retry: { baseDelay: 1 },
+    });
+
+    try {
+      await client.get("/get", undefined, { timeoutMs: 10 });
+      ok(false);
+    } catch (err) {
+      equal(err.name, "TimeoutError");
+    }
+  });
+
+  it("releases the signal of the caller after timeoutMs calls", async () => {
+    const client = new HTTPFetchClient({
+      baseURL,
+      defaultHeaders: {},
+      fetch: async input =>
+        new URL(String(input)).pathname === "/error"
+          ? new Response("error", { status: 500 })
+          : new Response("body"),
+    });
+    const controller = new AbortController();
+    const config = { signal: controller.signal, timeoutMs: 60 * 1000 };
+
+    for (let i = 0; i < 20; i++) {
+      equal(await (await client.get("/get", undefined, config)).text(), "body");
+    }
+    const streamed = await client.get("/get", undefined, config);
+    equal(await getStreamData(convertResponseToReadable(streamed)), "body");
+    await (await client.get("/get", undefined, config)).body!.cancel();
+    try {
+      await client.get("/error", undefined, config);
+      ok(false);
+    } catch (err) {
+      ok(err instanceof ServerError);
+    }
+
+    equal(getEventListeners(controller.signal, "abort").length, 0);
+  });
+
+  it("aborts reading the body after timeoutMs", async () => {
+    const client = new HTTPFetchClient({
+      baseURL,
+      defaultHeaders: {},
+      fetch: async (input, init) =>
+        new Response(
+          new ReadableStream({
+            start(controller) {
+              controller.enqueue(new TextEncoder().encode("partial"));
+              init?.signal?.addEventListener("abort", () =>
+                controller.error(init.signal!.reason),
+              );
+            },
+          }),
+        ),
+    });
+
+    const response = await client.get("/get", undefined, { timeoutMs: 10 });
+    try {
+      await response.text();
+      ok(false);
+    } catch (err) {
+      equal(err.name, "TimeoutError");
+    }
+  });
+
+  it("emits errors of streamed bodies after timeoutMs", async () => {
+    const client = new HTTPFetchClient({
+      baseURL,
+      defaultHeaders: {},
+      fetch: async (input, init) =>
+        new Response(
+          new ReadableStream({
+            start(controller) {
+              controller.enqueue(new TextEncoder().encode("partial"));
+              init?.signal?.addEventListener("abort", () =>
+                controller.error(init.signal!.reason),
+              );
+            },
+          }),
+        ),
+    });
+
+    const response = await client.get("/get", undefined, { timeoutMs: 10 });
+    const stream = convertResponseToReadable(response);
+    const error = await new Promise<Error>(resolve => {
+      stream.on("error", resolve);
+      stream.resume();
+    });
+    equal(error.name, "TimeoutError");
+  });
+
+  it("sends extra headers with every verb", async () => {
+    const sent: Headers[] = [];
+    const client = new HTTPFetchClient({
+      baseURL,
+      defaultHeaders: { "X-Default": "default" },
+      fetch: async (input, init) => {
+        sent.push(new Headers(init?.headers));
+        return Response.json({});
+      },
+    });
+    const config = { headers: { "X-Extra": "extra" } };
+
+    await client.get("/get", undefined, config);
+    await client.post("/post", {}, config);
+    await client.put("/put", {}, config);
+    await client.postForm("/form", { a: "b" }, config);
+    await client.postFormMultipart("/multipart", new FormData(), config);
+    await client.putFormMultipart("/multipart", new FormData(), config);
+    await client.postBinaryContent("/binary", new Blob(["a"]), config);
+    await client.delete("/delete", undefined, config);
+
+    equal(sent.length, 8);
+    for (const headers of sent) {
+      equal(headers.get("X-Default"), "default");
+      equal(headers.get("X-Extra"), "extra");
+    }
+  });
+});
+
+describe("http(fetch) errors", () => {
+  const clientResponding = (response: () => Response) =>
+    new HTTPFetchClient({
+      baseURL,
+      defaultHeaders: {},
+      fetch: async () => response(),
+    });
+
+  it("parses error responses", async () => {
+    const client = clientResponding(() =>
+      Response.json(
+        {
+          message: "The request body has 2 error(s)",
+          details: [
+            { message: "May not be empty", property: "messages[2].text" },
+            {
+              message: "Must be one of the following values",
+              property: "messages[0].type",
+            },
+            { message: "Size must be between 1 and 5", property: "messages" },
+          ],
+        },
+        { status: 400, headers: { "x-line-request-id": "request_id" } },
+      ),
+    );
+
+    try {
+      await client.post("/v2/bot/message/push", {});
+      ok(false);
+    } catch (err) {
+      ok(err instanceof BadRequestError);
+      equal(err.name, "BadRequestError");
+      equal(err.requestId, "request_id");
+      equal(err.error.message, "The request body has 2 error(s)");
+      equal(err.details[0].message, "May not be empty");
+      equal(err.details[0].messageIndex, 2);
+      equal(err.details[2].messageIndex, undefined);
+      deepEqual(err.messageIndexes, [2, 0]);
+    }
+  });
+
+  it("throws the class of the status", async () => {
+    const cases: [number, Function][] = [
+      [401, UnauthorizedError],
+      [429, RateLimitError],
+      [500, ServerError],
+      [503, ServerError],
+      [418, HTTPFetchError],
+    ];
+    for (const [status, errorClass] of cases) {
+      const client = clientResponding(
+        () => new Response("not json", { status }),
+      );
+      try {
+        await client.get("/get");
+        ok(false);
+      } catch (err) {
+        equal(err.constructor, errorClass);
+        equal(err.body, "not json");
+        equal(err.error, undefined);
+        deepEqual(err.details, []);
+      }
+    }
+  });
+});
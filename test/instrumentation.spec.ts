@@ -0,0 +1,162 @@
+import { deepEqual, equal, ok } from "node:assert";
+import {
+  ApiCallAttributes,
+  ApiCallResult,
+  createCallbackRequest,
+  createEvent,
+  createMessageEvent,
+  Instrumentation,
+  messagingApi,
+  middleware,
+  multiChannelMiddleware,
+  NotFoundError,
+  signWebhookRequest,
+  SignatureValidationFailed,
+  WebhookAttributes,
+  WebhookResult,
+} from "../lib/index.js";
+
+import { describe, it } from "vitest";
+
+const channelSecret = "test_channel_secret";
+
+function recordingInstrumentation() {
+  const apiCalls: [ApiCallAttributes, ApiCallResult][] = [];
+  const webhooks: [WebhookAttributes, WebhookResult][] = [];
+  const instrumentation: Instrumentation = {
+    startApiCall: attributes => ({
+      end: result => apiCalls.push([attributes, result]),
+    }),
+    startWebhook: attributes => ({
+      end: result => webhooks.push([attributes, result]),
+    }),
+  };
+  return { instrumentation, apiCalls, webhooks };
+}
+
+describe("instrumentation", () => {
+  it("traces API calls with the path template", async () => {
+    const { instrumentation, apiCalls } = recordingInstrumentation();
+    let attempts = 0;
+    const client = new messagingApi.MessagingApiClient({
+      channelAccessToken: "test_channel_access_token",
+      instrumentation,
+      retry: { baseDelay: 1 },
+      fetch: async () =>
+        ++attempts < 2
+          ? new Response("", { status: 503 })
+          : Response.json(
+              { userId: "U1", displayName: "user" },
+              { headers: { "x-line-request-id": "request_id" } },
+            ),
+    });
+
+    await client.getProfile("U1");
+
+    equal(apiCalls.length, 1);
+    const [attributes, result] = apiCalls[0];
+    equal(attributes.method, "GET");
+    equal(attributes.path, "/v2/bot/profile/{userId}");
+    equal(attributes.url.pathname, "/v2/bot/profile/U1");
+    equal(result.status, 200);
+    equal(result.requestId, "request_id");
+    equal(result.retryCount, 1);
+    ok(result.duration >= 0);
+    equal(result.error, undefined);
+  });
+
+  it("traces failed API calls", async () => {
+    const { instrumentation, apiCalls } = recordingInstrumentation();
+    const client = new messagingApi.MessagingApiClient({
+      channelAccessToken: "test_channel_access_token",
+      instrumentation,
+      fetch: async () =>
+        Response.json(
+          { message: "Not found" },
+          { status: 404, headers: { "x-line-request-id": "request_id" } },
+        ),
+    });
+
+    try {
+      await client.getBotInfo();
+      ok(false);
+    } catch (err) {
+      ok(err instanceof NotFoundError);
+    }
+
+    const [attributes, result] = apiCalls[0];
+    equal(attributes.path, "/v2/bot/info");
+    equal(result.status, 404);
+    equal(result.requestId, "request_id");
+    equal(result.retryCount, 0);
+    ok(result.error instanceof NotFoundError);
+  });
+
+  it("ignores errors of the hooks", async () => {
+    const client = new messagingApi.MessagingApiClient({
+      channelAccessToken: "test_channel_access_token",
+      instrumentation: {
+        startApiCall: () => ({
+          end: () => {
+            throw new Error("broken exporter");
+          },
+        }),
+      },
+      fetch: async () => Response.json({ userId: "U1" }),
+    });
+
+    equal((await client.getBotInfo()).userId, "U1");
+  });
+
+  it("traces webhook requests with event counts", async () => {
+    const { instrumentation, webhooks } = recordingInstrumentation();
+    const { body, signature } = signWebhookRequest(
+      createCallbackRequest(
+        [
+          createMessageEvent("text"),
+          createEvent("follow"),
+          createMessageEvent("sticker"),
+        ],
+        "U0",
+      ),
+      channelSecret,
+    );
+    const handle = middleware({ channelSecret, instrumentation });
+
+    const err = await new Promise(resolve =>
+      handle(
+        { headers: { "x-line-signature": signature }, body } as any,
+        {} as any,
+        resolve,
+      ),
+    );
+
+    equal(err, undefined);
+    const [attributes, result] = webhooks[0];
+    equal(attributes.signed, true);
+    equal(result.destination, "U0");
+    equal(result.eventCount, 3);
+    deepEqual(result.eventTypes, { message: 2, follow: 1 });
+  });
+
+  it("traces rejected webhook requests", async () => {
+    const { instrumentation, webhooks } = recordingInstrumentation();
+    const handle = multiChannelMiddleware({
+      resolveChannel: () => ({ channelSecret }),
+      instrumentation,
+    });
+
+    const err = await new Promise(resolve =>
+      handle(
+        { headers: { "x-line-signature": "invalid" }, body: "{}" } as any,
+        {} as any,
+        resolve,
+      ),
+    );
+
+    ok(err instanceof SignatureValidationFailed);
+    const [, result] = webhooks[0];
+    equal(result.eventCount, 0);
+    ok(result.error instanceof SignatureValidationFailed);
+  });
+});
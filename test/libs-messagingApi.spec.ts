@@ -191,4 +191,50 @@ describe("messagingApi", () => {
     const blobClient = new messagingApi.MessagingApiBlobClient(config);
     equal(config.baseURL, undefined);
   });
+
+  it("sends requests with the given fetch and headers", async () => {
+    const requests: Request[] = [];
+    const client = new messagingApi.MessagingApiClient({
+      channelAccessToken,
+      defaultHeaders: { "X-Custom-Header": "custom" },
+      fetch: async (input, init) => {
+        requests.push(new Request(input, init));
+        return Response.json({ userId: "U1" });
+      },
+    });
+
+    const res = await client.getBotInfo();
+
+    equal(res.userId, "U1");
+    equal(requests.length, 1);
+    equal(requests[0].url, "https://api.line.me/v2/bot/info");
+    equal(requests[0].headers.get("X-Custom-Header"), "custom");
+    equal(
+      requests[0].headers.get("Authorization"),
+      `Bearer ${channelAccessToken}`,
+    );
+  });
+
+  it("passes request options of generated methods", async () => {
+    const requests: Request[] = [];
+    const client = new messagingApi.MessagingApiClient({
+      channelAccessToken,
+      fetch: async (input, init) => {
+        requests.push(new Request(input, init));
+        return Response.json({ sentMessages: [] });
+      },
+    });
+    const controller = new AbortController();
+
+    await client.pushMessage(
+      { to: "U1", messages: [{ type: "text", text: "hi" }] },
+      "retry_key",
+      { signal: controller.signal, headers: { "X-Extra": "extra" } },
+    );
+
+    equal(requests[0].headers.get("X-Extra"), "extra");
+    equal(requests[0].headers.get("X-Line-Retry-Key"), "retry_key");
+    controller.abort();
+    equal(requests[0].signal.aborted, true);
+  });
 });
@@ -0,0 +1,102 @@
+import { deepEqual, equal, ok, throws } from "node:assert";
+import { LineBotClient, RateLimiter, messagingApi } from "../lib/index.js";
+
+import { describe, it } from "vitest";
+
+describe("line-bot-client", () => {
+  const requests: Request[] = [];
+  const client = new LineBotClient({
+    channelAccessToken: "test_channel_access_token",
+    baseURLs: { api: "http://localhost:8080", data: "http://localhost:8081" },
+    defaultHeaders: { "X-Custom": "custom" },
+    fetch: async (input, init) => {
+      requests.push(new Request(input, init));
+      return Response.json({});
+    },
+  });
+
+  it("creates the clients once, when used", () => {
+    ok(client.messaging instanceof messagingApi.MessagingApiClient);
+    equal(client.messaging, client.messaging);
+    equal(client.shop, client.shop);
+  });
+
+  it("shares the configuration between the clients", async () => {
+    requests.length = 0;
+    await client.messaging.getBotInfo();
+    await client.messagingBlob.getMessageContentTranscodingByMessageId("1");
+    await client.insight.getNumberOfFollowers();
+    await client.liff.getAllLIFFApps();
+
+    deepEqual(
+      requests.map(request => new URL(request.url).origin),
+      [
+        "http://localhost:8080",
+        "http://localhost:8081",
+        "http://localhost:8080",
+        "http://localhost:8080",
+      ],
+    );
+    for (const request of requests) {
+      equal(
+        request.headers.get("Authorization"),
+        "Bearer test_channel_access_token",
+      );
+      equal(request.headers.get("X-Custom"), "custom");
+    }
+  });
+
+  it("sends channel access token requests without the token", async () => {
+    requests.length = 0;
+    await client.channelAccessToken.verifyChannelToken("token");
+
+    equal(requests[0].headers.get("Authorization"), null);
+  });
+
+  it("shares one rate limiter between the clients", async () => {
+    const rateLimiter = new RateLimiter({
+      limits: [{ path: /^\/v2\/bot\//, limit: 1, interval: 60 * 1000 }],
+      useDefaultLimits: false,
+    });
+    const limited = new LineBotClient({
+      channelAccessToken: "test_channel_access_token",
+      rateLimiter,
+      fetch: async () => Response.json({}),
+    });
+    const controller = new AbortController();
+
+    await limited.messaging.getBotInfo();
+    const waiting = limited.insight.getNumberOfFollowers(undefined, {
+      signal: controller.signal,
+    });
+    await new Promise(resolve => setTimeout(resolve, 0));
+
+    equal(limited.rateLimiter, rateLimiter);
+    equal(rateLimiter.queueDepth, 1);
+    controller.abort();
+    await waiting.catch(() => {});
+  });
+
+  it("creates a rate limiter on request", () => {
+    const limited = new LineBotClient({
+      channelAccessToken: "test_channel_access_token",
+      rateLimiter: true,
+    });
+
+    ok(limited.rateLimiter instanceof RateLimiter);
+    equal(
+      (limited.messaging as any).httpClient.rateLimiter,
+      limited.rateLimiter,
+    );
+    equal((limited.insight as any).httpClient.rateLimiter, limited.rateLimiter);
+  });
+
+  it("doesn't rate limit by default", () => {
+    equal(client.rateLimiter, undefined);
+    equal((client.messaging as any).httpClient.rateLimiter, undefined);
+  });
+
+  it("requires a channel access token", () => {
+    throws(() => new LineBotClient({ channelAccessToken: "" }));
+  });
+});
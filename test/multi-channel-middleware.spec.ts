@@ -0,0 +1,123 @@
+import { deepEqual, equal, ok } from "node:assert";
+import { createHmac } from "node:crypto";
+import {
+  ChannelContext,
+  ChannelResolverKey,
+  MultiChannelRequest,
+  SignatureValidationFailed,
+  multiChannelMiddleware,
+} from "../lib/index.js";
+import { Middleware } from "../lib/middleware.js";
+
+import { describe, it } from "vitest";
+
+interface TestChannel extends ChannelContext {
+  name: string;
+}
+
+const channels: Record<string, TestChannel> = {
+  Uaaaa: { name: "a", channelSecret: "secret_a" },
+  Ubbbb: { name: "b", channelSecret: ["new_secret_b", "old_secret_b"] },
+};
+
+const sign = (raw: string, secret: string) =>
+  createHmac("SHA256", secret).update(raw).digest("base64");
+
+const run = (
+  m: Middleware,
+  raw: string,
+  signature: string,
+  params: Record<string, string> = {},
+) =>
+  new Promise<{ req: MultiChannelRequest<TestChannel>; err?: Error }>(
+    resolve => {
+      const req: any = {
+        headers: { "x-line-signature": signature },
+        body: raw,
+        params,
+      };
+      m(req, null, err => resolve({ req, err }));
+    },
+  );
+
+describe("multiChannelMiddleware", () => {
+  const m = multiChannelMiddleware<TestChannel>({
+    resolveChannel: ({ destination, params }) =>
+      channels[params.channel || destination],
+  });
+
+  it("resolves the channel by destination", async () => {
+    const raw = JSON.stringify({ destination: "Uaaaa", events: [] });
+
+    const { req, err } = await run(m, raw, sign(raw, "secret_a"));
+
+    equal(err, undefined);
+    equal(req.channel.name, "a");
+    equal(req.channelSecret, "secret_a");
+    deepEqual(req.body, { destination: "Uaaaa", events: [] });
+  });
+
+  it("resolves the channel by route parameters", async () => {
+    const raw = JSON.stringify({ destination: "Uunknown", events: [] });
+
+    const { req, err } = await run(m, raw, sign(raw, "secret_a"), {
+      channel: "Uaaaa",
+    });
+
+    equal(err, undefined);
+    equal(req.channel.name, "a");
+  });
+
+  it("tries every candidate secret", async () => {
+    const raw = JSON.stringify({ destination: "Ubbbb", events: [] });
+
+    const { req, err } = await run(m, raw, sign(raw, "old_secret_b"));
+
+    equal(err, undefined);
+    equal(req.channel.name, "b");
+    equal(req.channelSecret, "old_secret_b");
+  });
+
+  it("fails with a secret of another channel", async () => {
+    const raw = JSON.stringify({ destination: "Ubbbb", events: [] });
+
+    const { err } = await run(m, raw, sign(raw, "secret_a"));
+
+    ok(err instanceof SignatureValidationFailed);
+    equal(err.message, "signature validation failed");
+  });
+
+  it("fails when no channel is resolved", async () => {
+    const raw = JSON.stringify({ destination: "Uunknown", events: [] });
+
+    const { err } = await run(m, raw, sign(raw, "secret_a"));
+
+    ok(err instanceof SignatureValidationFailed);
+    equal(err.message, "no channel secret");
+  });
+
+  it("supports async resolvers", async () => {
+    const keys: ChannelResolverKey[] = [];
+    const asyncMiddleware = multiChannelMiddleware({
+      resolveChannel: async key => {
+        keys.push(key);
+        return { channelSecret: "secret_a" };
+      },
+    });
+    const raw = JSON.stringify({ destination: "Uaaaa", events: [] });
+
+    const { err } = await run(asyncMiddleware, raw, sign(raw, "secret_a"));
+
+    equal(err, undefined);
+    equal(keys[0].destination, "Uaaaa");
+  });
+
+  it("throws without a resolver", () => {
+    try {
+      multiChannelMiddleware({ resolveChannel: null });
+      ok(false);
+    } catch (err) {
+      equal(err.message, "no channel resolver");
+    }
+  });
+});
@@ -0,0 +1,297 @@
+import { deepEqual, equal, ok } from "node:assert";
+import * as http from "node:http";
+import * as net from "node:net";
+import type { AddressInfo } from "node:net";
+import {
+  BadRequestError,
+  ConflictError,
+  LinePlatformEmulator,
+  messagingApi,
+  NotFoundError,
+  TEST_USER_ID,
+  UnauthorizedError,
+  validateSignature,
+  webhook,
+} from "../lib/index.js";
+
+import { describe, it, beforeAll, afterAll, afterEach } from "vitest";
+
+const channelSecret = "test_channel_secret";
+const channelAccessToken = "test_channel_access_token";
+
+describe("platform-emulator", () => {
+  const received: webhook.CallbackRequest[] = [];
+  // a bot replying to text messages by echoing them
+  const bot = http.createServer(async (req, res) => {
+    let body = "";
+    for await (const chunk of req) {
+      body += chunk;
+    }
+    ok(
+      validateSignature(
+        body,
+        channelSecret,
+        req.headers["x-line-signature"] as string,
+      ),
+    );
+    const callback: webhook.CallbackRequest = JSON.parse(body);
+    received.push(callback);
+    for (const event of callback.events) {
+      if (event.type === "message" && event.message.type === "text") {
+        await client.replyMessage({
+          replyToken: event.replyToken!,
+          messages: [{ type: "text", text: event.message.text }],
+        });
+      }
+    }
+    res.end("OK");
+  });
+
+  let emulator: LinePlatformEmulator;
+  let client: messagingApi.MessagingApiClient;
+  let blobClient: messagingApi.MessagingApiBlobClient;
+  let baseURL: string;
+
+  beforeAll(async () => {
+    await new Promise<void>(resolve => bot.listen(0, "127.0.0.1", resolve));
+    emulator = new LinePlatformEmulator({
+      channelSecret,
+      channelAccessToken,
+      webhookUrl: `http://127.0.0.1:${(bot.address() as AddressInfo).port}/`,
+    });
+    baseURL = await emulator.listen();
+    client = new messagingApi.MessagingApiClient({
+      channelAccessToken,
+      baseURL,
+    });
+    blobClient = new messagingApi.MessagingApiBlobClient({
+      channelAccessToken,
+      baseURL,
+    });
+  });
+  afterAll(async () => {
+    await emulator.close();
+    await new Promise(resolve => bot.close(resolve));
+  });
+  afterEach(() => {
+    emulator.clearSentMessages();
+    received.length = 0;
+  });
+
+  it("emits signed webhooks and takes replies", async () => {
+    const response = await emulator.sendText(TEST_USER_ID, "hello");
+
+    equal(response.status, 200);
+    equal(received[0].destination, (await client.getBotInfo()).userId);
+    const [sent] = emulator.sentMessages;
+    equal(sent.type, "reply");
+    deepEqual(sent.to, [TEST_USER_ID]);
+    deepEqual(sent.messages, [{ type: "text", text: "hello" }]);
+
+    // reply tokens can be used once
+    try {
+      await client.replyMessage({
+        replyToken: sent.replyToken!,
+        messages: [{ type: "text", text: "again" }],
+      });
+      ok(false);
+    } catch (err) {
+      ok(err instanceof BadRequestError);
+      equal(err.error?.message, "Invalid reply token");
+    }
+  });
+
+  it("stores pushed and multicast messages", async () => {
+    await client.pushMessage(
+      { to: TEST_USER_ID, messages: [{ type: "text", text: "push" }] },
+      "retry_key",
+    );
+    await client.multicast({
+      to: [TEST_USER_ID],
+      messages: [{ type: "sticker", packageId: "446", stickerId: "1988" }],
+    });
+
+    deepEqual(
+      emulator.sentMessages.map(sent => [sent.type, sent.to, sent.retryKey]),
+      [
+        ["push", [TEST_USER_ID], "retry_key"],
+        ["multicast", [TEST_USER_ID], undefined],
+      ],
+    );
+
+    try {
+      await client.pushMessage(
+        { to: TEST_USER_ID, messages: [{ type: "text", text: "push" }] },
+        "retry_key",
+      );
+      ok(false);
+    } catch (err) {
+      ok(err instanceof ConflictError);
+      ok(err.headers.has("x-line-accepted-request-id"));
+    }
+  });
+
+  it("resolves pushes accepted before with their retry key", async () => {
+    const retrying = new messagingApi.MessagingApiClient({
+      channelAccessToken,
+      baseURL,
+      retry: {},
+    });
+    const retryKey = "123e4567-e89b-42d3-a456-426614174000";
+    const push = () =>
+      retrying.pushMessageWithHttpInfo(
+        { to: TEST_USER_ID, messages: [{ type: "text", text: "once" }] },
+        retryKey,
+      );
+
+    const first = await push();
+    const second = await push();
+
+    equal(first.body.sentMessages.length, 1);
+    equal(second.httpResponse.status, 409);
+    ok(second.httpResponse.headers.get("x-line-accepted-request-id"));
+    deepEqual(second.body.sentMessages, []);
+  });
+
+  it("validates messages", async () => {
+    try {
+      await client.pushMessage({
+        to: "invalid",
+        messages: [
+          { type: "text", text: "ok" },
+          { type: "text", text: "" },
+        ],
+      });
+      ok(false);
+    } catch (err) {
+      ok(err instanceof BadRequestError);
+      deepEqual(
+        err.details.map(detail => detail.property),
+        ["to", "messages[1].text"],
+      );
+      deepEqual(err.messageIndexes, [1]);
+    }
+    equal(emulator.sentMessages.length, 0);
+  });
+
+  it("rejects bodies other than JSON objects", async () => {
+    for (const body of [
+      "{",
+      "null",
+      "[]",
+      '{"messages": [{"type": "constructor"}]}',
+    ]) {
+      const res = await fetch(`${emulator.url}/v2/bot/message/push`, {
+        method: "POST",
+        headers: {
+          Authorization: `Bearer ${channelAccessToken}`,
+          "Content-Type": "application/json",
+        },
+        body,
+      });
+      equal(res.status, 400, body);
+    }
+  });
+
+  it("survives clients disconnecting while sending bodies", async () => {
+    const { port } = new URL(emulator.url);
+    await new Promise<void>((resolve, reject) => {
+      const socket = net.connect(Number(port), "127.0.0.1", () => {
+        socket.write(
+          "POST /v2/bot/message/push HTTP/1.1\r\n" +
+            "Host: 127.0.0.1\r\n" +
+            "Content-Type: application/json\r\n" +
+            "Content-Length: 100\r\n\r\n" +
+            '{"to":',
+          () => {
+            socket.destroy();
+            resolve();
+          },
+        );
+      });
+      socket.on("error", reject);
+    });
+    // let the server see the disconnection
+    await new Promise(resolve => setTimeout(resolve, 50));
+
+    ok((await client.getBotInfo()).userId);
+  });
+
+  it("rejects other access tokens", async () => {
+    const other = new messagingApi.MessagingApiClient({
+      channelAccessToken: "other",
+      baseURL: emulator.url,
+    });
+    try {
+      await other.getBotInfo();
+      ok(false);
+    } catch (err) {
+      ok(err instanceof UnauthorizedError);
+    }
+  });
+
+  it("serves profiles and contents", async () => {
+    emulator.addUser({ userId: TEST_USER_ID, displayName: "user" });
+    equal((await client.getProfile(TEST_USER_ID)).displayName, "user");
+
+    await emulator.sendImage(TEST_USER_ID, new Uint8Array([1, 2, 3]));
+    const event = received[0].events[0] as webhook.MessageEvent;
+    const chunks: Buffer[] = [];
+    for await (const chunk of await blobClient.getMessageContent(
+      event.message.id,
+    )) {
+      chunks.push(chunk);
+    }
+    deepEqual([...Buffer.concat(chunks)], [1, 2, 3]);
+
+    try {
+      await client.getProfile("U00000000000000000000000000000000");
+      ok(false);
+    } catch (err) {
+      ok(err instanceof NotFoundError);
+    }
+  });
+
+  it("manages rich menus", async () => {
+    const { richMenuId } = await client.createRichMenu({
+      size: { width: 2500, height: 843 },
+      selected: false,
+      name: "menu",
+      chatBarText: "Menu",
+      areas: [
+        {
+          bounds: { x: 0, y: 0, width: 2500, height: 843 },
+          action: { type: "message", text: "hello" },
+        },
+      ],
+    });
+    await blobClient.setRichMenuImage(
+      richMenuId,
+      new Blob([new Uint8Array([0x89, 0x50])], { type: "image/png" }),
+    );
+    await client.linkRichMenuIdToUser(TEST_USER_ID, richMenuId);
+
+    equal((await client.getRichMenu(richMenuId)).name, "menu");
+    equal((await client.getRichMenuList()).richmenus.length, 1);
+    equal(
+      (await client.getRichMenuIdOfUser(TEST_USER_ID)).richMenuId,
+      richMenuId,
+    );
+
+    await client.deleteRichMenu(richMenuId);
+    try {
+      await client.getRichMenuIdOfUser(TEST_USER_ID);
+      ok(false);
+    } catch (err) {
+      ok(err instanceof NotFoundError);
+    }
+
+    try {
+      await client.createRichMenu({ size: { width: 1, height: 1 } });
+      ok(false);
+    } catch (err) {
+      ok(err instanceof BadRequestError);
+      ok(err.details.some(detail => detail.property === "size"));
+    }
+  });
+});
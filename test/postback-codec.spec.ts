@@ -0,0 +1,105 @@
+import { deepEqual, equal, ok } from "node:assert";
+import {
+  PostbackCodec,
+  PostbackDataError,
+  WebhookHandler,
+  webhook,
+} from "../lib/index.js";
+
+import { describe, it } from "vitest";
+
+const buy = new PostbackCodec("buy", {
+  itemId: "string",
+  quantity: "number",
+  gift: "boolean",
+});
+
+const postbackEvent = (
+  postback: webhook.PostbackContent,
+): webhook.PostbackEvent => ({
+  type: "postback",
+  timestamp: 0,
+  mode: "active",
+  source: { type: "user", userId: "test_user_id" },
+  webhookEventId: "test_webhook_event_id",
+  deliveryContext: { isRedelivery: false },
+  replyToken: "test_reply_token",
+  postback,
+});
+
+describe("PostbackCodec", () => {
+  it("encodes and decodes payloads", () => {
+    const payload = { itemId: "a,b%c", quantity: 3, gift: true };
+
+    const data = buy.encode(payload);
+
+    equal(data, "buy,a%2Cb%25c,3,1");
+    deepEqual(buy.decode(data), payload);
+  });
+
+  it("ignores data of other codecs", () => {
+    equal(buy.decode("buyback,1"), undefined);
+    equal(buy.decode("action=buy&itemId=1"), undefined);
+  });
+
+  it("throws on malformed data", () => {
+    try {
+      buy.decode("buy,1,notanumber,0");
+      ok(false);
+    } catch (err) {
+      ok(err instanceof PostbackDataError);
+      equal(err.data, "buy,1,notanumber,0");
+    }
+  });
+
+  it("throws before exceeding 300 characters", () => {
+    try {
+      buy.encode({ itemId: "x".repeat(300), quantity: 1, gift: false });
+      ok(false);
+    } catch (err) {
+      ok(err instanceof PostbackDataError);
+      equal(err.message, "postback data is longer than 300 characters: 308");
+    }
+  });
+
+  it("merges params of the postback content", () => {
+    const content = {
+      data: buy.encode({ itemId: "1", quantity: 2, gift: false }),
+      params: { datetime: "2017-12-25T01:00" },
+    };
+
+    deepEqual(buy.decodeContent(content), {
+      itemId: "1",
+      quantity: 2,
+      gift: false,
+      datetime: "2017-12-25T01:00",
+    });
+  });
+
+  it("dispatches postbacks in WebhookHandler", async () => {
+    const bought: string[] = [];
+    const others: string[] = [];
+    const handler = new WebhookHandler()
+      .onPostback(buy, (payload, event) => {
+        equal(event.type, "postback");
+        bought.push(`${payload.itemId}x${payload.quantity}`);
+      })
+      .on("postback", event => {
+        others.push(event.postback.data);
+      });
+
+    const summary = await handler.handle({
+      destination: "Uaaaabbbbccccddddeeeeffff",
+      events: [
+        postbackEvent({
+          data: buy.encode({ itemId: "1", quantity: 2, gift: false }),
+        }),
+        postbackEvent({ data: "richmenu=a" }),
+      ],
+    });
+
+    deepEqual(bought, ["1x2"]);
+    deepEqual(others, ["richmenu=a"]);
+    equal(summary.handled, 2);
+  });
+});
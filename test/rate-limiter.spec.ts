@@ -0,0 +1,127 @@
+import { deepEqual, equal, ok, throws } from "node:assert";
+import { RateLimiter } from "../lib/index.js";
+import HTTPFetchClient from "../lib/http-fetch.js";
+
+import { describe, it } from "vitest";
+
+const sleep = (ms: number) => new Promise(resolve => setTimeout(resolve, ms));
+
+describe("rate-limiter", () => {
+  it("queues requests beyond the limit", async () => {
+    const limiter = new RateLimiter({
+      limits: [{ path: "/v2/bot/profile/{userId}", limit: 2, interval: 100 }],
+      useDefaultLimits: false,
+    });
+    const startedAt = Date.now();
+    const acquired: number[] = [];
+
+    const all = Promise.all(
+      [0, 1, 2].map(i =>
+        limiter
+          .acquire("GET", `/v2/bot/profile/U${i}`)
+          .then(() => acquired.push(i)),
+      ),
+    );
+    await sleep(0);
+    deepEqual(acquired, [0, 1]);
+    equal(limiter.queueDepth, 1);
+    equal(limiter.getQueueDepths()[0].limit.path, "/v2/bot/profile/{userId}");
+
+    await all;
+    deepEqual(acquired, [0, 1, 2]);
+    equal(limiter.queueDepth, 0);
+    ok(Date.now() - startedAt >= 45);
+  });
+
+  it("applies the first matching limit", async () => {
+    const limiter = new RateLimiter({
+      limits: [
+        {
+          method: "POST",
+          path: "/v2/bot/message/push",
+          limit: 1,
+          interval: 60_000,
+        },
+      ],
+    });
+
+    await limiter.acquire("POST", "/v2/bot/message/push");
+    limiter.acquire("POST", "/v2/bot/message/push");
+    // other paths and methods are limited by the default limits
+    await limiter.acquire("POST", "/v2/bot/message/reply");
+    await limiter.acquire("GET", "/v2/bot/message/push");
+    equal(limiter.queueDepth, 1);
+    equal(limiter.getQueueDepths()[0].limit.path, "/v2/bot/message/push");
+  });
+
+  it("applies the documented limits", async () => {
+    const limiter = new RateLimiter();
+
+    for (let i = 0; i < 100; i++) {
+      await limiter.acquire("POST", "/v2/bot/richmenu");
+    }
+    limiter.acquire("POST", "/v2/bot/richmenu");
+    await limiter.acquire("POST", "/v2/bot/richmenu/validate");
+    equal(limiter.queueDepth, 1);
+  });
+
+  it("removes aborted requests from the queue", async () => {
+    const limiter = new RateLimiter({
+      limits: [{ path: /.*/, limit: 1, interval: 60_000 }],
+    });
+    const controller = new AbortController();
+
+    await limiter.acquire("GET", "/");
+    const waiting = limiter.acquire("GET", "/", controller.signal);
+    equal(limiter.queueDepth, 1);
+    controller.abort();
+
+    try {
+      await waiting;
+      ok(false);
+    } catch (err) {
+      equal(err.name, "AbortError");
+    }
+    equal(limiter.queueDepth, 0);
+  });
+
+  it("rejects invalid limits", () => {
+    throws(
+      () => new RateLimiter({ limits: [{ path: "/", limit: 0, interval: 1 }] }),
+    );
+  });
+
+  it("limits requests of the HTTP client", async () => {
+    const limiter = new RateLimiter({
+      limits: [{ path: "/v2/bot/info", limit: 1, interval: 60_000 }],
+    });
+    let sent = 0;
+    const client = new HTTPFetchClient({
+      baseURL: "https://api.line.me",
+      defaultHeaders: {},
+      rateLimiter: limiter,
+      fetch: async () => {
+        sent++;
+        return Response.json({});
+      },
+    });
+    const controller = new AbortController();
+
+    await client.get("/v2/bot/info");
+    const second = client.get("/v2/bot/info", undefined, {
+      signal: controller.signal,
+    });
+    await sleep(0);
+    equal(sent, 1);
+    equal(limiter.queueDepth, 1);
+
+    controller.abort();
+    try {
+      await second;
+      ok(false);
+    } catch (err) {
+      equal(err.name, "AbortError");
+    }
+    equal(sent, 1);
+  });
+});
@@ -0,0 +1,240 @@
+import {
+  ReplyBatch,
+  ReplyBatchError,
+  messagingApi,
+  webhook,
+  withReplyBatch,
+} from "../lib/index.js";
+import { http, HttpResponse } from "msw";
+import { setupServer } from "msw/node";
+import { deepEqual, equal, ok, rejects } from "node:assert";
+
+import { describe, it, beforeAll, afterAll, afterEach } from "vitest";
+
+const client = new messagingApi.MessagingApiClient({
+  channelAccessToken: "test_channel_access_token",
+});
+
+const event = (): webhook.MessageEvent => ({
+  type: "message",
+  timestamp: Date.now(),
+  mode: "active",
+  source: { type: "user", userId: "test_user_id" },
+  webhookEventId: "test_webhook_event_id",
+  deliveryContext: { isRedelivery: false },
+  replyToken: "test_reply_token",
+  message: {
+    type: "text",
+    id: "test_message_id",
+    text: "hello",
+    quoteToken: "test_quote_token",
+  },
+});
+
+const text = (text: string): messagingApi.TextMessage => ({
+  type: "text",
+  text,
+});
+
+describe("ReplyBatch", () => {
+  const server = setupServer();
+  const requests: { path: string; texts: string[] }[] = [];
+  // retry keys of the pushes
+  const retryKeys: string[] = [];
+  beforeAll(() => {
+    server.listen();
+  });
+  afterAll(() => {
+    server.close();
+  });
+  afterEach(() => {
+    server.resetHandlers();
+    requests.length = 0;
+    retryKeys.length = 0;
+  });
+
+  const mock = (failPush?: (texts: string[]) => boolean, replyStatus = 200) => {
+    const record = async (request: Request) => {
+      const body = await request.json();
+      const path = new URL(request.url).pathname;
+      const texts = body.messages.map((m: messagingApi.TextMessage) => m.text);
+      const retryKey = request.headers.get("X-Line-Retry-Key");
+      requests.push({ path, texts });
+      if (retryKey) {
+        retryKeys.push(retryKey);
+      }
+      if (path.endsWith("/reply") && replyStatus !== 200) {
+        return HttpResponse.json(
+          { message: "failed" },
+          { status: replyStatus },
+        );
+      }
+      return path.endsWith("/push") && failPush?.(texts)
+        ? HttpResponse.json({ message: "unavailable" }, { status: 500 })
+        : HttpResponse.json({ sentMessages: [] });
+    };
+    server.use(
+      http.post("https://api.line.me/v2/bot/message/reply", ({ request }) =>
+        record(request),
+      ),
+      http.post("https://api.line.me/v2/bot/message/push", ({ request }) =>
+        record(request),
+      ),
+    );
+  };
+
+  it("sends collected messages in one reply", async () => {
+    mock();
+    const batch = new ReplyBatch(client, event());
+
+    batch.reply(text("1"));
+    batch.reply(text("2"), text("3"));
+    equal(batch.pending, 3);
+    const results = await batch.flush();
+
+    equal(batch.pending, 0);
+    deepEqual(
+      results.map(r => r.method),
+      ["reply"],
+    );
+    deepEqual(requests, [
+      { path: "/v2/bot/message/reply", texts: ["1", "2", "3"] },
+    ]);
+  });
+
+  it("pushes messages beyond five", async () => {
+    mock();
+    const batch = new ReplyBatch(client, event());
+
+    for (let i = 1; i <= 12; i++) {
+      batch.reply(text(String(i)));
+    }
+    await batch.flush();
+
+    deepEqual(requests, [
+      { path: "/v2/bot/message/reply", texts: ["1", "2", "3", "4", "5"] },
+      { path: "/v2/bot/message/push", texts: ["6", "7", "8", "9", "10"] },
+      { path: "/v2/bot/message/push", texts: ["11", "12"] },
+    ]);
+  });
+
+  it("flushes when the handler completes", async () => {
+    mock();
+
+    const result = await withReplyBatch(client, event(), async batch => {
+      batch.reply(text("a"));
+      batch.reply(text("b"));
+      equal(requests.length, 0);
+      return "done";
+    });
+
+    equal(result, "done");
+    deepEqual(requests, [{ path: "/v2/bot/message/reply", texts: ["a", "b"] }]);
+  });
+
+  it("keeps the messages not sent when a push fails", async () => {
+    let failing = true;
+    mock(texts => failing && texts[0] === "11");
+    const batch = new ReplyBatch(client, event());
+    for (let i = 1; i <= 12; i++) {
+      batch.reply(text(String(i)));
+    }
+
+    let error: ReplyBatchError | undefined;
+    await rejects(batch.flush(), err => {
+      error = err as ReplyBatchError;
+      return err instanceof ReplyBatchError;
+    });
+    deepEqual(
+      error!.results.map(r => r.method),
+      ["reply", "push"],
+    );
+    equal(batch.pending, 2);
+    equal(error!.retryKey, retryKeys[1]);
+    ok(retryKeys[1] !== retryKeys[0]);
+
+    failing = false;
+    const results = await batch.flush();
+
+    equal(batch.pending, 0);
+    equal(results.length, 1);
+    deepEqual(requests[3], {
+      path: "/v2/bot/message/push",
+      texts: ["11", "12"],
+    });
+    equal(retryKeys[2], retryKeys[1]);
+  });
+
+  it("doesn't push a reply that may have been delivered", async () => {
+    // the reply is recorded as delivered, but the response is a 5xx
+    mock(undefined, 502);
+    const batch = new ReplyBatch(client, event());
+    for (let i = 1; i <= 7; i++) {
+      batch.reply(text(String(i)));
+    }
+
+    let error: ReplyBatchError | undefined;
+    await rejects(batch.flush(), err => {
+      error = err as ReplyBatchError;
+      return err instanceof ReplyBatchError;
+    });
+    equal(error!.deliveryUnknown, true);
+    equal(batch.pending, 2);
+
+    mock();
+    await batch.flush();
+
+    deepEqual(requests, [
+      { path: "/v2/bot/message/reply", texts: ["1", "2", "3", "4", "5"] },
+      { path: "/v2/bot/message/push", texts: ["6", "7"] },
+    ]);
+  });
+
+  it("pushes a reply rejected by the server on the next flush", async () => {
+    mock(undefined, 400);
+    const batch = new ReplyBatch(client, event());
+    batch.reply(text("1"));
+
+    let error: ReplyBatchError | undefined;
+    await rejects(batch.flush(), err => {
+      error = err as ReplyBatchError;
+      return err instanceof ReplyBatchError;
+    });
+    equal(error!.deliveryUnknown, false);
+    equal(batch.pending, 1);
+
+    mock();
+    const results = await batch.flush();
+
+    deepEqual(
+      results.map(r => r.method),
+      ["push"],
+    );
+  });
+
+  it("derives the retry keys of the pushes from the given key", async () => {
+    mock();
+    const retryKey = "123e4567-e89b-42d3-a456-426614174000";
+    const pushAll = async () => {
+      const batch = new ReplyBatch(client, {
+        ...event(),
+        timestamp: Date.now() - 60 * 1000,
+      });
+      for (let i = 1; i <= 7; i++) {
+        batch.reply(text(String(i)));
+      }
+      await batch.flush({ retryKey });
+    };
+
+    await pushAll();
+    await pushAll();
+
+    equal(retryKeys[0], retryKey);
+    ok(
+      /^[0-9a-f]{8}-[0-9a-f]{4}-5[0-9a-f]{3}-[89ab][0-9a-f]{3}-[0-9a-f]{12}$/.test(
+        retryKeys[1],
+      ),
+    );
+    deepEqual(retryKeys.slice(2), retryKeys.slice(0, 2));
+  });
+});
@@ -0,0 +1,153 @@
+import { ReplyContext, messagingApi, webhook } from "../lib/index.js";
+import { http, HttpResponse } from "msw";
+import { setupServer } from "msw/node";
+import { deepEqual, equal, ok } from "node:assert";
+
+import { describe, it, beforeAll, afterAll, afterEach } from "vitest";
+
+const client = new messagingApi.MessagingApiClient({
+  channelAccessToken: "test_channel_access_token",
+});
+
+const event = (timestamp = Date.now()): webhook.MessageEvent => ({
+  type: "message",
+  timestamp,
+  mode: "active",
+  source: { type: "group", groupId: "test_group_id", userId: "test_user_id" },
+  webhookEventId: "test_webhook_event_id",
+  deliveryContext: { isRedelivery: false },
+  replyToken: "test_reply_token",
+  message: {
+    type: "text",
+    id: "test_message_id",
+    text: "hello",
+    quoteToken: "test_quote_token",
+  },
+});
+
+const messages: messagingApi.Message[] = [{ type: "text", text: "hi" }];
+
+describe("ReplyContext", () => {
+  const server = setupServer();
+  beforeAll(() => {
+    server.listen();
+  });
+  afterAll(() => {
+    server.close();
+  });
+  afterEach(() => {
+    server.resetHandlers();
+  });
+
+  const requests: { path: string; body: any; retryKey: string | null }[] = [];
+  const mock = (replyResponse?: () => Response) => {
+    requests.length = 0;
+    const record = async (request: Request) => {
+      requests.push({
+        path: new URL(request.url).pathname,
+        body: await request.json(),
+        retryKey: request.headers.get("x-line-retry-key"),
+      });
+    };
+    server.use(
+      http.post("https://api.line.me/v2/bot/message/reply", async args => {
+        await record(args.request);
+        return replyResponse
+          ? replyResponse()
+          : HttpResponse.json({ sentMessages: [{ id: "reply" }] });
+      }),
+      http.post("https://api.line.me/v2/bot/message/push", async args => {
+        await record(args.request);
+        return HttpResponse.json({ sentMessages: [{ id: "push" }] });
+      }),
+    );
+  };
+
+  it("replies with a fresh reply token, then pushes", async () => {
+    mock();
+    const context = new ReplyContext(client, event());
+
+    ok(context.canReply);
+    const first = await context.send(messages);
+    const second = await context.send(messages);
+
+    equal(first.method, "reply");
+    equal(second.method, "push");
+    ok(second.retryKey);
+    deepEqual(
+      requests.map(r => r.path),
+      ["/v2/bot/message/reply", "/v2/bot/message/push"],
+    );
+    equal(requests[0].body.replyToken, "test_reply_token");
+    equal(requests[1].body.to, "test_group_id");
+    equal(requests[1].retryKey, second.retryKey);
+  });
+
+  it("pushes when the reply token is too old", async () => {
+    mock();
+    const context = new ReplyContext(client, event(Date.now() - 60 * 1000));
+
+    ok(!context.canReply);
+    const result = await context.send(messages, { retryKey: "KEY" });
+
+    equal(result.method, "push");
+    equal(result.retryKey, "KEY");
+    equal(requests.length, 1);
+    equal(requests[0].retryKey, "KEY");
+  });
+
+  it("pushes when the reply token is rejected", async () => {
+    mock(() =>
+      HttpResponse.json({ message: "Invalid reply token" }, { status: 400 }),
+    );
+    const context = new ReplyContext(client, event());
+
+    const result = await context.send(messages);
+
+    equal(result.method, "push");
+    deepEqual(result.sentMessages, [{ id: "push" }]);
+  });
+
+  it("throws other errors of replies", async () => {
+    mock(() =>
+      HttpResponse.json(
+        { message: "The request body has 1 error(s)" },
+        {
+          status: 400,
+        },
+      ),
+    );
+    const context = new ReplyContext(client, event());
+
+    try {
+      await context.send(messages);
+      ok(false);
+    } catch (err) {
+      equal(err.status, 400);
+    }
+    equal(requests.length, 1);
+  });
+
+  it("only matches the message of the error response", async () => {
+    mock(() =>
+      HttpResponse.json(
+        {
+          message: "The request body has 1 error(s)",
+          details: [
+            { message: "invalid reply token format", property: "messages[0]" },
+          ],
+        },
+        { status: 400 },
+      ),
+    );
+    const context = new ReplyContext(client, event());
+
+    try {
+      await context.send(messages);
+      ok(false);
+    } catch (err) {
+      equal(err.status, 400);
+    }
+    equal(requests.length, 1);
+  });
+});
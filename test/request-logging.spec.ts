@@ -0,0 +1,179 @@
+import { deepEqual, equal, ok } from "node:assert";
+import {
+  channelAccessToken,
+  HTTPLogEntry,
+  messagingApi,
+  PII_FIELDS,
+} from "../lib/index.js";
+
+import { describe, it } from "vitest";
+
+describe("request-logging", () => {
+  it("logs requests and responses without bodies by default", async () => {
+    const entries: HTTPLogEntry[] = [];
+    const client = new messagingApi.MessagingApiClient({
+      channelAccessToken: "test_channel_access_token",
+      logging: { log: entry => entries.push(entry) },
+      fetch: async () =>
+        Response.json(
+          { userId: "U1", displayName: "user" },
+          { headers: { "x-line-request-id": "request_id" } },
+        ),
+    });
+
+    await client.getProfile("U1");
+
+    equal(entries.length, 2);
+    const [request, response] = entries;
+    ok(request.type === "request");
+    equal(request.method, "GET");
+    equal(request.path, "/v2/bot/profile/{userId}");
+    equal(request.attempt, 1);
+    equal(request.headers["Authorization"], "Bearer ***");
+    equal(request.body, undefined);
+    ok(response.type === "response");
+    equal(response.status, 200);
+    equal(response.requestId, "request_id");
+    equal(response.body, undefined);
+  });
+
+  it("redacts personal data of bodies and queries", async () => {
+    const entries: HTTPLogEntry[] = [];
+    const client = new messagingApi.MessagingApiClient({
+      channelAccessToken: "test_channel_access_token",
+      logging: { log: entry => entries.push(entry), bodies: true },
+      fetch: async () =>
+        Response.json({ sentMessages: [{ id: "1", quoteToken: "q" }] }),
+    });
+
+    await client.pushMessage({
+      to: "U1",
+      messages: [{ type: "text", text: "hello" }],
+    });
+    await client.getFollowers("start_token", 10);
+
+    deepEqual(entries[0].type === "request" && entries[0].body, {
+      to: "***",
+      messages: [{ type: "text", text: "hello" }],
+    });
+    deepEqual(entries[1].type === "response" && entries[1].body, {
+      sentMessages: [{ id: "1", quoteToken: "q" }],
+    });
+    deepEqual(entries[2].type === "request" && entries[2].query, {
+      start: "start_token",
+      limit: "10",
+    });
+  });
+
+  it("redacts secrets of form bodies and token responses", async () => {
+    const entries: HTTPLogEntry[] = [];
+    const client = new channelAccessToken.ChannelAccessTokenClient({
+      logging: {
+        log: entry => entries.push(entry),
+        bodies: true,
+        redactFields: [],
+      },
+      fetch: async () =>
+        Response.json({
+          access_token: "issued_token",
+          expires_in: 2592000,
+          token_type: "Bearer",
+          key_id: "kid",
+        }),
+    });
+
+    await client.issueChannelTokenByJWT(
+      "client_credentials",
+      "urn:ietf:params:oauth:client-assertion-type:jwt-bearer",
+      "header.payload.signature",
+    );
+
+    deepEqual(entries[0].type === "request" && entries[0].body, {
+      grant_type: "client_credentials",
+      client_assertion_type:
+        "urn:ietf:params:oauth:client-assertion-type:jwt-bearer",
+      client_assertion: "***",
+    });
+    deepEqual(entries[1].type === "response" && entries[1].body, {
+      access_token: "***",
+      expires_in: 2592000,
+      token_type: "Bearer",
+      key_id: "kid",
+    });
+  });
+
+  it("redacts client assertions of queries", async () => {
+    const entries: HTTPLogEntry[] = [];
+    const client = new channelAccessToken.ChannelAccessTokenClient({
+      logging: { log: entry => entries.push(entry), redactFields: [] },
+      fetch: async () => Response.json({ kids: ["kid"] }),
+    });
+
+    await client.getsAllValidChannelAccessTokenKeyIds(
+      "urn:ietf:params:oauth:client-assertion-type:jwt-bearer",
+      "header.payload.signature",
+    );
+
+    deepEqual(entries[0].type === "request" && entries[0].query, {
+      clientAssertionType:
+        "urn:ietf:params:oauth:client-assertion-type:jwt-bearer",
+      clientAssertion: "***",
+    });
+  });
+
+  it("redacts the given fields", async () => {
+    const entries: HTTPLogEntry[] = [];
+    const client = new messagingApi.MessagingApiClient({
+      channelAccessToken: "test_channel_access_token",
+      logging: {
+        log: entry => entries.push(entry),
+        bodies: true,
+        redactFields: [...PII_FIELDS, "text"],
+      },
+      fetch: async () => Response.json({}),
+    });
+
+    await client.replyMessage({
+      replyToken: "reply_token",
+      messages: [{ type: "text", text: "secret plan" }],
+    });
+
+    deepEqual(entries[0].type === "request" && entries[0].body, {
+      replyToken: "reply_token",
+      messages: [{ type: "text", text: "***" }],
+    });
+  });
+
+  it("logs network errors of every attempt", async () => {
+    const entries: HTTPLogEntry[] = [];
+    let attempts = 0;
+    const client = new messagingApi.MessagingApiClient({
+      channelAccessToken: "test_channel_access_token",
+      logging: {
+        log: entry => {
+          entries.push(entry);
+          throw new Error("broken logger");
+        },
+      },
+      retry: { baseDelay: 1 },
+      fetch: async () => {
+        if (++attempts < 2) {
+          throw new TypeError("fetch failed");
+        }
+        return Response.json({ userId: "U0" });
+      },
+    });
+
+    equal((await client.getBotInfo()).userId, "U0");
+
+    deepEqual(
+      entries.map(entry => [entry.type, entry.attempt]),
+      [
+        ["request", 1],
+        ["error", 1],
+        ["request", 2],
+        ["response", 2],
+      ],
+    );
+  });
+});
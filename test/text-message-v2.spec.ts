@@ -0,0 +1,77 @@
+import { deepEqual, equal, ok } from "node:assert";
+import {
+  TextMessageV2Builder,
+  TextMessageV2Error,
+  allMention,
+  lineEmoji,
+  textV2,
+  userMention,
+} from "../lib/index.js";
+
+import { describe, it } from "vitest";
+
+describe("textV2", () => {
+  it("builds substitutions", () => {
+    deepEqual(
+      textV2`Hi ${userMention("U1")} and ${allMention()} ${lineEmoji("p", "e")}`,
+      {
+        type: "textV2",
+        text: "Hi {mention0} and {mention1} {emoji2}",
+        substitution: {
+          mention0: {
+            type: "mention",
+            mentionee: { type: "user", userId: "U1" },
+          },
+          mention1: { type: "mention", mentionee: { type: "all" } },
+          emoji2: { type: "emoji", productId: "p", emojiId: "e" },
+        },
+      },
+    );
+  });
+
+  it("escapes braces", () => {
+    deepEqual(textV2`{literal} ${"{value}"} ${1}`, {
+      type: "textV2",
+      text: "{{literal}} {{value}} 1",
+    });
+  });
+
+  it("shares keys of the same substitution", () => {
+    const message = new TextMessageV2Builder()
+      .mention("U1")
+      .append(", ")
+      .mention("U2")
+      .append(", ")
+      .mention("U1")
+      .build({ quoteToken: "test_quote_token" });
+
+    equal(message.text, "{mention0}, {mention1}, {mention0}");
+    deepEqual(Object.keys(message.substitution!), ["mention0", "mention1"]);
+    equal(message.quoteToken, "test_quote_token");
+  });
+
+  it("throws on too long text", () => {
+    try {
+      textV2`${"x".repeat(4999)}{`;
+      ok(false);
+    } catch (err) {
+      ok(err instanceof TextMessageV2Error);
+      equal(err.message, "text is longer than 5000 characters: 5001");
+    }
+  });
+
+  it("throws on too many substitutions", () => {
+    const builder = new TextMessageV2Builder();
+    for (let i = 0; i < 101; i++) {
+      builder.mention(`U${i}`);
+    }
+
+    try {
+      builder.build();
+      ok(false);
+    } catch (err) {
+      ok(err instanceof TextMessageV2Error);
+      equal(err.message, "more than 100 substitutions: 101");
+    }
+  });
+});
@@ -0,0 +1,158 @@
+import { deepEqual, equal, ok } from "node:assert";
+import {
+  BotMention,
+  createMessageEvent,
+  isMentioned,
+  messagingApi,
+  splitText,
+  stripMentions,
+  webhook,
+} from "../lib/index.js";
+import { http, HttpResponse } from "msw";
+import { setupServer } from "msw/node";
+
+import { describe, it, beforeAll, afterAll, afterEach } from "vitest";
+
+const BOT_USER_ID = "Ubot";
+
+const text = (
+  text: string,
+  mentionees: webhook.Mentionee[] = [],
+  emojis: webhook.Emoji[] = [],
+): webhook.TextMessageContent =>
+  createMessageEvent("text", {
+    text,
+    mention: mentionees.length ? { mentionees } : undefined,
+    emojis: emojis.length ? emojis : undefined,
+  }).message;
+
+// "😀" is a surrogate pair, counted as 2 in indexes
+const content = text(
+  "😀@bot hi @All $ bye",
+  [
+    { type: "user", index: 2, length: 4, userId: BOT_USER_ID },
+    { type: "all", index: 10, length: 4 },
+  ],
+  [{ index: 15, length: 1, productId: "p", emojiId: "e" }],
+);
+
+describe("splitText", () => {
+  it("splits text into segments", () => {
+    deepEqual(splitText(content), [
+      { type: "text", text: "😀" },
+      { type: "user", text: "@bot", userId: BOT_USER_ID, isSelf: undefined },
+      { type: "text", text: " hi " },
+      { type: "all", text: "@All" },
+      { type: "text", text: " " },
+      { type: "emoji", text: "$", productId: "p", emojiId: "e" },
+      { type: "text", text: " bye" },
+    ]);
+  });
+
+  it("ignores overlapping and out of range ranges", () => {
+    deepEqual(
+      splitText(
+        text("@a b", [
+          { type: "all", index: 0, length: 2 },
+          { type: "user", index: 1, length: 1 },
+          { type: "user", index: 3, length: 5 },
+        ]),
+      ),
+      [
+        { type: "all", text: "@a" },
+        { type: "text", text: " b" },
+      ],
+    );
+  });
+});
+
+describe("mentions", () => {
+  it("tells whether a user is mentioned", () => {
+    ok(isMentioned(content, BOT_USER_ID));
+    ok(!isMentioned(content, "Uother"));
+    ok(isMentioned(content, "Uother", true));
+  });
+
+  it("strips mentions", () => {
+    equal(stripMentions(content), "😀 hi $ bye");
+    equal(
+      stripMentions(
+        text("@bot  weather Tokyo", [{ type: "user", index: 0, length: 4 }]),
+      ),
+      "weather Tokyo",
+    );
+    equal(
+      stripMentions(content, segment => segment.type === "all"),
+      "😀@bot hi $ bye",
+    );
+  });
+});
+
+describe("BotMention", () => {
+  const server = setupServer();
+  let requests = 0;
+  beforeAll(() => {
+    server.listen();
+  });
+  afterAll(() => {
+    server.close();
+  });
+  afterEach(() => {
+    server.resetHandlers();
+    requests = 0;
+  });
+
+  const mention = () => {
+    server.use(
+      http.get("https://api.line.me/v2/bot/info", () => {
+        requests++;
+        return HttpResponse.json({ userId: BOT_USER_ID });
+      }),
+    );
+    return new BotMention(
+      new messagingApi.MessagingApiClient({
+        channelAccessToken: "test_channel_access_token",
+      }),
+    );
+  };
+
+  it("fetches the bot user ID once", async () => {
+    const botMention = mention();
+
+    ok(await botMention.isMentioned(content));
+    ok(
+      !(await botMention.isMentioned(
+        text("@someone", [
+          { type: "user", index: 0, length: 8, userId: "Uother" },
+        ]),
+      )),
+    );
+    equal(requests, 1);
+  });
+
+  it("doesn't fetch the bot user ID without mentions", async () => {
+    const botMention = mention();
+
+    ok(!(await botMention.isMentioned(text("hello"))));
+    ok(
+      await botMention.isMentioned(
+        text("@bot", [{ type: "user", index: 0, length: 4, isSelf: true }]),
+      ),
+    );
+    equal(requests, 0);
+  });
+
+  it("strips only mentions of the bot", async () => {
+    const botMention = mention();
+
+    equal(
+      await botMention.getCommandText(
+        text("@bot kick @someone", [
+          { type: "user", index: 0, length: 4, userId: BOT_USER_ID },
+          { type: "user", index: 10, length: 8, userId: "Uother" },
+        ]),
+      ),
+      "kick @someone",
+    );
+  });
+});
@@ -1,4 +1,4 @@
-import { ensureJSON } from "../lib/utils.js";
+import { ensureJSON, sleep, sourceId } from "../lib/utils.js";
 import { JSONParseError } from "../lib/exceptions.js";
 import { equal, ok } from "node:assert";
 
@@ -19,4 +19,27 @@ describe("utils", () => {
       }
     });
   });
+
+  describe("sleep", () => {
+    it("rejects when the signal is aborted", async () => {
+      const controller = new AbortController();
+      const sleeping = sleep(60 * 1000, controller.signal);
+      controller.abort(new Error("aborted"));
+      try {
+        await sleeping;
+        ok(false);
+      } catch (err) {
+        equal((err as Error).message, "aborted");
+      }
+    });
+  });
+
+  describe("sourceId", () => {
+    it("returns the ID of the user, group or room", () => {
+      equal(sourceId({ type: "user", userId: "U1" }), "U1");
+      equal(sourceId({ type: "group", groupId: "C1", userId: "U1" }), "C1");
+      equal(sourceId({ type: "room", roomId: "R1", userId: "U1" }), "R1");
+      equal(sourceId(undefined), undefined);
+    });
+  });
 });
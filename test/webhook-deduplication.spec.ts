@@ -0,0 +1,148 @@
+import { deepEqual, equal, ok } from "node:assert";
+import {
+  DuplicateEventInfo,
+  InMemoryWebhookEventIdStore,
+  WebhookDeduplicator,
+  WebhookHandler,
+  deduplicationMiddleware,
+  webhook,
+} from "../lib/index.js";
+
+import { describe, it } from "vitest";
+
+const event = (
+  webhookEventId: string,
+  isRedelivery = false,
+): webhook.PostbackEvent => ({
+  type: "postback",
+  timestamp: 0,
+  mode: "active",
+  source: { type: "user", userId: "test_user_id" },
+  webhookEventId,
+  deliveryContext: { isRedelivery },
+  replyToken: "test_reply_token",
+  postback: { data: "action=buy" },
+});
+
+describe("InMemoryWebhookEventIdStore", () => {
+  it("remembers IDs until they expire", async () => {
+    const store = new InMemoryWebhookEventIdStore();
+
+    ok(!store.markSeen("a", 1000));
+    ok(store.markSeen("a", 1000));
+    ok(!store.markSeen("b", -1));
+    ok(!store.markSeen("b", 1000));
+  });
+
+  it("evicts the oldest ID", () => {
+    const store = new InMemoryWebhookEventIdStore({ maxSize: 2 });
+
+    store.markSeen("a", 1000);
+    store.markSeen("b", 1000);
+    store.markSeen("c", 1000);
+
+    ok(!store.markSeen("a", 1000));
+    ok(store.markSeen("c", 1000));
+  });
+
+  it("forgets IDs", () => {
+    const store = new InMemoryWebhookEventIdStore();
+
+    store.markSeen("a", 1000);
+    store.forget("a");
+
+    ok(!store.markSeen("a", 1000));
+  });
+});
+
+describe("WebhookDeduplicator", () => {
+  it("skips events already received", async () => {
+    const deduplicator = new WebhookDeduplicator();
+
+    equal((await deduplicator.check(event("a"))).action, "process");
+    deepEqual(await deduplicator.check(event("a", true)), {
+      seen: true,
+      redelivery: true,
+      action: "skip",
+    });
+  });
+
+  it("lets onDuplicate decide the action", async () => {
+    const infos: DuplicateEventInfo[] = [];
+    const deduplicator = new WebhookDeduplicator({
+      onDuplicate: (e, info) => {
+        infos.push(info);
+        return info.seen ? "process" : undefined;
+      },
+    });
+
+    equal((await deduplicator.check(event("a"))).action, "process");
+    equal((await deduplicator.check(event("b", true))).action, "process");
+    equal((await deduplicator.check(event("a"))).action, "process");
+
+    deepEqual(infos, [
+      { seen: false, redelivery: true },
+      { seen: true, redelivery: false },
+    ]);
+  });
+
+  it("filters events", async () => {
+    const deduplicator = new WebhookDeduplicator();
+
+    const events = await deduplicator.filter([event("a"), event("b")]);
+    equal(events.length, 2);
+
+    const again = await deduplicator.filter([event("a"), event("c")]);
+    deepEqual(
+      again.map(e => e.webhookEventId),
+      ["c"],
+    );
+  });
+});
+
+describe("deduplicationMiddleware", () => {
+  it("removes duplicate events from the body", async () => {
+    const m = deduplicationMiddleware();
+    const run = (events: webhook.Event[]) =>
+      new Promise<any>((resolve, reject) => {
+        const req: any = { body: { destination: "U", events } };
+        m(req, null, err => (err ? reject(err) : resolve(req.body)));
+      });
+
+    await run([event("a")]);
+    const body = await run([event("a"), event("b")]);
+
+    deepEqual(
+      body.events.map((e: webhook.Event) => e.webhookEventId),
+      ["b"],
+    );
+  });
+});
+
+describe("WebhookHandler with deduplication", () => {
+  it("skips duplicates and processes them again after failures", async () => {
+    let calls = 0;
+    let fail = true;
+    const handler = new WebhookHandler({
+      deduplicator: new WebhookDeduplicator(),
+    }).on("postback", () => {
+      calls++;
+      if (fail) {
+        throw new Error("failed");
+      }
+    });
+    const request = (e: webhook.Event) => ({ destination: "U", events: [e] });
+
+    equal((await handler.handle(request(event("a")))).failed, 1);
+
+    fail = false;
+    const retried = await handler.handle(request(event("a", true)));
+    equal(retried.handled, 1);
+    equal(retried.results[0].duplicate, false);
+
+    const duplicate = await handler.handle(request(event("a", true)));
+    equal(duplicate.skipped, 1);
+    equal(duplicate.results[0].duplicate, true);
+    equal(calls, 2);
+  });
+});
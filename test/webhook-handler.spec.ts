@@ -0,0 +1,153 @@
+import { deepEqual, equal, ok } from "node:assert";
+import { WebhookHandler, webhook } from "../lib/index.js";
+
+import { describe, it } from "vitest";
+
+const DESTINATION = "Uaaaabbbbccccddddeeeeffff";
+
+const base = {
+  timestamp: 0,
+  mode: "active" as const,
+  source: { type: "user" as const, userId: "test_user_id" },
+  deliveryContext: { isRedelivery: false },
+};
+
+const textEvent: webhook.MessageEvent = {
+  ...base,
+  type: "message",
+  webhookEventId: "text",
+  replyToken: "test_reply_token",
+  message: {
+    type: "text",
+    id: "test_message_id",
+    text: "hello",
+    quoteToken: "test_quote_token",
+  },
+};
+
+const stickerEvent: webhook.MessageEvent = {
+  ...base,
+  type: "message",
+  webhookEventId: "sticker",
+  replyToken: "test_reply_token",
+  message: {
+    type: "sticker",
+    id: "test_message_id",
+    packageId: "1",
+    stickerId: "1",
+    stickerResourceType: "STATIC",
+    quoteToken: "test_quote_token",
+  },
+};
+
+const postbackEvent: webhook.PostbackEvent = {
+  ...base,
+  type: "postback",
+  webhookEventId: "postback",
+  replyToken: "test_reply_token",
+  postback: { data: "action=buy" },
+};
+
+const unknownEvent = {
+  ...base,
+  type: "greatNewEvent",
+  webhookEventId: "unknown",
+} as unknown as webhook.Event;
+
+const request = (...events: webhook.Event[]): webhook.CallbackRequest => ({
+  destination: DESTINATION,
+  events,
+});
+
+describe("WebhookHandler", () => {
+  it("dispatches by event type and message content type", async () => {
+    const texts: string[] = [];
+    const postbacks: string[] = [];
+
+    const handler = new WebhookHandler()
+      .on("message:text", event => {
+        texts.push(event.message.text);
+      })
+      .on("postback", (event, context) => {
+        equal(context.destination, DESTINATION);
+        postbacks.push(event.postback.data);
+      });
+
+    const summary = await handler.handle(request(textEvent, postbackEvent));
+
+    deepEqual(texts, ["hello"]);
+    deepEqual(postbacks, ["action=buy"]);
+    equal(summary.destination, DESTINATION);
+    equal(summary.handled, 2);
+    deepEqual(
+      summary.results.map(result => result.route),
+      ["message:text", "postback"],
+    );
+  });
+
+  it("prefers message content routes over the message route", async () => {
+    const calls: string[] = [];
+    const handler = new WebhookHandler()
+      .on("message", event => {
+        calls.push(`message:${event.message.type}`);
+      })
+      .on("message:text", () => {
+        calls.push("text");
+      });
+
+    await handler.handle(request(textEvent, stickerEvent));
+
+    deepEqual(calls, ["text", "message:sticker"]);
+  });
+
+  it("gives unmatched events to fallback handlers", async () => {
+    const fallbacks: string[] = [];
+    const handler = new WebhookHandler()
+      .on("postback", () => {})
+      .fallback(event => {
+        fallbacks.push(event.type);
+      });
+
+    const summary = await handler.handle(request(unknownEvent, postbackEvent));
+
+    deepEqual(fallbacks, ["greatNewEvent"]);
+    equal(summary.handled, 2);
+    equal(summary.results[0].route, undefined);
+    equal(summary.results[0].status, "handled");
+  });
+
+  it("reports events without any handler as unhandled", async () => {
+    const summary = await new WebhookHandler().handle(request(textEvent));
+
+    equal(summary.handled, 0);
+    equal(summary.unhandled, 1);
+    equal(summary.results[0].status, "unhandled");
+  });
+
+  it("captures errors per handler", async () => {
+    const reported: unknown[] = [];
+    let secondHandlerCalled = false;
+    const error = new Error("handler failed");
+
+    const handler = new WebhookHandler()
+      .on("postback", () => {
+        throw error;
+      })
+      .on("postback", async () => {
+        secondHandlerCalled = true;
+      })
+      .on("message", () => {})
+      .onError((err, event) => {
+        equal(event.type, "postback");
+        reported.push(err);
+      });
+
+    const summary = await handler.handle(request(postbackEvent, textEvent));
+
+    ok(secondHandlerCalled);
+    deepEqual(reported, [error]);
+    equal(summary.failed, 1);
+    equal(summary.handled, 1);
+    deepEqual(summary.results[0].errors, [error]);
+  });
+});
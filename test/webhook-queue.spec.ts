@@ -0,0 +1,170 @@
+import { deepEqual, equal, ok } from "node:assert";
+import { createHmac } from "node:crypto";
+import {
+  WebhookEventQueue,
+  acknowledgeMiddleware,
+  webhook,
+} from "../lib/index.js";
+
+import { describe, it } from "vitest";
+
+const event = (userId: string, webhookEventId: string): webhook.Event => ({
+  type: "postback",
+  timestamp: 0,
+  mode: "active",
+  source: { type: "user", userId },
+  webhookEventId,
+  deliveryContext: { isRedelivery: false },
+  replyToken: "test_reply_token",
+  postback: { data: webhookEventId },
+});
+
+const body = (...events: webhook.Event[]): webhook.CallbackRequest => ({
+  destination: "Uaaaabbbbccccddddeeeeffff",
+  events,
+});
+
+const tick = () => new Promise(resolve => setTimeout(resolve, 5));
+
+describe("WebhookEventQueue", () => {
+  it("keeps the order per source and runs sources concurrently", async () => {
+    const log: string[] = [];
+    const queue = new WebhookEventQueue({
+      handler: async e => {
+        log.push(`start:${e.webhookEventId}`);
+        await tick();
+        log.push(`end:${e.webhookEventId}`);
+      },
+    });
+
+    queue.push(body(event("a", "a1"), event("b", "b1"), event("a", "a2")));
+    equal(queue.size, 3);
+    await queue.drain();
+
+    equal(queue.size, 0);
+    ok(log.indexOf("start:b1") < log.indexOf("end:a1"));
+    ok(log.indexOf("end:a1") < log.indexOf("start:a2"));
+  });
+
+  it("limits concurrency", async () => {
+    let running = 0;
+    let maxRunning = 0;
+    const queue = new WebhookEventQueue({
+      concurrency: 2,
+      handler: async () => {
+        maxRunning = Math.max(maxRunning, ++running);
+        await tick();
+        running--;
+      },
+    });
+
+    queue.push(body(event("a", "1"), event("b", "2"), event("c", "3")));
+    await queue.drain();
+
+    equal(maxRunning, 2);
+  });
+
+  it("retries and gives up to the dead-letter callback", async () => {
+    const attempts: string[] = [];
+    const deadLetters: string[] = [];
+    const queue = new WebhookEventQueue({
+      retries: 2,
+      retryDelay: () => 0,
+      handler: e => {
+        attempts.push(e.webhookEventId);
+        if (e.webhookEventId === "fail" || attempts.length === 1) {
+          throw new Error("failed");
+        }
+      },
+      onDeadLetter: (e, err, context) => {
+        equal((err as Error).message, "failed");
+        equal(context.destination, "Uaaaabbbbccccddddeeeeffff");
+        deadLetters.push(e.webhookEventId);
+      },
+    });
+
+    queue.push(body(event("a", "ok"), event("a", "fail")));
+    await queue.drain();
+
+    deepEqual(attempts, ["ok", "ok", "fail", "fail", "fail"]);
+    deepEqual(deadLetters, ["fail"]);
+  });
+
+  it("dead-letters an event when the retry delay throws", async () => {
+    const handled: string[] = [];
+    const deadLetters: string[] = [];
+    const queue = new WebhookEventQueue({
+      retryDelay: () => {
+        throw new Error("no delay");
+      },
+      handler: e => {
+        if (e.webhookEventId === "fail") {
+          throw new Error("failed");
+        }
+        handled.push(e.webhookEventId);
+      },
+      onDeadLetter: (e, err) => {
+        equal((err as Error).message, "no delay");
+        deadLetters.push(e.webhookEventId);
+      },
+    });
+
+    queue.push(body(event("a", "fail"), event("a", "next")));
+    await queue.drain();
+
+    deepEqual(deadLetters, ["fail"]);
+    deepEqual(handled, ["next"]);
+    equal(queue.size, 0);
+  });
+
+  it("drains and stops accepting events on close", async () => {
+    const handled: string[] = [];
+    const queue = new WebhookEventQueue({
+      handler: async e => {
+        await tick();
+        handled.push(e.webhookEventId);
+      },
+    });
+
+    queue.push(body(event("a", "1"), event("a", "2")));
+    await queue.close();
+
+    deepEqual(handled, ["1", "2"]);
+    try {
+      queue.push(body(event("a", "3")));
+      ok(false);
+    } catch (err) {
+      equal(err.message, "queue is closed");
+    }
+  });
+});
+
+describe("acknowledgeMiddleware", () => {
+  it("responds before the events are processed", async () => {
+    const secret = "test_channel_secret";
+    const raw = JSON.stringify(body(event("a", "1")));
+    const signature = createHmac("SHA256", secret).update(raw).digest("base64");
+    const handled: string[] = [];
+    const queue = new WebhookEventQueue({
+      handler: async e => {
+        await tick();
+        handled.push(e.webhookEventId);
+      },
+    });
+
+    const res: any = {};
+    await new Promise<void>((resolve, reject) => {
+      res.end = resolve;
+      acknowledgeMiddleware({ channelSecret: secret }, queue)(
+        { headers: { "x-line-signature": signature }, body: raw } as any,
+        res,
+        reject,
+      );
+    });
+
+    equal(res.statusCode, 200);
+    deepEqual(handled, []);
+    await queue.drain();
+    deepEqual(handled, ["1"]);
+  });
+});
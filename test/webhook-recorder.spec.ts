@@ -0,0 +1,188 @@
+import { deepEqual, equal, ok } from "node:assert";
+import { existsSync } from "node:fs";
+import { mkdir, mkdtemp, readFile, rm } from "node:fs/promises";
+import { tmpdir } from "node:os";
+import { join } from "node:path";
+import {
+  FileWebhookRecorder,
+  WebhookRecording,
+  createCallbackRequest,
+  createEvent,
+  fetchHandler,
+  middleware,
+  readWebhookRecordings,
+  replayWebhookRecordings,
+  signWebhookRequest,
+  webhook,
+} from "../lib/index.js";
+import { Middleware } from "../lib/middleware.js";
+
+import { describe, it, beforeEach, afterEach } from "vitest";
+
+const secret = "test_channel_secret";
+
+const run = (m: Middleware, body: string, signature: string) =>
+  new Promise<Error | undefined>(resolve => {
+    const req: any = {
+      headers: { "x-line-signature": signature },
+      body,
+    };
+    m(req, null, err => resolve(err));
+  });
+
+const recording = (receivedAt: number, body: string): WebhookRecording => ({
+  receivedAt,
+  headers: { "x-line-signature": "recorded_signature" },
+  body,
+});
+
+describe("FileWebhookRecorder", () => {
+  let dir: string;
+  beforeEach(async () => {
+    dir = await mkdtemp(join(tmpdir(), "webhook-recorder-"));
+  });
+  afterEach(async () => {
+    await rm(dir, { recursive: true, force: true });
+  });
+
+  it("records raw requests from middleware", async () => {
+    const path = join(dir, "webhook.ndjson");
+    const recorder = new FileWebhookRecorder({ path });
+    const m = middleware({ channelSecret: secret, recorder });
+    const signed = signWebhookRequest(
+      createCallbackRequest([createEvent("follow")]),
+      secret,
+    );
+
+    equal(await run(m, signed.body, signed.signature), undefined);
+    ok(await run(m, signed.body, "wrong_signature"));
+    await recorder.flush();
+
+    const recordings = [];
+    for await (const recording of readWebhookRecordings(path)) {
+      recordings.push(recording);
+    }
+    equal(recordings.length, 2);
+    equal(recordings[0].body, signed.body);
+    equal(recordings[0].headers["x-line-signature"], signed.signature);
+    equal(recordings[1].headers["x-line-signature"], "wrong_signature");
+    ok(recordings[0].receivedAt <= recordings[1].receivedAt);
+  });
+
+  it("rotates files by size", async () => {
+    const path = join(dir, "webhook.ndjson");
+    const recorder = new FileWebhookRecorder({
+      path,
+      maxBytes: 150,
+      maxFiles: 2,
+    });
+
+    for (let i = 0; i < 4; i++) {
+      recorder.record(recording(i, "x".repeat(50) + i));
+    }
+    await recorder.flush();
+
+    const bodies = async (path: string) =>
+      (await readFile(path, "utf8"))
+        .trim()
+        .split("\n")
+        .map(line => JSON.parse(line).body.slice(-1));
+    deepEqual(await bodies(path), ["3"]);
+    deepEqual(await bodies(`${path}.1`), ["2"]);
+    deepEqual(await bodies(`${path}.2`), ["1"]);
+    ok(!existsSync(`${path}.3`));
+  });
+
+  it("redacts recordings", async () => {
+    const path = join(dir, "webhook.ndjson");
+    const recorder = new FileWebhookRecorder({
+      path,
+      redact: recording =>
+        recording.body.includes("drop")
+          ? undefined
+          : { ...recording, body: recording.body.replace(/U\w+/g, "U***") },
+    });
+
+    recorder.record(recording(0, '{"userId":"U1234"}'));
+    recorder.record(recording(1, "drop"));
+    await recorder.flush();
+
+    const lines = (await readFile(path, "utf8")).trim().split("\n");
+    equal(lines.length, 1);
+    equal(JSON.parse(lines[0]).body, '{"userId":"U***"}');
+  });
+
+  it("keeps writing after the error callback throws", async () => {
+    const path = join(dir, "missing", "webhook.ndjson");
+    const errors: unknown[] = [];
+    const recorder = new FileWebhookRecorder({
+      path,
+      onError: err => {
+        errors.push(err);
+        throw err;
+      },
+    });
+
+    recorder.record(recording(0, "lost"));
+    await recorder.flush();
+    await mkdir(join(dir, "missing"));
+    recorder.record(recording(1, "written"));
+    await recorder.flush();
+
+    equal(errors.length, 1);
+    const lines = (await readFile(path, "utf8")).trim().split("\n");
+    deepEqual(
+      lines.map(line => JSON.parse(line).body),
+      ["written"],
+    );
+  });
+});
+
+describe("replayWebhookRecordings", () => {
+  const body = JSON.stringify(createCallbackRequest([createEvent("unsend")]));
+
+  it("re-signs requests for a handler", async () => {
+    const received: webhook.CallbackRequest[] = [];
+    const handle = fetchHandler({ channelSecret: secret }, async body => {
+      received.push(body);
+    });
+
+    const results = await replayWebhookRecordings(
+      [recording(0, body), recording(1, body)],
+      handle,
+      { channelSecret: secret },
+    );
+
+    deepEqual(
+      results.map(r => r.response.status),
+      [200, 200],
+    );
+    equal(received.length, 2);
+  });
+
+  it("sends the recorded signatures without a secret", async () => {
+    const signatures: (string | null)[] = [];
+    await replayWebhookRecordings([recording(0, body)], async request => {
+      signatures.push(request.headers.get("x-line-signature"));
+      return new Response(null);
+    });
+
+    deepEqual(signatures, ["recorded_signature"]);
+  });
+
+  it("preserves the original timing", async () => {
+    const times: number[] = [];
+    const target = async () => {
+      times.push(Date.now());
+      return new Response(null);
+    };
+
+    await replayWebhookRecordings(
+      [recording(1000, body), recording(1100, body)],
+      target,
+      { preserveTiming: true },
+    );
+
+    ok(times[1] - times[0] >= 90);
+  });
+});
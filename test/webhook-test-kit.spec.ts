@@ -0,0 +1,93 @@
+import { deepEqual, equal, ok } from "node:assert";
+import {
+  createCallbackRequest,
+  createEvent,
+  createMessageEvent,
+  createPostbackEvent,
+  fetchHandler,
+  signWebhookRequest,
+  validateEvent,
+  validateSignature,
+  webhook,
+  TEST_DESTINATION,
+} from "../lib/index.js";
+import { schemas } from "../lib/webhook/model/schemas.js";
+
+import { describe, it } from "vitest";
+
+const secret = "test_channel_secret";
+
+describe("webhook test kit", () => {
+  it("builds valid events of every type", () => {
+    const types = Object.keys(
+      schemas.Event.discriminator!.mapping,
+    ) as webhook.Event["type"][];
+
+    for (const type of types) {
+      const event = createEvent(type);
+      equal(event.type, type);
+      const result = validateEvent(event, { mode: "strict" });
+      deepEqual(result.diagnostics, [], type);
+    }
+  });
+
+  it("builds valid messages of every type", () => {
+    const types = Object.keys(
+      schemas.MessageContent.discriminator!.mapping,
+    ) as webhook.MessageContent["type"][];
+
+    for (const type of types) {
+      const event = createMessageEvent(type);
+      equal(event.message.type, type);
+      const result = validateEvent(event, { mode: "strict" });
+      deepEqual(result.diagnostics, [], type);
+    }
+  });
+
+  it("applies overrides", () => {
+    const event = createMessageEvent(
+      "text",
+      { text: "hi" },
+      { source: { type: "room", roomId: "test_room_id" } },
+    );
+    equal(event.message.text, "hi");
+    deepEqual(event.source, { type: "room", roomId: "test_room_id" });
+
+    const postback = createPostbackEvent("action=buy", { date: "2017-12-25" });
+    deepEqual(postback.postback, {
+      data: "action=buy",
+      params: { date: "2017-12-25" },
+    });
+  });
+
+  it("gives each event its own id", () => {
+    const a = createEvent("follow");
+    const b = createEvent("follow");
+    ok(a.webhookEventId !== b.webhookEventId);
+    ok(a.replyToken !== b.replyToken);
+  });
+
+  it("signs requests", async () => {
+    const request = createCallbackRequest([createEvent("unsend")]);
+    const signed = signWebhookRequest(request, secret);
+
+    equal(request.destination, TEST_DESTINATION);
+    ok(validateSignature(signed.body, secret, signed.signature));
+    equal(signed.headers["x-line-signature"], signed.signature);
+
+    let received: webhook.CallbackRequest | undefined;
+    const handle = fetchHandler({ channelSecret: secret }, async body => {
+      received = body;
+    });
+    const res = await handle(
+      new Request("https://example.com/webhook", {
+        method: "POST",
+        headers: signed.headers,
+        body: signed.body,
+      }),
+    );
+
+    equal(res.status, 200);
+    deepEqual(received, request);
+  });
+});
@@ -0,0 +1,122 @@
+import { deepEqual, equal, ok } from "node:assert";
+import {
+  WebhookValidationError,
+  validateCallbackRequest,
+  validateEvent,
+  validateMessageContent,
+  validationMiddleware,
+} from "../lib/index.js";
+
+import { describe, it } from "vitest";
+
+const textEvent = () => ({
+  type: "message",
+  timestamp: 0,
+  mode: "active",
+  source: { type: "group", groupId: "test_group_id", userId: "test_user_id" },
+  webhookEventId: "test_webhook_event_id",
+  deliveryContext: { isRedelivery: false },
+  replyToken: "test_reply_token",
+  message: {
+    type: "text",
+    id: "test_message_id",
+    text: "@All hello",
+    quoteToken: "test_quote_token",
+    mention: {
+      mentionees: [{ type: "all", index: 0, length: 4 }],
+    },
+  },
+});
+
+const body = (...events: any[]) => ({
+  destination: "Uaaaabbbbccccddddeeeeffff",
+  events,
+});
+
+describe("webhook validation", () => {
+  it("accepts valid payloads", () => {
+    const { message, ...postback } = {
+      ...textEvent(),
+      type: "postback",
+      postback: { data: "action=buy", params: { date: "2017-09-03" } },
+    };
+
+    const result = validateCallbackRequest(body(textEvent(), postback), {
+      mode: "strict",
+    });
+
+    deepEqual(result.diagnostics, []);
+    ok(result.valid);
+  });
+
+  it("reports missing and mistyped properties", () => {
+    const event: any = textEvent();
+    delete event.webhookEventId;
+    event.timestamp = "0";
+    event.message.mention.mentionees[0].index = "0";
+
+    const result = validateEvent(event);
+
+    ok(!result.valid);
+    deepEqual(result.diagnostics, [
+      { path: "timestamp", message: "must be a number", severity: "error" },
+      { path: "webhookEventId", message: "is required", severity: "error" },
+      {
+        path: "message.mention.mentionees[0].index",
+        message: "must be a number",
+        severity: "error",
+      },
+    ]);
+  });
+
+  it("passes unknown properties and types through in lenient mode", () => {
+    const event: any = textEvent();
+    event.newField = "new";
+    const unknownEvent = { ...textEvent(), type: "greatNewEvent" };
+
+    const result = validateCallbackRequest(body(event, unknownEvent));
+
+    ok(result.valid);
+    deepEqual(
+      result.diagnostics.map(d => [d.path, d.severity]),
+      [
+        ["events[0].newField", "warning"],
+        ["events[1].type", "warning"],
+      ],
+    );
+  });
+
+  it("rejects unknown properties and types in strict mode", () => {
+    const message = { type: "newContent", id: "test_message_id" };
+
+    const result = validateMessageContent(message, { mode: "strict" });
+
+    ok(!result.valid);
+    deepEqual(result.diagnostics, [
+      {
+        path: "type",
+        message: 'unknown MessageContent "newContent"',
+        severity: "error",
+      },
+    ]);
+  });
+
+  it("rejects unknown enum values in strict mode", () => {
+    const event = { ...textEvent(), mode: "sleeping" };
+
+    ok(validateEvent(event).valid);
+    ok(!validateEvent(event, { mode: "strict" }).valid);
+  });
+
+  it("validates the request body in middleware", () => {
+    const m = validationMiddleware({ mode: "strict" });
+    const errors: Error[] = [];
+
+    m({ body: body(textEvent()) } as any, null, err => errors.push(err));
+    m({ body: { events: [] } } as any, null, err => errors.push(err));
+
+    equal(errors[0], undefined);
+    ok(errors[1] instanceof WebhookValidationError);
+    equal(errors[1].diagnostics[0].path, "destination");
+  });
+});